@@ -12,7 +12,8 @@ import CurriculumDashboard from '../components/CurriculumDashboard';
 import * as localStorage from '../utils/localStorage';
 
 // Mock localStorage utilities
-vi.mock('../utils/localStorage', () => ({
+vi.mock('../utils/localStorage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/localStorage')>(),
   saveCurriculumState: vi.fn(),
   loadCurriculumState: vi.fn(() => null),
 }));
@@ -21,7 +22,7 @@ const mockSaveCurriculumState = vi.mocked(localStorage.saveCurriculumState);
 const mockLoadCurriculumState = vi.mocked(localStorage.loadCurriculumState);
 
 const TestApp = () => (
-  <CurriculumProvider>
+  <CurriculumProvider saveDelayMs={0}>
     <CurriculumDashboard />
   </CurriculumProvider>
 );
@@ -29,7 +30,7 @@ const TestApp = () => (
 describe('Data Flow Integration Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    mockLoadCurriculumState.mockReturnValue(null);
+    mockLoadCurriculumState.mockResolvedValue(null);
   });
 
   it('should complete the full data flow: checkbox action → state update → UI update → localStorage save', async () => {
@@ -83,7 +84,7 @@ describe('Data Flow Integration Tests', () => {
     const savedState = mockSaveCurriculumState.mock.calls[0][0];
     expect(savedState).toHaveProperty('weeks');
     expect(savedState).toHaveProperty('overallProgress');
-    expect(savedState.weeks[0].courses[0].completed).toBe(true);
+    expect(savedState.weeks[0].courses[0].status).toBe('done');
   });
 
   it('should handle date changes and sync to localStorage', async () => {
@@ -140,7 +141,7 @@ describe('Data Flow Integration Tests', () => {
             {
               id: '1-1',
               name: 'QA 이슈 해결',
-              completed: true,
+              status: 'done' as const,
               startDate: new Date('2024-01-15'),
               endDate: new Date('2024-01-20')
             }
@@ -151,7 +152,7 @@ describe('Data Flow Integration Tests', () => {
       overallProgress: 100
     };
 
-    mockLoadCurriculumState.mockReturnValue(mockSavedState);
+    mockLoadCurriculumState.mockResolvedValue(mockSavedState);
 
     render(<TestApp />);
 
@@ -12,7 +12,8 @@ import { CurriculumProvider } from '../context/CurriculumContext';
 import * as localStorage from '../utils/localStorage';
 
 // Mock localStorage utilities
-vi.mock('../utils/localStorage', () => ({
+vi.mock('../utils/localStorage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/localStorage')>(),
   saveCurriculumState: vi.fn(),
   loadCurriculumState: vi.fn(),
 }));
@@ -31,7 +32,7 @@ describe('System Integration Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     // Mock initial load to return null (no saved data)
-    mockLoadCurriculumState.mockReturnValue(null);
+    mockLoadCurriculumState.mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -97,7 +98,7 @@ describe('System Integration Tests', () => {
 
       // Verify the saved state contains the completed course
       const savedState = mockSaveCurriculumState.mock.calls[0][0];
-      expect(savedState.weeks[0].courses[0].completed).toBe(true);
+      expect(savedState.weeks[0].courses[0].status).toBe('done');
     });
 
     it('should handle date setting → progress update → localStorage save', async () => {
@@ -161,7 +162,7 @@ describe('System Integration Tests', () => {
               {
                 id: '1-1',
                 name: 'QA 이슈 해결',
-                completed: true,
+                status: 'done' as const,
                 startDate: new Date('2024-01-15'),
                 endDate: new Date('2024-01-20')
               }
@@ -172,7 +173,7 @@ describe('System Integration Tests', () => {
         overallProgress: 3 // 1/35 courses completed
       };
 
-      mockLoadCurriculumState.mockReturnValue(mockSavedState);
+      mockLoadCurriculumState.mockResolvedValue(mockSavedState);
 
       render(
         <TestWrapper>
@@ -1,7 +1,8 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
-import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import CurriculumOverviewPage from '../page';
+import { CurriculumProvider } from '../../../../context/CurriculumContext';
 
 // Mock Next.js Link component
 vi.mock('next/link', () => ({
@@ -12,16 +13,26 @@ vi.mock('next/link', () => ({
   ),
 }));
 
+const renderPage = () => render(
+  <CurriculumProvider>
+    <CurriculumOverviewPage />
+  </CurriculumProvider>
+);
+
 describe('CurriculumOverviewPage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
   it('renders page title and description', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     expect(screen.getByText('커리큘럼 개요')).toBeInTheDocument();
     expect(screen.getByText(/전체 \d+주차 커리큘럼을 한 눈에 확인하세요/)).toBeInTheDocument();
   });
 
   it('displays statistics cards', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     expect(screen.getByText('전체 기간')).toBeInTheDocument();
     expect(screen.getByText('총 과정 수')).toBeInTheDocument();
@@ -29,7 +40,7 @@ describe('CurriculumOverviewPage', () => {
   });
 
   it('shows navigation link to main page', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     const backLink = screen.getByText('진도 관리로 돌아가기');
     expect(backLink).toBeInTheDocument();
@@ -37,7 +48,7 @@ describe('CurriculumOverviewPage', () => {
   });
 
   it('displays curriculum data in desktop table', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     // Check table headers
     expect(screen.getByText('주차')).toBeInTheDocument();
@@ -46,7 +57,7 @@ describe('CurriculumOverviewPage', () => {
   });
 
   it('displays curriculum data in mobile cards', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     // Check for week titles (should appear in both desktop and mobile views)
     expect(screen.getAllByText('1주차')).toHaveLength(2); // Desktop table + mobile card
@@ -54,7 +65,7 @@ describe('CurriculumOverviewPage', () => {
   });
 
   it('shows course names from curriculum data', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     // Check for some specific course names (appear in both desktop and mobile views)
     expect(screen.getAllByText('QA 이슈 해결')).toHaveLength(2);
@@ -62,7 +73,7 @@ describe('CurriculumOverviewPage', () => {
   });
 
   it('displays footer information', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     expect(screen.getByText((content) => {
       return content.includes('개 과정으로 구성된') && content.includes('주차 커리큘럼입니다');
@@ -70,10 +81,20 @@ describe('CurriculumOverviewPage', () => {
   });
 
   it('has proper accessibility attributes', () => {
-    render(<CurriculumOverviewPage />);
+    renderPage();
     
     // Check for proper heading structure
     const mainHeading = screen.getByRole('heading', { level: 1 });
     expect(mainHeading).toHaveTextContent('커리큘럼 개요');
   });
-});
\ No newline at end of file
+
+  it('shows the courses of the active track', async () => {
+    renderPage();
+
+    fireEvent.change(screen.getByLabelText('트랙'), { target: { value: 'backend' } });
+
+    expect(await screen.findByText(/백엔드 트랙 · 전체 8주차/)).toBeInTheDocument();
+    expect(screen.getAllByText('2장 > Express 라우터 구성')).toHaveLength(2);
+    expect(screen.queryByText('QA 이슈 해결')).not.toBeInTheDocument();
+  });
+});
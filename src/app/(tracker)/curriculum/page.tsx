@@ -1,14 +1,19 @@
 'use client';
 
 import React from 'react';
-import { initialCurriculumData } from '../../data/initialCurriculum';
 import Link from 'next/link';
+import { useCurriculum } from '../../../context/CurriculumContext';
+import CurriculumSwitcher from '../../../components/CurriculumSwitcher';
 
 /**
  * 커리큘럼 개요 페이지
- * 전체 커리큘럼을 한 눈에 볼 수 있는 읽기 전용 테이블
+ * 현재 선택된 트랙의 전체 커리큘럼을 한 눈에 볼 수 있는 읽기 전용 테이블
  */
 export default function CurriculumOverviewPage() {
+  const { state, curricula, activeCurriculumId } = useCurriculum();
+  const curriculumData = state.weeks;
+  const activeCurriculum = curricula.find(curriculum => curriculum.id === activeCurriculumId);
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
@@ -20,15 +25,18 @@ export default function CurriculumOverviewPage() {
                 커리큘럼 개요
               </h1>
               <p className="text-muted-foreground">
-                전체 {initialCurriculumData.length}주차 커리큘럼을 한 눈에 확인하세요
+                {activeCurriculum ? `${activeCurriculum.title} · ` : ''}전체 {curriculumData.length}주차 커리큘럼을 한 눈에 확인하세요
               </p>
             </div>
-            <Link 
-              href="/"
-              className="inline-flex items-center px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
-            >
-              진도 관리로 돌아가기
-            </Link>
+            <div className="flex flex-col sm:items-end gap-2">
+              <CurriculumSwitcher />
+              <Link 
+                href="/"
+                className="inline-flex items-center px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+              >
+                진도 관리로 돌아가기
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -36,19 +44,19 @@ export default function CurriculumOverviewPage() {
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
           <div className="bg-card border border-border rounded-lg p-4">
             <div className="text-2xl font-bold text-primary">
-              {initialCurriculumData.length}주차
+              {curriculumData.length}주차
             </div>
             <div className="text-sm text-muted-foreground">전체 기간</div>
           </div>
           <div className="bg-card border border-border rounded-lg p-4">
             <div className="text-2xl font-bold text-primary">
-              {initialCurriculumData.reduce((total, week) => total + week.courses.length, 0)}개
+              {curriculumData.reduce((total, week) => total + week.courses.length, 0)}개
             </div>
             <div className="text-sm text-muted-foreground">총 과정 수</div>
           </div>
           <div className="bg-card border border-border rounded-lg p-4">
             <div className="text-2xl font-bold text-primary">
-              {Math.round(initialCurriculumData.reduce((total, week) => total + week.courses.length, 0) / initialCurriculumData.length * 10) / 10}개
+              {Math.round(curriculumData.reduce((total, week) => total + week.courses.length, 0) / curriculumData.length * 10) / 10}개
             </div>
             <div className="text-sm text-muted-foreground">주당 평균 과정</div>
           </div>
@@ -72,7 +80,7 @@ export default function CurriculumOverviewPage() {
                 </tr>
               </thead>
               <tbody>
-                {initialCurriculumData.map((week, weekIndex) => (
+                {curriculumData.map((week, weekIndex) => (
                   <React.Fragment key={week.id}>
                     {week.courses.map((course, courseIndex) => (
                       <tr 
@@ -133,7 +141,7 @@ export default function CurriculumOverviewPage() {
 
         {/* 모바일 카드 뷰 */}
         <div className="md:hidden space-y-4">
-          {initialCurriculumData.map((week) => (
+          {curriculumData.map((week) => (
             <div 
               key={week.id}
               className="bg-card border border-border rounded-lg overflow-hidden"
@@ -179,8 +187,8 @@ export default function CurriculumOverviewPage() {
         {/* 푸터 정보 */}
         <div className="mt-8 text-center text-sm text-muted-foreground">
           <p>
-            총 {initialCurriculumData.reduce((total, week) => total + week.courses.length, 0)}개 과정으로 구성된 
-            {initialCurriculumData.length}주차 커리큘럼입니다.
+            총 {curriculumData.reduce((total, week) => total + week.courses.length, 0)}개 과정으로 구성된 
+            {curriculumData.length}주차 커리큘럼입니다.
           </p>
         </div>
       </div>
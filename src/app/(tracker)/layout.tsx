@@ -0,0 +1,20 @@
+import { LearnerProfileProvider } from "../../context/LearnerProfileContext";
+import { ProgressEncryptionProvider } from "../../context/ProgressEncryptionContext";
+
+/**
+ * Pages that work on the learner's own saved progress
+ * Share links live outside this group, so opening one never reads or writes the browser storage
+ */
+export default function TrackerLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <LearnerProfileProvider>
+      <ProgressEncryptionProvider progressSyncEndpoint={process.env.NEXT_PUBLIC_PROGRESS_SYNC_ENDPOINT || undefined}>
+        {children}
+      </ProgressEncryptionProvider>
+    </LearnerProfileProvider>
+  );
+}
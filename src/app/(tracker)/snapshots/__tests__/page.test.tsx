@@ -0,0 +1,83 @@
+import React from 'react';
+import { render, screen, fireEvent, act, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import SnapshotsPage from '../page';
+import { CurriculumProvider, useCurriculum } from '../../../../context/CurriculumContext';
+import { createMemoryStorageAdapter } from '../../../../utils/storageAdapters';
+import { getStorageKey } from '../../../../utils/localStorage';
+import { getSnapshotStorageKey } from '../../../../utils/progressSnapshots';
+
+// Mock Next.js Link component
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: { children: React.ReactNode; href: string; [key: string]: unknown }) => (
+    <a href={href} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+const FirstCourseStatus: React.FC = () => {
+  const { state } = useCurriculum();
+  return <p data-testid="first-course-status">{state.weeks[0]?.courses[0]?.status}</p>;
+};
+
+const savedProgress = (status: string, lastUpdated: string) => ({
+  version: '1.1.0',
+  lastUpdated,
+  curriculum: { '1': { '1-1': { status } } }
+});
+
+const renderPage = async () => {
+  const storage = createMemoryStorageAdapter({
+    [getStorageKey('frontend')]: JSON.stringify(savedProgress('in-progress', '2024-02-03T00:00:00.000Z')),
+    [getSnapshotStorageKey('frontend')]: JSON.stringify([{
+      id: 'daily-1',
+      kind: 'daily',
+      createdAt: '2024-02-01T09:00:00.000Z',
+      overallProgress: 4,
+      data: savedProgress('done', '2024-02-01T09:00:00.000Z')
+    }])
+  });
+  render(
+    <CurriculumProvider storageAdapter={storage}>
+      <SnapshotsPage />
+      <FirstCourseStatus />
+    </CurriculumProvider>
+  );
+  await act(async () => {});
+  return storage;
+};
+
+describe('SnapshotsPage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('should list snapshots with their kind and overall progress', async () => {
+    await renderPage();
+
+    const table = screen.getByRole('table', { name: '보관된 스냅샷' });
+    expect(within(table).getByText('일일 스냅샷')).toBeInTheDocument();
+    expect(within(table).getByText('4%')).toBeInTheDocument();
+  });
+
+  it('should preview how a snapshot differs and restore it', async () => {
+    const storage = await renderPage();
+
+    fireEvent.click(screen.getByRole('button', { name: /스냅샷 미리보기/ }));
+    const preview = await screen.findByRole('region', { name: /스냅샷$/ });
+    const row = within(preview).getByRole('row', { name: /QA 이슈 해결/ });
+    expect(row).toHaveTextContent('진행 중');
+    expect(row).toHaveTextContent('완료');
+
+    fireEvent.click(within(preview).getByRole('button', { name: '이 스냅샷으로 복원' }));
+    await act(async () => {});
+
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('done');
+    expect(screen.getByText(/스냅샷으로 복원했습니다/)).toBeInTheDocument();
+    const stored = JSON.parse((await storage.load(getSnapshotStorageKey('frontend')))!);
+    expect(stored.map((snapshot: { kind: string }) => snapshot.kind)).toContain('pre-restore');
+    expect(screen.getByText('복원 전')).toBeInTheDocument();
+  });
+});
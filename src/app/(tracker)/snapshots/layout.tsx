@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: '진행 기록 복원 | 커리큘럼 진행률 관리',
+  description: '자동으로 저장된 진행 기록 스냅샷을 확인하고 복원하는 페이지입니다.',
+};
+
+export default function SnapshotsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useCurriculum } from '../../../context/CurriculumContext';
+import CurriculumSwitcher from '../../../components/CurriculumSwitcher';
+import ProgressDiffTable from '../../../components/ProgressDiffTable';
+import ErrorMessage from '../../../components/ErrorMessage';
+import { ProgressSnapshot, PROGRESS_SNAPSHOT_KIND_LABELS } from '../../../utils/progressSnapshots';
+import { ProgressImportPreview } from '../../../utils/progressTransfer';
+
+const formatSnapshotTime = (createdAt: string): string =>
+  new Date(createdAt).toLocaleString('ko-KR', { dateStyle: 'long', timeStyle: 'short' });
+
+/**
+ * 진행 기록 복원 페이지
+ * 현재 트랙의 일일 스냅샷과 가져오기·복원 직전 스냅샷을 나열하고, 현재 기록과 비교한 뒤 복원한다
+ */
+export default function SnapshotsPage() {
+  const { curricula, activeCurriculumId, listProgressSnapshots, previewProgressImport, restoreProgressSnapshot } = useCurriculum();
+  const activeCurriculum = curricula.find(curriculum => curriculum.id === activeCurriculumId);
+  const [snapshots, setSnapshots] = useState<ProgressSnapshot[] | null>(null);
+  const [selected, setSelected] = useState<{ snapshot: ProgressSnapshot; preview: ProgressImportPreview } | null>(null);
+  const [restoredAt, setRestoredAt] = useState<string | null>(null);
+
+  const refreshSnapshots = useCallback(async () => {
+    setSnapshots(await listProgressSnapshots());
+  }, [listProgressSnapshots]);
+
+  // The list follows the active track
+  useEffect(() => {
+    setSelected(null);
+    setRestoredAt(null);
+    void refreshSnapshots();
+  }, [refreshSnapshots]);
+
+  const handlePreview = async (snapshot: ProgressSnapshot) => {
+    setRestoredAt(null);
+    setSelected({ snapshot, preview: await previewProgressImport(snapshot.data) });
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    await restoreProgressSnapshot(selected.snapshot);
+    setRestoredAt(selected.snapshot.createdAt);
+    setSelected(null);
+    await refreshSnapshots();
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        {/* 헤더 */}
+        <div className="mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                진행 기록 복원
+              </h1>
+              <p className="text-muted-foreground">
+                {activeCurriculum ? `${activeCurriculum.title} · ` : ''}하루에 한 번, 그리고 가져오기와 복원 직전에 진행 기록을 자동으로 보관합니다
+              </p>
+            </div>
+            <div className="flex flex-col sm:items-end gap-2">
+              <CurriculumSwitcher />
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+              >
+                진도 관리로 돌아가기
+              </Link>
+            </div>
+          </div>
+        </div>
+
+        {restoredAt && (
+          <ErrorMessage
+            message={`${formatSnapshotTime(restoredAt)} 스냅샷으로 복원했습니다. 복원 전 기록은 '복원 전' 스냅샷으로 남아 있습니다.`}
+            type="info"
+            className="mb-4"
+            dismissible
+            onDismiss={() => setRestoredAt(null)}
+          />
+        )}
+
+        {/* 스냅샷 목록 */}
+        {snapshots !== null && snapshots.length === 0 ? (
+          <p className="text-muted-foreground">아직 보관된 스냅샷이 없습니다. 진행 기록을 저장하면 그날의 스냅샷이 만들어집니다.</p>
+        ) : (
+          <div className="bg-card border border-border rounded-lg overflow-x-auto mb-8">
+            <table className="w-full text-sm">
+              <caption className="sr-only">보관된 스냅샷</caption>
+              <thead className="bg-muted/50">
+                <tr className="text-left">
+                  <th scope="col" className="px-4 py-3 font-semibold border-b border-border">시점</th>
+                  <th scope="col" className="px-4 py-3 font-semibold border-b border-border">종류</th>
+                  <th scope="col" className="px-4 py-3 font-semibold border-b border-border text-right">전체 진행률</th>
+                  <th scope="col" className="px-4 py-3 border-b border-border"><span className="sr-only">작업</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {(snapshots ?? []).map(snapshot => (
+                  <tr
+                    key={snapshot.id}
+                    className={selected?.snapshot.id === snapshot.id ? 'bg-primary/5' : 'hover:bg-muted/40 transition-colors'}
+                  >
+                    <th scope="row" className="px-4 py-3 font-normal text-left border-b border-border/50">
+                      {formatSnapshotTime(snapshot.createdAt)}
+                    </th>
+                    <td className="px-4 py-3 border-b border-border/50">{PROGRESS_SNAPSHOT_KIND_LABELS[snapshot.kind]}</td>
+                    <td className="px-4 py-3 border-b border-border/50 text-right">{Math.round(snapshot.overallProgress)}%</td>
+                    <td className="px-4 py-3 border-b border-border/50 text-right">
+                      <button
+                        type="button"
+                        onClick={() => void handlePreview(snapshot)}
+                        className="px-3 py-1 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+                        aria-label={`${formatSnapshotTime(snapshot.createdAt)} 스냅샷 미리보기`}
+                      >
+                        미리보기
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* 미리보기 */}
+        {selected && (
+          <section className="bg-card border border-border rounded-lg p-4" aria-labelledby="snapshot-preview-title">
+            <h2 id="snapshot-preview-title" className="text-lg font-semibold mb-1">
+              {formatSnapshotTime(selected.snapshot.createdAt)} 스냅샷
+            </h2>
+            <p className="text-sm text-muted-foreground mb-3">
+              {PROGRESS_SNAPSHOT_KIND_LABELS[selected.snapshot.kind]} · 전체 진행률 {Math.round(selected.snapshot.overallProgress)}%
+            </p>
+
+            {selected.preview.entries.length === 0 ? (
+              <p className="text-sm mb-3">날짜와 완료 상태가 현재 기록과 같습니다.</p>
+            ) : (
+              <div className="overflow-x-auto mb-3">
+                <ProgressDiffTable entries={selected.preview.entries} importedLabel="스냅샷" />
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setSelected(null)}
+                className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+              >
+                닫기
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleRestore()}
+                className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+              >
+                이 스냅샷으로 복원
+              </button>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, PUT } from '../route';
+import { getProgressStore, ProgressStore } from '../../../../server/progressStores';
+
+vi.mock('../../../../server/progressStores', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../../../server/progressStores')>(),
+  getProgressStore: vi.fn()
+}));
+
+const progress = (status: string) => JSON.stringify({
+  version: '1.1.0',
+  lastUpdated: '2024-02-01T00:00:00.000Z',
+  curriculum: { '1': { '1-1': { status } } }
+});
+
+const createRequest = (
+  method: string,
+  options: { body?: string; headers?: Record<string, string>; curriculumId?: string; profileId?: string } = {}
+) =>
+  new NextRequest(`http://localhost/api/progress?curriculumId=${options.curriculumId ?? 'frontend'}${options.profileId ? `&profileId=${options.profileId}` : ''}`, {
+    method,
+    body: options.body,
+    headers: options.headers
+  });
+
+describe('/api/progress', () => {
+  let values: Map<string, string>;
+
+  beforeEach(() => {
+    values = new Map();
+    const store: ProgressStore = {
+      name: 'memory',
+      load: async curriculumId => values.get(curriculumId) ?? null,
+      save: async (curriculumId, value) => {
+        values.set(curriculumId, value);
+      },
+      saveIfCurrent: async (curriculumId, value, isCurrent) => {
+        const currentValue = values.get(curriculumId) ?? null;
+        if (!isCurrent(currentValue)) return { saved: false, currentValue };
+        values.set(curriculumId, value);
+        return { saved: true, currentValue };
+      }
+    };
+    vi.mocked(getProgressStore).mockReturnValue(store);
+  });
+
+  it('should answer 404 until progress is saved, then serve it with an ETag', async () => {
+    expect((await GET(createRequest('GET'))).status).toBe(404);
+
+    const saved = await PUT(createRequest('PUT', { body: progress('done'), headers: { 'If-None-Match': '*' } }));
+    expect(saved.status).toBe(204);
+    const etag = saved.headers.get('ETag');
+
+    const response = await GET(createRequest('GET'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe(etag);
+    expect((await response.json()).curriculum['1']['1-1'].status).toBe('done');
+
+    expect((await GET(createRequest('GET', { headers: { 'If-None-Match': etag! } }))).status).toBe(304);
+  });
+
+  it('should reject a write based on an outdated ETag and return the saved progress', async () => {
+    const first = await PUT(createRequest('PUT', { body: progress('in-progress') }));
+    const firstEtag = first.headers.get('ETag')!;
+    const second = await PUT(createRequest('PUT', { body: progress('done'), headers: { 'If-Match': firstEtag } }));
+    expect(second.status).toBe(204);
+
+    const conflict = await PUT(createRequest('PUT', { body: progress('blocked'), headers: { 'If-Match': firstEtag } }));
+
+    expect(conflict.status).toBe(412);
+    expect(conflict.headers.get('ETag')).toBe(second.headers.get('ETag'));
+    expect((await conflict.json()).curriculum['1']['1-1'].status).toBe('done');
+  });
+
+  it('should reject a first write when progress was already saved', async () => {
+    await PUT(createRequest('PUT', { body: progress('done') }));
+
+    const response = await PUT(createRequest('PUT', { body: progress('blocked'), headers: { 'If-None-Match': '*' } }));
+
+    expect(response.status).toBe(412);
+  });
+
+  it('should upgrade payloads from an older version before saving', async () => {
+    const response = await PUT(createRequest('PUT', {
+      body: JSON.stringify({ version: '1.0.0', lastUpdated: '2024-02-01T00:00:00.000Z', curriculum: { '1': { '1-1': { completed: true } } } })
+    }));
+
+    expect(response.status).toBe(204);
+    expect(JSON.parse(values.get('frontend')!)).toMatchObject({ version: '1.1.0', curriculum: { '1': { '1-1': { status: 'done' } } } });
+  });
+
+  it('should keep the progress of each learner profile apart', async () => {
+    await PUT(createRequest('PUT', { body: progress('done') }));
+    await PUT(createRequest('PUT', { body: progress('blocked'), profileId: 'profile-a1' }));
+
+    expect((await (await GET(createRequest('GET'))).json()).curriculum['1']['1-1'].status).toBe('done');
+    expect((await (await GET(createRequest('GET', { profileId: 'profile-a1' }))).json()).curriculum['1']['1-1'].status).toBe('blocked');
+    expect([...values.keys()]).toEqual(['frontend', 'profile-a1/frontend']);
+    expect((await GET(createRequest('GET', { profileId: '../frontend' }))).status).toBe(404);
+  });
+
+  it('should reject invalid payloads and unknown curricula', async () => {
+    const invalid = await PUT(createRequest('PUT', { body: '{"version": "1.1.0"}' }));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toBe('진행 기록 파일의 형식이 올바르지 않습니다.');
+
+    expect((await GET(createRequest('GET', { curriculumId: 'unknown' }))).status).toBe(404);
+    expect(values.size).toBe(0);
+  });
+});
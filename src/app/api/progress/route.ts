@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CURRICULUM_ID, isRegisteredCurriculum } from '../../../data/initialCurriculum';
+import { getProgressEtag, getProgressStore } from '../../../server/progressStores';
+import { parseProgressImport, ProgressImportError } from '../../../utils/progressTransfer';
+import { DEFAULT_PROFILE_ID, isValidProfileId } from '../../../utils/learnerProfiles';
+
+// The store is read on every request and better-sqlite3 needs the Node.js runtime
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Get the store key of the progress a request is about, from the ?curriculumId= and ?profileId= query parameters
+ * The default profile keeps the curriculum id as its key, so progress saved before profiles existed is preserved
+ */
+const getProgressKey = (request: NextRequest): string | null => {
+  const curriculumId = request.nextUrl.searchParams.get('curriculumId') ?? DEFAULT_CURRICULUM_ID;
+  const profileId = request.nextUrl.searchParams.get('profileId') ?? DEFAULT_PROFILE_ID;
+  if (!isRegisteredCurriculum(curriculumId) || !isValidProfileId(profileId)) return null;
+  return profileId === DEFAULT_PROFILE_ID ? curriculumId : `${profileId}/${curriculumId}`;
+};
+
+const unknownCurriculum = () => NextResponse.json({ error: 'Unknown curriculum or profile' }, { status: 404 });
+
+const getSavedEtag = (savedValue: string | null): string | null =>
+  savedValue === null ? null : getProgressEtag(savedValue);
+
+/**
+ * Check the If-Match / If-None-Match headers of a write against the saved payload
+ * If-Match carries the ETag the client last saw; If-None-Match: * means the client expects nothing saved yet
+ */
+const isPreconditionMet = (request: NextRequest, currentEtag: string | null): boolean => {
+  const ifMatch = request.headers.get('if-match');
+  if (ifMatch !== null) {
+    return currentEtag !== null && (ifMatch === '*' || ifMatch.split(',').some(etag => etag.trim() === currentEtag));
+  }
+  return !(request.headers.get('if-none-match') === '*' && currentEtag !== null);
+};
+
+/**
+ * GET /api/progress?curriculumId=...&profileId=... — the saved StoredData payload with its ETag
+ */
+export async function GET(request: NextRequest) {
+  const progressKey = getProgressKey(request);
+  if (!progressKey) return unknownCurriculum();
+
+  const value = await getProgressStore().load(progressKey);
+  if (value === null) {
+    return NextResponse.json({ error: 'No progress saved' }, { status: 404 });
+  }
+
+  const etag = getProgressEtag(value);
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+  }
+  return new NextResponse(value, {
+    headers: { 'Content-Type': 'application/json', ETag: etag, 'Cache-Control': 'no-store' }
+  });
+}
+
+/**
+ * PUT /api/progress?curriculumId=...&profileId=... — save a StoredData payload
+ * Answers 412 with the saved payload when it changed since the client last read it
+ */
+export async function PUT(request: NextRequest) {
+  const progressKey = getProgressKey(request);
+  if (!progressKey) return unknownCurriculum();
+
+  let value: string;
+  try {
+    // Payloads from clients on an older version are upgraded like imported files
+    value = JSON.stringify(parseProgressImport(await request.text()));
+  } catch (error) {
+    if (!(error instanceof ProgressImportError)) throw error;
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  // The check and the write happen in one step, so two clients holding the same ETag cannot both save
+  const { saved, currentValue } = await getProgressStore().saveIfCurrent(
+    progressKey,
+    value,
+    savedValue => isPreconditionMet(request, getSavedEtag(savedValue))
+  );
+
+  if (!saved) {
+    const currentEtag = getSavedEtag(currentValue);
+    return new NextResponse(currentValue, {
+      status: 412,
+      headers: currentEtag ? { 'Content-Type': 'application/json', ETag: currentEtag } : {}
+    });
+  }
+  return new NextResponse(null, { status: 204, headers: { ETag: getProgressEtag(value) } });
+}
@@ -0,0 +1,114 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import CohortPage from '../page';
+
+// Mock Next.js Link component
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: { children: React.ReactNode; href: string; [key: string]: unknown }) => (
+    <a href={href} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+const createProgressFile = (name: string, curriculum: Record<string, unknown>, fields: Record<string, unknown> = {}) =>
+  new File(
+    [JSON.stringify({ version: '1.1.0', lastUpdated: '2024-03-15T00:00:00.000Z', curriculum, ...fields })],
+    name,
+    { type: 'application/json' }
+  );
+
+const uploadFiles = async (files: File[]) => {
+  fireEvent.change(screen.getByLabelText('진행 기록 파일'), { target: { files } });
+  await waitFor(() => expect(screen.queryByText('아직 불러온 진행 기록 파일이 없습니다.')).not.toBeInTheDocument());
+};
+
+describe('CohortPage', () => {
+  it('should show a row per learner file with the median and the learners behind it', async () => {
+    render(<CohortPage />);
+
+    await uploadFiles([
+      createProgressFile('김하나.json', { '1': { '1-1': { status: 'done', startDate: new Date(2024, 0, 2).toISOString() } } }),
+      createProgressFile('이두리.json', {})
+    ]);
+
+    expect(screen.getByRole('rowheader', { name: /김하나/ })).toBeInTheDocument();
+    expect(screen.getByRole('rowheader', { name: /이두리/ })).toHaveTextContent('중앙값 미만');
+    expect(screen.getByRole('rowheader', { name: /김하나/ })).not.toHaveTextContent('중앙값 미만');
+    expect(screen.getByText(/학습자 2명/)).toBeInTheDocument();
+    expect(screen.getByLabelText(/^완료, 2024년 1월 2일 ~ —$/)).toBeInTheDocument();
+    // 1-1 is done by one of the two learners
+    expect(screen.getByTitle(/^QA 이슈 해결: 건너뛰지 않은 학습자 2명 기준$/)).toHaveTextContent('50%');
+
+    fireEvent.click(screen.getByRole('button', { name: '이두리 제외' }));
+    expect(screen.queryByRole('rowheader', { name: /이두리/ })).not.toBeInTheDocument();
+    expect(screen.getByText(/학습자 1명/)).toBeInTheDocument();
+  });
+
+  it('should pick the track saved in the file', async () => {
+    render(<CohortPage />);
+
+    await uploadFiles([createProgressFile('progress.json', {}, { curriculumId: 'backend' })]);
+
+    expect(screen.getByRole('combobox', { name: '트랙' })).toHaveValue('backend');
+  });
+
+  it('should pick the track from the export file name for files saved without one', async () => {
+    render(<CohortPage />);
+
+    await uploadFiles([createProgressFile('curriculum-progress-backend-2024-03-15.json', {})]);
+
+    expect(screen.getByRole('combobox', { name: '트랙' })).toHaveValue('backend');
+  });
+
+  it('should leave out files of another track and report them', async () => {
+    render(<CohortPage />);
+
+    await uploadFiles([
+      createProgressFile('curriculum-progress-frontend-2024-03-15.json', {}, { curriculumId: 'frontend', learner: '김하나' }),
+      createProgressFile('curriculum-progress-frontend-2024-03-15 (1).json', {}, { curriculumId: 'backend', learner: '이두리' })
+    ]);
+
+    expect(screen.getByRole('combobox', { name: '트랙' })).toHaveValue('frontend');
+    expect(screen.getByRole('rowheader', { name: /김하나/ })).toBeInTheDocument();
+    expect(screen.queryByRole('rowheader', { name: /이두리/ })).not.toBeInTheDocument();
+    expect(screen.getByText(/curriculum-progress-frontend-2024-03-15 \(1\)\.json: 다른 트랙\(.+\)의 진행 기록입니다/)).toBeInTheDocument();
+  });
+
+  it('should report files that are not progress exports and keep the others', async () => {
+    render(<CohortPage />);
+
+    await uploadFiles([
+      new File(['not json'], 'broken.json', { type: 'application/json' }),
+      createProgressFile('김하나.json', {})
+    ]);
+
+    expect(screen.getByText(/broken\.json: JSON 형식이 아닌 파일입니다\./)).toBeInTheDocument();
+    expect(screen.getByRole('rowheader', { name: /김하나/ })).toBeInTheDocument();
+  });
+
+  it('should name rows after the learner saved in the file', async () => {
+    render(<CohortPage />);
+
+    await uploadFiles([createProgressFile('curriculum-progress-frontend-2024-03-15-김하나.json', {}, { learner: '김하나' })]);
+
+    expect(screen.getByRole('rowheader', { name: /^김하나/ })).toHaveTextContent('curriculum-progress-frontend-2024-03-15-김하나.json');
+  });
+
+  it('should keep files with the same name as separate rows and warn about them', async () => {
+    render(<CohortPage />);
+
+    await uploadFiles([
+      createProgressFile('curriculum-progress-frontend-2024-03-15.json', { '1': { '1-1': { status: 'done' } } }),
+      createProgressFile('curriculum-progress-frontend-2024-03-15.json', {})
+    ]);
+
+    expect(screen.getAllByRole('rowheader', { name: /^curriculum-progress-frontend-2024-03-15/ })).toHaveLength(2);
+    expect(screen.getByText(/같은 이름의 학습자가 여러 번 있습니다: curriculum-progress-frontend-2024-03-15\(2개\)/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'curriculum-progress-frontend-2024-03-15 제외' })[1]);
+    expect(screen.getAllByRole('rowheader', { name: /^curriculum-progress-frontend-2024-03-15/ })).toHaveLength(1);
+    expect(screen.queryByText(/같은 이름의 학습자가 여러 번 있습니다/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: '코호트 진행 현황 | 커리큘럼 진행률 관리',
+  description: '학습자들이 내보낸 진행 기록 파일을 모아 학습자별·과정별 진행 현황을 비교하는 페이지입니다.',
+};
+
+export default function CohortLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
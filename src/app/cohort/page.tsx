@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import CohortMatrixTable from '../../components/CohortMatrixTable';
+import ErrorMessage from '../../components/ErrorMessage';
+import { DEFAULT_CURRICULUM_ID, getRegisteredCurricula, isRegisteredCurriculum } from '../../data/initialCurriculum';
+import {
+  buildCohortMatrix,
+  CohortLearnerFile,
+  CohortMatrix,
+  getCurriculumIdFromExportFileName,
+  getDuplicateLearnerNames
+} from '../../utils/cohortProgress';
+import { CurriculumDefinitionError } from '../../utils/curriculumDefinition';
+import { parseProgressExport, ProgressImportError } from '../../utils/progressTransfer';
+import { readTextFile } from '../../utils/files';
+
+const getFileBaseName = (fileName: string): string => fileName.replace(/\.json$/i, '');
+
+/**
+ * 코호트 진행 현황 페이지
+ * 학습자들이 내보낸 진행 기록 파일을 모아 학습자 × 과정 표로 보여준다. 파일은 브라우저에서만 읽고 저장하지 않는다
+ */
+export default function CohortPage() {
+  const curricula = useMemo(() => getRegisteredCurricula(), []);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextFileIdRef = useRef(0);
+  const [curriculumId, setCurriculumId] = useState(DEFAULT_CURRICULUM_ID);
+  const [learnerFiles, setLearnerFiles] = useState<CohortLearnerFile[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const duplicateNames = useMemo(() => getDuplicateLearnerNames(learnerFiles), [learnerFiles]);
+
+  const result = useMemo((): { matrix: CohortMatrix } | { error: string } | null => {
+    if (learnerFiles.length === 0) return null;
+    try {
+      return { matrix: buildCohortMatrix(learnerFiles, curriculumId) };
+    } catch (error) {
+      if (!(error instanceof CurriculumDefinitionError)) throw error;
+      return { error: `커리큘럼 정의가 올바르지 않아 표를 만들 수 없습니다: ${error.message}` };
+    }
+  }, [learnerFiles, curriculumId]);
+
+  const addFiles = async (files: File[]) => {
+    const added: { learnerFile: CohortLearnerFile; curriculumId?: string }[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const { data, curriculumId: fileCurriculumId, learnerName } = parseProgressExport(await readTextFile(file));
+        added.push({
+          learnerFile: {
+            id: `file-${nextFileIdRef.current++}`,
+            name: learnerName ?? getFileBaseName(file.name),
+            fileName: file.name,
+            data
+          },
+          curriculumId: fileCurriculumId
+        });
+      } catch (error) {
+        if (!(error instanceof ProgressImportError)) {
+          console.error('Failed to read progress file:', error);
+        }
+        errors.push(`${file.name}: ${error instanceof ProgressImportError ? error.message : '파일을 읽지 못했습니다.'}`);
+      }
+    }
+
+    // The track of the first files is the one saved in them; files exported before the track was saved
+    // only tell it by their name
+    let track = curriculumId;
+    if (learnerFiles.length === 0) {
+      const detected = added.map(item => item.curriculumId).find(id => id !== undefined && isRegisteredCurriculum(id))
+        ?? files.map(file => getCurriculumIdFromExportFileName(file.name)).find(id => id !== null);
+      if (detected) {
+        track = detected;
+        setCurriculumId(detected);
+      }
+    }
+
+    // Course ids repeat across tracks, so files of another track would show up as progress on the wrong courses
+    const matching = added.filter(item => !item.curriculumId || item.curriculumId === track);
+    added.filter(item => !matching.includes(item)).forEach(({ learnerFile, curriculumId: fileCurriculumId }) => {
+      const title = curricula.find(curriculum => curriculum.id === fileCurriculumId)?.title ?? fileCurriculumId;
+      errors.push(`${learnerFile.fileName}: 다른 트랙(${title})의 진행 기록입니다.`);
+    });
+
+    // Files with the same name stay separate rows; the page warns about them instead of guessing which one to keep
+    setLearnerFiles(current => [...current, ...matching.map(item => item.learnerFile)]);
+    setFileErrors(errors);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    await addFiles(files);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    await addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const removeLearner = (id: string) => {
+    setLearnerFiles(current => current.filter(learner => learner.id !== id));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        {/* 헤더 */}
+        <div className="mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                코호트 진행 현황
+              </h1>
+              <p className="text-muted-foreground">
+                학습자들이 내보낸 진행 기록 파일을 모아 과정별 진행 상황을 한눈에 비교합니다
+              </p>
+            </div>
+            <div className="flex flex-col sm:items-end gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                트랙
+                <select
+                  value={curriculumId}
+                  onChange={event => setCurriculumId(event.target.value)}
+                  className="px-2 py-1 border border-border rounded-md bg-background"
+                >
+                  {curricula.map(curriculum => (
+                    <option key={curriculum.id} value={curriculum.id}>{curriculum.title}</option>
+                  ))}
+                </select>
+              </label>
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+              >
+                진도 관리로 돌아가기
+              </Link>
+            </div>
+          </div>
+        </div>
+
+        {/* 파일 놓는 곳 */}
+        <div
+          onDragOver={event => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={event => void handleDrop(event)}
+          className={`card mb-6 border-2 border-dashed ${isDragging ? 'border-primary bg-muted' : 'border-border'}`}
+        >
+          <div className="card-content flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-responsive-sm text-muted-foreground">
+              &apos;진행 기록 내보내기&apos;로 받은 JSON 파일을 여기에 끌어 놓으세요. 파일에 담긴 학습자 프로필 이름으로 표시되며, 이름이 없으면 파일 이름으로 표시됩니다.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+              >
+                파일 선택
+              </button>
+              {learnerFiles.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setLearnerFiles([])}
+                  className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+                >
+                  모두 지우기
+                </button>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              multiple
+              onChange={event => void handleFileChange(event)}
+              className="hidden"
+              aria-label="진행 기록 파일"
+            />
+          </div>
+        </div>
+
+        {fileErrors.length > 0 && (
+          <ErrorMessage
+            message={`읽지 못한 파일이 있습니다. ${fileErrors.join(' / ')}`}
+            type="error"
+            className="mb-4"
+            dismissible
+            onDismiss={() => setFileErrors([])}
+          />
+        )}
+
+        {duplicateNames.length > 0 && (
+          <ErrorMessage
+            message={`같은 이름의 학습자가 여러 번 있습니다: ${duplicateNames.map(({ name, count }) => `${name}(${count}개)`).join(', ')}. 같은 학습자의 파일이면 하나를 제외하고, 다른 학습자라면 각자의 프로필에서 다시 내보내 달라고 하세요.`}
+            type="warning"
+            className="mb-4"
+          />
+        )}
+
+        {result === null ? (
+          <p className="text-muted-foreground">아직 불러온 진행 기록 파일이 없습니다.</p>
+        ) : 'error' in result ? (
+          <ErrorMessage message={result.error} type="error" />
+        ) : (
+          <div className="card">
+            <div className="card-content space-y-3">
+              <p className="text-responsive-sm text-muted-foreground">
+                학습자 {result.matrix.learners.length}명 · 전체 진행률 중앙값 {result.matrix.medianProgress}% ·
+                중앙값 미만 {result.matrix.learners.filter(learner => learner.isBehind).length}명
+              </p>
+              <CohortMatrixTable matrix={result.matrix} onRemoveLearner={removeLearner} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
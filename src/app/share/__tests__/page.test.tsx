@@ -0,0 +1,74 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import SharePage from '../page';
+import { getInitialCurriculumState } from '../../../data/initialCurriculum';
+import { storedDataToCurriculumState } from '../../../utils/localStorage';
+import { encodeSharedProgress } from '../../../utils/progressShare';
+
+// Mock Next.js Link component
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: { children: React.ReactNode; href: string; [key: string]: unknown }) => (
+    <a href={href} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+const sharedFragment = () => encodeSharedProgress(
+  storedDataToCurriculumState({
+    version: '1.1.0',
+    lastUpdated: '2024-03-15T00:00:00.000Z',
+    curriculum: { '1': { '1-1': { status: 'done', startDate: new Date(2024, 0, 2).toISOString() } } }
+  }, getInitialCurriculumState('frontend')),
+  'frontend',
+  new Date(2024, 2, 15)
+);
+
+const renderPage = async (hash: string) => {
+  window.location.hash = hash;
+  render(<SharePage />);
+  await act(async () => {});
+};
+
+describe('SharePage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    window.location.hash = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should show the shared progress read-only', async () => {
+    await renderPage(`p=${sharedFragment()}`);
+
+    expect(screen.getByRole('heading', { name: '공유된 진행 현황' })).toBeInTheDocument();
+    expect(screen.getByText(/2024년 3월 15일 기준 · 읽기 전용/)).toBeInTheDocument();
+    fireEvent.click(screen.getAllByRole('button', { expanded: false })[0]);
+    const checkboxes = screen.getAllByRole('checkbox');
+    expect(checkboxes[0]).toBeChecked();
+    checkboxes.forEach(checkbox => expect(checkbox).toBeDisabled());
+    expect(screen.queryByRole('button', { name: '진행 기록 초기화' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: '구조 편집' })).not.toBeInTheDocument();
+  });
+
+  it('should never touch the storage of the browser that opens the link', async () => {
+    const getItem = vi.spyOn(Storage.prototype, 'getItem');
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+    await renderPage(`p=${sharedFragment()}`);
+
+    expect(getItem).not.toHaveBeenCalled();
+    expect(setItem).not.toHaveBeenCalled();
+  });
+
+  it('should explain links it cannot read', async () => {
+    await renderPage('p=broken');
+
+    expect(screen.getByText(/공유 링크/)).toBeInTheDocument();
+    expect(screen.queryByText(/읽기 전용/)).not.toBeInTheDocument();
+  });
+});
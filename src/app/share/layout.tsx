@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: '공유된 진행 현황 | 커리큘럼 진행률 관리',
+  description: '공유 링크에 담긴 커리큘럼 진행 현황을 읽기 전용으로 보여주는 페이지입니다.',
+};
+
+export default function ShareLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
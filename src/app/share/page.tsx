@@ -0,0 +1,76 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CurriculumProvider } from '../../context/CurriculumContext';
+import CurriculumDashboard from '../../components/CurriculumDashboard';
+import ErrorMessage from '../../components/ErrorMessage';
+import { getRegisteredCurricula } from '../../data/initialCurriculum';
+import { ProgressShareError, readSharedProgressFromHash, SharedProgress } from '../../utils/progressShare';
+
+/**
+ * 공유된 진행 현황 페이지
+ * 링크의 # 뒤에 담긴 진행 현황을 읽기 전용 대시보드로 보여준다. 여는 사람의 브라우저 저장소는 읽지도 쓰지도 않는다
+ */
+export default function SharePage() {
+  const [shared, setShared] = useState<{ hash: string; progress: SharedProgress } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The fragment is only known in the browser, and may change when another link is pasted into the address bar
+  useEffect(() => {
+    const readHash = () => {
+      const { hash } = window.location;
+      try {
+        setShared({ hash, progress: readSharedProgressFromHash(hash) });
+        setError(null);
+      } catch (readError) {
+        if (!(readError instanceof ProgressShareError)) throw readError;
+        setShared(null);
+        setError(readError.message);
+      }
+    };
+    readHash();
+    window.addEventListener('hashchange', readHash);
+    return () => window.removeEventListener('hashchange', readHash);
+  }, []);
+
+  const curriculum = shared && getRegisteredCurricula().find(item => item.id === shared.progress.curriculumId);
+
+  return (
+    <div className="app-layout">
+      <header className="app-header">
+        <div className="container">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+            <div className="flex-1">
+              <h1 className="text-responsive-xl font-bold text-foreground mb-2">
+                공유된 진행 현황
+              </h1>
+              {shared && (
+                <p className="text-responsive-base text-muted-foreground">
+                  {curriculum?.title} · {shared.progress.sharedAt.toLocaleDateString('ko-KR', { dateStyle: 'long' })} 기준 · 읽기 전용
+                </p>
+              )}
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+            >
+              내 진도 관리로 이동
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="app-main" role="main">
+        <div className="container">
+          {error && <ErrorMessage message={error} type="error" />}
+          {shared && (
+            <CurriculumProvider key={shared.hash} sharedProgress={shared.progress}>
+              <CurriculumDashboard />
+            </CurriculumProvider>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
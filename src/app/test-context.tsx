@@ -27,7 +27,7 @@ const ContextTest = () => {
       <div className="space-y-2 mb-4">
         <p>Overall Progress: {state.overallProgress}%</p>
         <p>Total Weeks: {state.weeks.length}</p>
-        <p>First Course Status: {state.weeks[0]?.courses[0]?.completed ? 'Completed' : 'Not Completed'}</p>
+        <p>First Course Status: {state.weeks[0]?.courses[0]?.status ?? 'Not Set'}</p>
         <p>First Course Start Date: {state.weeks[0]?.courses[0]?.startDate?.toDateString() || 'Not Set'}</p>
       </div>
       <div className="space-x-2">
@@ -3,12 +3,23 @@
 import React from 'react';
 import Link from 'next/link';
 import CurriculumDashboard from './CurriculumDashboard';
+import CurriculumSwitcher from './CurriculumSwitcher';
+import ProfilePicker from './ProfilePicker';
+import ProgressTransfer from './ProgressTransfer';
+import ProgressShareButton from './ProgressShareButton';
+import HistoryToast from './HistoryToast';
+import SaveStatusIndicator from './SaveStatusIndicator';
+import PassphraseSettings from './PassphraseSettings';
+import { useCurriculum } from '../context/CurriculumContext';
 
 /**
  * Main App component that renders the curriculum dashboard
  * Handles the overall application layout and structure
  */
 const App: React.FC = () => {
+  const { curricula, activeCurriculumId } = useCurriculum();
+  const activeCurriculum = curricula.find(curriculum => curriculum.id === activeCurriculumId);
+
   return (
     <div className="app-layout">
       <header className="app-header">
@@ -19,16 +30,34 @@ const App: React.FC = () => {
                 커리큘럼 진행률 관리
               </h1>
               <p className="text-responsive-base text-muted-foreground">
-                10주차 개발 커리큘럼의 진행 상황을 체계적으로 추적하고 관리하세요
+                {activeCurriculum?.description ?? '개발 커리큘럼의 진행 상황을 체계적으로 추적하고 관리하세요'}
               </p>
             </div>
             <div className="flex-shrink-0 flex flex-col sm:items-end gap-2">
+              <ProfilePicker />
+              <CurriculumSwitcher />
+              <SaveStatusIndicator />
+              <ProgressTransfer />
+              <ProgressShareButton />
+              <PassphraseSettings />
               <Link 
                 href="/curriculum"
                 className="inline-flex items-center px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
               >
                 📋 커리큘럼 개요
               </Link>
+              <Link 
+                href="/snapshots"
+                className="inline-flex items-center px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+              >
+                🕘 진행 기록 복원
+              </Link>
+              <Link 
+                href="/cohort"
+                className="inline-flex items-center px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+              >
+                👥 코호트 현황
+              </Link>
               <p className="text-xs text-muted-foreground">
                 v1.0
               </p>
@@ -50,11 +79,13 @@ const App: React.FC = () => {
               커리큘럼 진행률 관리 시스템
             </p>
             <p className="text-xs text-muted-foreground">
-              데이터는 브라우저 로컬 스토리지에 자동 저장됩니다
+              데이터는 이 브라우저에 자동 저장됩니다
             </p>
           </div>
         </div>
       </footer>
+
+      <HistoryToast />
     </div>
   );
 };
@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState } from 'react';
+import ProgressBar from './ProgressBar';
+import CourseTable from './CourseTable';
+import { useCurriculum } from '../context/CurriculumContext';
+import { ChapterGroup, formatChapterWeekSpan, getChapterCourses, getChapterLabel } from '../utils/chapters';
+import { calculateChapterProgress, calculateRemainingHours, isWeightedProgress } from '../utils/progressCalculator';
+import { isCourseDone } from '../utils/courseStatus';
+
+/**
+ * ChapterSection component props
+ */
+interface ChapterSectionProps {
+  group: ChapterGroup;
+}
+
+/**
+ * ChapterSection component that displays a chapter's progress across the weeks it spans,
+ * with its courses listed per week when expanded
+ */
+const ChapterSection: React.FC<ChapterSectionProps> = ({ group }) => {
+  const { isReadOnly } = useCurriculum();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const courses = getChapterCourses(group);
+  const progress = calculateChapterProgress(group);
+  const isWeighted = isWeightedProgress(courses);
+  const label = getChapterLabel(group.chapter);
+  const sectionId = `chapter-${group.weeks[0]?.week.id ?? 0}-${encodeURIComponent(group.chapter ?? 'none')}`;
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full text-left focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded p-2 -m-2 touch-manipulation"
+          aria-expanded={isExpanded}
+          aria-controls={`${sectionId}-content`}
+        >
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2">
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <h3 className="text-responsive-lg font-semibold">{label}</h3>
+              <span
+                className={`transform transition-transform duration-200 flex-shrink-0 ${
+                  isExpanded ? 'rotate-90' : 'rotate-0'
+                }`}
+                aria-hidden="true"
+              >
+                ▶
+              </span>
+            </div>
+            <div className="flex flex-col sm:items-end gap-1 min-w-0">
+              <span className="text-responsive-sm text-muted-foreground">
+                {progress}% 완료
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatChapterWeekSpan(group)} · {courses.filter(isCourseDone).length}/{courses.length} 과정
+              </span>
+              {isWeighted && (
+                <span className="text-xs text-muted-foreground">
+                  남은 예상 시간 {calculateRemainingHours(courses)}시간
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-3">
+            <ProgressBar
+              progress={progress}
+              label={`${label} 진행률 ${progress}%`}
+              size="medium"
+              showPercentage={false}
+              weighted={isWeighted}
+            />
+          </div>
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div id={`${sectionId}-content`} className="card-content space-y-4" role="region" aria-label={`${label} 과정`}>
+          {group.weeks.map(({ week, courses: weekCourses }) => (
+            <div key={week.id}>
+              <h4 className="text-responsive-sm font-medium text-muted-foreground mb-2">{week.title}</h4>
+              <fieldset disabled={isReadOnly} className="read-only-fieldset">
+                <CourseTable courses={weekCourses} weekId={week.id} />
+              </fieldset>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterSection;
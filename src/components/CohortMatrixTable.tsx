@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import { Course } from '../types/curriculum';
+import { CohortMatrix } from '../utils/cohortProgress';
+import { COURSE_STATUS_LABELS } from '../utils/courseStatus';
+import { formatDateForDisplay } from '../utils/dateValidation';
+
+const formatShortDate = (date: Date): string => `${date.getMonth() + 1}/${date.getDate()}`;
+
+/**
+ * Describe a learner's course for screen readers and the cell tooltip, e.g. "완료, 2024년 1월 2일 ~ 2024년 1월 9일"
+ */
+const describeCourse = (course: Course): string => {
+  const dates = course.startDate || course.endDate
+    ? `, ${course.startDate ? formatDateForDisplay(course.startDate) : '—'} ~ ${course.endDate ? formatDateForDisplay(course.endDate) : '—'}`
+    : '';
+  return `${COURSE_STATUS_LABELS[course.status]}${dates}`;
+};
+
+/**
+ * CohortMatrixTable component props
+ */
+interface CohortMatrixTableProps {
+  matrix: CohortMatrix;
+  onRemoveLearner: (id: string) => void;
+}
+
+/**
+ * CohortMatrixTable component that shows the status and dates of every course for every learner,
+ * with each learner's overall progress and each course's completion rate
+ */
+const CohortMatrixTable: React.FC<CohortMatrixTableProps> = ({ matrix, onRemoveLearner }) => (
+  <div className="overflow-x-auto">
+    <table className="cohort-matrix text-sm">
+      <caption className="sr-only">학습자별 과정 진행 현황</caption>
+      <thead>
+        <tr>
+          <th scope="col" rowSpan={2} className="cohort-matrix-sticky text-left">학습자</th>
+          <th scope="col" rowSpan={2}>전체 진행률</th>
+          {matrix.weeks.map(week => (
+            <th key={week.id} scope="colgroup" colSpan={week.courses.length}>{week.title}</th>
+          ))}
+        </tr>
+        <tr>
+          {matrix.courses.map(({ course }) => (
+            <th key={course.id} scope="col" title={course.name} className="font-normal text-muted-foreground">
+              {course.id}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {matrix.learners.map(learner => (
+          <tr key={learner.id} className={learner.isBehind ? 'cohort-matrix-behind' : undefined}>
+            <th scope="row" className="cohort-matrix-sticky text-left font-medium">
+              <div className="flex items-center gap-2">
+                <span>{learner.name}</span>
+                {learner.isBehind && (
+                  <span className="status-pill status-pill-blocked" title={`전체 진행률이 중앙값 ${matrix.medianProgress}%보다 낮습니다`}>
+                    중앙값 미만
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemoveLearner(learner.id)}
+                  className="ml-auto text-xs text-muted-foreground hover:text-foreground"
+                  aria-label={`${learner.name} 제외`}
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="text-xs font-normal text-muted-foreground">
+                {learner.fileName} · {new Date(learner.lastUpdated).toLocaleString('ko-KR', { dateStyle: 'medium', timeStyle: 'short' })} 저장
+              </div>
+            </th>
+            <td className="text-center font-semibold">{learner.overallProgress}%</td>
+            {learner.courses.map(course => (
+              <td key={course.id} title={`${course.name}: ${describeCourse(course)}`} aria-label={describeCourse(course)}>
+                <span className={`status-pill status-pill-${course.status}`}>{COURSE_STATUS_LABELS[course.status]}</span>
+                {(course.startDate || course.endDate) && (
+                  <div className="text-xs text-muted-foreground whitespace-nowrap">
+                    {course.startDate ? formatShortDate(course.startDate) : ''}~{course.endDate ? formatShortDate(course.endDate) : ''}
+                  </div>
+                )}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr>
+          <th scope="row" className="cohort-matrix-sticky text-left">과정별 완료율</th>
+          <td className="text-center text-muted-foreground">중앙값 {matrix.medianProgress}%</td>
+          {matrix.courses.map(({ course, completionRate, countedLearners }) => (
+            <td
+              key={course.id}
+              className="text-center font-semibold"
+              title={`${course.name}: 건너뛰지 않은 학습자 ${countedLearners}명 기준`}
+            >
+              {countedLearners > 0 ? `${completionRate}%` : '—'}
+            </td>
+          ))}
+        </tr>
+      </tfoot>
+    </table>
+  </div>
+);
+
+export default CohortMatrixTable;
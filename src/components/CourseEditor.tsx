@@ -0,0 +1,367 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Course, Week } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import { hasCourseProgress } from '../utils/curriculumEditor';
+
+/**
+ * EditableText component props
+ */
+interface EditableTextProps {
+  value: string;
+  onSave: (value: string) => void;
+  ariaLabel: string;
+  className?: string;
+}
+
+/**
+ * EditableText component for renaming weeks and courses in editor mode
+ * Saves on blur or Enter, restores the original value on Escape or when left empty
+ */
+export const EditableText: React.FC<EditableTextProps> = ({ value, onSave, ariaLabel, className = '' }) => {
+  const [draft, setDraft] = useState(value);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (!trimmed) {
+      setDraft(value);
+      return;
+    }
+    if (trimmed !== value) {
+      onSave(trimmed);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') {
+          event.currentTarget.blur();
+        } else if (event.key === 'Escape') {
+          setDraft(value);
+        }
+      }}
+      aria-label={ariaLabel}
+      className={`w-full px-2 py-1 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary ${className}`}
+    />
+  );
+};
+
+/**
+ * EstimatedHoursInput component props
+ */
+interface EstimatedHoursInputProps {
+  value?: number;
+  onSave: (value: number | undefined) => void;
+  ariaLabel: string;
+}
+
+/**
+ * EstimatedHoursInput component for setting a course's estimated hours
+ * An empty value clears the estimate; invalid values are discarded
+ */
+export const EstimatedHoursInput: React.FC<EstimatedHoursInputProps> = ({ value, onSave, ariaLabel }) => {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  const commit = () => {
+    if (!draft.trim()) {
+      if (value !== undefined) onSave(undefined);
+      return;
+    }
+
+    const hours = Number(draft);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      setDraft(value?.toString() ?? '');
+      return;
+    }
+    if (hours !== value) {
+      onSave(hours);
+    }
+  };
+
+  return (
+    <input
+      type="number"
+      min="0"
+      step="0.5"
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      placeholder="시간"
+      aria-label={ariaLabel}
+      className="w-20 px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+    />
+  );
+};
+
+/**
+ * ChapterInput component props
+ */
+interface ChapterInputProps {
+  value?: string;
+  onSave: (value: string | undefined) => void;
+  ariaLabel: string;
+}
+
+/**
+ * ChapterInput component for setting the chapter a course belongs to
+ * Saves on blur or Enter; an empty value clears the chapter
+ */
+export const ChapterInput: React.FC<ChapterInputProps> = ({ value, onSave, ariaLabel }) => {
+  const [draft, setDraft] = useState(value ?? '');
+
+  const commit = () => {
+    const chapter = draft.trim() || undefined;
+    if (chapter !== value) {
+      onSave(chapter);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') {
+          event.currentTarget.blur();
+        }
+      }}
+      placeholder="장"
+      aria-label={ariaLabel}
+      className="w-20 px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+    />
+  );
+};
+
+const editorButtonClass =
+  'px-2 py-1 text-sm border border-border rounded-md hover:bg-muted disabled:opacity-40 disabled:cursor-not-allowed';
+
+/**
+ * SubtaskEditor component props
+ */
+interface SubtaskEditorProps {
+  course: Course;
+  weekId: number;
+}
+
+/**
+ * SubtaskEditor component for adding and removing the checklist steps of a course
+ */
+export const SubtaskEditor: React.FC<SubtaskEditorProps> = ({ course, weekId }) => {
+  const { dispatch } = useCurriculum();
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+
+  const handleAddSubtask = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newSubtaskTitle.trim()) return;
+
+    dispatch({
+      type: 'ADD_SUBTASK',
+      payload: { weekId, courseId: course.id, title: newSubtaskTitle }
+    });
+    setNewSubtaskTitle('');
+  };
+
+  return (
+    <div className="subtask-editor pl-0 sm:pl-14 space-y-1">
+      {(course.subtasks ?? []).map(subtask => (
+        <div key={subtask.id} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 min-w-0 truncate">• {subtask.title}</span>
+          <button
+            type="button"
+            className={`${editorButtonClass} text-error`}
+            onClick={() => dispatch({
+              type: 'DELETE_SUBTASK',
+              payload: { weekId, courseId: course.id, subtaskId: subtask.id }
+            })}
+            aria-label={`${course.name} - ${subtask.title} 하위 작업 삭제`}
+          >
+            삭제
+          </button>
+        </div>
+      ))}
+      <form onSubmit={handleAddSubtask} className="flex gap-2">
+        <input
+          type="text"
+          value={newSubtaskTitle}
+          onChange={(event) => setNewSubtaskTitle(event.target.value)}
+          placeholder="새 하위 작업"
+          aria-label={`${course.name} 새 하위 작업`}
+          className="flex-1 px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <button type="submit" disabled={!newSubtaskTitle.trim()} className={editorButtonClass}>
+          하위 작업 추가
+        </button>
+      </form>
+    </div>
+  );
+};
+
+/**
+ * CourseEditor component props
+ */
+interface CourseEditorProps {
+  week: Week;
+}
+
+/**
+ * CourseEditor component for adding, renaming, deleting and reordering the courses of a week
+ * Courses keep their id through every edit, so saved progress stays attached to them
+ */
+const CourseEditor: React.FC<CourseEditorProps> = ({ week }) => {
+  const { state, dispatch } = useCurriculum();
+  const [newCourseName, setNewCourseName] = useState('');
+
+  const handleAddCourse = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newCourseName.trim()) return;
+
+    dispatch({
+      type: 'ADD_COURSE',
+      payload: { weekId: week.id, name: newCourseName }
+    });
+    setNewCourseName('');
+  };
+
+  const handleDeleteCourse = (courseId: string, courseName: string, hasProgress: boolean) => {
+    // Ask before throwing away recorded progress
+    if (hasProgress && !window.confirm(`"${courseName}" 과정의 진행 기록도 함께 삭제됩니다. 삭제할까요?`)) {
+      return;
+    }
+
+    dispatch({
+      type: 'DELETE_COURSE',
+      payload: { weekId: week.id, courseId }
+    });
+  };
+
+  return (
+    <div className="course-editor space-y-3">
+      {week.courses.length === 0 && (
+        <p className="text-responsive-sm text-muted-foreground">
+          이 주차에는 등록된 과정이 없습니다.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {week.courses.map((course, index) => (
+          <li key={course.id} className="space-y-2">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <span className="text-xs text-muted-foreground font-mono min-w-[3rem]">{course.id}</span>
+              <div className="flex-1 min-w-0">
+                <EditableText
+                  key={course.name}
+                  value={course.name}
+                  ariaLabel={`${course.name} 과정명`}
+                  onSave={(name) => dispatch({
+                    type: 'RENAME_COURSE',
+                    payload: { weekId: week.id, courseId: course.id, name }
+                  })}
+                />
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <ChapterInput
+                  key={course.chapter ?? 'none'}
+                  value={course.chapter}
+                  ariaLabel={`${course.name} 장`}
+                  onSave={(chapter) => dispatch({
+                    type: 'SET_CHAPTER',
+                    payload: { weekId: week.id, courseId: course.id, chapter }
+                  })}
+                />
+                <EstimatedHoursInput
+                  key={course.estimatedHours ?? 'none'}
+                  value={course.estimatedHours}
+                  ariaLabel={`${course.name} 예상 시간`}
+                  onSave={(estimatedHours) => dispatch({
+                    type: 'SET_ESTIMATED_HOURS',
+                    payload: { weekId: week.id, courseId: course.id, estimatedHours }
+                  })}
+                />
+                <button
+                  type="button"
+                  className={editorButtonClass}
+                  onClick={() => dispatch({
+                    type: 'MOVE_COURSE',
+                    payload: { weekId: week.id, courseId: course.id, toIndex: index - 1 }
+                  })}
+                  disabled={index === 0}
+                  aria-label={`${course.name} 위로 이동`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className={editorButtonClass}
+                  onClick={() => dispatch({
+                    type: 'MOVE_COURSE',
+                    payload: { weekId: week.id, courseId: course.id, toIndex: index + 1 }
+                  })}
+                  disabled={index === week.courses.length - 1}
+                  aria-label={`${course.name} 아래로 이동`}
+                >
+                  ↓
+                </button>
+                <select
+                  value={week.id}
+                  onChange={(event) => dispatch({
+                    type: 'MOVE_COURSE',
+                    payload: { weekId: week.id, courseId: course.id, toWeekId: Number(event.target.value) }
+                  })}
+                  className="px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground"
+                  aria-label={`${course.name} 주차 이동`}
+                >
+                  {state.weeks.map(targetWeek => (
+                    <option key={targetWeek.id} value={targetWeek.id}>
+                      {targetWeek.title}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className={`${editorButtonClass} text-error`}
+                  onClick={() => handleDeleteCourse(
+                    course.id,
+                    course.name,
+                    hasCourseProgress(course)
+                  )}
+                  aria-label={`${course.name} 삭제`}
+                >
+                  삭제
+                </button>
+              </div>
+            </div>
+            <SubtaskEditor course={course} weekId={week.id} />
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAddCourse} className="flex flex-col sm:flex-row gap-2 pt-3 border-t border-border">
+        <input
+          type="text"
+          value={newCourseName}
+          onChange={(event) => setNewCourseName(event.target.value)}
+          placeholder="새 과정명"
+          aria-label={`${week.title} 새 과정명`}
+          className="flex-1 px-2 py-1 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <button
+          type="submit"
+          disabled={!newCourseName.trim()}
+          className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-40"
+        >
+          과정 추가
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CourseEditor;
@@ -0,0 +1,74 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Course } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import MarkdownView from './MarkdownView';
+
+/**
+ * CourseNotes component props
+ */
+interface CourseNotesProps {
+  course: Course;
+  weekId: number;
+}
+
+/**
+ * CourseNotes component with the rendered markdown notes of a course and an editor for them
+ */
+const CourseNotes: React.FC<CourseNotesProps> = ({ course, weekId }) => {
+  const { dispatch } = useCurriculum();
+  const [isEditing, setIsEditing] = useState(!course.notes);
+  const [draft, setDraft] = useState(course.notes ?? '');
+
+  const handleSave = () => {
+    dispatch({
+      type: 'SET_NOTES',
+      payload: { weekId, courseId: course.id, notes: draft }
+    });
+    setIsEditing(!draft.trim());
+  };
+
+  const handleCancel = () => {
+    setDraft(course.notes ?? '');
+    setIsEditing(!course.notes);
+  };
+
+  if (!isEditing && course.notes) {
+    return (
+      <div className="course-notes">
+        <MarkdownView source={course.notes} />
+        <div className="course-notes-actions">
+          <button type="button" className="course-notes-button" onClick={() => setIsEditing(true)}>
+            노트 편집
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="course-notes">
+      <textarea
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        placeholder="마크다운으로 노트를 작성하세요 (예: **굵게**, - 목록, [링크](https://...))"
+        aria-label={`${course.name} 노트`}
+        rows={5}
+        className="course-notes-input"
+      />
+      <div className="course-notes-actions">
+        <button type="button" className="course-notes-button primary" onClick={handleSave}>
+          저장
+        </button>
+        {course.notes && (
+          <button type="button" className="course-notes-button" onClick={handleCancel}>
+            취소
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CourseNotes;
@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Course, ResourceLinkType } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import {
+  RESOURCE_LINK_ICONS,
+  RESOURCE_LINK_LABELS,
+  RESOURCE_LINK_TYPES,
+  isWebUrl
+} from '../utils/resourceLinks';
+
+/**
+ * CourseResourceLinks component props
+ */
+interface CourseResourceLinksProps {
+  course: Course;
+  weekId: number;
+  className?: string;
+}
+
+/**
+ * CourseResourceLinks component that shows a course's links as icons,
+ * with a form to add links and delete buttons for the ones the learner added
+ */
+const CourseResourceLinks: React.FC<CourseResourceLinksProps> = ({ course, weekId, className = '' }) => {
+  const { dispatch } = useCurriculum();
+  const [isAdding, setIsAdding] = useState(false);
+  const [type, setType] = useState<ResourceLinkType>('lecture');
+  const [url, setUrl] = useState('');
+  const [title, setTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setType('lecture');
+    setUrl('');
+    setTitle('');
+    setError(null);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isWebUrl(url)) {
+      setError('http:// 또는 https://로 시작하는 주소를 입력하세요.');
+      return;
+    }
+
+    dispatch({
+      type: 'ADD_RESOURCE_LINK',
+      payload: { weekId, courseId: course.id, resource: { type, url, title } }
+    });
+    resetForm();
+  };
+
+  return (
+    <div className={`resource-links ${className}`}>
+      <ul className="resource-link-list">
+        {(course.resources ?? []).map(link => {
+          const label = `${RESOURCE_LINK_LABELS[link.type]}: ${link.title ?? link.url}`;
+          return (
+            <li key={link.id} className="resource-link-item">
+              <a
+                href={link.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`resource-link resource-link-${link.type}`}
+                title={label}
+                aria-label={label}
+              >
+                {RESOURCE_LINK_ICONS[link.type]}
+              </a>
+              {link.userAdded && (
+                <button
+                  type="button"
+                  className="resource-link-delete"
+                  onClick={() => dispatch({
+                    type: 'DELETE_RESOURCE_LINK',
+                    payload: { weekId, courseId: course.id, resourceId: link.id }
+                  })}
+                  aria-label={`${label} 링크 삭제`}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          );
+        })}
+        <li className="resource-link-item">
+          <button
+            type="button"
+            className="resource-link-add"
+            onClick={() => (isAdding ? resetForm() : setIsAdding(true))}
+            aria-expanded={isAdding}
+          >
+            {isAdding ? '취소' : '+ 링크'}
+          </button>
+        </li>
+      </ul>
+
+      {isAdding && (
+        <form className="resource-link-form" onSubmit={handleSubmit} noValidate>
+          <select
+            value={type}
+            onChange={(event) => setType(event.target.value as ResourceLinkType)}
+            aria-label={`${course.name} 링크 종류`}
+            className="resource-link-input"
+          >
+            {RESOURCE_LINK_TYPES.map(linkType => (
+              <option key={linkType} value={linkType}>
+                {RESOURCE_LINK_ICONS[linkType]} {RESOURCE_LINK_LABELS[linkType]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="url"
+            value={url}
+            onChange={(event) => {
+              setUrl(event.target.value);
+              setError(null);
+            }}
+            placeholder="https://..."
+            aria-label={`${course.name} 링크 주소`}
+            aria-invalid={!!error}
+            className="resource-link-input"
+          />
+          <input
+            type="text"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            placeholder="제목 (선택)"
+            aria-label={`${course.name} 링크 제목`}
+            className="resource-link-input"
+          />
+          <button type="submit" className="resource-link-submit">
+            링크 추가
+          </button>
+          {error && <p className="resource-link-error" role="alert">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CourseResourceLinks;
@@ -5,8 +5,43 @@ import { Course } from '../types/curriculum';
 import { useCurriculum } from '../context/CurriculumContext';
 import DatePicker from './DatePicker';
 import ErrorMessage from './ErrorMessage';
+import SubtaskChecklist from './SubtaskChecklist';
+import CourseStatusPill from './CourseStatusPill';
+import CourseNotes from './CourseNotes';
+import CourseResourceLinks from './CourseResourceLinks';
+import { isCourseDone } from '../utils/courseStatus';
 import { validateCourseDate, validateDateRange, type DateValidationOptions } from '../utils/dateValidation';
 
+/**
+ * Marks a course that has notes
+ */
+const CourseNotesBadge: React.FC<{ course: Course }> = ({ course }) =>
+  course.notes ? (
+    <span className="course-notes-badge" title="노트 있음" aria-label="노트 있음" role="img">
+      📝
+    </span>
+  ) : null;
+
+/**
+ * Button that expands or collapses the notes panel of a course
+ */
+const CourseNotesToggle: React.FC<{
+  course: Course;
+  isOpen: boolean;
+  onToggle: () => void;
+  idPrefix?: string;
+}> = ({ course, isOpen, onToggle, idPrefix = 'notes' }) => (
+  <button
+    type="button"
+    className="course-notes-toggle"
+    onClick={onToggle}
+    aria-expanded={isOpen}
+    aria-controls={`${idPrefix}-${course.id}`}
+  >
+    {isOpen ? '노트 닫기' : course.notes ? '노트 보기' : '노트 추가'}
+  </button>
+);
+
 /**
  * CourseRow component props
  */
@@ -20,16 +55,19 @@ interface CourseRowProps {
  * with interactive date pickers and completion checkbox
  * 
  * Implements requirements:
- * - 3.1: Display course name, start date, end date, completion status
+ * - 3.1: Display course name, start date, end date, completion status (as a status pill)
  * - 3.2: Interactive start date picker
  * - 3.3: Interactive end date picker  
  * - 3.4: Date validation and event handling
+ * - Subtask checklist with partial course progress
+ * - Expandable markdown notes panel
  */
 const CourseRow: React.FC<CourseRowProps> = ({ course, weekId }) => {
   const { dispatch } = useCurriculum();
   const [dateError, setDateError] = useState<string>('');
   const [startDateError, setStartDateError] = useState<string>('');
   const [endDateError, setEndDateError] = useState<string>('');
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
 
   // Enhanced date validation options for start date (memoized to prevent re-renders)
   const startDateValidationOptions: DateValidationOptions = useMemo(() => ({
@@ -135,7 +173,11 @@ const CourseRow: React.FC<CourseRowProps> = ({ course, weekId }) => {
         <td className="course-table-cell course-name-cell">
           <span className="course-name-text">
             {course.name}
+            <CourseNotesBadge course={course} />
           </span>
+          <CourseNotesToggle course={course} isOpen={isNotesOpen} onToggle={() => setIsNotesOpen(!isNotesOpen)} />
+          <CourseResourceLinks course={course} weekId={weekId} />
+          <SubtaskChecklist course={course} weekId={weekId} />
         </td>
         <td className="course-table-cell course-date-cell">
           <div className="date-cell-content">
@@ -171,20 +213,27 @@ const CourseRow: React.FC<CourseRowProps> = ({ course, weekId }) => {
             <label className="completion-checkbox-label">
               <input
                 type="checkbox"
-                checked={course.completed}
+                checked={isCourseDone(course)}
                 onChange={handleCompletionToggle}
                 className="completion-checkbox"
                 aria-label={`${course.name} 완료 여부`}
               />
               <span className="checkbox-custom"></span>
-              <span className={`status-text ${course.completed ? 'completed' : 'pending'}`}>
-                {course.completed ? '완료' : '미완료'}
-              </span>
             </label>
+            <CourseStatusPill course={course} weekId={weekId} />
           </div>
         </td>
       </tr>
       
+      {/* Notes panel */}
+      {isNotesOpen && (
+        <tr className="course-notes-row" id={`notes-${course.id}`}>
+          <td colSpan={4} className="course-notes-cell">
+            <CourseNotes course={course} weekId={weekId} />
+          </td>
+        </tr>
+      )}
+      
       {/* Error row for date range validation */}
       {dateError && (
         <tr className="course-error-row">
@@ -215,6 +264,7 @@ export const CourseCard: React.FC<CourseCardProps> = ({ course, weekId }) => {
   const [dateError, setDateError] = useState<string>('');
   const [startDateError, setStartDateError] = useState<string>('');
   const [endDateError, setEndDateError] = useState<string>('');
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
 
   // Enhanced date validation options for start date in mobile (memoized to prevent re-renders)
   const startDateValidationOptions: DateValidationOptions = useMemo(() => ({
@@ -314,23 +364,34 @@ export const CourseCard: React.FC<CourseCardProps> = ({ course, weekId }) => {
       <div className="course-card-header">
         <h4 className="course-card-title">
           {course.name}
+          <CourseNotesBadge course={course} />
         </h4>
-        <label className="course-card-completion">
-          <input
-            type="checkbox"
-            checked={course.completed}
-            onChange={handleCompletionToggle}
-            className="completion-checkbox"
-            aria-label={`${course.name} 완료 여부`}
-          />
-          <span className="checkbox-custom"></span>
-          <span className={`course-card-status ${course.completed ? 'completed' : 'pending'}`}>
-            {course.completed ? '완료' : '미완료'}
-          </span>
-        </label>
+        <div className="course-card-completion">
+          <label className="completion-checkbox-label">
+            <input
+              type="checkbox"
+              checked={isCourseDone(course)}
+              onChange={handleCompletionToggle}
+              className="completion-checkbox"
+              aria-label={`${course.name} 완료 여부`}
+            />
+            <span className="checkbox-custom"></span>
+          </label>
+          <CourseStatusPill course={course} weekId={weekId} />
+        </div>
       </div>
       
       <div className="course-card-content">
+        <CourseResourceLinks course={course} weekId={weekId} className="course-card-resources" />
+        <SubtaskChecklist course={course} weekId={weekId} className="course-card-subtasks" />
+        
+        <CourseNotesToggle course={course} isOpen={isNotesOpen} onToggle={() => setIsNotesOpen(!isNotesOpen)} idPrefix="mobile-notes" />
+        {isNotesOpen && (
+          <div className="course-card-notes" id={`mobile-notes-${course.id}`}>
+            <CourseNotes course={course} weekId={weekId} />
+          </div>
+        )}
+        
         <div className="course-card-dates">
           <div className="course-card-date-item">
             <label className="course-card-date-label">시작일:</label>
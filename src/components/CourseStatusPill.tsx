@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { Course, CourseStatus } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import { COURSE_STATUSES, COURSE_STATUS_LABELS } from '../utils/courseStatus';
+
+/**
+ * CourseStatusPill component props
+ */
+interface CourseStatusPillProps {
+  course: Course;
+  weekId: number;
+  className?: string;
+}
+
+/**
+ * CourseStatusPill component that shows a course's status as a colored pill
+ * and lets the user move the course through its lifecycle
+ */
+const CourseStatusPill: React.FC<CourseStatusPillProps> = ({ course, weekId, className = '' }) => {
+  const { dispatch } = useCurriculum();
+
+  return (
+    <select
+      value={course.status}
+      onChange={(event) => dispatch({
+        type: 'SET_STATUS',
+        payload: { weekId, courseId: course.id, status: event.target.value as CourseStatus }
+      })}
+      className={`status-pill status-pill-${course.status} ${className}`}
+      aria-label={`${course.name} 상태`}
+    >
+      {COURSE_STATUSES.map(status => (
+        <option key={status} value={status}>
+          {COURSE_STATUS_LABELS[status]}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default CourseStatusPill;
@@ -1,24 +1,78 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useCurriculum } from '../context/CurriculumContext';
 import ProgressBar from './ProgressBar';
 import WeekSection from './WeekSection';
+import ChapterSection from './ChapterSection';
+import PrerequisiteGraph from './PrerequisiteGraph';
+import PrerequisiteWarningBanner from './PrerequisiteWarningBanner';
+import OrphanedProgressPanel from './OrphanedProgressPanel';
+import ProgressTableExport from './ProgressTableExport';
+import ProgressSyncNotice from './ProgressSyncNotice';
+import ResetProgressButton from './ResetProgressButton';
+import ErrorMessage from './ErrorMessage';
+import { calculateRemainingHours, isWeightedProgress } from '../utils/progressCalculator';
+import { COURSE_STATUSES, COURSE_STATUS_LABELS, countCourseStatuses, isCourseDone } from '../utils/courseStatus';
+import { groupCoursesByChapter } from '../utils/chapters';
+
+/**
+ * How the dashboard lists courses
+ */
+type DashboardView = 'week' | 'chapter' | 'prerequisites';
+
+const DASHBOARD_VIEW_LABELS: Record<DashboardView, string> = {
+  week: '주차별',
+  chapter: '장별',
+  prerequisites: '선행 관계'
+};
 
 /**
  * CurriculumDashboard component that displays overall progress and weekly sections
  * Implements requirements 1.1, 1.2, 2.1, 2.2
  */
 const CurriculumDashboard: React.FC = () => {
-  const { state, dispatch } = useCurriculum();
+  const { state, dispatch, definitionError, storageMigrationReport, dismissStorageMigrationReport, isReadOnly } = useCurriculum();
+  const [isEditing, setIsEditing] = useState(false);
+  const [view, setView] = useState<DashboardView>('week');
   
   // Calculate total courses and completed courses for display
   const totalCourses = state.weeks.reduce((total, week) => total + week.courses.length, 0);
   const completedCourses = state.weeks.reduce((total, week) => 
-    total + week.courses.filter(course => course.completed).length, 0
+    total + week.courses.filter(isCourseDone).length, 0
   );
+  const allCourses = state.weeks.flatMap(week => week.courses);
+  const isWeighted = isWeightedProgress(allCourses);
+  const statusCounts = countCourseStatuses(allCourses);
 
 
+  // Show what is wrong with the curriculum definition instead of an empty dashboard
+  if (definitionError) {
+    return (
+      <div className="curriculum-dashboard">
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-responsive-lg font-semibold">커리큘럼을 불러올 수 없습니다</h2>
+          </div>
+          <div className="card-content">
+            <ErrorMessage
+              message={`커리큘럼 정의 파일(${definitionError.source})에 ${definitionError.issues.length}개의 문제가 있습니다.`}
+              type="error"
+            />
+            <ul className="mt-3 space-y-2 text-responsive-sm">
+              {definitionError.issues.map(issue => (
+                <li key={`${issue.path}-${issue.message}`}>
+                  <code className="font-mono text-muted-foreground">{issue.path}</code>
+                  {' '}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="curriculum-dashboard">
@@ -27,9 +81,25 @@ const CurriculumDashboard: React.FC = () => {
         <div className="card-header">
           <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
             <h2 className="text-responsive-lg font-semibold">전체 진행률</h2>
-            <span className="text-responsive-sm text-muted-foreground sm:text-right">
-              {completedCourses}/{totalCourses} 과정 완료
-            </span>
+            <div className="flex items-center gap-3 sm:justify-end">
+              <span className="text-responsive-sm text-muted-foreground sm:text-right">
+                {completedCourses}/{totalCourses} 과정 완료
+              </span>
+              <ProgressTableExport />
+              {!isReadOnly && (
+                <>
+                  <ResetProgressButton />
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(!isEditing)}
+                    aria-pressed={isEditing}
+                    className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+                  >
+                    {isEditing ? '편집 완료' : '구조 편집'}
+                  </button>
+                </>
+              )}
+            </div>
           </div>
         </div>
         
@@ -41,23 +111,90 @@ const CurriculumDashboard: React.FC = () => {
               size="large"
               showPercentage={false}
               className="mb-2"
+              weighted={isWeighted}
             />
             <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-1">
               <p className="text-responsive-sm text-muted-foreground">
                 {state.overallProgress}% 완료
+                {isWeighted && ` (예상 시간 가중 · 남은 예상 시간 ${calculateRemainingHours(allCourses)}시간)`}
               </p>
               <p className="text-xs text-muted-foreground sm:text-right">
                 총 {state.weeks.length}주차 커리큘럼
               </p>
             </div>
+            <ul className="flex flex-wrap gap-2 mt-2" aria-label="상태별 과정 수">
+              {COURSE_STATUSES.map(status => (
+                <li key={status} className={`status-pill status-pill-${status} cursor-default`}>
+                  {COURSE_STATUS_LABELS[status]} {statusCounts[status]}
+                </li>
+              ))}
+            </ul>
           </div>
 
-          {/* Weekly Sections - Requirement 2.1, 2.2 */}
-          <div className="space-y-4">
-            {state.weeks.map((week) => (
-              <WeekSection key={week.id} week={week} />
-            ))}
-          </div>
+          {/* View switch; the structure editor always works per week */}
+          {!isEditing && (
+            <div className="flex gap-2 mb-4" role="group" aria-label="과정 보기 방식">
+              {(Object.keys(DASHBOARD_VIEW_LABELS) as DashboardView[]).map(item => (
+                <button
+                  key={item}
+                  type="button"
+                  onClick={() => setView(item)}
+                  aria-pressed={view === item}
+                  className={`px-3 py-1.5 text-sm border border-border rounded-md transition-colors ${
+                    view === item ? 'bg-muted font-medium' : 'hover:bg-muted'
+                  }`}
+                >
+                  {DASHBOARD_VIEW_LABELS[item]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {storageMigrationReport && (
+            <ErrorMessage
+              message={`저장된 진행 기록을 새 형식으로 변환했습니다 (${storageMigrationReport.fromVersion} → ${storageMigrationReport.toVersion}): ${storageMigrationReport.applied.map(migration => migration.description).join(', ')}. 원본은 백업해 두었습니다.`}
+              type="info"
+              className="mb-4"
+              dismissible
+              onDismiss={dismissStorageMigrationReport}
+            />
+          )}
+
+          <ProgressSyncNotice />
+
+          <OrphanedProgressPanel />
+
+          <PrerequisiteWarningBanner />
+
+          {view === 'chapter' && !isEditing ? (
+            <div className="space-y-4">
+              {groupCoursesByChapter(state.weeks).map(group => (
+                <ChapterSection key={group.chapter ?? ''} group={group} />
+              ))}
+            </div>
+          ) : view === 'prerequisites' && !isEditing ? (
+            <PrerequisiteGraph />
+          ) : (
+            /* Weekly Sections - Requirement 2.1, 2.2 */
+            <div className="space-y-4">
+              {state.weeks.map((week) => (
+                <WeekSection key={week.id} week={week} isEditing={isEditing} />
+              ))}
+            </div>
+          )}
+
+          {/* Structure editor - add a week at the end */}
+          {isEditing && (
+            <div className="mt-4">
+              <button
+                type="button"
+                onClick={() => dispatch({ type: 'ADD_WEEK', payload: {} })}
+                className="w-full px-3 py-2 text-sm border border-dashed border-border rounded-md hover:bg-muted transition-colors"
+              >
+                + 주차 추가
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
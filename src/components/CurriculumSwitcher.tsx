@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+
+/**
+ * CurriculumSwitcher component props
+ */
+interface CurriculumSwitcherProps {
+  className?: string;
+}
+
+/**
+ * CurriculumSwitcher component for choosing which curriculum (track) is shown
+ * Each track keeps its own progress, so switching never changes another track's data
+ */
+const CurriculumSwitcher: React.FC<CurriculumSwitcherProps> = ({ className = '' }) => {
+  const { curricula, activeCurriculumId, switchCurriculum } = useCurriculum();
+
+  // Nothing to switch between with a single track
+  if (curricula.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <label htmlFor="curriculum-switcher" className="text-sm text-muted-foreground">
+        트랙
+      </label>
+      <select
+        id="curriculum-switcher"
+        value={activeCurriculumId}
+        onChange={(event) => switchCurriculum(event.target.value)}
+        className="px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+      >
+        {curricula.map(curriculum => (
+          <option key={curriculum.id} value={curriculum.id}>
+            {curriculum.title}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default CurriculumSwitcher;
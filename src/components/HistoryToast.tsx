@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+
+// Constants
+const TOAST_DURATION_MS = 5000;
+
+/**
+ * Check whether a key press belongs to a field with its own undo
+ */
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * HistoryToast component that names the last change with a button to undo it, or to redo it after an undo
+ * Also handles the Ctrl+Z / Ctrl+Shift+Z (⌘Z / ⌘⇧Z) shortcuts; Ctrl+Y redoes as well
+ */
+const HistoryToast: React.FC = () => {
+  const { canUndo, canRedo, undo, redo, lastHistoryChange } = useCurriculum();
+  const [hiddenChangeId, setHiddenChangeId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!lastHistoryChange) return;
+    const timer = setTimeout(() => setHiddenChangeId(lastHistoryChange.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [lastHistoryChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        if (!canUndo) return;
+        event.preventDefault();
+        undo();
+      } else if (key === 'z' || key === 'y') {
+        if (!canRedo) return;
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, undo, redo]);
+
+  if (!lastHistoryChange || lastHistoryChange.id === hiddenChangeId) return null;
+
+  const isUndone = lastHistoryChange.kind === 'undo';
+  const message = {
+    change: lastHistoryChange.label,
+    undo: `실행 취소함: ${lastHistoryChange.label}`,
+    redo: `다시 실행함: ${lastHistoryChange.label}`
+  }[lastHistoryChange.kind];
+
+  return (
+    <div className="history-toast" role="status">
+      <span className="text-sm">{message}</span>
+      {(isUndone ? canRedo : canUndo) && (
+        <button
+          type="button"
+          onClick={isUndone ? redo : undo}
+          className="px-3 py-1 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+        >
+          {isUndone ? '다시 실행' : '실행 취소'}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => setHiddenChangeId(lastHistoryChange.id)}
+        className="text-muted-foreground hover:text-foreground transition-colors"
+        aria-label="알림 닫기"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default HistoryToast;
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+/**
+ * MarkdownView component props
+ */
+interface MarkdownViewProps {
+  source: string;
+  className?: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index} className="markdown-inline-code">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+      default:
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = (`h${block.level + 3}`) as 'h4' | 'h5' | 'h6';
+      return <Heading key={index}>{renderInline(block.children)}</Heading>;
+    }
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index}>
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'codeBlock':
+      return (
+        <pre key={index}>
+          <code>{block.text}</code>
+        </pre>
+      );
+    default:
+      return <p key={index}>{renderInline(block.children)}</p>;
+  }
+};
+
+/**
+ * MarkdownView component that renders markdown as React elements
+ * Raw HTML in the source is shown as text and only http(s)/mailto links are kept
+ */
+const MarkdownView: React.FC<MarkdownViewProps> = ({ source, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={`markdown-view ${className}`}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+};
+
+export default MarkdownView;
@@ -0,0 +1,139 @@
+'use client';
+
+import React, { useState } from 'react';
+import { OrphanedProgress } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import { COURSE_STATUS_LABELS } from '../utils/courseStatus';
+import { hasCourseProgress } from '../utils/curriculumEditor';
+
+// Constants
+const NOTES_PREVIEW_LENGTH = 40;
+
+/**
+ * Summarize what an orphaned entry recorded, e.g. "완료 · 메모 · 링크 2개"
+ */
+const describeProgress = ({ progress }: OrphanedProgress): string => {
+  const parts: string[] = [COURSE_STATUS_LABELS[progress.status]];
+  if (progress.startDate || progress.endDate) parts.push('날짜');
+  if (progress.completedSubtasks?.length) parts.push(`하위 작업 ${progress.completedSubtasks.length}개 완료`);
+  if (progress.resources?.length) parts.push(`링크 ${progress.resources.length}개`);
+  return parts.join(' · ');
+};
+
+/**
+ * OrphanedProgressItem component props
+ */
+interface OrphanedProgressItemProps {
+  orphan: OrphanedProgress;
+}
+
+/**
+ * OrphanedProgressItem component for moving a single orphaned entry to a course or discarding it
+ */
+const OrphanedProgressItem: React.FC<OrphanedProgressItemProps> = ({ orphan }) => {
+  const { state, dispatch } = useCurriculum();
+  const [target, setTarget] = useState('');
+  const key = { weekId: orphan.weekId, courseId: orphan.courseId };
+
+  const handleReassign = (event: React.FormEvent) => {
+    event.preventDefault();
+    const [weekId, courseId] = target.split('|');
+    const week = state.weeks.find(item => item.id === Number(weekId));
+    const course = week?.courses.find(item => item.id === courseId);
+    if (!week || !course) return;
+
+    // Ask before replacing progress the course already has
+    if (hasCourseProgress(course) && !window.confirm(`"${course.name}" 과정의 진행 기록을 이 기록으로 덮어씁니다. 계속할까요?`)) {
+      return;
+    }
+
+    dispatch({
+      type: 'REASSIGN_ORPHANED_PROGRESS',
+      payload: { weekId: week.id, courseId: course.id, orphan: key }
+    });
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm(`과정 ID "${orphan.courseId}"의 진행 기록을 삭제할까요?`)) return;
+    dispatch({ type: 'DISCARD_ORPHANED_PROGRESS', payload: { orphan: key } });
+  };
+
+  const notes = orphan.progress.notes?.trim();
+
+  return (
+    <li className="orphaned-progress-item">
+      <div className="min-w-0">
+        <p className="text-responsive-sm">
+          <code className="font-mono">{orphan.courseId}</code>
+          <span className="text-muted-foreground"> ({orphan.weekId}주차에 저장됨)</span>
+        </p>
+        <p className="text-xs text-muted-foreground">{describeProgress(orphan)}</p>
+        {notes && (
+          <p className="text-xs text-muted-foreground truncate">
+            메모: {notes.length > NOTES_PREVIEW_LENGTH ? `${notes.slice(0, NOTES_PREVIEW_LENGTH)}…` : notes}
+          </p>
+        )}
+      </div>
+      <form onSubmit={handleReassign} className="flex flex-wrap items-center gap-2">
+        <select
+          value={target}
+          onChange={(event) => setTarget(event.target.value)}
+          aria-label={`${orphan.courseId} 기록을 옮길 과정`}
+          className="px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground"
+        >
+          <option value="">과정 선택</option>
+          {state.weeks.map(week => (
+            <optgroup key={week.id} label={week.title}>
+              {week.courses.map(course => (
+                <option key={course.id} value={`${week.id}|${course.id}`}>
+                  {course.id} {course.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!target}
+          className="px-3 py-1 text-sm border border-border rounded-md hover:bg-muted disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          옮기기
+        </button>
+        <button
+          type="button"
+          onClick={handleDiscard}
+          aria-label={`${orphan.courseId} 기록 삭제`}
+          className="px-3 py-1 text-sm border border-border rounded-md hover:bg-muted text-error"
+        >
+          삭제
+        </button>
+      </form>
+    </li>
+  );
+};
+
+/**
+ * OrphanedProgressPanel component listing saved progress whose course id no longer exists
+ * in the curriculum, so the learner can move it to the right course by hand
+ */
+const OrphanedProgressPanel: React.FC = () => {
+  const { state } = useCurriculum();
+  const orphans = state.orphanedProgress ?? [];
+  if (orphans.length === 0) return null;
+
+  return (
+    <section className="orphaned-progress mb-4" aria-label="연결되지 않은 진행 기록">
+      <h3 className="text-responsive-base font-semibold">연결되지 않은 진행 기록 {orphans.length}개</h3>
+      <p className="text-responsive-sm text-muted-foreground mb-3">
+        커리큘럼에서 과정 ID가 바뀌어 연결할 과정을 찾지 못한 기록입니다. 옮길 과정을 고르거나 삭제하세요.
+      </p>
+      <ul className="space-y-2">
+        {orphans.map(orphan => (
+          <OrphanedProgressItem key={`${orphan.weekId}|${orphan.courseId}`} orphan={orphan} />
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default OrphanedProgressPanel;
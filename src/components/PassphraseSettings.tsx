@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useProgressEncryption } from '../context/ProgressEncryptionContext';
+import ErrorMessage from './ErrorMessage';
+
+// Constants
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClassName = 'px-3 py-1.5 text-sm border border-border rounded-md bg-background';
+
+/**
+ * PassphraseSettings component for setting, changing or removing the passphrase that encrypts saved progress
+ * Renders nothing outside ProgressEncryptionProvider
+ */
+const PassphraseSettings: React.FC = () => {
+  const encryption = useProgressEncryption();
+  const [isOpen, setIsOpen] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Escape closes the dialog like the cancel button
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  if (!encryption) return null;
+  const { isEncrypted, setPassphrase, removePassphrase } = encryption;
+
+  const open = () => {
+    setCurrentPassphrase('');
+    setNextPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+    setMessage(null);
+    setIsOpen(true);
+  };
+
+  const run = async (apply: () => Promise<boolean>, doneMessage: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!(await apply())) {
+        setError('현재 암호가 올바르지 않습니다.');
+        return;
+      }
+      setIsOpen(false);
+      setMessage(doneMessage);
+    } catch (applyError) {
+      console.error('Failed to change the progress passphrase:', applyError);
+      setError('암호를 바꾸지 못했습니다. 다시 시도해 주세요.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (nextPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`새 암호는 ${MIN_PASSPHRASE_LENGTH}자 이상이어야 합니다.`);
+      return;
+    }
+    if (nextPassphrase !== confirmPassphrase) {
+      setError('새 암호가 일치하지 않습니다.');
+      return;
+    }
+    void run(
+      () => setPassphrase(isEncrypted ? currentPassphrase : null, nextPassphrase),
+      isEncrypted ? '암호를 변경했습니다.' : '이제 진행 기록이 암호로 보호됩니다.'
+    );
+  };
+
+  const handleRemove = () => {
+    void run(() => removePassphrase(currentPassphrase), '암호를 제거했습니다. 진행 기록이 암호 없이 저장됩니다.');
+  };
+
+  return (
+    <div className="flex flex-col sm:items-end gap-2">
+      <button
+        type="button"
+        onClick={open}
+        className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+      >
+        {isEncrypted ? '🔒 암호 설정' : '🔓 암호 설정'}
+      </button>
+      {message && (
+        <ErrorMessage message={message} type="info" inline dismissible onDismiss={() => setMessage(null)} />
+      )}
+
+      {isOpen && (
+        <div className="dialog-backdrop">
+          <form
+            className="dialog gap-2"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="passphrase-settings-title"
+            onSubmit={handleSubmit}
+          >
+            <h2 id="passphrase-settings-title" className="text-responsive-lg font-semibold mb-1">
+              진행 기록 암호
+            </h2>
+            <p className="text-responsive-sm mb-1">
+              암호를 설정하면 이 브라우저에 저장되는 진행 기록이 암호화되고, 페이지를 열 때마다 암호를 물어봅니다.
+              암호를 잊으면 진행 기록을 되찾을 수 없으니 필요하면 먼저 진행 기록을 내보내 두세요.
+            </p>
+
+            {isEncrypted && (
+              <>
+                <label htmlFor="passphrase-current" className="text-sm font-medium">현재 암호</label>
+                <input
+                  id="passphrase-current"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassphrase}
+                  onChange={event => setCurrentPassphrase(event.target.value)}
+                  className={inputClassName}
+                />
+              </>
+            )}
+            <label htmlFor="passphrase-next" className="text-sm font-medium">새 암호</label>
+            <input
+              id="passphrase-next"
+              type="password"
+              autoComplete="new-password"
+              value={nextPassphrase}
+              onChange={event => setNextPassphrase(event.target.value)}
+              className={inputClassName}
+            />
+            <label htmlFor="passphrase-confirm" className="text-sm font-medium">새 암호 확인</label>
+            <input
+              id="passphrase-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassphrase}
+              onChange={event => setConfirmPassphrase(event.target.value)}
+              className={inputClassName}
+            />
+            {error && <ErrorMessage message={error} type="error" />}
+
+            <div className="flex flex-wrap justify-end gap-2 mt-1">
+              {isEncrypted && (
+                <button
+                  type="button"
+                  onClick={handleRemove}
+                  disabled={isSaving || currentPassphrase.length === 0}
+                  className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+                >
+                  암호 제거
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsOpen(false)}
+                className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+              >
+                취소
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isEncrypted ? '암호 변경' : '암호 설정'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PassphraseSettings;
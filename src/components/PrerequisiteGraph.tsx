@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+import { buildPrerequisiteGraph } from '../utils/prerequisites';
+import { COURSE_STATUS_LABELS } from '../utils/courseStatus';
+
+/**
+ * PrerequisiteGraph component that lays out prerequisite relations in columns,
+ * from courses without prerequisites to the ones that depend on them,
+ * and highlights courses still waiting for their prerequisites
+ */
+const PrerequisiteGraph: React.FC = () => {
+  const { state } = useCurriculum();
+  const levels = useMemo(() => buildPrerequisiteGraph(state.weeks), [state.weeks]);
+
+  if (levels.length === 0) {
+    return (
+      <p className="text-responsive-sm text-muted-foreground">
+        선행 과정이 지정된 과정이 없습니다.
+      </p>
+    );
+  }
+
+  const blockedCount = levels.flat().filter(node => node.isBlocked).length;
+
+  return (
+    <div className="prerequisite-graph">
+      <p className="text-responsive-sm text-muted-foreground mb-3">
+        선행 과정을 기다리는 과정 {blockedCount}개
+      </p>
+      <div className="prerequisite-graph-levels">
+        {levels.map((nodes, level) => (
+          <ol key={level} className="prerequisite-graph-level" aria-label={`${level + 1}단계`}>
+            {nodes.map(node => (
+              <li
+                key={node.course.id}
+                className={`prerequisite-node ${node.isBlocked ? 'prerequisite-node-blocked' : ''}`}
+              >
+                <span className="prerequisite-node-name">{node.course.name}</span>
+                <span className={`status-pill status-pill-${node.course.status}`}>
+                  {node.isBlocked ? '선행 과정 대기' : COURSE_STATUS_LABELS[node.course.status]}
+                </span>
+                {node.prerequisites.length > 0 && (
+                  <ul className="prerequisite-node-requirements" aria-label={`${node.course.name} 선행 과정`}>
+                    {node.prerequisites.map(prerequisite => {
+                      const isOpen = node.openPrerequisites.includes(prerequisite);
+                      return (
+                        <li key={prerequisite.id} className={isOpen ? 'prerequisite-open' : 'prerequisite-met'}>
+                          <span aria-hidden="true">{isOpen ? '○' : '✓'}</span> {prerequisite.name}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PrerequisiteGraph;
@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+import ErrorMessage from './ErrorMessage';
+
+/**
+ * PrerequisiteWarningBanner component shown when completing a course was held back
+ * because its prerequisites are open; the learner can complete it anyway or dismiss the warning
+ */
+const PrerequisiteWarningBanner: React.FC = () => {
+  const { state, dispatch } = useCurriculum();
+  const warning = state.prerequisiteWarning;
+  if (!warning) return null;
+
+  const courses = state.weeks.flatMap(week => week.courses);
+  const courseName = (id: string) => courses.find(course => course.id === id)?.name ?? id;
+
+  return (
+    <div className="prerequisite-warning mb-4">
+      <ErrorMessage
+        message={`"${courseName(warning.courseId)}" 과정의 선행 과정이 아직 끝나지 않았습니다: ${warning.openPrerequisiteIds.map(courseName).join(', ')}`}
+        type="warning"
+        dismissible
+        onDismiss={() => dispatch({ type: 'DISMISS_PREREQUISITE_WARNING', payload: {} })}
+      />
+      <button
+        type="button"
+        onClick={() => dispatch({
+          type: 'TOGGLE_COMPLETION',
+          payload: { weekId: warning.weekId, courseId: warning.courseId, force: true }
+        })}
+        className="mt-2 px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+      >
+        그래도 완료로 표시
+      </button>
+    </div>
+  );
+};
+
+export default PrerequisiteWarningBanner;
@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useLearnerProfiles } from '../context/LearnerProfileContext';
+import { DEFAULT_PROFILE_ID, LearnerProfileError, MAX_PROFILE_NAME_LENGTH } from '../utils/learnerProfiles';
+import ConfirmDialog from './ConfirmDialog';
+import ErrorMessage from './ErrorMessage';
+
+const buttonClassName = 'px-2 py-1 text-sm border border-border rounded-md hover:bg-muted transition-colors';
+
+/**
+ * Name dialog shown while a profile is added or renamed
+ */
+type NameDialog = { mode: 'create' } | { mode: 'rename'; profileId: string };
+
+/**
+ * ProfilePicker component for choosing whose progress is shown, and adding, renaming or deleting learner profiles
+ * Renders nothing outside LearnerProfileProvider
+ */
+const ProfilePicker: React.FC = () => {
+  const learnerProfiles = useLearnerProfiles();
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  // Escape closes the name dialog like the cancel button
+  useEffect(() => {
+    if (!nameDialog) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setNameDialog(null);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [nameDialog]);
+
+  if (!learnerProfiles) return null;
+  const { profiles, activeProfile, switchProfile, createProfile, renameProfile, deleteProfile } = learnerProfiles;
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setName(dialog.mode === 'rename' ? activeProfile.name : '');
+    setError(null);
+    setNameDialog(dialog);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!nameDialog) return;
+
+    try {
+      if (nameDialog.mode === 'create') {
+        createProfile(name);
+      } else {
+        renameProfile(nameDialog.profileId, name);
+      }
+      setNameDialog(null);
+    } catch (submitError) {
+      if (!(submitError instanceof LearnerProfileError)) throw submitError;
+      setError(submitError.message);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsConfirmingDelete(false);
+    await deleteProfile(activeProfile.id);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label htmlFor="profile-picker" className="text-sm text-muted-foreground">
+        학습자
+      </label>
+      <select
+        id="profile-picker"
+        value={activeProfile.id}
+        onChange={(event) => switchProfile(event.target.value)}
+        className="px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <button type="button" onClick={() => openNameDialog({ mode: 'create' })} className={buttonClassName}>
+        프로필 추가
+      </button>
+      <button
+        type="button"
+        onClick={() => openNameDialog({ mode: 'rename', profileId: activeProfile.id })}
+        className={buttonClassName}
+      >
+        이름 변경
+      </button>
+      {activeProfile.id !== DEFAULT_PROFILE_ID && (
+        <button type="button" onClick={() => setIsConfirmingDelete(true)} className={buttonClassName}>
+          프로필 삭제
+        </button>
+      )}
+
+      {nameDialog && (
+        <div className="dialog-backdrop">
+          <form
+            className="dialog gap-2"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="profile-name-title"
+            onSubmit={handleSubmit}
+          >
+            <h2 id="profile-name-title" className="text-responsive-lg font-semibold mb-1">
+              {nameDialog.mode === 'create' ? '새 학습자 프로필' : '프로필 이름 변경'}
+            </h2>
+            {nameDialog.mode === 'create' && (
+              <p className="text-responsive-sm mb-1">
+                프로필마다 진행 기록, 스냅샷과 실행 취소 기록이 따로 저장됩니다. 만든 프로필로 바로 전환합니다.
+              </p>
+            )}
+            <label htmlFor="profile-name" className="text-sm font-medium">프로필 이름</label>
+            <input
+              id="profile-name"
+              type="text"
+              autoFocus
+              maxLength={MAX_PROFILE_NAME_LENGTH}
+              value={name}
+              onChange={event => setName(event.target.value)}
+              className="px-3 py-1.5 text-sm border border-border rounded-md bg-background"
+            />
+            {error && <ErrorMessage message={error} type="error" />}
+
+            <div className="flex flex-wrap justify-end gap-2 mt-1">
+              <button
+                type="button"
+                onClick={() => setNameDialog(null)}
+                className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+              >
+                취소
+              </button>
+              <button
+                type="submit"
+                className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+              >
+                {nameDialog.mode === 'create' ? '추가' : '저장'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {isConfirmingDelete && (
+        <ConfirmDialog
+          title={`'${activeProfile.name}' 프로필 삭제`}
+          message="이 프로필의 모든 트랙의 진행 기록, 스냅샷과 실행 취소 기록을 지우고 기본 프로필로 전환합니다. 되돌릴 수 없으니 필요하면 먼저 진행 기록을 내보내 두세요."
+          confirmLabel="삭제"
+          onConfirm={() => void handleDelete()}
+          onCancel={() => setIsConfirmingDelete(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
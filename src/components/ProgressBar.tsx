@@ -13,6 +13,8 @@ interface ProgressBarProps {
   showPercentage?: boolean;
   /** Custom className for styling */
   className?: string;
+  /** Whether the progress is weighted by estimated hours rather than course count */
+  weighted?: boolean;
 }
 
 /**
@@ -28,13 +30,15 @@ interface ProgressBarProps {
  * - Accessibility support with ARIA attributes
  * - Responsive design
  * - Color-coded progress states
+ * - Labels note when the figure is weighted by estimated hours
  */
 const ProgressBar: React.FC<ProgressBarProps> = ({
   progress,
   label,
   size = 'medium',
   showPercentage = false,
-  className = ''
+  className = '',
+  weighted = false
 }) => {
   // Ensure progress is within valid range
   const normalizedProgress = Math.max(0, Math.min(100, progress));
@@ -60,7 +64,8 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
 
   const colorClass = getProgressColorClass(normalizedProgress);
   const sizeClass = getSizeClasses(size);
-  const progressLabel = label || `진행률 ${normalizedProgress}%`;
+  const baseLabel = label || `진행률 ${normalizedProgress}%`;
+  const progressLabel = weighted ? `${baseLabel} (예상 시간 가중)` : baseLabel;
 
   return (
     <div className={`progress-container ${className}`}>
@@ -85,7 +90,7 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
       {showPercentage && (
         <div className="progress-text">
           <span className="text-responsive-sm text-muted-foreground">
-            {normalizedProgress}%
+            {normalizedProgress}%{weighted && ' (예상 시간 가중)'}
           </span>
         </div>
       )}
@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { ProgressDiffEntry, ProgressDiffField, ProgressFieldChange } from '../utils/progressTransfer';
+import { COURSE_STATUS_LABELS, isCourseStatus } from '../utils/courseStatus';
+import { formatDateForDisplay } from '../utils/dateValidation';
+
+const FIELD_LABELS: Record<ProgressDiffField, string> = {
+  status: '상태',
+  startDate: '시작일',
+  endDate: '종료일'
+};
+
+/**
+ * Format a compared value for display; unset values show as a dash
+ */
+const formatValue = (change: ProgressFieldChange, value: string | undefined): string => {
+  if (value === undefined) return '—';
+  if (change.field === 'status') return isCourseStatus(value) ? COURSE_STATUS_LABELS[value] : value;
+  return formatDateForDisplay(new Date(value));
+};
+
+/**
+ * ProgressDiffTable component props
+ */
+interface ProgressDiffTableProps {
+  entries: ProgressDiffEntry[];
+  /** Heading of the column holding the other side, e.g. "가져온 값" */
+  importedLabel: string;
+  /** Show which side merging keeps for each course */
+  showMergeKeeps?: boolean;
+}
+
+/**
+ * ProgressDiffTable component that lists the status and dates of each course that differ from the current progress
+ */
+const ProgressDiffTable: React.FC<ProgressDiffTableProps> = ({ entries, importedLabel, showMergeKeeps = false }) => (
+  <table className="w-full text-sm">
+    <caption className="sr-only">과정별 변경 사항</caption>
+    <thead>
+      <tr className="text-left text-muted-foreground">
+        <th scope="col">과정</th>
+        <th scope="col">항목</th>
+        <th scope="col">현재</th>
+        <th scope="col">{importedLabel}</th>
+        {showMergeKeeps && <th scope="col">병합 시</th>}
+      </tr>
+    </thead>
+    <tbody>
+      {entries.flatMap(entry =>
+        entry.changes.map((change, index) => (
+          <tr key={`${entry.courseId}-${change.field}`} className="border-t border-border">
+            {index === 0 && (
+              <th scope="row" rowSpan={entry.changes.length} className="font-normal align-top">
+                {entry.courseName}
+              </th>
+            )}
+            <td>{FIELD_LABELS[change.field]}</td>
+            <td>{formatValue(change, change.current)}</td>
+            <td>{formatValue(change, change.imported)}</td>
+            {showMergeKeeps && index === 0 && (
+              <td rowSpan={entry.changes.length} className="align-top">
+                {entry.mergeKeeps === 'imported' ? '가져온 기록' : '현재 기록'}
+              </td>
+            )}
+          </tr>
+        ))
+      )}
+    </tbody>
+  </table>
+);
+
+export default ProgressDiffTable;
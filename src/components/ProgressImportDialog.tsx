@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import ProgressDiffTable from './ProgressDiffTable';
+import { ProgressImportMode, ProgressImportPreview } from '../utils/progressTransfer';
+import { formatDateForDisplay } from '../utils/dateValidation';
+
+/**
+ * ProgressImportDialog component props
+ */
+interface ProgressImportDialogProps {
+  fileName: string;
+  /** When the imported file was saved (ISO string) */
+  lastUpdated: string;
+  preview: ProgressImportPreview;
+  onApply: (mode: ProgressImportMode) => void;
+  onCancel: () => void;
+}
+
+/**
+ * ProgressImportDialog component that shows how an imported progress file differs per course
+ * and lets the learner replace, merge the newer records or cancel
+ */
+const ProgressImportDialog: React.FC<ProgressImportDialogProps> = ({ fileName, lastUpdated, preview, onApply, onCancel }) => {
+  // Escape cancels like the cancel button
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="dialog-backdrop">
+      <div className="dialog" role="dialog" aria-modal="true" aria-labelledby="progress-import-title">
+        <h2 id="progress-import-title" className="text-responsive-lg font-semibold mb-1">
+          진행 기록 가져오기
+        </h2>
+        <p className="text-responsive-sm text-muted-foreground mb-3">
+          {fileName} · {formatDateForDisplay(new Date(lastUpdated))} 저장 ·{' '}
+          {preview.isImportNewer ? '이 브라우저의 기록보다 최신입니다' : '이 브라우저의 기록보다 오래되었습니다'}
+        </p>
+
+        {preview.entries.length === 0 ? (
+          <p className="text-responsive-sm mb-3">날짜와 완료 상태가 현재 기록과 같습니다.</p>
+        ) : (
+          <div className="dialog-body mb-3">
+            <ProgressDiffTable entries={preview.entries} importedLabel="가져온 값" showMergeKeeps />
+          </div>
+        )}
+
+        {preview.unmatchedCount > 0 && (
+          <p className="text-xs text-muted-foreground mb-3">
+            현재 커리큘럼에 없는 과정의 기록 {preview.unmatchedCount}개는 연결되지 않은 진행 기록으로 보관됩니다.
+          </p>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+          >
+            취소
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply('merge-newer')}
+            className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+          >
+            최신 기록만 병합
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply('replace')}
+            className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+          >
+            모두 바꾸기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressImportDialog;
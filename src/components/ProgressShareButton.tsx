@@ -0,0 +1,62 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+import ErrorMessage from './ErrorMessage';
+import { getProgressShareUrl } from '../utils/progressShare';
+
+/**
+ * ProgressShareButton component that copies a read-only link to the progress of the active track
+ * Falls back to showing the link when the clipboard cannot be written
+ */
+const ProgressShareButton: React.FC = () => {
+  const { state, activeCurriculumId, definitionError } = useCurriculum();
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  if (definitionError) return null;
+
+  const handleShare = async () => {
+    const url = getProgressShareUrl(window.location.origin, state, activeCurriculumId);
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsCopied(true);
+    } catch (error) {
+      console.warn('Cannot copy the share link, showing it instead:', error);
+      setIsCopied(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:items-end gap-2">
+      <button
+        type="button"
+        onClick={() => void handleShare()}
+        className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+      >
+        🔗 공유 링크
+      </button>
+      {shareUrl && (isCopied ? (
+        <ErrorMessage
+          message="읽기 전용 공유 링크를 복사했습니다. 과정별 상태와 날짜만 담기며 노트와 링크는 포함되지 않습니다."
+          type="info"
+          inline
+          dismissible
+          onDismiss={() => setShareUrl(null)}
+        />
+      ) : (
+        <input
+          type="text"
+          readOnly
+          value={shareUrl}
+          onFocus={event => event.target.select()}
+          aria-label="공유 링크"
+          className="w-full sm:w-72 px-2 py-1 text-xs border border-border rounded-md bg-background"
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ProgressShareButton;
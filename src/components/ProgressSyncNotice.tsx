@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+import ErrorMessage from './ErrorMessage';
+import { formatDateForDisplay } from '../utils/dateValidation';
+
+/**
+ * ProgressSyncNotice component shown when progress cannot be synced cleanly: while the server is offline,
+ * when the server holds progress saved from another device, or after two tabs changed the same courses
+ */
+const ProgressSyncNotice: React.FC = () => {
+  const { state, syncStatus, syncConflict, resolveSyncConflict, crossTabConflict, dismissCrossTabConflict } = useCurriculum();
+
+  const courses = state.weeks.flatMap(week => week.courses);
+  const courseName = (id: string) => courses.find(course => course.id === id)?.name ?? id;
+
+  return (
+    <>
+      {crossTabConflict && (
+        <ErrorMessage
+          message={[
+            crossTabConflict.conflicts.length > 0 &&
+              `다른 탭에서 같은 과정을 동시에 수정했습니다: ${crossTabConflict.conflicts.map(conflict => courseName(conflict.courseId)).join(', ')}.`,
+            crossTabConflict.structureConflict && '다른 탭에서 주차·과정 구성을 동시에 수정했습니다.',
+            crossTabConflict.kept === 'local'
+              ? '나중에 저장한 이 탭의 변경을 남겼습니다.'
+              : '나중에 저장한 다른 탭의 변경으로 바꿨습니다.'
+          ].filter(Boolean).join(' ')}
+          type="warning"
+          className="mb-4"
+          dismissible
+          onDismiss={dismissCrossTabConflict}
+        />
+      )}
+
+      {syncStatus === 'offline' && (
+        <ErrorMessage
+          message="서버에 연결할 수 없어 진행 기록을 이 브라우저에만 저장하고 있습니다. 다시 연결되면 서버에 올립니다."
+          type="warning"
+          className="mb-4"
+        />
+      )}
+
+      {syncStatus === 'conflict' && syncConflict && (
+        <div className="progress-sync-conflict mb-4">
+          <ErrorMessage
+            message={`다른 기기에서 ${formatDateForDisplay(new Date(syncConflict.data.lastUpdated))}에 저장한 진행 기록이 서버에 있습니다. 어느 기록을 남길지 선택하세요.`}
+            type="warning"
+          />
+          <div className="flex gap-2 mt-2">
+            <button
+              type="button"
+              onClick={() => resolveSyncConflict('remote')}
+              className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+            >
+              서버 기록 불러오기
+            </button>
+            <button
+              type="button"
+              onClick={() => resolveSyncConflict('local')}
+              className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+            >
+              이 브라우저 기록으로 덮어쓰기
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ProgressSyncNotice;
@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+import {
+  createProgressCsv,
+  createProgressXlsx,
+  CSV_MIME_TYPE,
+  getProgressTableFileName,
+  XLSX_MIME_TYPE
+} from '../utils/progressExport';
+import { downloadFile } from '../utils/files';
+
+const exportButtonClass = 'px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors';
+
+/**
+ * ProgressTableExport component for downloading the course table as CSV or XLSX,
+ * e.g. for weekly check-ins with a mentor
+ */
+const ProgressTableExport: React.FC = () => {
+  const { state, activeCurriculumId } = useCurriculum();
+
+  return (
+    <div className="flex gap-2" role="group" aria-label="진행 표 내보내기">
+      <button
+        type="button"
+        onClick={() => downloadFile(createProgressCsv(state), getProgressTableFileName(activeCurriculumId, 'csv'), CSV_MIME_TYPE)}
+        aria-label="진행 표 CSV로 내보내기"
+        className={exportButtonClass}
+      >
+        CSV
+      </button>
+      <button
+        type="button"
+        onClick={() => downloadFile(createProgressXlsx(state), getProgressTableFileName(activeCurriculumId, 'xlsx'), XLSX_MIME_TYPE)}
+        aria-label="진행 표 XLSX로 내보내기"
+        className={exportButtonClass}
+      >
+        XLSX
+      </button>
+    </div>
+  );
+};
+
+export default ProgressTableExport;
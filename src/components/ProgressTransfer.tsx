@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { StoredData } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import { useLearnerProfiles } from '../context/LearnerProfileContext';
+import ErrorMessage from './ErrorMessage';
+import ProgressImportDialog from './ProgressImportDialog';
+import { getRegisteredCurricula } from '../data/initialCurriculum';
+import {
+  getProgressExportFileName,
+  parseProgressExport,
+  PROGRESS_EXPORT_MIME_TYPE,
+  ProgressImportError,
+  ProgressImportMode,
+  ProgressImportPreview,
+  serializeProgressExport
+} from '../utils/progressTransfer';
+import { DEFAULT_PROFILE_ID } from '../utils/learnerProfiles';
+import { downloadFile, readTextFile } from '../utils/files';
+
+/**
+ * Progress file waiting for the learner to choose how to apply it
+ */
+interface PendingImport {
+  fileName: string;
+  data: StoredData;
+  preview: ProgressImportPreview;
+}
+
+/**
+ * ProgressTransfer component for exporting progress to a JSON file and importing it in another browser
+ */
+const ProgressTransfer: React.FC = () => {
+  const { state, activeCurriculumId, previewProgressImport, importProgress } = useCurriculum();
+  const activeProfile = useLearnerProfiles()?.activeProfile;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [message, setMessage] = useState<{ text: string; type: 'error' | 'info' } | null>(null);
+
+  // The default profile's name says nothing about the learner, so its exports carry no name
+  const learnerName = activeProfile && activeProfile.id !== DEFAULT_PROFILE_ID ? activeProfile.name : undefined;
+
+  const handleExport = () => {
+    downloadFile(
+      serializeProgressExport(state, activeCurriculumId, learnerName),
+      getProgressExportFileName(activeCurriculumId, new Date(), learnerName),
+      PROGRESS_EXPORT_MIME_TYPE
+    );
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow choosing the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { data, curriculumId } = parseProgressExport(await readTextFile(file));
+      // Course ids repeat across tracks, so a file of another track would silently overwrite matching courses
+      if (curriculumId && curriculumId !== activeCurriculumId) {
+        const title = getRegisteredCurricula().find(curriculum => curriculum.id === curriculumId)?.title ?? curriculumId;
+        throw new ProgressImportError(`다른 트랙(${title})에서 내보낸 파일입니다. 해당 트랙으로 바꾼 뒤 가져오세요.`);
+      }
+      setMessage(null);
+      setPendingImport({ fileName: file.name, data, preview: await previewProgressImport(data) });
+    } catch (error) {
+      if (!(error instanceof ProgressImportError)) {
+        console.error('Failed to read progress file:', error);
+      }
+      setMessage({
+        text: `진행 기록을 가져올 수 없습니다: ${error instanceof ProgressImportError ? error.message : '파일을 읽지 못했습니다.'}`,
+        type: 'error'
+      });
+    }
+  };
+
+  const handleApply = async (mode: ProgressImportMode) => {
+    if (!pendingImport) return;
+    await importProgress(pendingImport.data, mode);
+    setPendingImport(null);
+    setMessage({ text: mode === 'replace' ? '진행 기록을 가져온 파일로 바꿨습니다.' : '최신 진행 기록을 병합했습니다.', type: 'info' });
+  };
+
+  return (
+    <div className="flex flex-col sm:items-end gap-2">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleExport}
+          className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+        >
+          진행 기록 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+        >
+          진행 기록 가져오기
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          aria-label="가져올 진행 기록 파일"
+          className="hidden"
+        />
+      </div>
+
+      {message && (
+        <ErrorMessage
+          message={message.text}
+          type={message.type}
+          dismissible
+          onDismiss={() => setMessage(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ProgressImportDialog
+          fileName={pendingImport.fileName}
+          lastUpdated={pendingImport.data.lastUpdated}
+          preview={pendingImport.preview}
+          onApply={handleApply}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProgressTransfer;
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useState } from 'react';
+import ErrorMessage from './ErrorMessage';
+
+/**
+ * ProgressUnlockScreen component props
+ */
+interface ProgressUnlockScreenProps {
+  /** Resolves to false when the passphrase is wrong */
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+/**
+ * ProgressUnlockScreen component that asks for the passphrase of encrypted progress before it is loaded
+ */
+const ProgressUnlockScreen: React.FC<ProgressUnlockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsChecking(true);
+    setError(null);
+
+    const isUnlocked = await onUnlock(passphrase);
+    if (!isUnlocked) {
+      setIsChecking(false);
+      setPassphrase('');
+      setError('암호가 올바르지 않습니다.');
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-4" role="main">
+      <form
+        onSubmit={event => void handleSubmit(event)}
+        className="w-full max-w-sm flex flex-col gap-3 p-5 border border-border rounded-lg"
+        aria-labelledby="progress-unlock-title"
+      >
+        <h1 id="progress-unlock-title" className="text-responsive-lg font-semibold">
+          🔒 진행 기록 잠금 해제
+        </h1>
+        <p className="text-responsive-sm text-muted-foreground">
+          이 브라우저의 진행 기록은 암호로 보호되어 있습니다. 암호를 입력하면 진행 기록을 불러옵니다.
+        </p>
+
+        <label htmlFor="progress-unlock-passphrase" className="text-sm font-medium">
+          암호
+        </label>
+        <input
+          id="progress-unlock-passphrase"
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          value={passphrase}
+          onChange={event => setPassphrase(event.target.value)}
+          aria-invalid={error !== null}
+          aria-describedby={error ? 'progress-unlock-error' : undefined}
+          className="px-3 py-1.5 text-sm border border-border rounded-md bg-background"
+        />
+        {error && <ErrorMessage id="progress-unlock-error" message={error} type="error" />}
+
+        <button
+          type="submit"
+          disabled={isChecking || passphrase.length === 0}
+          className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {isChecking ? '확인 중…' : '잠금 해제'}
+        </button>
+      </form>
+    </main>
+  );
+};
+
+export default ProgressUnlockScreen;
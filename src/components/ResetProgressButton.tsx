@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Week } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import ConfirmDialog from './ConfirmDialog';
+
+/**
+ * ResetProgressButton component props
+ */
+interface ResetProgressButtonProps {
+  /** Week to reset; every week when omitted */
+  week?: Week;
+}
+
+/**
+ * ResetProgressButton component that clears the status and dates of all courses, or of one week,
+ * after the learner confirms
+ */
+const ResetProgressButton: React.FC<ResetProgressButtonProps> = ({ week }) => {
+  const { resetProgress } = useCurriculum();
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsConfirming(false);
+    await resetProgress(week?.id);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsConfirming(true)}
+        className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-muted transition-colors"
+      >
+        {week ? '이 주차 초기화' : '진행 기록 초기화'}
+      </button>
+
+      {isConfirming && (
+        <ConfirmDialog
+          title={week ? `${week.title} 진행 기록 초기화` : '전체 진행 기록 초기화'}
+          message={`${week ? `${week.title}의` : '모든'} 과정을 시작 전으로 되돌리고 시작일과 종료일을 지웁니다. 노트와 링크는 남습니다. 초기화 전 기록은 스냅샷으로 보관되어 '진행 기록 복원'에서 되돌릴 수 있습니다.`}
+          confirmLabel="초기화"
+          onConfirm={() => void handleConfirm()}
+          onCancel={() => setIsConfirming(false)}
+        />
+      )}
+    </>
+  );
+};
+
+export default ResetProgressButton;
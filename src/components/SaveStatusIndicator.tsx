@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { useCurriculum } from '../context/CurriculumContext';
+import ErrorMessage from './ErrorMessage';
+
+/**
+ * SaveStatusIndicator component that shows whether the latest change is saved in this browser,
+ * with a button to try again when saving failed
+ */
+const SaveStatusIndicator: React.FC = () => {
+  const { saveStatus, retrySave } = useCurriculum();
+
+  if (saveStatus === 'idle') return null;
+
+  if (saveStatus === 'failed') {
+    return (
+      <div className="flex items-center gap-2 text-xs">
+        <ErrorMessage message="저장 실패 · 변경 내용이 이 브라우저에 저장되지 않았습니다" type="error" inline />
+        <button
+          type="button"
+          onClick={() => void retrySave()}
+          className="px-2 py-1 border border-border rounded-md hover:bg-muted transition-colors"
+        >
+          다시 시도
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-xs text-muted-foreground" role="status">
+      {saveStatus === 'saving' ? '저장 중…' : '저장됨'}
+    </p>
+  );
+};
+
+export default SaveStatusIndicator;
@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { Course } from '../types/curriculum';
+import { useCurriculum } from '../context/CurriculumContext';
+import { calculateCourseProgress } from '../utils/progressCalculator';
+
+/**
+ * SubtaskChecklist component props
+ */
+interface SubtaskChecklistProps {
+  course: Course;
+  weekId: number;
+  className?: string;
+}
+
+/**
+ * SubtaskChecklist component that lists a course's steps as checkboxes
+ * Renders nothing for courses without subtasks
+ */
+const SubtaskChecklist: React.FC<SubtaskChecklistProps> = ({ course, weekId, className = '' }) => {
+  const { dispatch } = useCurriculum();
+
+  if (!course.subtasks || course.subtasks.length === 0) {
+    return null;
+  }
+
+  const completedCount = course.subtasks.filter(subtask => subtask.completed).length;
+
+  return (
+    <div className={`subtask-checklist ${className}`}>
+      <p className="subtask-summary">
+        하위 작업 {completedCount}/{course.subtasks.length} ({calculateCourseProgress(course)}%)
+      </p>
+      <ul className="subtask-list">
+        {course.subtasks.map(subtask => (
+          <li key={subtask.id} className="subtask-item">
+            <label className="subtask-label">
+              <input
+                type="checkbox"
+                checked={subtask.completed}
+                onChange={() => dispatch({
+                  type: 'TOGGLE_SUBTASK',
+                  payload: { weekId, courseId: course.id, subtaskId: subtask.id }
+                })}
+                className="subtask-checkbox"
+                aria-label={`${course.name} - ${subtask.title} 완료 여부`}
+              />
+              <span className={subtask.completed ? 'subtask-title completed' : 'subtask-title'}>
+                {subtask.title}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SubtaskChecklist;
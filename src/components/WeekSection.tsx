@@ -4,22 +4,30 @@ import React, { useState } from 'react';
 import { Week } from '../types/curriculum';
 import { useCurriculum } from '../context/CurriculumContext';
 import ProgressBar from './ProgressBar';
+import { calculateRemainingHours, isWeightedProgress } from '../utils/progressCalculator';
+import { isCourseDone } from '../utils/courseStatus';
 import CourseTable from './CourseTable';
+import CourseEditor, { EditableText } from './CourseEditor';
+import ResetProgressButton from './ResetProgressButton';
 
 /**
  * WeekSection component props
  */
 interface WeekSectionProps {
   week: Week;
+  /** Show structure editing controls instead of the course table */
+  isEditing?: boolean;
 }
 
 /**
  * WeekSection component that displays individual week information with expand/collapse functionality
  * Implements requirements 2.1, 2.2, 2.3, 2.4
  */
-const WeekSection: React.FC<WeekSectionProps> = ({ week }) => {
-  const { dispatch } = useCurriculum();
+const WeekSection: React.FC<WeekSectionProps> = ({ week, isEditing = false }) => {
+  const { state, dispatch, isReadOnly } = useCurriculum();
   const [isExpanded, setIsExpanded] = useState(false);
+  const isWeighted = isWeightedProgress(week.courses);
+  const notedCourseCount = week.courses.filter(course => course.notes).length;
 
   /**
    * Handle toggling completion status of a course
@@ -40,6 +48,83 @@ const WeekSection: React.FC<WeekSectionProps> = ({ week }) => {
     setIsExpanded(!isExpanded);
   };
 
+  /**
+   * Delete this week, asking first when it still has courses
+   */
+  const handleDeleteWeek = () => {
+    if (week.courses.length > 0 && !window.confirm(`${week.title}와 포함된 ${week.courses.length}개 과정을 삭제할까요?`)) {
+      return;
+    }
+
+    dispatch({
+      type: 'DELETE_WEEK',
+      payload: { weekId: week.id }
+    });
+  };
+
+  // Editor mode: rename, reorder and delete the week and edit its courses
+  if (isEditing) {
+    const weekIndex = state.weeks.findIndex(item => item.id === week.id);
+
+    return (
+      <div className="card">
+        <div className="card-header">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <EditableText
+                key={week.title}
+                value={week.title}
+                ariaLabel={`${week.title} 주차 제목`}
+                className="font-semibold"
+                onSave={(title) => dispatch({
+                  type: 'RENAME_WEEK',
+                  payload: { weekId: week.id, title }
+                })}
+              />
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <button
+                type="button"
+                className="px-2 py-1 text-sm border border-border rounded-md hover:bg-muted disabled:opacity-40 disabled:cursor-not-allowed"
+                onClick={() => dispatch({
+                  type: 'MOVE_WEEK',
+                  payload: { weekId: week.id, toIndex: weekIndex - 1 }
+                })}
+                disabled={weekIndex <= 0}
+                aria-label={`${week.title} 위로 이동`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 text-sm border border-border rounded-md hover:bg-muted disabled:opacity-40 disabled:cursor-not-allowed"
+                onClick={() => dispatch({
+                  type: 'MOVE_WEEK',
+                  payload: { weekId: week.id, toIndex: weekIndex + 1 }
+                })}
+                disabled={weekIndex === -1 || weekIndex >= state.weeks.length - 1}
+                aria-label={`${week.title} 아래로 이동`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 text-sm border border-border rounded-md hover:bg-muted text-error"
+                onClick={handleDeleteWeek}
+                aria-label={`${week.title} 삭제`}
+              >
+                주차 삭제
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="card-content">
+          <CourseEditor week={week} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="card">
       {/* Week Header with Progress - Requirements 2.1, 2.2 */}
@@ -67,8 +152,18 @@ const WeekSection: React.FC<WeekSectionProps> = ({ week }) => {
                 {week.progress}% 완료
               </span>
               <span className="text-xs text-muted-foreground">
-                {week.courses.filter(c => c.completed).length}/{week.courses.length} 과정
+                {week.courses.filter(isCourseDone).length}/{week.courses.length} 과정
               </span>
+              {notedCourseCount > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  📝 노트 있는 과정 {notedCourseCount}개
+                </span>
+              )}
+              {isWeighted && (
+                <span className="text-xs text-muted-foreground">
+                  남은 예상 시간 {calculateRemainingHours(week.courses)}시간
+                </span>
+              )}
             </div>
           </div>
           
@@ -79,6 +174,7 @@ const WeekSection: React.FC<WeekSectionProps> = ({ week }) => {
               label={`${week.title} 진행률 ${week.progress}%`}
               size="medium"
               showPercentage={false}
+              weighted={isWeighted}
             />
           </div>
         </button>
@@ -93,13 +189,17 @@ const WeekSection: React.FC<WeekSectionProps> = ({ week }) => {
           aria-labelledby={`week-${week.id}-header`}
         >
           {/* Course Table - Requirements 3.1, 6.1, 6.4 */}
-          <CourseTable courses={week.courses} weekId={week.id} />
+          {/* A disabled fieldset turns every checkbox, date picker and status select in the table off at once */}
+          <fieldset disabled={isReadOnly} className="read-only-fieldset">
+            <CourseTable courses={week.courses} weekId={week.id} />
+          </fieldset>
           
           {/* Course count summary */}
-          <div className="mt-4 pt-3 border-t border-border">
+          <div className="mt-4 pt-3 border-t border-border flex flex-wrap items-center justify-between gap-2">
             <p className="text-responsive-sm text-muted-foreground">
-              총 {week.courses.length}개 과정 중 {week.courses.filter(c => c.completed).length}개 완료
+              총 {week.courses.length}개 과정 중 {week.courses.filter(isCourseDone).length}개 완료
             </p>
+            {!isReadOnly && <ResetProgressButton week={week} />}
           </div>
         </div>
       )}
@@ -2,15 +2,22 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import App from '../App';
+import { CurriculumProvider } from '../../context/CurriculumContext';
 
 // Mock the CurriculumDashboard component
 vi.mock('../CurriculumDashboard', () => ({
   default: () => <div data-testid="curriculum-dashboard">Mocked CurriculumDashboard</div>
 }));
 
+const renderApp = () => render(
+  <CurriculumProvider>
+    <App />
+  </CurriculumProvider>
+);
+
 describe('App Component', () => {
   it('should render the main application layout', () => {
-    render(<App />);
+    renderApp();
     
     // Check for main structural elements
     expect(screen.getByRole('main')).toBeInTheDocument();
@@ -18,7 +25,7 @@ describe('App Component', () => {
   });
 
   it('should render the application header with title and description', () => {
-    render(<App />);
+    renderApp();
     
     // Check for main title
     expect(screen.getByRole('heading', { level: 1 })).toBeInTheDocument();
@@ -29,26 +36,26 @@ describe('App Component', () => {
   });
 
   it('should display version information', () => {
-    render(<App />);
+    renderApp();
     
     expect(screen.getByText('v1.0')).toBeInTheDocument();
   });
 
   it('should render the CurriculumDashboard component', () => {
-    render(<App />);
+    renderApp();
     
     expect(screen.getByTestId('curriculum-dashboard')).toBeInTheDocument();
   });
 
   it('should render footer with system information', () => {
-    render(<App />);
+    renderApp();
     
     expect(screen.getByText('커리큘럼 진행률 관리 시스템')).toBeInTheDocument();
-    expect(screen.getByText('데이터는 브라우저 로컬 스토리지에 자동 저장됩니다')).toBeInTheDocument();
+    expect(screen.getByText('데이터는 이 브라우저에 자동 저장됩니다')).toBeInTheDocument();
   });
 
   it('should have proper semantic HTML structure', () => {
-    render(<App />);
+    renderApp();
     
     // Check for semantic elements
     const header = document.querySelector('header');
@@ -66,7 +73,7 @@ describe('App Component', () => {
   });
 
   it('should have responsive layout classes', () => {
-    render(<App />);
+    renderApp();
     
     const appLayout = document.querySelector('.app-layout');
     expect(appLayout).toBeInTheDocument();
@@ -77,7 +84,7 @@ describe('App Component', () => {
   });
 
   it('should have proper accessibility attributes', () => {
-    render(<App />);
+    renderApp();
     
     const main = screen.getByRole('main');
     const footer = screen.getByRole('contentinfo');
@@ -87,7 +94,7 @@ describe('App Component', () => {
   });
 
   it('should render all text content correctly', () => {
-    render(<App />);
+    renderApp();
     
     // Test all static text content
     const expectedTexts = [
@@ -95,7 +102,7 @@ describe('App Component', () => {
       '7주차 개발 커리큘럼의 진행 상황을 체계적으로 추적하고 관리하세요',
       'v1.0',
       '커리큘럼 진행률 관리 시스템',
-      '데이터는 브라우저 로컬 스토리지에 자동 저장됩니다'
+      '데이터는 이 브라우저에 자동 저장됩니다'
     ];
     
     expectedTexts.forEach(text => {
@@ -104,9 +111,18 @@ describe('App Component', () => {
   });
 
   it('should have container classes for proper layout', () => {
-    render(<App />);
+    renderApp();
     
     const containers = document.querySelectorAll('.container');
     expect(containers.length).toBeGreaterThanOrEqual(3); // Header, main, footer containers
   });
-});
\ No newline at end of file
+
+  it('should render a track switcher with every registered curriculum', () => {
+    renderApp();
+
+    const switcher = screen.getByLabelText('트랙');
+    expect(switcher).toHaveValue('frontend');
+    expect(screen.getByRole('option', { name: '프론트엔드 트랙' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: '백엔드 트랙' })).toBeInTheDocument();
+  });
+});
@@ -25,7 +25,7 @@ const mockCourse: Course = {
   name: 'Test Course',
   startDate: undefined,
   endDate: undefined,
-  completed: false
+  status: 'not-started'
 };
 
 const completedCourse: Course = {
@@ -33,7 +33,17 @@ const completedCourse: Course = {
   name: 'Completed Course',
   startDate: new Date('2024-01-01'),
   endDate: new Date('2024-01-31'),
-  completed: true
+  status: 'done'
+};
+
+const courseWithSubtasks: Course = {
+  id: 'test-3',
+  name: 'Course With Steps',
+  status: 'not-started',
+  subtasks: [
+    { id: 's1', title: 'Add the page', completed: true },
+    { id: 's2', title: 'Wire up the API', completed: false }
+  ]
 };
 
 describe('CourseRow', () => {
@@ -53,7 +63,7 @@ describe('CourseRow', () => {
     expect(screen.getByText('Test Course')).toBeInTheDocument();
     expect(screen.getByPlaceholderText('시작일 선택')).toBeInTheDocument();
     expect(screen.getByPlaceholderText('종료일 선택')).toBeInTheDocument();
-    expect(screen.getByText('미완료')).toBeInTheDocument();
+    expect(screen.getByLabelText('Test Course 상태')).toHaveValue('not-started');
   });
 
   it('displays completed course correctly', () => {
@@ -66,7 +76,7 @@ describe('CourseRow', () => {
     );
 
     expect(screen.getByText('Completed Course')).toBeInTheDocument();
-    expect(screen.getByText('완료')).toBeInTheDocument();
+    expect(screen.getByLabelText('Completed Course 상태')).toHaveValue('done');
     
     const checkbox = screen.getByRole('checkbox');
     expect(checkbox).toBeChecked();
@@ -183,6 +193,144 @@ describe('CourseRow', () => {
     // Should not dispatch action when validation fails
     expect(mockDispatch).not.toHaveBeenCalled();
   });
+
+  it('changes the course status from the status pill', () => {
+    render(
+      <table>
+        <tbody>
+          <CourseRow course={mockCourse} weekId={1} />
+        </tbody>
+      </table>
+    );
+
+    const pill = screen.getByLabelText('Test Course 상태');
+    expect(pill).toHaveClass('status-pill', 'status-pill-not-started');
+
+    fireEvent.change(pill, { target: { value: 'blocked' } });
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'SET_STATUS',
+      payload: { weekId: 1, courseId: 'test-1', status: 'blocked' }
+    });
+  });
+
+  it('marks courses with notes and renders them as safe markdown', () => {
+    render(
+      <table>
+        <tbody>
+          <CourseRow
+            course={{ ...mockCourse, notes: '**핵심** 정리\n\n[문서](javascript:alert(1))\n\n<script>x</script>' }}
+            weekId={1}
+          />
+        </tbody>
+      </table>
+    );
+
+    expect(screen.getByLabelText('노트 있음')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '노트 보기' }));
+
+    expect(screen.getByText('핵심').tagName).toBe('STRONG');
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    expect(screen.getByText('<script>x</script>')).toBeInTheDocument();
+  });
+
+  it('saves notes from the notes panel', () => {
+    render(
+      <table>
+        <tbody>
+          <CourseRow course={mockCourse} weekId={1} />
+        </tbody>
+      </table>
+    );
+
+    expect(screen.queryByLabelText('노트 있음')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '노트 추가' }));
+    fireEvent.change(screen.getByLabelText('Test Course 노트'), { target: { value: '- 복습하기' } });
+    fireEvent.click(screen.getByRole('button', { name: '저장' }));
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'SET_NOTES',
+      payload: { weekId: 1, courseId: 'test-1', notes: '- 복습하기' }
+    });
+  });
+
+  it('renders resource links as icons and deletes only learner links', () => {
+    render(
+      <table>
+        <tbody>
+          <CourseRow
+            course={{
+              ...mockCourse,
+              resources: [
+                { id: 'def-1', type: 'lecture', url: 'https://example.com/lecture', title: '1강' },
+                { id: 'link-1', type: 'pr', url: 'https://example.com/pr/1', userAdded: true }
+              ]
+            }}
+            weekId={1}
+          />
+        </tbody>
+      </table>
+    );
+
+    const lecture = screen.getByRole('link', { name: '강의: 1강' });
+    expect(lecture).toHaveAttribute('href', 'https://example.com/lecture');
+    expect(lecture).toHaveAttribute('target', '_blank');
+    expect(screen.queryByRole('button', { name: '강의: 1강 링크 삭제' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'PR: https://example.com/pr/1 링크 삭제' }));
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'DELETE_RESOURCE_LINK',
+      payload: { weekId: 1, courseId: 'test-1', resourceId: 'link-1' }
+    });
+  });
+
+  it('adds a link and rejects addresses that are not web urls', () => {
+    render(
+      <table>
+        <tbody>
+          <CourseRow course={mockCourse} weekId={1} />
+        </tbody>
+      </table>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '+ 링크' }));
+    fireEvent.change(screen.getByLabelText('Test Course 링크 종류'), { target: { value: 'repo' } });
+    fireEvent.change(screen.getByLabelText('Test Course 링크 주소'), { target: { value: 'example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: '링크 추가' }));
+
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+    expect(mockDispatch).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Test Course 링크 주소'), { target: { value: 'https://example.com/repo' } });
+    fireEvent.click(screen.getByRole('button', { name: '링크 추가' }));
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'ADD_RESOURCE_LINK',
+      payload: { weekId: 1, courseId: 'test-1', resource: { type: 'repo', url: 'https://example.com/repo', title: '' } }
+    });
+  });
+
+  it('renders a subtask checklist and toggles a subtask', () => {
+    render(
+      <table>
+        <tbody>
+          <CourseRow course={courseWithSubtasks} weekId={1} />
+        </tbody>
+      </table>
+    );
+
+    expect(screen.getByText('하위 작업 1/2 (50%)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Course With Steps - Wire up the API 완료 여부'));
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'TOGGLE_SUBTASK',
+      payload: { weekId: 1, courseId: 'test-3', subtaskId: 's2' }
+    });
+  });
 });
 
 describe('CourseCard', () => {
@@ -196,7 +344,7 @@ describe('CourseCard', () => {
     expect(screen.getByText('Test Course')).toBeInTheDocument();
     expect(screen.getByText('시작일:')).toBeInTheDocument();
     expect(screen.getByText('종료일:')).toBeInTheDocument();
-    expect(screen.getByText('미완료')).toBeInTheDocument();
+    expect(screen.getByLabelText('Test Course 상태')).toHaveValue('not-started');
   });
 
   it('handles completion toggle in mobile card', () => {
@@ -240,4 +388,11 @@ describe('CourseCard', () => {
 
     expect(screen.getByText('시작일은 종료일보다 이전이어야 합니다.')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('renders the subtask checklist in mobile card', () => {
+    render(<CourseCard course={courseWithSubtasks} weekId={1} />);
+
+    expect(screen.getByLabelText('Course With Steps - Add the page 완료 여부')).toBeChecked();
+    expect(screen.getByLabelText('Course With Steps - Wire up the API 완료 여부')).not.toBeChecked();
+  });
+});
@@ -9,14 +9,14 @@ const mockCourses: Course[] = [
   {
     id: '1-1',
     name: 'QA 이슈 해결',
-    completed: false,
+    status: 'not-started',
   },
   {
     id: '1-2',
     name: '4장 > 상품 목록 페이지 추가 및 기능 구현',
     startDate: new Date('2024-01-15'),
     endDate: new Date('2024-01-20'),
-    completed: true,
+    status: 'done',
   },
 ];
 
@@ -3,15 +3,18 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import CurriculumDashboard from '../CurriculumDashboard';
 import { CurriculumProvider } from '../../context/CurriculumContext';
+import { loadCurriculumState } from '../../utils/localStorage';
 
 // Mock the localStorage utilities
-vi.mock('../../utils/localStorage', () => ({
+vi.mock('../../utils/localStorage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/localStorage')>(),
   saveCurriculumState: vi.fn(),
   loadCurriculumState: vi.fn(() => null),
 }));
 
 // Mock the progress calculator
-vi.mock('../../utils/progressCalculator', () => ({
+vi.mock('../../utils/progressCalculator', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/progressCalculator')>(),
   updateAllProgress: vi.fn((state) => state),
 }));
 
@@ -110,4 +113,62 @@ describe('CurriculumDashboard', () => {
     expect(screen.getByText(/QA 이슈 해결/)).toBeInTheDocument();
     expect(screen.getByText(/상품 목록 페이지 추가 및 기능 구현/)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should switch to the by-chapter view', () => {
+    render(
+      <TestWrapper>
+        <CurriculumDashboard />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '장별' }));
+
+    expect(screen.getByRole('button', { name: '장별' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('heading', { name: '6장' })).toBeInTheDocument();
+    expect(screen.getByText(/3주차 ~ 6주차 · 0\/12 과정/)).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: '장 미지정' })).toBeInTheDocument();
+
+    // Expanding a chapter lists its courses under each week
+    fireEvent.click(screen.getByRole('button', { name: /^5장/ }));
+    expect(screen.getAllByText('5장 > 컴포넌트 분리')).toHaveLength(2);
+  });
+
+  it('should show the prerequisite graph with blocked courses', () => {
+    render(
+      <TestWrapper>
+        <CurriculumDashboard />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '선행 관계' }));
+
+    expect(screen.getByText('선행 과정을 기다리는 과정 1개')).toBeInTheDocument();
+    expect(screen.getByText('선행 과정 대기')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'react-query 최적화 선행 과정' })).toHaveTextContent(
+      'API 관련 상태 관리 라이브러리 react-query로 변환'
+    );
+  });
+
+  it('should list orphaned progress and move it to a chosen course', async () => {
+    vi.mocked(loadCurriculumState).mockImplementationOnce(async initialState => ({
+      ...initialState,
+      orphanedProgress: [{ weekId: '4', courseId: '4-9', progress: { status: 'done', notes: '예전 메모' } }]
+    }));
+
+    render(
+      <TestWrapper>
+        <CurriculumDashboard />
+      </TestWrapper>
+    );
+
+    expect(await screen.findByText('연결되지 않은 진행 기록 1개')).toBeInTheDocument();
+    expect(screen.getByText('메모: 예전 메모')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '옮기기' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('4-9 기록을 옮길 과정'), { target: { value: '2|2-1' } });
+    fireEvent.click(screen.getByRole('button', { name: '옮기기' }));
+
+    expect(screen.queryByText('연결되지 않은 진행 기록 1개')).not.toBeInTheDocument();
+    expect(screen.getByText('1/26 과정 완료')).toBeInTheDocument();
+  });
+});
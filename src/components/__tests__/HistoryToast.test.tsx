@@ -0,0 +1,75 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import HistoryToast from '../HistoryToast';
+import { CurriculumProvider, useCurriculum } from '../../context/CurriculumContext';
+import { createMemoryStorageAdapter } from '../../utils/storageAdapters';
+
+// Shows and toggles the status of the first course, next to a notes field
+const FirstCourse: React.FC = () => {
+  const { state, dispatch } = useCurriculum();
+  return (
+    <>
+      <button
+        type="button"
+        data-testid="first-course-status"
+        onClick={() => dispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } })}
+      >
+        {state.weeks[0]?.courses[0]?.status}
+      </button>
+      <textarea aria-label="메모" />
+    </>
+  );
+};
+
+const renderToast = async () => {
+  render(
+    <CurriculumProvider storageAdapter={createMemoryStorageAdapter()}>
+      <HistoryToast />
+      <FirstCourse />
+    </CurriculumProvider>
+  );
+  await act(async () => {});
+};
+
+describe('HistoryToast', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('should name the last change and undo and redo it from the toast', async () => {
+    await renderToast();
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('first-course-status'));
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('done');
+    expect(screen.getByRole('status')).toHaveTextContent('QA 이슈 해결: 완료 표시 변경');
+
+    fireEvent.click(screen.getByRole('button', { name: '실행 취소' }));
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('not-started');
+    expect(screen.getByRole('status')).toHaveTextContent('실행 취소함: QA 이슈 해결: 완료 표시 변경');
+
+    fireEvent.click(screen.getByRole('button', { name: '다시 실행' }));
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('done');
+  });
+
+  it('should undo with Ctrl+Z and redo with Ctrl+Shift+Z', async () => {
+    await renderToast();
+    fireEvent.click(screen.getByTestId('first-course-status'));
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('not-started');
+
+    fireEvent.keyDown(window, { key: 'Z', ctrlKey: true, shiftKey: true });
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('done');
+  });
+
+  it('should leave the shortcut to text fields', async () => {
+    await renderToast();
+    fireEvent.click(screen.getByTestId('first-course-status'));
+
+    fireEvent.keyDown(screen.getByLabelText('메모'), { key: 'z', ctrlKey: true });
+
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('done');
+  });
+});
@@ -93,4 +93,11 @@ describe('ProgressBar Component', () => {
     const progressFill = document.querySelector('.progress-fill');
     expect(progressFill).toHaveStyle({ width: '60%' });
   });
-});
\ No newline at end of file
+
+  it('notes weighted progress in the label and percentage', () => {
+    render(<ProgressBar progress={40} showPercentage={true} weighted={true} />);
+
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-label', '진행률 40% (예상 시간 가중)');
+    expect(screen.getByText('40% (예상 시간 가중)')).toBeInTheDocument();
+  });
+});
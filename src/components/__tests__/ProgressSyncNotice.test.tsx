@@ -0,0 +1,138 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import ProgressSyncNotice from '../ProgressSyncNotice';
+import { CurriculumProvider, useCurriculum } from '../../context/CurriculumContext';
+import { createMemoryStorageAdapter } from '../../utils/storageAdapters';
+
+// Shows and toggles the status of the first course; the second button blocks it
+const FirstCourse: React.FC = () => {
+  const { state, dispatch } = useCurriculum();
+  return (
+    <>
+      <button
+        type="button"
+        data-testid="first-course-status"
+        onClick={() => dispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } })}
+      >
+        {state.weeks[0]?.courses[0]?.status}
+      </button>
+      <button
+        type="button"
+        onClick={() => dispatch({ type: 'SET_STATUS', payload: { weekId: 1, courseId: '1-1', status: 'blocked' } })}
+      >
+        막힘으로 표시
+      </button>
+    </>
+  );
+};
+
+// Two tabs of the tracker, each with its own provider
+const renderTabs = () => {
+  const tab = (name: string) => (
+    <section aria-label={name}>
+      <CurriculumProvider storageAdapter={createMemoryStorageAdapter()}>
+        <ProgressSyncNotice />
+        <FirstCourse />
+      </CurriculumProvider>
+    </section>
+  );
+  render(<>{tab('첫 탭')}{tab('둘째 탭')}</>);
+  return {
+    first: within(screen.getByRole('region', { name: '첫 탭' })),
+    second: within(screen.getByRole('region', { name: '둘째 탭' }))
+  };
+};
+
+const renderNotice = () => render(
+  <CurriculumProvider storageAdapter={createMemoryStorageAdapter()} progressSyncEndpoint="/api/progress">
+    <ProgressSyncNotice />
+    <FirstCourse />
+  </CurriculumProvider>
+);
+
+const serverProgress = JSON.stringify({
+  version: '1.1.0',
+  lastUpdated: '2024-02-01T00:00:00.000Z',
+  curriculum: { '1': { '1-1': { status: 'blocked' } } }
+});
+
+describe('ProgressSyncNotice', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should load progress saved on the server', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(serverProgress, { headers: { ETag: '"server"' } })));
+
+    renderNotice();
+
+    expect(await screen.findByText('blocked')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should tell the learner when the server cannot be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+
+    renderNotice();
+
+    expect(await screen.findByText(/서버에 연결할 수 없어/)).toBeInTheDocument();
+  });
+
+  it('should offer to load the server copy after a conflicting save', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init?: RequestInit) =>
+      init?.method === 'PUT'
+        ? new Response(serverProgress, { status: 412, headers: { ETag: '"server"' } })
+        : new Response(null, { status: 404 })
+    ));
+    renderNotice();
+    await screen.findByText('not-started');
+
+    fireEvent.click(screen.getByTestId('first-course-status'));
+
+    expect(await screen.findByText(/다른 기기에서 .*저장한 진행 기록이 서버에 있습니다/)).toBeInTheDocument();
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('done');
+
+    fireEvent.click(screen.getByRole('button', { name: '서버 기록 불러오기' }));
+
+    expect(await screen.findByText('blocked')).toBeInTheDocument();
+  });
+
+  it('should take over progress saved in another tab', async () => {
+    const { first, second } = renderTabs();
+    await first.findByText('not-started');
+    await second.findByText('not-started');
+
+    fireEvent.click(first.getByTestId('first-course-status'));
+
+    expect(await second.findByText('done')).toBeInTheDocument();
+    expect(second.queryByText(/다른 탭에서/)).not.toBeInTheDocument();
+  });
+
+  it('should keep the later change in both tabs and warn when they changed the same course', async () => {
+    const { first, second } = renderTabs();
+    await first.findByText('not-started');
+    await second.findByText('not-started');
+
+    // Both changes are made before either tab hears about the other
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T09:00:00.000Z'));
+    fireEvent.click(first.getByTestId('first-course-status'));
+    vi.setSystemTime(new Date('2024-03-01T09:00:01.000Z'));
+    fireEvent.click(second.getByRole('button', { name: '막힘으로 표시' }));
+    vi.useRealTimers();
+
+    expect(await second.findByText(/동시에 수정했습니다: QA 이슈 해결\. 나중에 저장한 이 탭의 변경을 남겼습니다/)).toBeInTheDocument();
+    expect(await first.findByText(/나중에 저장한 다른 탭의 변경으로 바꿨습니다/)).toBeInTheDocument();
+    expect(first.getByTestId('first-course-status')).toHaveTextContent('blocked');
+    expect(second.getByTestId('first-course-status')).toHaveTextContent('blocked');
+  });
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import ProgressTransfer from '../ProgressTransfer';
+import { CurriculumProvider, useCurriculum } from '../../context/CurriculumContext';
+import { downloadFile } from '../../utils/files';
+
+vi.mock('../../utils/localStorage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/localStorage')>(),
+  saveCurriculumState: vi.fn(),
+  loadCurriculumState: vi.fn(() => null),
+  getStorageInfo: vi.fn(() => ({ hasData: true, lastUpdated: '2024-01-15T00:00:00.000Z' }))
+}));
+
+vi.mock('../../utils/files', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/files')>(),
+  downloadFile: vi.fn()
+}));
+
+// Shows the status of the first course so imports can be checked
+const FirstCourseStatus: React.FC = () => {
+  const { state } = useCurriculum();
+  return <div data-testid="first-course-status">{state.weeks[0]?.courses[0]?.status}</div>;
+};
+
+const renderTransfer = () => render(
+  <CurriculumProvider>
+    <ProgressTransfer />
+    <FirstCourseStatus />
+  </CurriculumProvider>
+);
+
+const chooseFile = (content: string) => {
+  const file = new File([content], 'progress.json', { type: 'application/json' });
+  fireEvent.change(screen.getByLabelText('가져올 진행 기록 파일'), { target: { files: [file] } });
+};
+
+const progressFile = JSON.stringify({
+  version: '1.1.0',
+  lastUpdated: '2024-02-01T00:00:00.000Z',
+  curriculum: { '1': { '1-1': { status: 'done', endDate: '2024-01-10T00:00:00.000Z' } } }
+});
+
+describe('ProgressTransfer', () => {
+  beforeEach(() => {
+    vi.mocked(downloadFile).mockClear();
+  });
+
+  it('should download the progress as a JSON file', () => {
+    renderTransfer();
+
+    fireEvent.click(screen.getByRole('button', { name: '진행 기록 내보내기' }));
+
+    expect(downloadFile).toHaveBeenCalledWith(
+      expect.stringContaining('"curriculumId": "frontend"'),
+      expect.stringMatching(/^curriculum-progress-frontend-\d{4}-\d{2}-\d{2}\.json$/),
+      'application/json'
+    );
+  });
+
+  it('should preview an imported file and replace the progress with it', async () => {
+    renderTransfer();
+
+    chooseFile(progressFile);
+
+    const dialog = await screen.findByRole('dialog', { name: '진행 기록 가져오기' });
+    expect(dialog).toHaveTextContent('이 브라우저의 기록보다 최신입니다');
+    expect(screen.getByRole('rowheader', { name: 'QA 이슈 해결' })).toBeInTheDocument();
+    expect(screen.getByText('완료')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '모두 바꾸기' }));
+
+    expect(await screen.findByText('진행 기록을 가져온 파일로 바꿨습니다.')).toBeInTheDocument();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('done');
+  });
+
+  it('should leave the progress alone when the import is cancelled', async () => {
+    renderTransfer();
+
+    chooseFile(progressFile);
+    await screen.findByRole('dialog');
+    fireEvent.click(screen.getByRole('button', { name: '취소' }));
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('not-started');
+  });
+
+  it('should refuse files exported from another track', async () => {
+    renderTransfer();
+
+    chooseFile(JSON.stringify({ ...JSON.parse(progressFile), curriculumId: 'backend' }));
+
+    expect(await screen.findByText(/다른 트랙\(.+\)에서 내보낸 파일입니다/)).toBeInTheDocument();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByTestId('first-course-status')).toHaveTextContent('not-started');
+  });
+
+  it('should report files that are not progress data', async () => {
+    renderTransfer();
+
+    chooseFile('{"version": "1.1.0"}');
+
+    expect(await screen.findByText(/진행 기록 파일의 형식이 올바르지 않습니다/)).toBeInTheDocument();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,57 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import ResetProgressButton from '../ResetProgressButton';
+import { CurriculumProvider } from '../../context/CurriculumContext';
+import { createMemoryStorageAdapter } from '../../utils/storageAdapters';
+import { getStorageKey } from '../../utils/localStorage';
+import { getSnapshotStorageKey, ProgressSnapshot } from '../../utils/progressSnapshots';
+
+const renderButton = async () => {
+  const storage = createMemoryStorageAdapter({
+    [getStorageKey('frontend')]: JSON.stringify({
+      version: '1.1.0',
+      lastUpdated: '2024-02-01T00:00:00.000Z',
+      curriculum: { '1': { '1-1': { status: 'done', startDate: '2024-01-01T00:00:00.000Z' } } }
+    })
+  });
+  render(
+    <CurriculumProvider storageAdapter={storage} saveDelayMs={0}>
+      <ResetProgressButton />
+    </CurriculumProvider>
+  );
+  await act(async () => {});
+  return storage;
+};
+
+describe('ResetProgressButton', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('should leave progress alone when the reset is cancelled', async () => {
+    const storage = await renderButton();
+
+    fireEvent.click(screen.getByRole('button', { name: '진행 기록 초기화' }));
+    expect(screen.getByRole('alertdialog', { name: '전체 진행 기록 초기화' })).toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+    expect(await storage.load(getStorageKey('frontend'))).toContain('"done"');
+  });
+
+  it('should save the reset progress after a snapshot of the old one', async () => {
+    const storage = await renderButton();
+
+    fireEvent.click(screen.getByRole('button', { name: '진행 기록 초기화' }));
+    fireEvent.click(screen.getByRole('button', { name: '초기화' }));
+    await act(async () => {});
+
+    const saved = JSON.parse((await storage.load(getStorageKey('frontend')))!);
+    expect(saved.curriculum['1']['1-1']).toEqual({ status: 'not-started' });
+    const snapshots: ProgressSnapshot[] = JSON.parse((await storage.load(getSnapshotStorageKey('frontend')))!);
+    const preReset = snapshots.find(snapshot => snapshot.kind === 'pre-reset');
+    expect(preReset?.data.curriculum['1']['1-1'].status).toBe('done');
+  });
+});
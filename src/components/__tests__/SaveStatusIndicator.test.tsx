@@ -0,0 +1,76 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import SaveStatusIndicator from '../SaveStatusIndicator';
+import { CurriculumProvider, useCurriculum } from '../../context/CurriculumContext';
+import { createMemoryStorageAdapter, StorageAdapter } from '../../utils/storageAdapters';
+import { getStorageKey } from '../../utils/localStorage';
+
+const ToggleFirstCourse: React.FC = () => {
+  const { dispatch } = useCurriculum();
+  return (
+    <button
+      type="button"
+      onClick={() => dispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } })}
+    >
+      첫 과정 완료
+    </button>
+  );
+};
+
+const renderIndicator = async (storage: StorageAdapter, saveDelayMs: number) => {
+  render(
+    <CurriculumProvider storageAdapter={storage} saveDelayMs={saveDelayMs}>
+      <SaveStatusIndicator />
+      <ToggleFirstCourse />
+    </CurriculumProvider>
+  );
+  await act(async () => {});
+};
+
+describe('SaveStatusIndicator', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('should show saving and then saved after a change', async () => {
+    const storage = createMemoryStorageAdapter();
+    await renderIndicator(storage, 50);
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '첫 과정 완료' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('저장 중…');
+    expect(await screen.findByText('저장됨')).toBeInTheDocument();
+    expect(await storage.load(getStorageKey('frontend'))).toContain('"done"');
+  });
+
+  it('should report a failed save and save again on retry', async () => {
+    const storage = createMemoryStorageAdapter();
+    const save = vi.spyOn(storage, 'save').mockRejectedValueOnce(new Error('quota exceeded'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await renderIndicator(storage, 0);
+
+    fireEvent.click(screen.getByRole('button', { name: '첫 과정 완료' }));
+    expect(await screen.findByText(/저장 실패/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '다시 시도' }));
+    expect(await screen.findByText('저장됨')).toBeInTheDocument();
+    expect(save.mock.calls.filter(([key]) => key === getStorageKey('frontend'))).toHaveLength(2);
+    consoleSpy.mockRestore();
+  });
+
+  it('should write waiting changes when the page is left', async () => {
+    const storage = createMemoryStorageAdapter();
+    await renderIndicator(storage, 60_000);
+
+    fireEvent.click(screen.getByRole('button', { name: '첫 과정 완료' }));
+    expect(await storage.load(getStorageKey('frontend'))).toBeNull();
+
+    await act(async () => {
+      window.dispatchEvent(new Event('beforeunload'));
+    });
+
+    expect(await storage.load(getStorageKey('frontend'))).toContain('"done"');
+  });
+});
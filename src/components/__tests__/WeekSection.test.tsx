@@ -39,12 +39,12 @@ describe('WeekSection', () => {
       {
         id: '1-1',
         name: 'QA 이슈 해결',
-        completed: false,
+        status: 'not-started',
       },
       {
         id: '1-2',
         name: '4장 > 상품 목록 페이지 추가 및 기능 구현',
-        completed: true,
+        status: 'done',
       },
     ],
   };
@@ -195,4 +195,56 @@ describe('WeekSection', () => {
     
     expect(screen.getByText('총 0개 과정 중 0개 완료')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  describe('editor mode', () => {
+    it('shows editing controls instead of the course table', () => {
+      render(<WeekSection week={mockWeek} isEditing={true} />);
+
+      expect(screen.getByLabelText('1주차 주차 제목')).toHaveValue('1주차');
+      expect(screen.getByLabelText('QA 이슈 해결 과정명')).toBeInTheDocument();
+      expect(screen.queryByRole('checkbox')).not.toBeInTheDocument();
+    });
+
+    it('dispatches RENAME_WEEK when the title input loses focus', () => {
+      render(<WeekSection week={mockWeek} isEditing={true} />);
+
+      const titleInput = screen.getByLabelText('1주차 주차 제목');
+      fireEvent.change(titleInput, { target: { value: '첫 주' } });
+      fireEvent.blur(titleInput);
+
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: 'RENAME_WEEK',
+        payload: { weekId: 1, title: '첫 주' }
+      });
+    });
+
+    it('dispatches ADD_COURSE from the new course form', () => {
+      render(<WeekSection week={mockWeek} isEditing={true} />);
+
+      fireEvent.change(screen.getByLabelText('1주차 새 과정명'), { target: { value: 'API 연동' } });
+      fireEvent.click(screen.getByText('과정 추가'));
+
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: 'ADD_COURSE',
+        payload: { weekId: 1, name: 'API 연동' }
+      });
+    });
+
+    it('asks before deleting a course with progress', () => {
+      const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(false);
+      render(<WeekSection week={mockWeek} isEditing={true} />);
+
+      fireEvent.click(screen.getByLabelText('4장 > 상품 목록 페이지 추가 및 기능 구현 삭제'));
+      expect(confirmSpy).toHaveBeenCalled();
+      expect(mockDispatch).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByLabelText('QA 이슈 해결 삭제'));
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: 'DELETE_COURSE',
+        payload: { weekId: 1, courseId: '1-1' }
+      });
+
+      confirmSpy.mockRestore();
+    });
+  });
+});
@@ -1,10 +1,72 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { CurriculumState, CurriculumAction } from '../types/curriculum';
-import { getInitialCurriculumState } from '../data/initialCurriculum';
-import { saveCurriculumState, loadCurriculumState } from '../utils/localStorage';
+import React, { createContext, useContext, useReducer, useEffect, useState, useMemo, useCallback, useRef, ReactNode } from 'react';
+import { CurriculumState, CurriculumAction, CurriculumSummary, Course, CourseStatus, StoredData, Subtask, Week } from '../types/curriculum';
+import {
+  DEFAULT_CURRICULUM_ID,
+  getInitialCurriculumState,
+  getRegisteredCurricula,
+  isRegisteredCurriculum
+} from '../data/initialCurriculum';
+import {
+  saveCurriculumState,
+  loadCurriculumState,
+  saveActiveCurriculumId,
+  loadActiveCurriculumId,
+  getStorageInfo,
+  getStorageKey,
+  curriculumStateToStoredData,
+  storedDataToCurriculumState
+} from '../utils/localStorage';
+import { createDefaultStorageAdapter, createMemoryStorageAdapter, StorageAdapter } from '../utils/storageAdapters';
+import { createProfileStorageAdapter, DEFAULT_PROFILE_ID } from '../utils/learnerProfiles';
+import { SharedProgress } from '../utils/progressShare';
 import { updateAllProgress } from '../utils/progressCalculator';
+import { CurriculumDefinitionError, isValidEstimatedHours } from '../utils/curriculumDefinition';
+import { generateCourseId, generateSubtaskId, generateWeekId, hasCourseProgress, moveItem } from '../utils/curriculumEditor';
+import { generateResourceLinkId, isResourceLinkType, isWebUrl } from '../utils/resourceLinks';
+import { parseChapterFromName } from '../utils/chapters';
+import { getOpenPrerequisites, removePrerequisiteReferences } from '../utils/prerequisites';
+import { deriveStatusFromSubtasks, isCourseDone, isCourseStatus } from '../utils/courseStatus';
+import { StorageMigrationReport } from '../utils/storageMigrations';
+import { applyStoredCourseProgress, isSameOrphanedProgress } from '../utils/progressReconciliation';
+import {
+  applyProgressImport,
+  createProgressImportPreview,
+  isImportNewer,
+  ProgressImportMode,
+  ProgressImportPreview
+} from '../utils/progressTransfer';
+import {
+  fetchRemoteProgress,
+  ProgressSyncError,
+  ProgressSyncStatus,
+  pushRemoteProgress,
+  RemoteProgress
+} from '../utils/progressSync';
+import {
+  createCrossTabChannel,
+  CrossTabChannel,
+  CrossTabConflict,
+  CrossTabMessage,
+  isSameStoredProgress,
+  mergeCrossTabProgress
+} from '../utils/crossTabSync';
+import {
+  createCurriculumHistory,
+  HistoryChange,
+  loadSessionHistory,
+  saveSessionHistory,
+  withHistory
+} from '../utils/history';
+import {
+  isDailySnapshotDue,
+  loadProgressSnapshots,
+  ProgressSnapshot,
+  ProgressSnapshotKind,
+  takeProgressSnapshot
+} from '../utils/progressSnapshots';
+import { createSaveScheduler, SAVE_DEBOUNCE_MS, SaveStatus } from '../utils/saveScheduler';
 
 /**
  * Context for curriculum state management
@@ -12,10 +74,156 @@ import { updateAllProgress } from '../utils/progressCalculator';
 interface CurriculumContextType {
   state: CurriculumState;
   dispatch: React.Dispatch<CurriculumAction>;
+  /** Set when the curriculum definition could not be loaded */
+  definitionError: CurriculumDefinitionError | null;
+  /** All registered curricula (tracks) */
+  curricula: CurriculumSummary[];
+  activeCurriculumId: string;
+  switchCurriculum: (curriculumId: string) => void;
+  /** Set after saved progress was upgraded from an older storage version */
+  storageMigrationReport: StorageMigrationReport | null;
+  dismissStorageMigrationReport: () => void;
+  /** Compare a validated progress file with the current progress */
+  previewProgressImport: (data: StoredData) => Promise<ProgressImportPreview>;
+  /** Apply a validated progress file to the active curriculum */
+  importProgress: (data: StoredData, mode: ProgressImportMode) => Promise<void>;
+  /** State of the server copy; 'disabled' unless the provider syncs with an endpoint */
+  syncStatus: ProgressSyncStatus;
+  /** Progress saved on the server from another device, set while syncStatus is 'conflict' */
+  syncConflict: RemoteProgress | null;
+  /** Settle a conflict by loading the server copy or by overwriting it with this browser's progress */
+  resolveSyncConflict: (keep: 'remote' | 'local') => Promise<void>;
+  /** Set after changes from another tab were merged and both tabs had changed the same courses */
+  crossTabConflict: CrossTabConflict | null;
+  dismissCrossTabConflict: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  /** Last change, undo or redo, for the undo toast */
+  lastHistoryChange: HistoryChange | null;
+  /** Snapshots of the active curriculum's saved progress, newest first */
+  listProgressSnapshots: () => Promise<ProgressSnapshot[]>;
+  /** Bring back the progress of a snapshot, taking a snapshot of the current progress first */
+  restoreProgressSnapshot: (snapshot: ProgressSnapshot) => Promise<void>;
+  /** State of saving the latest change in this browser */
+  saveStatus: SaveStatus;
+  /** Write the progress again after saving failed */
+  retrySave: () => Promise<void>;
+  /** Clear status, dates and checked subtasks of every course, or of one week, taking a snapshot first */
+  resetProgress: (weekId?: number) => Promise<void>;
+  /** True while showing progress from a share link; changes are ignored and nothing is saved */
+  isReadOnly: boolean;
 }
 
 const CurriculumContext = createContext<CurriculumContextType | undefined>(undefined);
 
+/**
+ * Apply edited weeks and mark the curriculum as customized so its structure is persisted
+ */
+const updateStructure = (state: CurriculumState, weeks: Week[]): CurriculumState =>
+  updateAllProgress({ ...state, weeks, customized: true });
+
+/**
+ * Apply an update to a single course of a week
+ */
+const mapCourse = (weeks: Week[], weekId: number, courseId: string, update: (course: Course) => Course): Week[] =>
+  weeks.map(week =>
+    week.id === weekId
+      ? { ...week, courses: week.courses.map(course => (course.id === courseId ? update(course) : course)) }
+      : week
+  );
+
+/**
+ * Replace a course's subtasks and derive its status from them
+ */
+const withSubtasks = (course: Course, subtasks: Subtask[]): Course => ({
+  ...course,
+  subtasks,
+  status: deriveStatusFromSubtasks(course.status, subtasks)
+});
+
+/**
+ * Set a course's status; marking a course done or not started checks or unchecks every subtask
+ */
+const withStatus = (course: Course, status: CourseStatus): Course => {
+  if (!course.subtasks?.length || (status !== 'done' && status !== 'not-started')) {
+    return { ...course, status };
+  }
+
+  return {
+    ...course,
+    status,
+    subtasks: course.subtasks.map(subtask => ({ ...subtask, completed: status === 'done' }))
+  };
+};
+
+/**
+ * Clear a course's status, dates and checked subtasks; notes and links are kept
+ */
+const resetCourseProgress = (course: Course): Course => ({
+  ...withStatus(course, 'not-started'),
+  startDate: undefined,
+  endDate: undefined
+});
+
+/**
+ * Set a course's status, holding back completion while prerequisites are open
+ * Blocked completions leave the course as it is and record a warning; passing force completes it anyway
+ */
+const setStatusChecked = (
+  state: CurriculumState,
+  weekId: number,
+  courseId: string,
+  status: CourseStatus,
+  force = false
+): CurriculumState => {
+  const course = state.weeks.find(week => week.id === weekId)?.courses.find(item => item.id === courseId);
+  if (!course) return state;
+
+  const openPrerequisites = status === 'done' && !force ? getOpenPrerequisites(state.weeks, course) : [];
+  if (openPrerequisites.length > 0) {
+    return {
+      ...state,
+      prerequisiteWarning: { weekId, courseId, openPrerequisiteIds: openPrerequisites.map(item => item.id) }
+    };
+  }
+
+  return updateAllProgress({
+    ...state,
+    prerequisiteWarning: undefined,
+    weeks: mapCourse(state.weeks, weekId, courseId, item => withStatus(item, status))
+  });
+};
+
+/**
+ * Replace a course's subtasks, holding back completion while prerequisites are open
+ * When the subtasks would complete a blocked course it stays in progress and a warning is recorded
+ */
+const setSubtasksChecked = (
+  state: CurriculumState,
+  weekId: number,
+  courseId: string,
+  subtasks: Subtask[]
+): CurriculumState => {
+  const course = state.weeks.find(week => week.id === weekId)?.courses.find(item => item.id === courseId);
+  if (!course) return state;
+
+  const updated = withSubtasks(course, subtasks);
+  const openPrerequisites = !isCourseDone(course) && isCourseDone(updated)
+    ? getOpenPrerequisites(state.weeks, course)
+    : [];
+  if (openPrerequisites.length > 0) {
+    return {
+      ...state,
+      prerequisiteWarning: { weekId, courseId, openPrerequisiteIds: openPrerequisites.map(item => item.id) },
+      weeks: mapCourse(state.weeks, weekId, courseId, () => ({ ...updated, status: 'in-progress' }))
+    };
+  }
+
+  return { ...state, weeks: mapCourse(state.weeks, weekId, courseId, () => updated) };
+};
+
 /**
  * Curriculum reducer function
  */
@@ -68,26 +276,100 @@ const curriculumReducer = (state: CurriculumState, action: CurriculumAction): Cu
     }
     
     case 'TOGGLE_COMPLETION': {
-      const { weekId, courseId } = action.payload;
+      const { weekId, courseId, force } = action.payload;
       if (!weekId || !courseId) return state;
       
-      const updatedState = {
+      const course = state.weeks.find(week => week.id === weekId)?.courses.find(item => item.id === courseId);
+      if (!course) return state;
+      
+      return setStatusChecked(state, weekId, courseId, isCourseDone(course) ? 'not-started' : 'done', force);
+    }
+    
+    case 'DISMISS_PREREQUISITE_WARNING': {
+      return state.prerequisiteWarning ? { ...state, prerequisiteWarning: undefined } : state;
+    }
+    
+    case 'SET_STATUS': {
+      const { weekId, courseId, status, force } = action.payload;
+      if (!weekId || !courseId || !isCourseStatus(status)) return state;
+      
+      return setStatusChecked(state, weekId, courseId, status, force);
+    }
+    
+    case 'SET_NOTES': {
+      const { weekId, courseId, notes } = action.payload;
+      if (!weekId || !courseId) return state;
+      
+      return updateAllProgress({
         ...state,
-        weeks: state.weeks.map(week => 
-          week.id === weekId 
-            ? {
-                ...week,
-                courses: week.courses.map(course =>
-                  course.id === courseId
-                    ? { ...course, completed: !course.completed }
-                    : course
-                )
-              }
-            : week
-        )
-      };
+        weeks: mapCourse(state.weeks, weekId, courseId, course => ({
+          ...course,
+          notes: notes?.trim() ? notes : undefined
+        }))
+      });
+    }
+    
+    case 'ADD_RESOURCE_LINK': {
+      const { weekId, courseId, resource } = action.payload;
+      if (!weekId || !courseId || !resource) return state;
+      if (!isResourceLinkType(resource.type) || !isWebUrl(resource.url)) return state;
       
-      return updateAllProgress(updatedState);
+      // Links the learner adds are progress data, so they survive curriculum definition updates
+      return updateAllProgress({
+        ...state,
+        weeks: mapCourse(state.weeks, weekId, courseId, course => ({
+          ...course,
+          resources: [
+            ...(course.resources ?? []),
+            {
+              id: generateResourceLinkId(course),
+              type: resource.type,
+              url: resource.url.trim(),
+              ...(resource.title?.trim() ? { title: resource.title.trim() } : {}),
+              userAdded: true
+            }
+          ]
+        }))
+      });
+    }
+    
+    case 'DELETE_RESOURCE_LINK': {
+      const { weekId, courseId, resourceId } = action.payload;
+      if (!weekId || !courseId || !resourceId) return state;
+      
+      return updateAllProgress({
+        ...state,
+        weeks: mapCourse(state.weeks, weekId, courseId, course => {
+          const resources = (course.resources ?? []).filter(link => !(link.userAdded && link.id === resourceId));
+          return { ...course, resources: resources.length > 0 ? resources : undefined };
+        })
+      });
+    }
+    
+    case 'REASSIGN_ORPHANED_PROGRESS': {
+      const { weekId, courseId, orphan } = action.payload;
+      if (!weekId || !courseId || !orphan) return state;
+      
+      const entry = state.orphanedProgress?.find(item => isSameOrphanedProgress(item, orphan));
+      const course = state.weeks.find(week => week.id === weekId)?.courses.find(item => item.id === courseId);
+      if (!entry || !course) return state;
+      
+      // The saved progress replaces whatever the course recorded so far
+      return updateAllProgress({
+        ...state,
+        orphanedProgress: state.orphanedProgress?.filter(item => item !== entry),
+        weeks: mapCourse(state.weeks, weekId, courseId, item => applyStoredCourseProgress(item, entry.progress))
+      });
+    }
+    
+    case 'DISCARD_ORPHANED_PROGRESS': {
+      const { orphan } = action.payload;
+      if (!orphan || !state.orphanedProgress?.some(item => isSameOrphanedProgress(item, orphan))) return state;
+      
+      return {
+        ...state,
+        orphanedProgress: state.orphanedProgress.filter(item => !isSameOrphanedProgress(item, orphan))
+      };
     }
     
     case 'LOAD_DATA': {
@@ -97,53 +379,705 @@ const curriculumReducer = (state: CurriculumState, action: CurriculumAction): Cu
       return updateAllProgress(data);
     }
     
+    case 'ADD_WEEK': {
+      const { title } = action.payload;
+      const newWeek: Week = {
+        id: generateWeekId(state.weeks),
+        title: title?.trim() || `${state.weeks.length + 1}주차`,
+        courses: [],
+        progress: 0
+      };
+      
+      return updateStructure(state, [...state.weeks, newWeek]);
+    }
+    
+    case 'RENAME_WEEK': {
+      const { weekId, title } = action.payload;
+      if (!weekId || !title?.trim()) return state;
+      
+      return updateStructure(state, state.weeks.map(week =>
+        week.id === weekId ? { ...week, title: title.trim() } : week
+      ));
+    }
+    
+    case 'DELETE_WEEK': {
+      const { weekId } = action.payload;
+      if (!weekId) return state;
+      
+      const deletedCourseIds = state.weeks.find(week => week.id === weekId)?.courses.map(course => course.id) ?? [];
+      return updateStructure(state, removePrerequisiteReferences(
+        state.weeks.filter(week => week.id !== weekId),
+        deletedCourseIds
+      ));
+    }
+    
+    case 'MOVE_WEEK': {
+      const { weekId, toIndex } = action.payload;
+      if (!weekId || toIndex === undefined) return state;
+      
+      const fromIndex = state.weeks.findIndex(week => week.id === weekId);
+      const weeks = moveItem(state.weeks, fromIndex, toIndex);
+      return weeks === state.weeks ? state : updateStructure(state, weeks);
+    }
+    
+    case 'ADD_COURSE': {
+      const { weekId, name } = action.payload;
+      if (!weekId || !name?.trim()) return state;
+      
+      const chapter = parseChapterFromName(name);
+      const newCourse: Course = {
+        id: generateCourseId(state.weeks, weekId, state.orphanedProgress?.map(orphan => orphan.courseId)),
+        name: name.trim(),
+        ...(chapter ? { chapter } : {}),
+        status: 'not-started'
+      };
+      
+      return updateStructure(state, state.weeks.map(week =>
+        week.id === weekId ? { ...week, courses: [...week.courses, newCourse] } : week
+      ));
+    }
+    
+    case 'RENAME_COURSE': {
+      const { weekId, courseId, name } = action.payload;
+      if (!weekId || !courseId || !name?.trim()) return state;
+      
+      return updateStructure(state, state.weeks.map(week =>
+        week.id === weekId
+          ? {
+              ...week,
+              courses: week.courses.map(course =>
+                course.id === courseId ? { ...course, name: name.trim() } : course
+              )
+            }
+          : week
+      ));
+    }
+    
+    case 'DELETE_COURSE': {
+      const { weekId, courseId } = action.payload;
+      if (!weekId || !courseId) return state;
+      
+      return updateStructure(state, removePrerequisiteReferences(
+        state.weeks.map(week =>
+          week.id === weekId
+            ? { ...week, courses: week.courses.filter(course => course.id !== courseId) }
+            : week
+        ),
+        [courseId]
+      ));
+    }
+    
+    case 'MOVE_COURSE': {
+      const { weekId, courseId, toWeekId = weekId, toIndex } = action.payload;
+      if (!weekId || !courseId || !toWeekId) return state;
+      
+      const sourceWeek = state.weeks.find(week => week.id === weekId);
+      const course = sourceWeek?.courses.find(item => item.id === courseId);
+      if (!sourceWeek || !course || !state.weeks.some(week => week.id === toWeekId)) return state;
+      
+      // Reorder within the same week
+      if (toWeekId === weekId) {
+        if (toIndex === undefined) return state;
+        const courses = moveItem(sourceWeek.courses, sourceWeek.courses.indexOf(course), toIndex);
+        if (courses === sourceWeek.courses) return state;
+        
+        return updateStructure(state, state.weeks.map(week =>
+          week.id === weekId ? { ...week, courses } : week
+        ));
+      }
+      
+      // Move to another week; the course keeps its id so its progress moves with it
+      return updateStructure(state, state.weeks.map(week => {
+        if (week.id === weekId) {
+          return { ...week, courses: week.courses.filter(item => item.id !== courseId) };
+        }
+        if (week.id === toWeekId) {
+          const courses = [...week.courses];
+          courses.splice(toIndex ?? courses.length, 0, course);
+          return { ...week, courses };
+        }
+        return week;
+      }));
+    }
+    
+    case 'SET_CHAPTER': {
+      const { weekId, courseId, chapter } = action.payload;
+      if (!weekId || !courseId) return state;
+      
+      return updateStructure(state, mapCourse(state.weeks, weekId, courseId, course => ({
+        ...course,
+        chapter: chapter?.trim() || undefined
+      })));
+    }
+    
+    case 'SET_ESTIMATED_HOURS': {
+      const { weekId, courseId, estimatedHours } = action.payload;
+      if (!weekId || !courseId) return state;
+      if (estimatedHours !== undefined && !isValidEstimatedHours(estimatedHours)) return state;
+      
+      return updateStructure(state, state.weeks.map(week =>
+        week.id === weekId
+          ? {
+              ...week,
+              courses: week.courses.map(course =>
+                course.id === courseId ? { ...course, estimatedHours } : course
+              )
+            }
+          : week
+      ));
+    }
+    
+    case 'TOGGLE_SUBTASK': {
+      const { weekId, courseId, subtaskId } = action.payload;
+      if (!weekId || !courseId || !subtaskId) return state;
+      
+      const subtasks = state.weeks.find(week => week.id === weekId)?.courses.find(course => course.id === courseId)?.subtasks;
+      if (!subtasks) return state;
+      
+      return updateAllProgress(setSubtasksChecked(state, weekId, courseId, subtasks.map(subtask =>
+        subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+      )));
+    }
+    
+    case 'ADD_SUBTASK': {
+      const { weekId, courseId, title } = action.payload;
+      if (!weekId || !courseId || !title?.trim()) return state;
+      
+      return updateStructure(state, mapCourse(state.weeks, weekId, courseId, course =>
+        withSubtasks(course, [
+          ...(course.subtasks ?? []),
+          { id: generateSubtaskId(course), title: title.trim(), completed: false }
+        ])
+      ));
+    }
+    
+    case 'DELETE_SUBTASK': {
+      const { weekId, courseId, subtaskId } = action.payload;
+      if (!weekId || !courseId || !subtaskId) return state;
+      
+      const course = state.weeks.find(week => week.id === weekId)?.courses.find(item => item.id === courseId);
+      if (!course) return state;
+      
+      const subtasks = (course.subtasks ?? []).filter(subtask => subtask.id !== subtaskId);
+      // Without any steps left the course goes back to a plain checkbox
+      if (subtasks.length === 0) {
+        return updateStructure(state, mapCourse(state.weeks, weekId, courseId, item => ({ ...item, subtasks: undefined })));
+      }
+      
+      const updated = setSubtasksChecked(state, weekId, courseId, subtasks);
+      return updateStructure(updated, updated.weeks);
+    }
+    
+    case 'RESET_ALL': {
+      return updateAllProgress({
+        ...state,
+        prerequisiteWarning: undefined,
+        weeks: state.weeks.map(week => ({ ...week, courses: week.courses.map(resetCourseProgress) }))
+      });
+    }
+    
+    case 'RESET_WEEK': {
+      const { weekId } = action.payload;
+      if (!weekId || !state.weeks.some(week => week.id === weekId)) return state;
+      
+      return updateAllProgress({
+        ...state,
+        prerequisiteWarning: undefined,
+        weeks: state.weeks.map(week =>
+          week.id === weekId ? { ...week, courses: week.courses.map(resetCourseProgress) } : week
+        )
+      });
+    }
+    
     default:
       return state;
   }
 };
 
+const curriculumHistoryReducer = withHistory(curriculumReducer);
+
+/**
+ * Curriculum currently shown by the provider
+ */
+interface ActiveCurriculum {
+  curriculumId: string;
+  state: CurriculumState;
+  definitionError: CurriculumDefinitionError | null;
+}
+
+/**
+ * Build the initial state from the curriculum definition, capturing definition errors
+ * so they can be shown in the dashboard instead of crashing the app
+ */
+const createInitialState = (curriculumId: string): ActiveCurriculum => {
+  try {
+    return { curriculumId, state: getInitialCurriculumState(curriculumId), definitionError: null };
+  } catch (error) {
+    if (error instanceof CurriculumDefinitionError) {
+      console.error(error.message);
+      return { curriculumId, state: { weeks: [], overallProgress: 0 }, definitionError: error };
+    }
+    throw error;
+  }
+};
+
 /**
  * Curriculum Provider component
  */
 interface CurriculumProviderProps {
   children: ReactNode;
+  /** Backend for saved progress; IndexedDB (moving data over from localStorage) when omitted */
+  storageAdapter?: StorageAdapter;
+  /** URL of the /api/progress route to sync with; progress stays in the browser when omitted */
+  progressSyncEndpoint?: string;
+  /** Wait after the last change before saving, in milliseconds; 0 saves every change right away */
+  saveDelayMs?: number;
+  /**
+   * Learner profile whose progress is loaded and saved; the default profile when omitted
+   * Fixed for the life of the provider: give it `key={profileId}` so switching profiles mounts a fresh one
+   */
+  profileId?: string;
+  /**
+   * Progress from a share link to show read-only
+   * The provider then never reads or writes the browser storage and does not talk to other tabs
+   */
+  sharedProgress?: SharedProgress;
+  /**
+   * Whether the storage adapter encrypts progress
+   * The undo history is then not kept in sessionStorage and no progress is passed to other tabs through localStorage
+   */
+  isEncrypted?: boolean;
+}
+
+// Dispatch handed out while read-only
+const ignoreAction: React.Dispatch<CurriculumAction> = () => {};
+
+/**
+ * Progress waiting to be saved
+ */
+interface PendingSave {
+  state: CurriculumState;
+  curriculumId: string;
+  data: StoredData;
+  /** True when the progress differs from what the other tabs have; it is then sent to them and the server */
+  isChanged: boolean;
 }
 
-export const CurriculumProvider: React.FC<CurriculumProviderProps> = ({ children }) => {
-  const [state, dispatch] = useReducer(curriculumReducer, getInitialCurriculumState());
+export const CurriculumProvider: React.FC<CurriculumProviderProps> = ({
+  children,
+  storageAdapter,
+  progressSyncEndpoint,
+  saveDelayMs = SAVE_DEBOUNCE_MS,
+  profileId = DEFAULT_PROFILE_ID,
+  sharedProgress,
+  isEncrypted = false
+}) => {
+  const isReadOnly = sharedProgress !== undefined;
+  const [activeCurriculum, setActiveCurriculum] = useState(() => createInitialState(DEFAULT_CURRICULUM_ID));
+  const [history, dispatch] = useReducer(curriculumHistoryReducer, activeCurriculum.state, createCurriculumHistory);
+  const state = history.present;
+  const curricula = useMemo(() => getRegisteredCurricula(), []);
+  const { curriculumId: activeCurriculumId, definitionError } = activeCurriculum;
+  const [storageMigrationReport, setStorageMigrationReport] = useState<StorageMigrationReport | null>(null);
+  // The adapter is chosen once; swapping backends while mounted would split the saved progress
+  const [storage] = useState(() => sharedProgress
+    ? createMemoryStorageAdapter({ [getStorageKey(sharedProgress.curriculumId)]: JSON.stringify(sharedProgress.data) })
+    : createProfileStorageAdapter(storageAdapter ?? createDefaultStorageAdapter(), profileId));
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const loadRequestRef = useRef(0);
+  const [syncStatus, setSyncStatus] = useState<ProgressSyncStatus>(progressSyncEndpoint ? 'syncing' : 'disabled');
+  const [syncConflict, setSyncConflict] = useState<RemoteProgress | null>(null);
+  // ETag of the server copy each curriculum was last synced with
+  const remoteEtagsRef = useRef(new Map<string, string>());
+  // Progress that could not be sent while offline, sent again once the browser is back online
+  const pendingPushRef = useRef<{ curriculumId: string; data: StoredData } | null>(null);
+  // Writes are held back during a conflict; they would be rejected until it is settled
+  const hasSyncConflictRef = useRef(false);
+  // After loading, the first save also goes to the server in case this browser holds progress it has not seen
+  const pushAfterLoadRef = useRef(false);
+  // True once the active curriculum has progress in storage; clearing all progress must then be saved too
+  const hasSavedProgressRef = useRef(false);
+  const crossTabChannelRef = useRef<CrossTabChannel | null>(null);
+  // Progress this tab and the others last agreed on; the base of three-way merges
+  const crossTabBaseRef = useRef<StoredData | null>(null);
+  // Progress the other tabs already have, sent from here or taken over from them
+  const crossTabSharedRef = useRef<StoredData | null>(null);
+  // When this tab last changed the progress; decides which side wins a conflict
+  const localChangedAtRef = useRef('');
+  const [crossTabConflict, setCrossTabConflict] = useState<CrossTabConflict | null>(null);
+  // Curriculum and day the daily snapshot was last checked for, so it is looked up once a day, not on every save
+  const dailySnapshotCheckRef = useRef('');
+
+  /**
+   * Send progress to the server, recording a conflict when it changed there since the last sync
+   */
+  const pushProgress = useCallback(async (curriculumId: string, data: StoredData) => {
+    if (!progressSyncEndpoint) return;
+
+    setSyncStatus('syncing');
+    try {
+      let result = await pushRemoteProgress(
+        progressSyncEndpoint,
+        curriculumId,
+        data,
+        remoteEtagsRef.current.get(curriculumId) ?? null,
+        profileId
+      );
+      if (result.status === 'conflict' && !result.remote) {
+        // The server copy was removed; save this browser's progress as the first one
+        remoteEtagsRef.current.delete(curriculumId);
+        result = await pushRemoteProgress(progressSyncEndpoint, curriculumId, data, null, profileId);
+      }
+
+      if (result.status === 'saved') {
+        remoteEtagsRef.current.set(curriculumId, result.etag);
+        crossTabChannelRef.current?.post({ type: 'synced', curriculumId, etag: result.etag });
+        pendingPushRef.current = null;
+        setSyncStatus('synced');
+      } else if (result.remote) {
+        hasSyncConflictRef.current = true;
+        setSyncConflict(result.remote);
+        setSyncStatus('conflict');
+      }
+    } catch (error) {
+      if (!(error instanceof ProgressSyncError)) throw error;
+      console.warn('Failed to sync progress, keeping it in this browser:', error.message);
+      pendingPushRef.current = { curriculumId, data };
+      setSyncStatus('offline');
+    }
+  }, [progressSyncEndpoint, profileId]);
+
+  /**
+   * Replace the current state with a curriculum and its saved progress
+   */
+  const loadCurriculum = useCallback(async (curriculumId: string) => {
+    // Only the latest request is applied when the learner switches again while loading
+    const request = ++loadRequestRef.current;
+    const next = createInitialState(curriculumId);
+    let loadedState = next.state;
+
+    if (!next.definitionError) {
+      try {
+        loadedState = await loadCurriculumState(next.state, curriculumId, {
+          onMigrated: setStorageMigrationReport,
+          storage
+        }) ?? next.state;
+      } catch (error) {
+        console.error(`Failed to load curriculum state from ${storage.name}:`, error);
+        // Continue with initial state if loading fails
+      }
+    }
+
+    let remote: RemoteProgress | null = null;
+    let isOffline = false;
+    if (!next.definitionError && progressSyncEndpoint) {
+      try {
+        remote = await fetchRemoteProgress(progressSyncEndpoint, curriculumId, profileId);
+        // The server copy wins only when it was saved after the progress in this browser
+        const { hasData, lastUpdated } = await getStorageInfo(curriculumId, storage);
+        if (remote && (!hasData || isImportNewer(remote.data, lastUpdated))) {
+          loadedState = storedDataToCurriculumState(remote.data, next.state);
+        }
+      } catch (error) {
+        if (!(error instanceof ProgressSyncError)) throw error;
+        console.warn('Failed to fetch progress from the server, using the progress in this browser:', error.message);
+        isOffline = true;
+      }
+    }
+
+    if (request !== loadRequestRef.current) return;
+    if (remote) {
+      remoteEtagsRef.current.set(curriculumId, remote.etag);
+    }
+    if (progressSyncEndpoint) {
+      hasSyncConflictRef.current = false;
+      setSyncConflict(null);
+      setSyncStatus(isOffline ? 'offline' : 'synced');
+    }
+    setActiveCurriculum(next);
+    dispatch({
+      type: 'LOAD_DATA',
+      payload: { data: loadedState }
+    });
+    // Undo history survives reloads within the browser session
+    const sessionHistory = isReadOnly ? null : loadSessionHistory(curriculumId, loadedState, next.state, profileId);
+    if (sessionHistory) {
+      dispatch({ type: 'RESTORE_HISTORY', payload: { history: sessionHistory } });
+    }
+    const loadedData = curriculumStateToStoredData(loadedState);
+    crossTabBaseRef.current = loadedData;
+    crossTabSharedRef.current = loadedData;
+    localChangedAtRef.current = loadedData.lastUpdated;
+    pushAfterLoadRef.current = true;
+    hasSavedProgressRef.current = loadedState !== next.state;
+    setCrossTabConflict(null);
+    setHasLoaded(true);
+  }, [storage, progressSyncEndpoint, profileId, isReadOnly]);
   
-  // Load data from localStorage on mount
+  // Load the last viewed curriculum and its progress on mount
   useEffect(() => {
+    const savedCurriculumId = sharedProgress ? sharedProgress.curriculumId : loadActiveCurriculumId();
+    void loadCurriculum(
+      savedCurriculumId && isRegisteredCurriculum(savedCurriculumId)
+        ? savedCurriculumId
+        : DEFAULT_CURRICULUM_ID
+    );
+  }, [loadCurriculum, sharedProgress]);
+  
+  /**
+   * Write progress to the browser storage, then send it to the other tabs and the server
+   * @returns Whether it was saved in the browser
+   */
+  const saveProgress = useCallback(async ({ state: savedState, curriculumId, data, isChanged }: PendingSave) => {
+    let isSaved = false;
     try {
-      const savedState = loadCurriculumState(getInitialCurriculumState());
-      if (savedState) {
-        dispatch({
-          type: 'LOAD_DATA',
-          payload: { data: savedState }
-        });
+      isSaved = await saveCurriculumState(savedState, curriculumId, storage);
+      const dailySnapshotCheck = `${curriculumId}:${new Date().toDateString()}`;
+      if (isSaved && dailySnapshotCheckRef.current !== dailySnapshotCheck) {
+        dailySnapshotCheckRef.current = dailySnapshotCheck;
+        if (isDailySnapshotDue(await loadProgressSnapshots(curriculumId, storage))) {
+          await takeProgressSnapshot(savedState, 'daily', curriculumId, storage);
+        }
       }
     } catch (error) {
-      console.error('Failed to load curriculum state from localStorage:', error);
-      // Continue with initial state if loading fails
+      console.error(`Failed to save curriculum state to ${storage.name}:`, error);
+      // Continue execution - don't break the app if storage fails
     }
-  }, []);
-  
-  // Save data to localStorage whenever state changes
+    if (isChanged) {
+      crossTabChannelRef.current?.post({ type: 'saved', curriculumId, data });
+    }
+    // The browser copy is saved first so nothing is lost while the server is out of reach
+    if ((isChanged || pushAfterLoadRef.current) && !hasSyncConflictRef.current) {
+      pushAfterLoadRef.current = false;
+      await pushProgress(curriculumId, data);
+    }
+    return isSaved;
+  }, [storage, pushProgress]);
+
+  // The scheduler lives as long as the provider; writes go through the callback of the latest render
+  const saveProgressRef = useRef(saveProgress);
   useEffect(() => {
-    // Skip saving on initial render (when state is still initial)
-    if (state.weeks.some(week => week.courses.some(course => course.completed || course.startDate || course.endDate))) {
-      try {
-        saveCurriculumState(state);
-      } catch (error) {
-        console.error('Failed to save curriculum state to localStorage:', error);
-        // Continue execution - don't break the app if localStorage fails
+    saveProgressRef.current = saveProgress;
+  }, [saveProgress]);
+
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [saveScheduler] = useState(() => createSaveScheduler<PendingSave>({
+    save: item => saveProgressRef.current(item),
+    onStatusChange: setSaveStatus,
+    delayMs: saveDelayMs,
+    // A burst of changes is sent on if any of them was new to the other tabs
+    coalesce: (pending, next) => ({ ...next, isChanged: pending.isChanged || next.isChanged })
+  }));
+
+  // Save data whenever state changes
+  useEffect(() => {
+    // Skip saving on initial render (when state is still initial) and until the saved progress
+    // has been read, so early edits cannot overwrite it; orphanedProgress is only set for
+    // loaded progress, and an emptied list still has to be saved to drop the entries.
+    // Once progress is saved, a state without any progress is saved as well, or it would come back on reload
+    if (
+      hasLoaded && !isReadOnly && (
+        hasSavedProgressRef.current ||
+        state.customized ||
+        state.orphanedProgress !== undefined ||
+        state.weeks.some(week => week.courses.some(hasCourseProgress))
+      )
+    ) {
+      const data = curriculumStateToStoredData(state);
+      // Progress just taken over from another tab is not sent back to it or to the server
+      const isChanged = !crossTabSharedRef.current || !isSameStoredProgress(crossTabSharedRef.current, data);
+      if (isChanged) {
+        crossTabSharedRef.current = data;
+        localChangedAtRef.current = data.lastUpdated;
       }
+      hasSavedProgressRef.current = true;
+      saveScheduler.schedule({ state, curriculumId: activeCurriculumId, data, isChanged });
+    }
+  }, [state, activeCurriculumId, hasLoaded, isReadOnly, saveScheduler]);
+
+  // Write waiting changes before the page is left or the provider goes away
+  useEffect(() => {
+    const handleBeforeUnload = () => {
+      void saveScheduler.flush();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      void saveScheduler.flush();
+      saveScheduler.dispose();
+    };
+  }, [saveScheduler]);
+
+  /**
+   * Take over progress saved in another tab, merging it with changes made here in the meantime
+   */
+  const handleCrossTabMessage = useCallback((message: CrossTabMessage) => {
+    if (message.type === 'synced') {
+      remoteEtagsRef.current.set(message.curriculumId, message.etag);
+      return;
+    }
+    if (!hasLoaded || definitionError || message.curriculumId !== activeCurriculumId) return;
+
+    const local = { ...curriculumStateToStoredData(state), lastUpdated: localChangedAtRef.current };
+    const { data, conflicts, structureConflict, kept } = mergeCrossTabProgress(crossTabBaseRef.current, local, message.data);
+    // Saving the merged state sends only what the other tab does not have yet back to it
+    crossTabBaseRef.current = message.data;
+    crossTabSharedRef.current = message.data;
+    if (conflicts.length > 0 || structureConflict) {
+      setCrossTabConflict({ conflicts, structureConflict, kept });
     }
-  }, [state]);
+
+    if (!isSameStoredProgress(data, local)) {
+      dispatch({
+        type: 'LOAD_DATA',
+        payload: { data: storedDataToCurriculumState(data, createInitialState(activeCurriculumId).state) }
+      });
+    }
+  }, [hasLoaded, definitionError, activeCurriculumId, state]);
+
+  // The channel lives as long as the provider; messages go to the handler of the latest render
+  const crossTabHandlerRef = useRef(handleCrossTabMessage);
+  useEffect(() => {
+    crossTabHandlerRef.current = handleCrossTabMessage;
+  }, [handleCrossTabMessage]);
+
+  useEffect(() => {
+    if (isReadOnly) return;
+    const channel = createCrossTabChannel(message => crossTabHandlerRef.current(message), profileId, !isEncrypted);
+    crossTabChannelRef.current = channel;
+    return () => {
+      channel.close();
+      crossTabChannelRef.current = null;
+    };
+  }, [profileId, isReadOnly, isEncrypted]);
+
+  useEffect(() => {
+    if (hasLoaded && !definitionError && !isReadOnly && !isEncrypted) {
+      saveSessionHistory(activeCurriculumId, history, profileId);
+    }
+  }, [history, activeCurriculumId, hasLoaded, definitionError, profileId, isReadOnly, isEncrypted]);
+
+  // Send progress saved while offline once the connection is back
+  useEffect(() => {
+    if (!progressSyncEndpoint) return;
+
+    const handleOnline = () => {
+      const pending = pendingPushRef.current;
+      if (pending && !hasSyncConflictRef.current) {
+        void pushProgress(pending.curriculumId, pending.data);
+      }
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [progressSyncEndpoint, pushProgress]);
+
+  /**
+   * Switch to another registered curriculum; progress of each curriculum is stored separately
+   */
+  const switchCurriculum = useCallback((curriculumId: string) => {
+    if (curriculumId === activeCurriculumId || !isRegisteredCurriculum(curriculumId)) return;
+
+    // Changes still waiting belong to the curriculum being left
+    void saveScheduler.flush();
+    saveActiveCurriculumId(curriculumId);
+    void loadCurriculum(curriculumId);
+  }, [activeCurriculumId, loadCurriculum, saveScheduler]);
+
+  /**
+   * Snapshot the progress of the active curriculum, writing changes still waiting first
+   */
+  const takeSnapshot = useCallback(async (kind: ProgressSnapshotKind) => {
+    await saveScheduler.flush();
+    await takeProgressSnapshot(state, kind, activeCurriculumId, storage);
+  }, [saveScheduler, state, activeCurriculumId, storage]);
+
+  const previewProgressImport = useCallback(async (data: StoredData) => {
+    const { lastUpdated } = await getStorageInfo(activeCurriculumId, storage);
+    return createProgressImportPreview(state, data, isImportNewer(data, lastUpdated));
+  }, [state, activeCurriculumId, storage]);
+
+  /**
+   * Replace or merge the progress of the active curriculum with an imported file
+   */
+  const importProgress = useCallback(async (data: StoredData, mode: ProgressImportMode) => {
+    await takeSnapshot('pre-import');
+    const { lastUpdated } = await getStorageInfo(activeCurriculumId, storage);
+    const importNewer = isImportNewer(data, lastUpdated);
+    dispatch({
+      type: 'LOAD_DATA',
+      payload: {
+        data: applyProgressImport(state, createInitialState(activeCurriculumId).state, data, mode, importNewer)
+      }
+    });
+  }, [state, activeCurriculumId, storage, takeSnapshot]);
+
+  const listProgressSnapshots = useCallback(
+    () => loadProgressSnapshots(activeCurriculumId, storage),
+    [activeCurriculumId, storage]
+  );
+
+  const restoreProgressSnapshot = useCallback(async (snapshot: ProgressSnapshot) => {
+    await takeSnapshot('pre-restore');
+    dispatch({
+      type: 'LOAD_DATA',
+      payload: { data: storedDataToCurriculumState(snapshot.data, createInitialState(activeCurriculumId).state) }
+    });
+  }, [activeCurriculumId, takeSnapshot]);
+
+  const resetProgress = useCallback(async (weekId?: number) => {
+    await takeSnapshot('pre-reset');
+    dispatch(weekId === undefined
+      ? { type: 'RESET_ALL', payload: {} }
+      : { type: 'RESET_WEEK', payload: { weekId } });
+  }, [takeSnapshot]);
+
+  const resolveSyncConflict = useCallback(async (keep: 'remote' | 'local') => {
+    if (!syncConflict) return;
+
+    remoteEtagsRef.current.set(activeCurriculumId, syncConflict.etag);
+    hasSyncConflictRef.current = false;
+    setSyncConflict(null);
+    if (keep === 'remote') {
+      // Loading the server copy saves it back, which also records it in this browser
+      dispatch({
+        type: 'LOAD_DATA',
+        payload: { data: storedDataToCurriculumState(syncConflict.data, createInitialState(activeCurriculumId).state) }
+      });
+    } else {
+      await pushProgress(activeCurriculumId, curriculumStateToStoredData(state));
+    }
+  }, [syncConflict, activeCurriculumId, state, pushProgress]);
+  
+  const undo = useCallback(() => dispatch({ type: 'UNDO', payload: {} }), []);
+  const redo = useCallback(() => dispatch({ type: 'REDO', payload: {} }), []);
   
   const value = {
     state,
-    dispatch
+    dispatch: isReadOnly ? ignoreAction : dispatch,
+    definitionError,
+    curricula,
+    activeCurriculumId,
+    switchCurriculum,
+    storageMigrationReport,
+    dismissStorageMigrationReport: () => setStorageMigrationReport(null),
+    previewProgressImport,
+    importProgress,
+    syncStatus,
+    syncConflict,
+    resolveSyncConflict,
+    crossTabConflict,
+    dismissCrossTabConflict: () => setCrossTabConflict(null),
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo,
+    redo,
+    lastHistoryChange: history.lastChange,
+    listProgressSnapshots,
+    restoreProgressSnapshot,
+    saveStatus,
+    retrySave: saveScheduler.retry,
+    resetProgress,
+    isReadOnly
   };
   
   return (
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { getRegisteredCurricula } from '../data/initialCurriculum';
+import { createDefaultStorageAdapter, StorageAdapter } from '../utils/storageAdapters';
+import { clearSessionHistory } from '../utils/history';
+import {
+  addLearnerProfile,
+  DEFAULT_PROFILE_ID,
+  getProfileProgressKeys,
+  LearnerProfile,
+  loadActiveProfileId,
+  loadLearnerProfiles,
+  removeLearnerProfile,
+  renameLearnerProfile,
+  saveActiveProfileId,
+  saveLearnerProfiles
+} from '../utils/learnerProfiles';
+
+/**
+ * Learner profile context type definition
+ */
+interface LearnerProfileContextType {
+  /** Profiles of this browser, the default profile first */
+  profiles: LearnerProfile[];
+  activeProfile: LearnerProfile;
+  switchProfile: (profileId: string) => void;
+  /**
+   * Add a profile and switch to it
+   * @throws LearnerProfileError when the name is empty, too long or taken
+   */
+  createProfile: (name: string) => void;
+  /**
+   * @throws LearnerProfileError when the name is empty, too long or taken
+   */
+  renameProfile: (profileId: string, name: string) => void;
+  /**
+   * Delete a profile with all of its saved progress, switching to the default profile if it was in use
+   * @throws LearnerProfileError for the default profile
+   */
+  deleteProfile: (profileId: string) => Promise<void>;
+}
+
+const LearnerProfileContext = createContext<LearnerProfileContextType | undefined>(undefined);
+
+/**
+ * LearnerProfileProvider props
+ */
+interface LearnerProfileProviderProps {
+  children: ReactNode;
+  /** Backend the progress of deleted profiles is cleared from; the CurriculumProvider default when omitted */
+  storageAdapter?: StorageAdapter;
+}
+
+/**
+ * Learner profile provider that keeps the profiles of this browser and which one is in use
+ */
+export const LearnerProfileProvider: React.FC<LearnerProfileProviderProps> = ({ children, storageAdapter }) => {
+  const [profiles, setProfiles] = useState<LearnerProfile[] | null>(null);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [storage] = useState(() => storageAdapter ?? createDefaultStorageAdapter());
+
+  // Profiles live in localStorage, so they can only be read in the browser
+  useEffect(() => {
+    const loadedProfiles = loadLearnerProfiles();
+    setProfiles(loadedProfiles);
+    setActiveProfileId(loadActiveProfileId(loadedProfiles));
+  }, []);
+
+  const updateProfiles = useCallback((nextProfiles: LearnerProfile[]) => {
+    setProfiles(nextProfiles);
+    saveLearnerProfiles(nextProfiles);
+  }, []);
+
+  const switchProfile = useCallback((profileId: string) => {
+    setActiveProfileId(profileId);
+    saveActiveProfileId(profileId);
+  }, []);
+
+  const createProfile = useCallback((name: string) => {
+    const { profiles: nextProfiles, profile } = addLearnerProfile(profiles ?? [], name);
+    updateProfiles(nextProfiles);
+    switchProfile(profile.id);
+  }, [profiles, updateProfiles, switchProfile]);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    updateProfiles(renameLearnerProfile(profiles ?? [], profileId, name));
+  }, [profiles, updateProfiles]);
+
+  const deleteProfile = useCallback(async (profileId: string) => {
+    const nextProfiles = removeLearnerProfile(profiles ?? [], profileId);
+    if (profileId === activeProfileId) {
+      switchProfile(DEFAULT_PROFILE_ID);
+    }
+    updateProfiles(nextProfiles);
+
+    await Promise.all(getProfileProgressKeys(profileId).map(key => storage.clear(key)));
+    getRegisteredCurricula().forEach(({ id }) => clearSessionHistory(id, profileId));
+  }, [profiles, activeProfileId, storage, switchProfile, updateProfiles]);
+
+  const contextValue = useMemo(() => {
+    if (!profiles) return null;
+    return {
+      profiles,
+      activeProfile: profiles.find(profile => profile.id === activeProfileId) ?? profiles[0],
+      switchProfile,
+      createProfile,
+      renameProfile,
+      deleteProfile
+    };
+  }, [profiles, activeProfileId, switchProfile, createProfile, renameProfile, deleteProfile]);
+
+  // Nothing is loaded until the profile is known, so progress is never read for the wrong learner
+  if (!contextValue) return null;
+
+  return (
+    <LearnerProfileContext.Provider value={contextValue}>
+      {children}
+    </LearnerProfileContext.Provider>
+  );
+};
+
+/**
+ * Hook to use the learner profiles
+ * @returns null outside LearnerProfileProvider, where all progress belongs to the default profile
+ */
+export const useLearnerProfiles = (): LearnerProfileContextType | null =>
+  useContext(LearnerProfileContext) ?? null;
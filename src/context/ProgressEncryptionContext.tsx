@@ -0,0 +1,156 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { CurriculumProvider } from './CurriculumContext';
+import { useLearnerProfiles } from './LearnerProfileContext';
+import ProgressUnlockScreen from '../components/ProgressUnlockScreen';
+import { createDefaultStorageAdapter, StorageAdapter } from '../utils/storageAdapters';
+import { DEFAULT_PROFILE_ID } from '../utils/learnerProfiles';
+import {
+  clearUnencryptedProgressCopies,
+  createEncryptedStorageAdapter,
+  createEncryptionSettings,
+  loadEncryptionSettings,
+  PBKDF2_ITERATIONS,
+  reencryptStoredProgress,
+  saveEncryptionSettings,
+  unlockProgressKey
+} from '../utils/progressEncryption';
+
+/**
+ * Progress encryption context type definition
+ */
+interface ProgressEncryptionContextType {
+  /** Whether saved progress is encrypted with a passphrase */
+  isEncrypted: boolean;
+  /**
+   * Encrypt saved progress with a new passphrase, replacing the current one
+   * @param currentPassphrase Current passphrase; null while progress is not encrypted
+   * @returns false when the current passphrase is wrong
+   */
+  setPassphrase: (currentPassphrase: string | null, nextPassphrase: string) => Promise<boolean>;
+  /**
+   * Decrypt saved progress and store it in the clear again
+   * @returns false when the current passphrase is wrong
+   */
+  removePassphrase: (currentPassphrase: string) => Promise<boolean>;
+}
+
+const ProgressEncryptionContext = createContext<ProgressEncryptionContextType | undefined>(undefined);
+
+/**
+ * ProgressEncryptionProvider props
+ */
+interface ProgressEncryptionProviderProps {
+  children: ReactNode;
+  /** Backend for saved progress; the CurriculumProvider default when omitted */
+  storageAdapter?: StorageAdapter;
+  /** Passed on to CurriculumProvider */
+  progressSyncEndpoint?: string;
+  /** Passed on to CurriculumProvider */
+  saveDelayMs?: number;
+  /** PBKDF2 iterations of new passphrases */
+  pbkdf2Iterations?: number;
+}
+
+/**
+ * Progress encryption provider that asks for the passphrase before CurriculumProvider loads any progress,
+ * and encrypts everything CurriculumProvider saves while a passphrase is set
+ */
+export const ProgressEncryptionProvider: React.FC<ProgressEncryptionProviderProps> = ({
+  children,
+  storageAdapter,
+  progressSyncEndpoint,
+  saveDelayMs,
+  pbkdf2Iterations = PBKDF2_ITERATIONS
+}) => {
+  const [status, setStatus] = useState<'checking' | 'locked' | 'unlocked'>('checking');
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  const keyRef = useRef<CryptoKey | null>(null);
+  const [baseStorage] = useState(() => storageAdapter ?? createDefaultStorageAdapter());
+  // Reads the key on every call, so changing the passphrase never swaps the adapter under CurriculumProvider
+  const [storage] = useState(() => createEncryptedStorageAdapter(baseStorage, () => keyRef.current));
+  const profileId = useLearnerProfiles()?.activeProfile.id ?? DEFAULT_PROFILE_ID;
+
+  // Settings live in localStorage, so they can only be read in the browser
+  useEffect(() => {
+    const hasSettings = loadEncryptionSettings() !== null;
+    setIsEncrypted(hasSettings);
+    setStatus(hasSettings ? 'locked' : 'unlocked');
+  }, []);
+
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    const settings = loadEncryptionSettings();
+    const key = settings ? await unlockProgressKey(passphrase, settings) : null;
+    if (settings && !key) return false;
+
+    keyRef.current = key;
+    setIsEncrypted(settings !== null);
+    setStatus('unlocked');
+    return true;
+  }, []);
+
+  const checkPassphrase = useCallback(async (passphrase: string | null): Promise<boolean> => {
+    const settings = loadEncryptionSettings();
+    if (!settings) return true;
+    return passphrase !== null && (await unlockProgressKey(passphrase, settings)) !== null;
+  }, []);
+
+  const setPassphrase = useCallback(async (currentPassphrase: string | null, nextPassphrase: string): Promise<boolean> => {
+    if (!(await checkPassphrase(currentPassphrase))) return false;
+
+    const { settings, key } = await createEncryptionSettings(nextPassphrase, pbkdf2Iterations);
+    const previousKey = keyRef.current;
+    keyRef.current = key;
+    // Settings first: values still in the clear stay readable if the page closes halfway through
+    saveEncryptionSettings(settings);
+    // Stops CurriculumProvider from keeping new copies in the clear before the old ones are removed
+    setIsEncrypted(true);
+    await reencryptStoredProgress(baseStorage, previousKey, key);
+    clearUnencryptedProgressCopies();
+    return true;
+  }, [baseStorage, checkPassphrase, pbkdf2Iterations]);
+
+  const removePassphrase = useCallback(async (currentPassphrase: string): Promise<boolean> => {
+    if (!(await checkPassphrase(currentPassphrase))) return false;
+
+    const previousKey = keyRef.current;
+    keyRef.current = null;
+    // Settings last: encrypted values stay readable with the passphrase if the page closes halfway through
+    await reencryptStoredProgress(baseStorage, previousKey, null);
+    saveEncryptionSettings(null);
+    setIsEncrypted(false);
+    return true;
+  }, [baseStorage, checkPassphrase]);
+
+  const contextValue = useMemo(
+    () => ({ isEncrypted, setPassphrase, removePassphrase }),
+    [isEncrypted, setPassphrase, removePassphrase]
+  );
+
+  if (status === 'checking') return null;
+  if (status === 'locked') return <ProgressUnlockScreen onUnlock={unlock} />;
+
+  return (
+    <ProgressEncryptionContext.Provider value={contextValue}>
+      {/* A fresh provider per profile, so nothing of the previous learner's state carries over */}
+      <CurriculumProvider
+        key={profileId}
+        profileId={profileId}
+        storageAdapter={storage}
+        progressSyncEndpoint={progressSyncEndpoint}
+        saveDelayMs={saveDelayMs}
+        isEncrypted={isEncrypted}
+      >
+        {children}
+      </CurriculumProvider>
+    </ProgressEncryptionContext.Provider>
+  );
+};
+
+/**
+ * Hook to manage the passphrase
+ * @returns null outside ProgressEncryptionProvider, where progress cannot be encrypted
+ */
+export const useProgressEncryption = (): ProgressEncryptionContextType | null =>
+  useContext(ProgressEncryptionContext) ?? null;
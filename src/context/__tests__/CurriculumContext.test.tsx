@@ -7,9 +7,11 @@ import { render, screen, act } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CurriculumProvider, useCurriculum } from '../CurriculumContext';
 import * as localStorageUtils from '../../utils/localStorage';
+import { CurriculumAction, CurriculumState, Course } from '../../types/curriculum';
 
 // Mock localStorage utilities
-vi.mock('../../utils/localStorage', () => ({
+vi.mock('../../utils/localStorage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/localStorage')>(),
   saveCurriculumState: vi.fn(),
   loadCurriculumState: vi.fn(),
   clearCurriculumState: vi.fn(),
@@ -25,7 +27,7 @@ const TestComponent: React.FC = () => {
       <div data-testid="overall-progress">{state.overallProgress}</div>
       <div data-testid="weeks-count">{state.weeks.length}</div>
       <div data-testid="first-course-completed">
-        {state.weeks[0]?.courses[0]?.completed ? 'true' : 'false'}
+        {state.weeks[0]?.courses[0]?.status === 'done' ? 'true' : 'false'}
       </div>
       <div data-testid="first-course-start-date">
         {state.weeks[0]?.courses[0]?.startDate?.toISOString() || 'null'}
@@ -69,7 +71,7 @@ const TestComponent: React.FC = () => {
               weeks: [{
                 id: 1,
                 title: "Test Week",
-                courses: [{ id: "test-1", name: "Test Course", completed: true }],
+                courses: [{ id: "test-1", name: "Test Course", status: 'done' }],
                 progress: 100
               }],
               overallProgress: 100
@@ -92,36 +94,70 @@ const TestComponent: React.FC = () => {
   );
 };
 
+// Test component for switching between curricula
+const SwitcherTestComponent: React.FC = () => {
+  const { state, activeCurriculumId, switchCurriculum } = useCurriculum();
+
+  return (
+    <div>
+      <div data-testid="active-curriculum">{activeCurriculumId}</div>
+      <div data-testid="first-course-name">{state.weeks[0]?.courses[0]?.name}</div>
+      <button data-testid="switch-backend" onClick={() => switchCurriculum('backend')}>
+        Switch to backend
+      </button>
+    </div>
+  );
+};
+
+// Test component exposing dispatch and a compact view of the structure
+let editorDispatch: React.Dispatch<CurriculumAction>;
+const EditorTestComponent: React.FC = () => {
+  const { state, dispatch } = useCurriculum();
+  editorDispatch = dispatch;
+
+  return (
+    <div data-testid="structure">
+      {state.weeks
+        .map(week => `${week.id}:${week.title}[${week.courses.map(course => `${course.id}${course.status === 'done' ? '*' : ''}`).join(',')}]`)
+        .join(' ')}
+    </div>
+  );
+};
+
+// Let the provider finish reading the saved progress
+const waitForLoad = () => act(async () => {});
+
 describe('CurriculumContext', () => {
   const mockSaveCurriculumState = localStorageUtils.saveCurriculumState as vi.MockedFunction<typeof localStorageUtils.saveCurriculumState>;
   const mockLoadCurriculumState = localStorageUtils.loadCurriculumState as vi.MockedFunction<typeof localStorageUtils.loadCurriculumState>;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockLoadCurriculumState.mockReturnValue(null);
-    mockSaveCurriculumState.mockReturnValue(true);
+    mockLoadCurriculumState.mockResolvedValue(null);
+    mockSaveCurriculumState.mockResolvedValue(true);
   });
 
-  it('should provide initial curriculum state', () => {
+  it('should provide initial curriculum state', async () => {
     render(
-      <CurriculumProvider>
+      <CurriculumProvider saveDelayMs={0}>
         <TestComponent />
       </CurriculumProvider>
     );
+    await waitForLoad();
 
     expect(screen.getByTestId('overall-progress')).toHaveTextContent('0');
     expect(screen.getByTestId('weeks-count')).toHaveTextContent('7');
     expect(screen.getByTestId('first-course-completed')).toHaveTextContent('false');
   });
 
-  it('should load saved state on mount', () => {
+  it('should load saved state on mount', async () => {
     const savedState = {
       weeks: [
         {
           id: 1,
           title: "1주차",
           courses: [
-            { id: "1-1", name: "Test Course", completed: true }
+            { id: "1-1", name: "Test Course", status: 'done' }
           ],
           progress: 100
         }
@@ -129,28 +165,30 @@ describe('CurriculumContext', () => {
       overallProgress: 100
     };
 
-    mockLoadCurriculumState.mockReturnValue(savedState);
+    mockLoadCurriculumState.mockResolvedValue(savedState);
 
     render(
-      <CurriculumProvider>
+      <CurriculumProvider saveDelayMs={0}>
         <TestComponent />
       </CurriculumProvider>
     );
+    await waitForLoad();
 
     expect(mockLoadCurriculumState).toHaveBeenCalledTimes(1);
   });
 
-  it('should handle localStorage loading errors gracefully', () => {
+  it('should handle localStorage loading errors gracefully', async () => {
     const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
     mockLoadCurriculumState.mockImplementation(() => {
       throw new Error('localStorage error');
     });
 
     render(
-      <CurriculumProvider>
+      <CurriculumProvider saveDelayMs={0}>
         <TestComponent />
       </CurriculumProvider>
     );
+    await waitForLoad();
 
     expect(consoleSpy).toHaveBeenCalledWith('Failed to load curriculum state from localStorage:', expect.any(Error));
     expect(screen.getByTestId('overall-progress')).toHaveTextContent('0');
@@ -165,10 +203,11 @@ describe('CurriculumContext', () => {
     });
 
     render(
-      <CurriculumProvider>
+      <CurriculumProvider saveDelayMs={0}>
         <TestComponent />
       </CurriculumProvider>
     );
+    await waitForLoad();
 
     const toggleButton = screen.getByTestId('toggle-completion');
     
@@ -184,10 +223,11 @@ describe('CurriculumContext', () => {
   describe('Reducer Actions', () => {
     it('should toggle course completion', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const toggleButton = screen.getByTestId('toggle-completion');
       
@@ -211,10 +251,11 @@ describe('CurriculumContext', () => {
 
     it('should set start date', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const setStartDateButton = screen.getByTestId('set-start-date');
       
@@ -231,10 +272,11 @@ describe('CurriculumContext', () => {
 
     it('should set end date', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const setEndDateButton = screen.getByTestId('set-end-date');
       
@@ -251,10 +293,11 @@ describe('CurriculumContext', () => {
 
     it('should load external data', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const loadDataButton = screen.getByTestId('load-data');
       
@@ -269,10 +312,11 @@ describe('CurriculumContext', () => {
 
     it('should handle invalid action payloads gracefully', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const invalidActionButton = screen.getByTestId('invalid-action');
       const initialCompleted = screen.getByTestId('first-course-completed').textContent;
@@ -287,10 +331,11 @@ describe('CurriculumContext', () => {
 
     it('should handle unknown action types', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const { state, dispatch } = useCurriculum();
       const initialState = { ...state };
@@ -307,10 +352,11 @@ describe('CurriculumContext', () => {
 
   it('should save state when course completion is toggled', async () => {
     render(
-      <CurriculumProvider>
+      <CurriculumProvider saveDelayMs={0}>
         <TestComponent />
       </CurriculumProvider>
     );
+    await waitForLoad();
 
     const toggleButton = screen.getByTestId('toggle-completion');
     
@@ -324,10 +370,11 @@ describe('CurriculumContext', () => {
 
   it('should save state when start date is set', async () => {
     render(
-      <CurriculumProvider>
+      <CurriculumProvider saveDelayMs={0}>
         <TestComponent />
       </CurriculumProvider>
     );
+    await waitForLoad();
 
     const setDateButton = screen.getByTestId('set-start-date');
     
@@ -339,12 +386,13 @@ describe('CurriculumContext', () => {
     expect(mockSaveCurriculumState).toHaveBeenCalled();
   });
 
-  it('should not save initial state without changes', () => {
+  it('should not save initial state without changes', async () => {
     render(
-      <CurriculumProvider>
+      <CurriculumProvider saveDelayMs={0}>
         <TestComponent />
       </CurriculumProvider>
     );
+    await waitForLoad();
 
     // Should not save initial state immediately
     expect(mockSaveCurriculumState).not.toHaveBeenCalled();
@@ -365,10 +413,11 @@ describe('CurriculumContext', () => {
   describe('Requirements Verification', () => {
     it('should support requirement 4.3 - real-time progress updates', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const toggleButton = screen.getByTestId('toggle-completion');
       
@@ -386,10 +435,11 @@ describe('CurriculumContext', () => {
 
     it('should support requirement 5.1 & 5.2 - localStorage persistence', async () => {
       render(
-        <CurriculumProvider>
+        <CurriculumProvider saveDelayMs={0}>
           <TestComponent />
         </CurriculumProvider>
       );
+      await waitForLoad();
 
       const toggleButton = screen.getByTestId('toggle-completion');
       const setDateButton = screen.getByTestId('set-start-date');
@@ -406,4 +456,565 @@ describe('CurriculumContext', () => {
       expect(mockSaveCurriculumState).toHaveBeenCalledTimes(2);
     });
   });
-});
\ No newline at end of file
+
+  describe('Multiple curricula', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should start with the default curriculum', async () => {
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <SwitcherTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      expect(screen.getByTestId('active-curriculum')).toHaveTextContent('frontend');
+      expect(mockLoadCurriculumState).toHaveBeenCalledWith(expect.any(Object), 'frontend', expect.any(Object));
+    });
+
+    it('should load the progress of the selected curriculum when switching', async () => {
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <SwitcherTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      await act(async () => {
+        screen.getByTestId('switch-backend').click();
+      });
+
+      expect(screen.getByTestId('active-curriculum')).toHaveTextContent('backend');
+      expect(screen.getByTestId('first-course-name')).toHaveTextContent('개발 환경 및 Node.js 프로젝트 구성');
+      expect(mockLoadCurriculumState).toHaveBeenLastCalledWith(expect.any(Object), 'backend', expect.any(Object));
+      expect(localStorage.getItem('curriculum-progress-tracker:active-curriculum')).toBe('backend');
+    });
+
+    it('should restore the last active curriculum on mount', async () => {
+      localStorage.setItem('curriculum-progress-tracker:active-curriculum', 'backend');
+
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <SwitcherTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      expect(screen.getByTestId('active-curriculum')).toHaveTextContent('backend');
+    });
+
+    it('should ignore an unknown saved curriculum', async () => {
+      localStorage.setItem('curriculum-progress-tracker:active-curriculum', 'removed-track');
+
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <SwitcherTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      expect(screen.getByTestId('active-curriculum')).toHaveTextContent('frontend');
+    });
+  });
+
+  describe('Structure editing', () => {
+    const renderEditor = async () => {
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+    };
+    const structure = () => screen.getByTestId('structure').textContent ?? '';
+    const weekOne = () => structure().split(' ')[0];
+
+    it('should add a week with the next id and a default title', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_WEEK', payload: {} });
+      });
+
+      expect(structure()).toContain('11:11주차[]');
+    });
+
+    it('should add a course with a generated id and rename it', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_COURSE', payload: { weekId: 2, name: '  새 과정  ' } });
+      });
+      expect(structure()).toContain('2:2주차[2-1,2-2]');
+
+      await act(async () => {
+        editorDispatch({ type: 'RENAME_WEEK', payload: { weekId: 2, title: '둘째 주' } });
+      });
+      expect(structure()).toContain('2:둘째 주[2-1,2-2]');
+    });
+
+    it('should take the chapter of a new course from its name and let it be changed', async () => {
+      await renderEditor();
+      const savedChapter = () => {
+        const [savedState] = mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1];
+        return savedState.weeks[1].courses[1]?.chapter;
+      };
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_COURSE', payload: { weekId: 2, name: '5장 > 훅 분리' } });
+      });
+      expect(savedChapter()).toBe('5장');
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_CHAPTER', payload: { weekId: 2, courseId: '2-2', chapter: ' 5장 (심화) ' } });
+      });
+      expect(savedChapter()).toBe('5장 (심화)');
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_CHAPTER', payload: { weekId: 2, courseId: '2-2', chapter: '' } });
+      });
+      expect(savedChapter()).toBeUndefined();
+    });
+
+    it('should hold back completing a course until its prerequisites are done', async () => {
+      await renderEditor();
+      const lastSaved = () => mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1][0];
+
+      // 10-1 requires 9-1 in the frontend curriculum
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 10, courseId: '10-1' } });
+      });
+      expect(mockSaveCurriculumState).not.toHaveBeenCalled();
+
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 10, courseId: '10-1', force: true } });
+      });
+      expect(lastSaved().weeks[9].courses[0].status).toBe('done');
+      expect(lastSaved().prerequisiteWarning).toBeUndefined();
+    });
+
+    it('should record a warning for blocked completions and clear it on dismiss', async () => {
+      let latestState: CurriculumState | undefined;
+      const StateProbe = () => {
+        latestState = useCurriculum().state;
+        return null;
+      };
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+          <StateProbe />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_STATUS', payload: { weekId: 10, courseId: '10-1', status: 'done' } });
+      });
+      expect(latestState!.prerequisiteWarning).toEqual({ weekId: 10, courseId: '10-1', openPrerequisiteIds: ['9-1'] });
+      expect(latestState!.weeks[9].courses[0].status).toBe('not-started');
+
+      await act(async () => {
+        editorDispatch({ type: 'DISMISS_PREREQUISITE_WARNING', payload: {} });
+      });
+      expect(latestState!.prerequisiteWarning).toBeUndefined();
+    });
+
+    it('should keep a course in progress when its subtasks are done before its prerequisites', async () => {
+      let latestState: CurriculumState | undefined;
+      const StateProbe = () => {
+        latestState = useCurriculum().state;
+        return null;
+      };
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+          <StateProbe />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_SUBTASK', payload: { weekId: 10, courseId: '10-1', title: '예제 따라 하기' } });
+      });
+      const subtaskId = latestState!.weeks[9].courses[0].subtasks![0].id;
+
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_SUBTASK', payload: { weekId: 10, courseId: '10-1', subtaskId } });
+      });
+      expect(latestState!.weeks[9].courses[0].subtasks![0].completed).toBe(true);
+      expect(latestState!.weeks[9].courses[0].status).toBe('in-progress');
+      expect(latestState!.prerequisiteWarning).toEqual({ weekId: 10, courseId: '10-1', openPrerequisiteIds: ['9-1'] });
+    });
+
+    it('should remove a deleted course from prerequisite lists', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'DELETE_COURSE', payload: { weekId: 9, courseId: '9-1' } });
+      });
+
+      const [savedState] = mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1];
+      expect(savedState.weeks[9].courses[0].prerequisites).toBeUndefined();
+    });
+
+    it('should ignore empty names', async () => {
+      await renderEditor();
+      const before = structure();
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_COURSE', payload: { weekId: 2, name: '   ' } });
+        editorDispatch({ type: 'RENAME_COURSE', payload: { weekId: 1, courseId: '1-1', name: '' } });
+      });
+
+      expect(structure()).toBe(before);
+    });
+
+    it('should keep completion attached to a course when it is reordered', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } });
+      });
+      await act(async () => {
+        editorDispatch({ type: 'MOVE_COURSE', payload: { weekId: 1, courseId: '1-1', toIndex: 2 } });
+      });
+
+      expect(weekOne()).toBe('1:1주차[1-2,1-3,1-1*,1-4,1-5,1-6]');
+    });
+
+    it('should keep completion attached to a course moved to another week', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } });
+      });
+      await act(async () => {
+        editorDispatch({ type: 'MOVE_COURSE', payload: { weekId: 1, courseId: '1-1', toWeekId: 2, toIndex: 0 } });
+      });
+
+      expect(structure()).toContain('2:2주차[1-1*,2-1]');
+      expect(weekOne()).not.toContain('1-1');
+    });
+
+    it('should delete courses and weeks and reorder weeks', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'DELETE_COURSE', payload: { weekId: 1, courseId: '1-2' } });
+        editorDispatch({ type: 'DELETE_WEEK', payload: { weekId: 2 } });
+        editorDispatch({ type: 'MOVE_WEEK', payload: { weekId: 3, toIndex: 0 } });
+      });
+
+      const weeks = structure().split(' ');
+      expect(weeks).toHaveLength(9);
+      expect(weeks[0]).toMatch(/^3:/);
+      expect(weeks[1]).toBe('1:1주차[1-1,1-3,1-4,1-5,1-6]');
+    });
+
+    it('should set, reject and clear estimated hours', async () => {
+      await renderEditor();
+      const savedCourse = () => {
+        const [savedState] = mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1];
+        return savedState.weeks[0].courses[0];
+      };
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_ESTIMATED_HOURS', payload: { weekId: 1, courseId: '1-1', estimatedHours: 5 } });
+      });
+      expect(savedCourse().estimatedHours).toBe(5);
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_ESTIMATED_HOURS', payload: { weekId: 1, courseId: '1-1', estimatedHours: -2 } });
+      });
+      expect(savedCourse().estimatedHours).toBe(5);
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_ESTIMATED_HOURS', payload: { weekId: 1, courseId: '1-1' } });
+      });
+      expect(savedCourse().estimatedHours).toBeUndefined();
+    });
+
+    it('should add subtasks and complete the course when every subtask is checked', async () => {
+      await renderEditor();
+      const savedCourse = (): Course => {
+        const [savedState] = mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1];
+        return savedState.weeks[0].courses[0];
+      };
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_SUBTASK', payload: { weekId: 1, courseId: '1-1', title: 'Step 1' } });
+        editorDispatch({ type: 'ADD_SUBTASK', payload: { weekId: 1, courseId: '1-1', title: 'Step 2' } });
+      });
+      expect(savedCourse().subtasks!.map(subtask => subtask.id)).toEqual(['s1', 's2']);
+
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_SUBTASK', payload: { weekId: 1, courseId: '1-1', subtaskId: 's1' } });
+      });
+      expect(weekOne()).toMatch(/^1:1주차\[1-1,/);
+
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_SUBTASK', payload: { weekId: 1, courseId: '1-1', subtaskId: 's2' } });
+      });
+      expect(weekOne()).toMatch(/^1:1주차\[1-1\*,/);
+
+      // Unchecking the course unchecks every subtask
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } });
+      });
+      expect(savedCourse().subtasks!.every(subtask => !subtask.completed)).toBe(true);
+    });
+
+    it('should turn a course back into a plain checkbox when its last subtask is deleted', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_SUBTASK', payload: { weekId: 1, courseId: '1-1', title: 'Step 1' } });
+      });
+      await act(async () => {
+        editorDispatch({ type: 'DELETE_SUBTASK', payload: { weekId: 1, courseId: '1-1', subtaskId: 's1' } });
+      });
+
+      const [savedState] = mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1];
+      expect(savedState.weeks[0].courses[0].subtasks).toBeUndefined();
+    });
+
+    it('should set a course status and ignore unknown statuses', async () => {
+      await renderEditor();
+      const savedStatus = () => {
+        const [savedState] = mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1];
+        return savedState.weeks[0].courses[0].status;
+      };
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_STATUS', payload: { weekId: 1, courseId: '1-1', status: 'blocked' } });
+      });
+      expect(savedStatus()).toBe('blocked');
+
+      await act(async () => {
+        editorDispatch({
+          type: 'SET_STATUS',
+          payload: { weekId: 1, courseId: '1-1', status: 'finished' as unknown as 'done' }
+        });
+      });
+      expect(savedStatus()).toBe('blocked');
+
+      // Completing a blocked course from the checkbox marks it done
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } });
+      });
+      expect(savedStatus()).toBe('done');
+    });
+
+    it('should save notes and clear them when emptied', async () => {
+      await renderEditor();
+      const savedNotes = () => {
+        const [savedState] = mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1];
+        return savedState.weeks[0].courses[0].notes;
+      };
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_STATUS', payload: { weekId: 1, courseId: '1-1', status: 'in-progress' } });
+        editorDispatch({ type: 'SET_NOTES', payload: { weekId: 1, courseId: '1-1', notes: '**중요**' } });
+      });
+      expect(savedNotes()).toBe('**중요**');
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_NOTES', payload: { weekId: 1, courseId: '1-1', notes: '   ' } });
+      });
+      expect(savedNotes()).toBeUndefined();
+    });
+
+    it('should add and delete links without customizing the structure', async () => {
+      await renderEditor();
+      const savedState = () => mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1][0];
+
+      await act(async () => {
+        editorDispatch({
+          type: 'ADD_RESOURCE_LINK',
+          payload: { weekId: 1, courseId: '1-1', resource: { type: 'repo', url: ' https://example.com/repo ', title: ' ' } }
+        });
+        editorDispatch({
+          type: 'ADD_RESOURCE_LINK',
+          payload: { weekId: 1, courseId: '1-1', resource: { type: 'docs', url: 'javascript:alert(1)' } }
+        });
+      });
+      expect(savedState().customized).toBeFalsy();
+      expect(savedState().weeks[0].courses[0].resources).toEqual([
+        { id: 'link-1', type: 'repo', url: 'https://example.com/repo', userAdded: true }
+      ]);
+
+      await act(async () => {
+        editorDispatch({ type: 'SET_STATUS', payload: { weekId: 1, courseId: '1-1', status: 'in-progress' } });
+        editorDispatch({ type: 'DELETE_RESOURCE_LINK', payload: { weekId: 1, courseId: '1-1', resourceId: 'link-1' } });
+      });
+      expect(savedState().weeks[0].courses[0].resources).toBeUndefined();
+    });
+
+    it('should save an edited structure even without progress', async () => {
+      await renderEditor();
+
+      await act(async () => {
+        editorDispatch({ type: 'RENAME_WEEK', payload: { weekId: 1, title: '오리엔테이션' } });
+      });
+
+      expect(mockSaveCurriculumState).toHaveBeenCalledWith(
+        expect.objectContaining({ customized: true }),
+        'frontend',
+        expect.objectContaining({ name: 'localStorage' })
+      );
+    });
+  });
+
+  describe('Orphaned progress', () => {
+    const orphan = { weekId: '4', courseId: '4-3', progress: { status: 'done' as const, notes: '옮길 기록' } };
+    const savedState = () => mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1][0];
+
+    beforeEach(() => {
+      mockLoadCurriculumState.mockImplementation((initialState: CurriculumState) => ({ ...initialState, orphanedProgress: [orphan] }));
+    });
+
+    it('should move orphaned progress to a course', async () => {
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      await act(async () => {
+        editorDispatch({
+          type: 'REASSIGN_ORPHANED_PROGRESS',
+          payload: { weekId: 1, courseId: '1-1', orphan: { weekId: '4', courseId: '4-3' } }
+        });
+      });
+
+      expect(screen.getByTestId('structure').textContent).toContain('1-1*');
+      expect(savedState().orphanedProgress).toEqual([]);
+      expect(savedState().weeks[0].courses[0].notes).toBe('옮길 기록');
+    });
+
+    it('should discard orphaned progress and save the emptied list', async () => {
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+      mockSaveCurriculumState.mockClear();
+
+      await act(async () => {
+        editorDispatch({ type: 'DISCARD_ORPHANED_PROGRESS', payload: { orphan: { weekId: '4', courseId: '4-1' } } });
+      });
+      expect(mockSaveCurriculumState).not.toHaveBeenCalled();
+
+      await act(async () => {
+        editorDispatch({ type: 'DISCARD_ORPHANED_PROGRESS', payload: { orphan: { weekId: '4', courseId: '4-3' } } });
+      });
+      expect(savedState().orphanedProgress).toEqual([]);
+    });
+
+    it('should not give a new course the id of orphaned progress', async () => {
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      await act(async () => {
+        editorDispatch({ type: 'ADD_COURSE', payload: { weekId: 4, name: 'New' } });
+      });
+
+      expect(screen.getByTestId('structure').textContent).toContain('4:4주차[4-1,4-2,4-4]');
+    });
+  });
+
+  describe('Resetting progress', () => {
+    const savedState = (): CurriculumState => mockSaveCurriculumState.mock.calls[mockSaveCurriculumState.mock.calls.length - 1][0];
+    let resetProgress: (weekId?: number) => Promise<void>;
+    const ResetProbe = () => {
+      resetProgress = useCurriculum().resetProgress;
+      return null;
+    };
+
+    beforeEach(() => {
+      vi.mocked(localStorageUtils.getStorageInfo).mockResolvedValue({ hasData: false });
+      // 1-1 and 2-1 are done and dated
+      mockLoadCurriculumState.mockImplementation(async (initialState: CurriculumState) => ({
+        ...initialState,
+        weeks: initialState.weeks.map(week => ({
+          ...week,
+          courses: week.courses.map(course => ['1-1', '2-1'].includes(course.id)
+            ? { ...course, status: 'done' as const, startDate: new Date('2024-01-01'), notes: '메모' }
+            : course)
+        }))
+      }));
+    });
+
+    const renderReset = async () => {
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+          <ResetProbe />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+    };
+
+    it('should save progress that was emptied by unchecking the last done course', async () => {
+      mockLoadCurriculumState.mockImplementation(async (initialState: CurriculumState) => ({
+        ...initialState,
+        weeks: initialState.weeks.map((week, index) => index === 0
+          ? { ...week, courses: week.courses.map((course, courseIndex) => courseIndex === 0 ? { ...course, status: 'done' as const } : course) }
+          : week)
+      }));
+      await renderReset();
+
+      await act(async () => {
+        editorDispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } });
+      });
+
+      expect(savedState().weeks[0].courses[0].status).toBe('not-started');
+    });
+
+    it('should reset one week and keep notes', async () => {
+      await renderReset();
+
+      await act(async () => {
+        await resetProgress(1);
+      });
+
+      expect(savedState().weeks[0].courses[0]).toMatchObject({ status: 'not-started', startDate: undefined, notes: '메모' });
+      expect(savedState().weeks[1].courses[0].status).toBe('done');
+    });
+
+    it('should reset every week and let the reset be undone', async () => {
+      let undo: () => void = () => {};
+      const UndoProbe = () => {
+        undo = useCurriculum().undo;
+        return null;
+      };
+      render(
+        <CurriculumProvider saveDelayMs={0}>
+          <EditorTestComponent />
+          <ResetProbe />
+          <UndoProbe />
+        </CurriculumProvider>
+      );
+      await waitForLoad();
+
+      await act(async () => {
+        await resetProgress();
+      });
+      expect(savedState().weeks.flatMap(week => week.courses).every(course => course.status === 'not-started')).toBe(true);
+      expect(savedState().overallProgress).toBe(0);
+
+      await act(async () => {
+        undo();
+      });
+      expect(savedState().weeks[1].courses[0].status).toBe('done');
+    });
+  });
+});
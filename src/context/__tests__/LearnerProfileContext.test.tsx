@@ -0,0 +1,113 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LearnerProfileProvider } from '../LearnerProfileContext';
+import { ProgressEncryptionProvider } from '../ProgressEncryptionContext';
+import { useCurriculum } from '../CurriculumContext';
+import ProfilePicker from '../../components/ProfilePicker';
+import { createMemoryStorageAdapter, StorageAdapter } from '../../utils/storageAdapters';
+import { getStorageKey } from '../../utils/localStorage';
+import { getProfileStorageKey } from '../../utils/learnerProfiles';
+
+const storedData = JSON.stringify({
+  version: '1.1.0',
+  lastUpdated: '2024-02-01T00:00:00.000Z',
+  curriculum: { '1': { '1-1': { status: 'done' } } }
+});
+
+const FirstCourse: React.FC = () => {
+  const { state, dispatch } = useCurriculum();
+  return (
+    <button
+      type="button"
+      onClick={() => dispatch({ type: 'TOGGLE_COMPLETION', payload: { weekId: 1, courseId: '1-1' } })}
+    >
+      첫 과정: {state.weeks[0].courses[0].status}
+    </button>
+  );
+};
+
+const renderProfiles = async (storage: StorageAdapter) => {
+  render(
+    <LearnerProfileProvider storageAdapter={storage}>
+      <ProgressEncryptionProvider storageAdapter={storage} saveDelayMs={0}>
+        <ProfilePicker />
+        <FirstCourse />
+      </ProgressEncryptionProvider>
+    </LearnerProfileProvider>
+  );
+  await act(async () => {});
+};
+
+const addProfile = async (name: string) => {
+  fireEvent.click(screen.getByRole('button', { name: '프로필 추가' }));
+  fireEvent.change(screen.getByLabelText('프로필 이름'), { target: { value: name } });
+  fireEvent.click(screen.getByRole('button', { name: '추가' }));
+  await act(async () => {});
+};
+
+describe('LearnerProfileProvider', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('should load the progress of each profile separately', async () => {
+    const storage = createMemoryStorageAdapter({ [getStorageKey('frontend')]: storedData });
+    await renderProfiles(storage);
+    expect(screen.getByRole('button', { name: '첫 과정: done' })).toBeInTheDocument();
+
+    await addProfile('민지');
+
+    expect(screen.getByLabelText('학습자')).toHaveDisplayValue('민지');
+    expect(screen.getByRole('button', { name: '첫 과정: not-started' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '첫 과정: not-started' }));
+    await act(async () => {});
+    expect(JSON.parse((await storage.load(getStorageKey('frontend')))!).curriculum['1']['1-1'].status).toBe('done');
+
+    fireEvent.change(screen.getByLabelText('학습자'), { target: { value: 'default' } });
+    await act(async () => {});
+
+    expect(screen.getByRole('button', { name: '첫 과정: done' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: '실행 취소' })).not.toBeInTheDocument();
+  });
+
+  it('should reject a name that is already taken', async () => {
+    await renderProfiles(createMemoryStorageAdapter());
+
+    await addProfile('기본 프로필');
+
+    expect(screen.getByText("'기본 프로필' 프로필이 이미 있습니다.")).toBeInTheDocument();
+    expect(screen.getByLabelText('학습자')).toHaveDisplayValue('기본 프로필');
+  });
+
+  it('should rename the active profile', async () => {
+    await renderProfiles(createMemoryStorageAdapter());
+
+    fireEvent.click(screen.getByRole('button', { name: '이름 변경' }));
+    fireEvent.change(screen.getByLabelText('프로필 이름'), { target: { value: '공용' } });
+    fireEvent.click(screen.getByRole('button', { name: '저장' }));
+
+    expect(screen.getByLabelText('학습자')).toHaveDisplayValue('공용');
+  });
+
+  it('should delete a profile with its progress and go back to the default profile', async () => {
+    const storage = createMemoryStorageAdapter();
+    await renderProfiles(storage);
+    await addProfile('민지');
+    fireEvent.click(screen.getByRole('button', { name: '첫 과정: not-started' }));
+    await act(async () => {});
+    const profileKey = getProfileStorageKey(getStorageKey('frontend'), localStorage.getItem('curriculum-progress-tracker:active-profile')!);
+    expect(await storage.load(profileKey)).toContain('"done"');
+
+    fireEvent.click(screen.getByRole('button', { name: '프로필 삭제' }));
+    fireEvent.click(screen.getByRole('button', { name: '삭제' }));
+    await act(async () => {});
+
+    expect(await storage.load(profileKey)).toBeNull();
+    expect(screen.getByLabelText('학습자')).toHaveDisplayValue('기본 프로필');
+    expect(screen.queryByRole('option', { name: '민지' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: '프로필 삭제' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,147 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProgressEncryptionProvider } from '../ProgressEncryptionContext';
+import { useCurriculum } from '../CurriculumContext';
+import PassphraseSettings from '../../components/PassphraseSettings';
+import { createMemoryStorageAdapter, StorageAdapter } from '../../utils/storageAdapters';
+import { getStorageKey } from '../../utils/localStorage';
+import { createEncryptionSettings, encryptText, isEncryptedValue, saveEncryptionSettings } from '../../utils/progressEncryption';
+
+const ITERATIONS = 1000;
+
+const storedData = JSON.stringify({
+  version: '1.1.0',
+  lastUpdated: '2024-02-01T00:00:00.000Z',
+  curriculum: { '1': { '1-1': { status: 'done' } } }
+});
+
+const FirstCourseStatus: React.FC = () => {
+  const { state, dispatch } = useCurriculum();
+  const course = state.weeks[0].courses[0];
+  return (
+    <>
+      <p>첫 과정: {course.status}</p>
+      <button
+        type="button"
+        onClick={() => dispatch({
+          type: 'SET_STATUS',
+          payload: { weekId: 1, courseId: course.id, status: course.status === 'done' ? 'in-progress' : 'done' }
+        })}
+      >
+        상태 바꾸기
+      </button>
+    </>
+  );
+};
+
+// Every value kept in sessionStorage and localStorage
+const readBrowserStorage = (): string[] =>
+  [sessionStorage, localStorage].flatMap(store =>
+    Array.from({ length: store.length }, (_, index) => store.getItem(store.key(index)!) ?? '')
+  );
+
+const renderProvider = async (storage: StorageAdapter) => {
+  render(
+    <ProgressEncryptionProvider storageAdapter={storage} saveDelayMs={0} pbkdf2Iterations={ITERATIONS}>
+      <PassphraseSettings />
+      <FirstCourseStatus />
+    </ProgressEncryptionProvider>
+  );
+  await act(async () => {});
+};
+
+const fillIn = (label: string, value: string) => {
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+};
+
+describe('ProgressEncryptionProvider', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should load progress right away while no passphrase is set', async () => {
+    await renderProvider(createMemoryStorageAdapter({ [getStorageKey('frontend')]: storedData }));
+
+    expect(screen.getByText('첫 과정: done')).toBeInTheDocument();
+    expect(screen.queryByLabelText('암호')).not.toBeInTheDocument();
+  });
+
+  it('should ask for the passphrase before loading encrypted progress', async () => {
+    const { settings, key } = await createEncryptionSettings('correct horse', ITERATIONS);
+    saveEncryptionSettings(settings);
+    await renderProvider(createMemoryStorageAdapter({ [getStorageKey('frontend')]: await encryptText(key, storedData) }));
+
+    expect(screen.queryByText(/첫 과정/)).not.toBeInTheDocument();
+
+    fillIn('암호', 'wrong horse');
+    fireEvent.click(screen.getByRole('button', { name: '잠금 해제' }));
+    expect(await screen.findByText('암호가 올바르지 않습니다.')).toBeInTheDocument();
+
+    fillIn('암호', 'correct horse');
+    fireEvent.click(screen.getByRole('button', { name: '잠금 해제' }));
+
+    expect(await screen.findByText('첫 과정: done')).toBeInTheDocument();
+  });
+
+  it('should encrypt saved progress when a passphrase is set and decrypt it when removed', async () => {
+    const storage = createMemoryStorageAdapter({ [getStorageKey('frontend')]: storedData });
+    await renderProvider(storage);
+
+    fireEvent.click(screen.getByRole('button', { name: '🔓 암호 설정' }));
+    fillIn('새 암호', 'correct horse');
+    fillIn('새 암호 확인', 'correct horsf');
+    fireEvent.click(screen.getByRole('button', { name: '암호 설정' }));
+    expect(screen.getByText('새 암호가 일치하지 않습니다.')).toBeInTheDocument();
+
+    fillIn('새 암호 확인', 'correct horse');
+    fireEvent.click(screen.getByRole('button', { name: '암호 설정' }));
+
+    expect(await screen.findByText('이제 진행 기록이 암호로 보호됩니다.')).toBeInTheDocument();
+    expect(isEncryptedValue((await storage.load(getStorageKey('frontend')))!)).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: '🔒 암호 설정' }));
+    fillIn('현재 암호', 'wrong horse');
+    fireEvent.click(screen.getByRole('button', { name: '암호 제거' }));
+    expect(await screen.findByText('현재 암호가 올바르지 않습니다.')).toBeInTheDocument();
+
+    fillIn('현재 암호', 'correct horse');
+    fireEvent.click(screen.getByRole('button', { name: '암호 제거' }));
+
+    expect(await screen.findByText(/암호를 제거했습니다/)).toBeInTheDocument();
+    expect(await storage.load(getStorageKey('frontend'))).toContain('"done"');
+    expect(localStorage.getItem('curriculum-progress-tracker:encryption')).toBeNull();
+  });
+
+  it('should keep no progress in the clear in sessionStorage or localStorage while encrypted', async () => {
+    // Tabs then talk through a localStorage message key
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const notedData = JSON.stringify({
+      version: '1.1.0',
+      lastUpdated: '2024-02-01T00:00:00.000Z',
+      curriculum: { '1': { '1-1': { status: 'done', notes: '비밀 노트' } } }
+    });
+    await renderProvider(createMemoryStorageAdapter({ [getStorageKey('frontend')]: notedData }));
+
+    fireEvent.click(screen.getByRole('button', { name: '상태 바꾸기' }));
+    await act(async () => {});
+    expect(readBrowserStorage().some(value => value.includes('비밀 노트'))).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: '🔓 암호 설정' }));
+    fillIn('새 암호', 'correct horse');
+    fillIn('새 암호 확인', 'correct horse');
+    fireEvent.click(screen.getByRole('button', { name: '암호 설정' }));
+    expect(await screen.findByText('이제 진행 기록이 암호로 보호됩니다.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '상태 바꾸기' }));
+    await act(async () => {});
+
+    expect(screen.getByText('첫 과정: done')).toBeInTheDocument();
+    expect(readBrowserStorage().some(value => value.includes('비밀 노트') || value.includes('1-1'))).toBe(false);
+  });
+});
@@ -31,7 +31,7 @@ describe('Initial Curriculum Data', () => {
     it('should have all courses initially incomplete', () => {
       initialCurriculumData.forEach(week => {
         week.courses.forEach(course => {
-          expect(course.completed).toBe(false);
+          expect(course.status).toBe('not-started');
         });
       });
     });
@@ -197,7 +197,7 @@ describe('Initial Curriculum Data', () => {
         week.courses.forEach(course => {
           expect(typeof course.id).toBe('string');
           expect(typeof course.name).toBe('string');
-          expect(typeof course.completed).toBe('boolean');
+          expect(typeof course.status).toBe('string');
         });
       });
     });
@@ -280,7 +280,7 @@ describe('Initial Curriculum Data', () => {
           expect(typeof course.name).toBe('string'); // 과정명
           expect(course.startDate === undefined || course.startDate instanceof Date).toBe(true); // 시작일
           expect(course.endDate === undefined || course.endDate instanceof Date).toBe(true); // 종료일
-          expect(typeof course.completed).toBe('boolean'); // 수행여부
+          expect(typeof course.status).toBe('string'); // 수행여부
         });
       });
     });
@@ -288,7 +288,7 @@ describe('Initial Curriculum Data', () => {
     it('should support requirement 4.1 - 체크박스로 완료 여부 표시', () => {
       initialCurriculumData.forEach(week => {
         week.courses.forEach(course => {
-          expect(typeof course.completed).toBe('boolean');
+          expect(typeof course.status).toBe('string');
         });
       });
     });
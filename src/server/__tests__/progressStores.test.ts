@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  createJsonFileProgressStore,
+  createSqliteProgressStore,
+  getProgressEtag,
+  ProgressStore
+} from '../progressStores';
+
+describe('progressStores', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'progress-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const storeCases: Array<[string, () => ProgressStore]> = [
+    ['json file', () => createJsonFileProgressStore(path.join(directory, 'nested', 'progress.json'))],
+    ['sqlite', () => createSqliteProgressStore(path.join(directory, 'nested', 'progress.sqlite'))]
+  ];
+
+  describe.each(storeCases)('%s store', (_, createStore) => {
+    it('should save and load progress per curriculum', async () => {
+      const store = createStore();
+
+      expect(await store.load('frontend')).toBeNull();
+      await store.save('frontend', '{"version":"1.1.0"}');
+      await store.save('backend', '{"version":"1.0.0"}');
+      await store.save('frontend', '{"version":"1.1.0","curriculum":{}}');
+
+      expect(await store.load('frontend')).toBe('{"version":"1.1.0","curriculum":{}}');
+      expect(await store.load('backend')).toBe('{"version":"1.0.0"}');
+    });
+
+    it('should save only one of two writes checked against the same saved progress', async () => {
+      const store = createStore();
+      const isUnsaved = (currentValue: string | null) => currentValue === null;
+
+      const results = await Promise.all([
+        store.saveIfCurrent('frontend', 'first', isUnsaved),
+        store.saveIfCurrent('frontend', 'second', isUnsaved)
+      ]);
+
+      expect(results).toEqual([
+        { saved: true, currentValue: null },
+        { saved: false, currentValue: 'first' }
+      ]);
+      expect(await store.load('frontend')).toBe('first');
+    });
+
+    it('should keep progress for a new store on the same file', async () => {
+      await createStore().save('frontend', 'saved');
+
+      expect(await createStore().load('frontend')).toBe('saved');
+    });
+  });
+
+  it('should keep every curriculum when json file writes overlap', async () => {
+    const filePath = path.join(directory, 'progress.json');
+    const store = createJsonFileProgressStore(filePath);
+
+    await Promise.all([store.save('frontend', 'a'), store.save('backend', 'b')]);
+
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual({ frontend: 'a', backend: 'b' });
+  });
+
+  it('should give equal payloads the same quoted ETag', () => {
+    expect(getProgressEtag('payload')).toMatch(/^"[0-9a-f]{40}"$/);
+    expect(getProgressEtag('payload')).toBe(getProgressEtag('payload'));
+    expect(getProgressEtag('other')).not.toBe(getProgressEtag('payload'));
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Server-side progress store utilities
+ * Keeps the StoredData payload of each curriculum on the server, in a JSON file or a SQLite database
+ */
+
+import { createHash } from 'crypto';
+import { mkdirSync, promises as fs } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+// Constants
+const DEFAULT_JSON_FILE_PATH = path.join(process.cwd(), '.data', 'progress.json');
+const DEFAULT_SQLITE_FILE_PATH = path.join(process.cwd(), '.data', 'progress.sqlite');
+
+/**
+ * Backend the /api/progress route saves to; values are serialized StoredData strings by curriculum id
+ * Learner profiles other than the default one use `<profileId>/<curriculumId>` as the id
+ */
+export interface ProgressStore {
+  /** Short name used in log messages, e.g. "sqlite" */
+  readonly name: string;
+  /** Read the saved progress; null when the curriculum has none */
+  load: (curriculumId: string) => Promise<string | null>;
+  save: (curriculumId: string, value: string) => Promise<void>;
+  /**
+   * Save the progress only when the saved payload passes a check, with no other write in between
+   * @param isCurrent Called with the saved payload, or null when there is none
+   * @returns Whether the progress was saved, and the saved payload the check was given
+   */
+  saveIfCurrent: (
+    curriculumId: string,
+    value: string,
+    isCurrent: (currentValue: string | null) => boolean
+  ) => Promise<{ saved: boolean; currentValue: string | null }>;
+}
+
+/**
+ * Create a store that keeps every curriculum in one JSON file
+ * Writes go to a temporary file that replaces the original, so a crash never leaves half a file
+ */
+export const createJsonFileProgressStore = (filePath: string = DEFAULT_JSON_FILE_PATH): ProgressStore => {
+  // Writes run one after another so concurrent requests cannot drop each other's curricula
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const readAll = async (): Promise<Record<string, string>> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const saveIfCurrent: ProgressStore['saveIfCurrent'] = (curriculumId, value, isCurrent) => {
+    const write = pendingWrite.then(async () => {
+      const values = await readAll();
+      const currentValue = values[curriculumId] ?? null;
+      if (!isCurrent(currentValue)) return { saved: false, currentValue };
+
+      const temporaryPath = `${filePath}.tmp`;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(temporaryPath, JSON.stringify({ ...values, [curriculumId]: value }, null, 2), 'utf8');
+      await fs.rename(temporaryPath, filePath);
+      return { saved: true, currentValue };
+    });
+    pendingWrite = write.then(() => undefined, () => undefined);
+    return write;
+  };
+
+  return {
+    name: 'json-file',
+    load: async curriculumId => (await readAll())[curriculumId] ?? null,
+    save: async (curriculumId, value) => {
+      await saveIfCurrent(curriculumId, value, () => true);
+    },
+    saveIfCurrent
+  };
+};
+
+/**
+ * Create a store backed by a SQLite database with one row per curriculum
+ * @param filePath Database file, or ":memory:" for a database that is dropped with the process
+ */
+export const createSqliteProgressStore = (filePath: string = DEFAULT_SQLITE_FILE_PATH): ProgressStore => {
+  let database: Database.Database | null = null;
+
+  const open = (): Database.Database => {
+    if (!database) {
+      if (filePath !== ':memory:') {
+        mkdirSync(path.dirname(filePath), { recursive: true });
+      }
+      database = new Database(filePath);
+      database.exec(
+        'CREATE TABLE IF NOT EXISTS progress (curriculum_id TEXT PRIMARY KEY, data TEXT NOT NULL, updated_at TEXT NOT NULL)'
+      );
+    }
+    return database;
+  };
+
+  const loadRow = (curriculumId: string): string | null => {
+    const row = open()
+      .prepare('SELECT data FROM progress WHERE curriculum_id = ?')
+      .get(curriculumId) as { data: string } | undefined;
+    return row?.data ?? null;
+  };
+
+  const saveRow = (curriculumId: string, value: string): void => {
+    open()
+      .prepare(
+        'INSERT INTO progress (curriculum_id, data, updated_at) VALUES (?, ?, ?) ' +
+        'ON CONFLICT(curriculum_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at'
+      )
+      .run(curriculumId, value, new Date().toISOString());
+  };
+
+  return {
+    name: 'sqlite',
+    load: async curriculumId => loadRow(curriculumId),
+    save: async (curriculumId, value) => saveRow(curriculumId, value),
+    saveIfCurrent: async (curriculumId, value, isCurrent) =>
+      // IMMEDIATE takes the write lock before reading, so other processes on the database wait for the check too
+      open().transaction(() => {
+        const currentValue = loadRow(curriculumId);
+        if (!isCurrent(currentValue)) return { saved: false, currentValue };
+        saveRow(curriculumId, value);
+        return { saved: true, currentValue };
+      }).immediate()
+  };
+};
+
+/**
+ * Get the ETag of a saved payload; it changes whenever the payload does
+ */
+export const getProgressEtag = (value: string): string =>
+  `"${createHash('sha1').update(value).digest('hex')}"`;
+
+let configuredStore: ProgressStore | null = null;
+
+/**
+ * Get the store configured by the PROGRESS_STORE ("json" or "sqlite", default "json")
+ * and PROGRESS_STORE_PATH environment variables
+ */
+export const getProgressStore = (): ProgressStore => {
+  if (!configuredStore) {
+    const filePath = process.env.PROGRESS_STORE_PATH || undefined;
+    configuredStore = process.env.PROGRESS_STORE === 'sqlite'
+      ? createSqliteProgressStore(filePath)
+      : createJsonFileProgressStore(filePath);
+  }
+  return configuredStore;
+};
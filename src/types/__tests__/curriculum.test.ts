@@ -14,12 +14,12 @@ describe('Curriculum Types', () => {
       const course: Course = {
         id: 'test-1',
         name: 'Test Course',
-        completed: false
+        status: 'not-started'
       };
       
       expect(course.id).toBe('test-1');
       expect(course.name).toBe('Test Course');
-      expect(course.completed).toBe(false);
+      expect(course.status).toBe('not-started');
       expect(course.startDate).toBeUndefined();
       expect(course.endDate).toBeUndefined();
     });
@@ -33,12 +33,12 @@ describe('Curriculum Types', () => {
         name: 'Course with Dates',
         startDate,
         endDate,
-        completed: true
+        status: 'done'
       };
       
       expect(course.startDate).toBe(startDate);
       expect(course.endDate).toBe(endDate);
-      expect(course.completed).toBe(true);
+      expect(course.status).toBe('done');
     });
 
     it('should enforce required properties', () => {
@@ -46,7 +46,7 @@ describe('Curriculum Types', () => {
       const validCourse: Course = {
         id: 'required-test',
         name: 'Required Properties Test',
-        completed: false
+        status: 'not-started'
       };
       
       expect(validCourse).toBeDefined();
@@ -65,8 +65,8 @@ describe('Curriculum Types', () => {
   describe('Week interface', () => {
     it('should accept valid week object', () => {
       const courses: Course[] = [
-        { id: '1-1', name: 'Course 1', completed: false },
-        { id: '1-2', name: 'Course 2', completed: true }
+        { id: '1-1', name: 'Course 1', status: 'not-started' },
+        { id: '1-2', name: 'Course 2', status: 'done' }
       ];
       
       const week: Week = {
@@ -114,7 +114,7 @@ describe('Curriculum Types', () => {
           id: 1,
           title: '1주차',
           courses: [
-            { id: '1-1', name: 'Course 1', completed: true }
+            { id: '1-1', name: 'Course 1', status: 'done' }
           ],
           progress: 100
         }
@@ -250,10 +250,10 @@ describe('Curriculum Types', () => {
             '1-1': {
               startDate: '2024-01-01T00:00:00.000Z',
               endDate: '2024-01-07T00:00:00.000Z',
-              completed: true
+              status: 'done'
             },
             '1-2': {
-              completed: false
+              status: 'not-started'
             }
           }
         }
@@ -261,7 +261,7 @@ describe('Curriculum Types', () => {
       
       expect(storedData.version).toBe('1.0.0');
       expect(storedData.lastUpdated).toBe('2024-01-01T00:00:00.000Z');
-      expect(storedData.curriculum['1']['1-1'].completed).toBe(true);
+      expect(storedData.curriculum['1']['1-1'].status).toBe('done');
       expect(storedData.curriculum['1']['1-2'].startDate).toBeUndefined();
     });
 
@@ -284,7 +284,7 @@ describe('Curriculum Types', () => {
             '1-1': {
               startDate: '2024-01-01T00:00:00.000Z',
               endDate: '2024-01-07T00:00:00.000Z',
-              completed: true
+              status: 'done'
             }
           }
         }
@@ -293,7 +293,7 @@ describe('Curriculum Types', () => {
       const courseData = storedData.curriculum['1']['1-1'];
       expect(typeof courseData.startDate).toBe('string');
       expect(typeof courseData.endDate).toBe('string');
-      expect(typeof courseData.completed).toBe('boolean');
+      expect(typeof courseData.status).toBe('string');
     });
   });
 
@@ -302,7 +302,7 @@ describe('Curriculum Types', () => {
       const course: Course = {
         id: 'test',
         name: 'Test Course',
-        completed: false
+        status: 'not-started'
       };
       
       const week: Week = {
@@ -373,13 +373,13 @@ describe('Curriculum Types', () => {
         name: 'Test Course',
         startDate: new Date(),
         endDate: new Date(),
-        completed: false
+        status: 'not-started'
       };
       expect(course.startDate).toBeInstanceOf(Date);
       expect(course.endDate).toBeInstanceOf(Date);
       
       // Requirement 4.1, 4.2: Completion tracking
-      expect(typeof course.completed).toBe('boolean');
+      expect(typeof course.status).toBe('string');
       
       // Requirement 5.1, 5.2: Data persistence
       const storedData: StoredData = {
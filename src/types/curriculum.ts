@@ -2,12 +2,52 @@
  * Core data types for the curriculum progress tracker
  */
 
+/**
+ * Lifecycle of a course; "skipped" courses do not count toward progress
+ */
+export type CourseStatus = 'not-started' | 'in-progress' | 'blocked' | 'done' | 'skipped';
+
+/**
+ * Kind of resource a course links to
+ */
+export type ResourceLinkType = 'lecture' | 'repo' | 'pr' | 'docs' | 'other';
+
+export interface ResourceLink {
+  /** Unique within the course */
+  id: string;
+  type: ResourceLinkType;
+  url: string;
+  title?: string;
+  /** True for links the learner added; others come from the curriculum definition */
+  userAdded?: boolean;
+}
+
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
 export interface Course {
   id: string;
   name: string;
+  /** Chapter (module) the course belongs to, e.g. "4장"; a chapter can span several weeks */
+  chapter?: string;
   startDate?: Date;
   endDate?: Date;
-  completed: boolean;
+  status: CourseStatus;
+  /** Estimated effort in hours; when set, progress is weighted by it */
+  estimatedHours?: number;
+  /** Ordered checklist of steps; when present, course progress is the fraction of steps done */
+  subtasks?: Subtask[];
+  /** Learner's notes in markdown */
+  notes?: string;
+  /** Links to the lecture, repository, PR or docs of the course */
+  resources?: ResourceLink[];
+  /** Ids of courses that should be done before this one */
+  prerequisites?: string[];
+  /** Ids the course had in earlier versions of the curriculum; progress saved under them is kept */
+  previousIds?: string[];
 }
 
 export interface Week {
@@ -17,16 +57,64 @@ export interface Week {
   progress: number;
 }
 
+/**
+ * Completion that was held back because prerequisites of the course are still open
+ */
+export interface PrerequisiteWarning {
+  weekId: number;
+  courseId: string;
+  openPrerequisiteIds: string[];
+}
+
 export interface CurriculumState {
   weeks: Week[];
   overallProgress: number;
+  /** True once weeks or courses were edited in the app instead of coming from the definition */
+  customized?: boolean;
+  /** Set when completing a course was blocked by open prerequisites; not persisted */
+  prerequisiteWarning?: PrerequisiteWarning;
+  /** Saved progress that no course claims any more, kept until it is reassigned or discarded */
+  orphanedProgress?: OrphanedProgress[];
 }
 
 export type CurriculumActionType = 
   | 'SET_START_DATE' 
   | 'SET_END_DATE' 
   | 'TOGGLE_COMPLETION' 
-  | 'LOAD_DATA';
+  | 'DISMISS_PREREQUISITE_WARNING'
+  | 'SET_STATUS'
+  | 'SET_NOTES'
+  | 'SET_CHAPTER'
+  | 'ADD_RESOURCE_LINK'
+  | 'DELETE_RESOURCE_LINK'
+  | 'REASSIGN_ORPHANED_PROGRESS'
+  | 'DISCARD_ORPHANED_PROGRESS'
+  | 'LOAD_DATA'
+  | 'ADD_WEEK'
+  | 'RENAME_WEEK'
+  | 'DELETE_WEEK'
+  | 'MOVE_WEEK'
+  | 'ADD_COURSE'
+  | 'RENAME_COURSE'
+  | 'DELETE_COURSE'
+  | 'MOVE_COURSE'
+  | 'SET_ESTIMATED_HOURS'
+  | 'TOGGLE_SUBTASK'
+  | 'ADD_SUBTASK'
+  | 'DELETE_SUBTASK'
+  | 'RESET_ALL'
+  | 'RESET_WEEK'
+  | 'UNDO'
+  | 'REDO'
+  | 'RESTORE_HISTORY';
+
+/**
+ * State before a change, with a description of the change for the undo toast
+ */
+export interface CurriculumHistoryEntry {
+  state: CurriculumState;
+  label: string;
+}
 
 export interface CurriculumAction {
   type: CurriculumActionType;
@@ -35,6 +123,34 @@ export interface CurriculumAction {
     courseId?: string;
     date?: Date;
     data?: CurriculumState;
+    /** New week or subtask title (ADD_WEEK, RENAME_WEEK, ADD_SUBTASK) */
+    title?: string;
+    /** New course name (ADD_COURSE, RENAME_COURSE) */
+    name?: string;
+    /** Target week when moving a course to another week (MOVE_COURSE) */
+    toWeekId?: number;
+    /** Target position within the weeks or the target week's courses (MOVE_WEEK, MOVE_COURSE) */
+    toIndex?: number;
+    /** Estimated hours of a course; undefined clears the estimate (SET_ESTIMATED_HOURS) */
+    estimatedHours?: number;
+    /** Chapter of a course; empty or undefined clears it (SET_CHAPTER) */
+    chapter?: string;
+    /** Markdown notes of a course; empty or undefined clears them (SET_NOTES) */
+    notes?: string;
+    /** Link to add to a course (ADD_RESOURCE_LINK) */
+    resource?: ResourceLinkDefinition;
+    /** Link to remove from a course (DELETE_RESOURCE_LINK) */
+    resourceId?: string;
+    /** Complete a course even though its prerequisites are open (TOGGLE_COMPLETION, SET_STATUS) */
+    force?: boolean;
+    /** New course status (SET_STATUS) */
+    status?: CourseStatus;
+    /** Subtask within the course (TOGGLE_SUBTASK, DELETE_SUBTASK) */
+    subtaskId?: string;
+    /** Orphaned progress to move to the course or drop (REASSIGN_ORPHANED_PROGRESS, DISCARD_ORPHANED_PROGRESS) */
+    orphan?: OrphanedProgressKey;
+    /** Undo and redo stacks kept from earlier in the session (RESTORE_HISTORY) */
+    history?: { past: CurriculumHistoryEntry[]; future: CurriculumHistoryEntry[] };
   };
 }
 
@@ -46,11 +162,125 @@ export interface StoredData {
   lastUpdated: string;
   curriculum: {
     [weekId: string]: {
-      [courseId: string]: {
-        startDate?: string; // ISO string
-        endDate?: string;   // ISO string
-        completed: boolean;
-      }
+      [courseId: string]: StoredCourseProgress
     }
   };
-}
\ No newline at end of file
+  /** Weeks and courses as edited in the app; absent while the definition is used unchanged */
+  structure?: WeekDefinition[];
+}
+
+/**
+ * Progress of a single course as saved in StoredData
+ */
+export interface StoredCourseProgress {
+  startDate?: string; // ISO string
+  endDate?: string;   // ISO string
+  status: CourseStatus;
+  /** Ids of the course's subtasks that are checked off */
+  completedSubtasks?: string[];
+  /** Markdown notes */
+  notes?: string;
+  /** Links added by the learner */
+  resources?: StoredResourceLink[];
+}
+
+/**
+ * Identifies saved progress by the week and course ids it was saved under
+ */
+export interface OrphanedProgressKey {
+  weekId: string;
+  courseId: string;
+}
+
+/**
+ * Saved progress whose week and course ids match no course in the curriculum,
+ * e.g. after a course id changed in the definition
+ */
+export interface OrphanedProgress extends OrphanedProgressKey {
+  progress: StoredCourseProgress;
+}
+
+/**
+ * A learner-added link as saved in StoredData
+ */
+export interface StoredResourceLink extends ResourceLinkDefinition {
+  id: string;
+}
+
+/**
+ * Curriculum definition file format (src/data/curricula/*.json)
+ *
+ * A definition describes the structure of a curriculum only. Progress
+ * (dates, completion) is never part of a definition; it lives in StoredData.
+ */
+export interface SubtaskDefinition {
+  /** Unique within the course */
+  id: string;
+  title: string;
+}
+
+export interface ResourceLinkDefinition {
+  type: ResourceLinkType;
+  /** http(s) URL */
+  url: string;
+  title?: string;
+}
+
+export interface CourseDefinition {
+  /** Unique across the whole curriculum, e.g. "1-2" */
+  id: string;
+  name: string;
+  /** Optional chapter (module); filled from a "4장 > ..." name prefix when omitted */
+  chapter?: string;
+  /** Optional effort estimate in hours, used to weight progress */
+  estimatedHours?: number;
+  /** Optional ordered checklist of steps */
+  subtasks?: SubtaskDefinition[];
+  /** Optional links to the lecture, repository, PR or docs */
+  resources?: ResourceLinkDefinition[];
+  /** Optional ids of courses that should be done first */
+  prerequisites?: string[];
+  /** Optional ids the course had before, e.g. ["4-1"] after 4-1 became 3-5; saved progress follows the course */
+  previousIds?: string[];
+}
+
+export interface WeekDefinition {
+  /** Positive integer, unique across the curriculum */
+  id: number;
+  title: string;
+  courses: CourseDefinition[];
+}
+
+export interface CurriculumMetadata {
+  /** Stable identifier of the curriculum, e.g. "frontend" */
+  id: string;
+  title: string;
+  description?: string;
+  /** Content version of the curriculum, bumped whenever weeks or courses change */
+  version: string;
+}
+
+/**
+ * Short description of a registered curriculum, used by the track switcher
+ */
+export interface CurriculumSummary {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface CurriculumDefinition {
+  /** Version of the definition file format itself */
+  schemaVersion: number;
+  metadata: CurriculumMetadata;
+  weeks: WeekDefinition[];
+}
+
+/**
+ * A single problem found while validating a curriculum definition
+ */
+export interface CurriculumDefinitionIssue {
+  /** Location of the problem, e.g. "weeks[2].courses[0].id" */
+  path: string;
+  message: string;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatChapterWeekSpan,
+  getChapterLabel,
+  groupCoursesByChapter,
+  parseChapterFromName
+} from '../chapters';
+import { Week } from '../../types/curriculum';
+
+describe('chapters', () => {
+  describe('parseChapterFromName', () => {
+    it('should read the chapter before the first ">"', () => {
+      expect(parseChapterFromName('4장 > 상품 목록 페이지 추가')).toBe('4장');
+      expect(parseChapterFromName('  Module 2>Routing ')).toBe('Module 2');
+    });
+
+    it('should return undefined for names without a chapter', () => {
+      expect(parseChapterFromName('QA 이슈 해결')).toBeUndefined();
+      expect(parseChapterFromName('> 장 없음')).toBeUndefined();
+      expect(parseChapterFromName('4장 >')).toBeUndefined();
+    });
+  });
+
+  describe('groupCoursesByChapter', () => {
+    const weeks: Week[] = [
+      {
+        id: 1,
+        title: '1주차',
+        courses: [
+          { id: '1-1', name: 'QA 이슈 해결', status: 'not-started' },
+          { id: '1-2', name: 'A', chapter: '4장', status: 'done' }
+        ],
+        progress: 50
+      },
+      {
+        id: 2,
+        title: '2주차',
+        courses: [{ id: '2-1', name: 'B', chapter: '6장', status: 'not-started' }],
+        progress: 0
+      },
+      {
+        id: 3,
+        title: '3주차',
+        courses: [
+          { id: '3-1', name: 'C', chapter: '6장', status: 'done' },
+          { id: '3-2', name: 'D', chapter: '6장', status: 'not-started' }
+        ],
+        progress: 50
+      }
+    ];
+
+    it('should group courses by chapter across weeks, with unassigned courses last', () => {
+      const groups = groupCoursesByChapter(weeks);
+
+      expect(groups.map(group => group.chapter)).toEqual(['4장', '6장', null]);
+      expect(groups[1].weeks.map(item => [item.week.id, item.courses.map(course => course.id)])).toEqual([
+        [2, ['2-1']],
+        [3, ['3-1', '3-2']]
+      ]);
+      expect(getChapterLabel(groups[2].chapter)).toBe('장 미지정');
+    });
+
+    it('should describe the weeks a chapter spans', () => {
+      const [fourth, sixth] = groupCoursesByChapter(weeks);
+
+      expect(formatChapterWeekSpan(fourth)).toBe('1주차');
+      expect(formatChapterWeekSpan(sixth)).toBe('2주차 ~ 3주차');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCohortMatrix,
+  CohortLearnerFile,
+  getCurriculumIdFromExportFileName,
+  getDuplicateLearnerNames,
+  getMedian
+} from '../cohortProgress';
+import { getInitialCurriculumState } from '../../data/initialCurriculum';
+import { StoredData } from '../../types/curriculum';
+
+const createFile = (name: string, curriculum: StoredData['curriculum'], structure?: StoredData['structure']): CohortLearnerFile => ({
+  id: name,
+  name,
+  fileName: `${name}.json`,
+  data: { version: '1.1.0', lastUpdated: '2024-03-15T00:00:00.000Z', curriculum, ...(structure ? { structure } : {}) }
+});
+
+const files = [
+  createFile('김하나', {
+    '1': {
+      '1-1': { status: 'done', startDate: new Date(2024, 0, 2).toISOString(), endDate: new Date(2024, 0, 9).toISOString() },
+      '1-2': { status: 'done' },
+      '1-3': { status: 'done' }
+    }
+  }),
+  createFile('이두리', { '1': { '1-1': { status: 'done' }, '1-2': { status: 'in-progress' } } }),
+  createFile('박세나', { '1': { '1-2': { status: 'skipped' } } })
+];
+
+describe('cohortProgress', () => {
+  it('should put every learner on the courses of the track definition', () => {
+    const matrix = buildCohortMatrix(files, 'frontend');
+    const courseIds = getInitialCurriculumState('frontend').weeks.flatMap(week => week.courses.map(course => course.id));
+
+    expect(matrix.learners.map(learner => learner.name)).toEqual(['김하나', '이두리', '박세나']);
+    matrix.learners.forEach(learner => expect(learner.courses.map(course => course.id)).toEqual(courseIds));
+    expect(matrix.learners[0].courses[0]).toMatchObject({
+      status: 'done',
+      startDate: new Date(2024, 0, 2),
+      endDate: new Date(2024, 0, 9)
+    });
+    expect(matrix.learners[2].courses[0].status).toBe('not-started');
+  });
+
+  it('should flag learners behind the median of overall progress', () => {
+    const matrix = buildCohortMatrix(files, 'frontend');
+    const [first, second, third] = matrix.learners;
+
+    expect(first.overallProgress).toBeGreaterThan(second.overallProgress);
+    expect(second.overallProgress).toBeGreaterThan(third.overallProgress);
+    expect(matrix.medianProgress).toBe(second.overallProgress);
+    expect(matrix.learners.map(learner => learner.isBehind)).toEqual([false, false, true]);
+  });
+
+  it('should rate each course over the learners who did not skip it', () => {
+    const matrix = buildCohortMatrix(files, 'frontend');
+
+    expect(matrix.courses[0]).toMatchObject({ completionRate: 67, countedLearners: 3 });
+    expect(matrix.courses[1]).toMatchObject({ completionRate: 50, countedLearners: 2 });
+    expect(matrix.courses[3]).toMatchObject({ completionRate: 0, countedLearners: 3 });
+  });
+
+  it('should find courses a learner moved in the structure editor and leave out courses they added', () => {
+    const structure = [
+      { id: 1, title: '1주차', courses: [{ id: 'my-course', name: '직접 추가한 과정' }] },
+      { id: 2, title: '2주차', courses: [{ id: '1-1', name: 'QA 이슈 해결' }] }
+    ];
+    const matrix = buildCohortMatrix([
+      createFile('최네오', { '1': { 'my-course': { status: 'done' } }, '2': { '1-1': { status: 'done' } } }, structure)
+    ], 'frontend');
+
+    expect(matrix.learners[0].courses[0]).toMatchObject({ id: '1-1', status: 'done' });
+    expect(matrix.learners[0].courses.some(course => course.id === 'my-course')).toBe(false);
+  });
+
+  it('should read the track from the name of an exported file', () => {
+    expect(getCurriculumIdFromExportFileName('curriculum-progress-backend-2024-01-31.json')).toBe('backend');
+    expect(getCurriculumIdFromExportFileName('curriculum-progress-frontend-2024-01-31 (2).json')).toBe('frontend');
+    expect(getCurriculumIdFromExportFileName('curriculum-progress-backend-2024-01-31-김하나.json')).toBe('backend');
+    expect(getCurriculumIdFromExportFileName('curriculum-progress-unknown-2024-01-31.json')).toBeNull();
+    expect(getCurriculumIdFromExportFileName('김하나.json')).toBeNull();
+  });
+
+  it('should list names shared by several files', () => {
+    const duplicate = { ...createFile('김하나', {}), id: 'second' };
+
+    expect(getDuplicateLearnerNames(files)).toEqual([]);
+    expect(getDuplicateLearnerNames([...files, duplicate])).toEqual([{ name: '김하나', count: 2 }]);
+  });
+
+  it('should take the middle value, or the mean of the two middle values', () => {
+    expect(getMedian([])).toBe(0);
+    expect(getMedian([30, 10, 20])).toBe(20);
+    expect(getMedian([40, 10, 20, 30])).toBe(25);
+  });
+});
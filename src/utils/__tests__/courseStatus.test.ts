@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COURSE_STATUSES,
+  COURSE_STATUS_LABELS,
+  completedToStatus,
+  countCourseStatuses,
+  deriveStatusFromSubtasks,
+  isCourseStatus
+} from '../courseStatus';
+import { Subtask } from '../../types/curriculum';
+
+describe('courseStatus', () => {
+  describe('isCourseStatus', () => {
+    it('should accept every known status', () => {
+      COURSE_STATUSES.forEach(status => {
+        expect(isCourseStatus(status)).toBe(true);
+        expect(COURSE_STATUS_LABELS[status]).toBeTruthy();
+      });
+    });
+
+    it('should reject unknown values', () => {
+      expect(isCourseStatus('finished')).toBe(false);
+      expect(isCourseStatus(true)).toBe(false);
+      expect(isCourseStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe('completedToStatus', () => {
+    it('should migrate the old completion flag', () => {
+      expect(completedToStatus(true)).toBe('done');
+      expect(completedToStatus(false)).toBe('not-started');
+    });
+  });
+
+  describe('countCourseStatuses', () => {
+    it('should count every status, including ones no course has', () => {
+      expect(countCourseStatuses([
+        { id: '1-1', name: 'A', status: 'done' },
+        { id: '1-2', name: 'B', status: 'done' },
+        { id: '1-3', name: 'C', status: 'blocked' }
+      ])).toEqual({ 'not-started': 0, 'in-progress': 0, blocked: 1, done: 2, skipped: 0 });
+    });
+  });
+
+  describe('deriveStatusFromSubtasks', () => {
+    const subtasks = (...checked: boolean[]): Subtask[] =>
+      checked.map((completed, index) => ({ id: `s${index + 1}`, title: `Step ${index + 1}`, completed }));
+
+    it('should mark a course done when every subtask is checked', () => {
+      expect(deriveStatusFromSubtasks('in-progress', subtasks(true, true))).toBe('done');
+    });
+
+    it('should start a course when some subtasks are checked', () => {
+      expect(deriveStatusFromSubtasks('not-started', subtasks(true, false))).toBe('in-progress');
+    });
+
+    it('should reopen a done course when a subtask is unchecked', () => {
+      expect(deriveStatusFromSubtasks('done', subtasks(true, false))).toBe('in-progress');
+      expect(deriveStatusFromSubtasks('done', subtasks(false, false))).toBe('not-started');
+    });
+
+    it('should keep blocked and skipped courses as they are', () => {
+      expect(deriveStatusFromSubtasks('blocked', subtasks(true, false))).toBe('blocked');
+      expect(deriveStatusFromSubtasks('skipped', subtasks(false, false))).toBe('skipped');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createCrossTabChannel,
+  CrossTabMessage,
+  isSameStoredProgress,
+  mergeCrossTabProgress
+} from '../crossTabSync';
+import { StoredCourseProgress, StoredData } from '../../types/curriculum';
+
+const stored = (
+  curriculum: StoredData['curriculum'],
+  extra: Partial<StoredData> = {}
+): StoredData => ({ version: '1.1.0', lastUpdated: '2024-02-01T00:00:00.000Z', curriculum, ...extra });
+
+const course = (status: StoredCourseProgress['status'], notes?: string): StoredCourseProgress => ({ status, notes });
+
+describe('crossTabSync', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('mergeCrossTabProgress', () => {
+    const base = stored({ '1': { '1-1': course('not-started'), '1-2': course('not-started') } });
+
+    it('should take courses only the other tab changed and keep courses only this tab changed', () => {
+      const local = stored({ '1': { '1-1': course('done'), '1-2': course('not-started') } });
+      const incoming = stored({ '1': { '1-1': course('not-started'), '1-2': course('in-progress') } });
+
+      const result = mergeCrossTabProgress(base, local, incoming);
+
+      expect(result.data.curriculum['1']).toEqual({ '1-1': course('done'), '1-2': course('in-progress') });
+      expect(result.conflicts).toEqual([]);
+      expect(result.structureConflict).toBe(false);
+    });
+
+    it('should keep the later version of a course both tabs changed and report it', () => {
+      const local = stored({ '1': { '1-1': course('done'), '1-2': course('not-started') } }, { lastUpdated: '2024-02-02T00:00:00.000Z' });
+      const incoming = stored({ '1': { '1-1': course('blocked'), '1-2': course('not-started') } }, { lastUpdated: '2024-02-03T00:00:00.000Z' });
+
+      const result = mergeCrossTabProgress(base, local, incoming);
+      expect(result.data.curriculum['1']['1-1']).toEqual(course('blocked'));
+      expect(result.conflicts).toEqual([{ weekId: '1', courseId: '1-1' }]);
+      expect(result.kept).toBe('incoming');
+
+      // The other tab makes the same choice
+      const mirrored = mergeCrossTabProgress(base, incoming, local);
+      expect(mirrored.data.curriculum['1']['1-1']).toEqual(course('blocked'));
+      expect(mirrored.kept).toBe('local');
+    });
+
+    it('should pick the same side in both tabs for changes saved at the same time', () => {
+      const local = stored({ '1': { '1-1': course('done') } });
+      const incoming = stored({ '1': { '1-1': course('blocked') } });
+
+      expect(mergeCrossTabProgress(base, local, incoming).data.curriculum)
+        .toEqual(mergeCrossTabProgress(base, incoming, local).data.curriculum);
+    });
+
+    it('should follow a course the other tab moved to another week', () => {
+      const structure = [{ id: 2, title: '2주차', courses: [{ id: '1-2', name: '과정' }] }];
+      const incoming = stored({ '1': { '1-1': course('not-started') }, '2': { '1-2': course('not-started') } }, { structure });
+
+      const result = mergeCrossTabProgress(base, base, incoming);
+
+      expect(result.data.curriculum).toEqual(incoming.curriculum);
+      expect(result.data.structure).toEqual(structure);
+    });
+
+    it('should keep the later structure when both tabs edited it', () => {
+      const local = stored(base.curriculum, { structure: [{ id: 1, title: '이 탭', courses: [] }], lastUpdated: '2024-02-03T00:00:00.000Z' });
+      const incoming = stored(base.curriculum, { structure: [{ id: 1, title: '다른 탭', courses: [] }] });
+
+      const result = mergeCrossTabProgress(base, local, incoming);
+
+      expect(result.data.structure).toEqual(local.structure);
+      expect(result.structureConflict).toBe(true);
+    });
+
+    it('should keep the later save time', () => {
+      const incoming = stored(base.curriculum, { lastUpdated: '2024-03-01T00:00:00.000Z' });
+
+      expect(mergeCrossTabProgress(base, base, incoming).data.lastUpdated).toBe('2024-03-01T00:00:00.000Z');
+      expect(mergeCrossTabProgress(base, incoming, base).data.lastUpdated).toBe('2024-03-01T00:00:00.000Z');
+    });
+  });
+
+  it('should compare progress regardless of when it was saved', () => {
+    const a = stored({ '1': { '1-1': course('done') } });
+
+    expect(isSameStoredProgress(a, { ...a, lastUpdated: '2025-01-01T00:00:00.000Z' })).toBe(true);
+    expect(isSameStoredProgress(a, stored({ '1': { '1-1': course('blocked') } }))).toBe(false);
+  });
+
+  describe('createCrossTabChannel', () => {
+    const message: CrossTabMessage = { type: 'synced', curriculumId: 'frontend', etag: '"abc"' };
+
+    it('should pass messages between channels of different tabs', async () => {
+      const received = vi.fn();
+      const receiver = createCrossTabChannel(received);
+      const sender = createCrossTabChannel(vi.fn());
+
+      sender.post(message);
+      await vi.waitFor(() => expect(received).toHaveBeenCalledWith(message));
+
+      receiver.close();
+      sender.close();
+    });
+
+    it('should fall back to storage events without BroadcastChannel', () => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      const received = vi.fn();
+      const channel = createCrossTabChannel(received);
+
+      channel.post(message);
+      const newValue = localStorage.getItem('curriculum-progress-tracker:message');
+      window.dispatchEvent(new StorageEvent('storage', { key: 'curriculum-progress-tracker:message', newValue }));
+
+      expect(received).toHaveBeenCalledWith(message);
+      channel.close();
+    });
+  });
+});
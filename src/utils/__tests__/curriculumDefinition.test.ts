@@ -0,0 +1,338 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRICULUM_SCHEMA_VERSION,
+  CurriculumDefinitionError,
+  curriculumDefinitionToWeeks,
+  formatCurriculumDefinitionIssues,
+  loadCurriculumDefinition,
+  validateCurriculumDefinition,
+  validateCurriculumStructure,
+  weeksToCurriculumStructure
+} from '../curriculumDefinition';
+import frontendCurriculum from '../../data/curricula/frontend.json';
+
+const createDefinition = () => ({
+  schemaVersion: CURRICULUM_SCHEMA_VERSION,
+  metadata: {
+    id: 'test',
+    title: 'Test Curriculum',
+    version: '1.0.0'
+  },
+  weeks: [
+    {
+      id: 1,
+      title: '1주차',
+      courses: [
+        { id: '1-1', name: 'Course 1' },
+        { id: '1-2', name: 'Course 2' }
+      ]
+    },
+    {
+      id: 2,
+      title: '2주차',
+      courses: [{ id: '2-1', name: 'Course 3' }]
+    }
+  ]
+});
+
+describe('curriculumDefinition', () => {
+  describe('validateCurriculumDefinition', () => {
+    it('should accept a valid definition', () => {
+      const result = validateCurriculumDefinition(createDefinition());
+
+      expect(result.isValid).toBe(true);
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should accept the bundled frontend curriculum', () => {
+      expect(validateCurriculumDefinition(frontendCurriculum).isValid).toBe(true);
+    });
+
+    it('should reject non-object input', () => {
+      const result = validateCurriculumDefinition(null);
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues[0].path).toBe('(root)');
+    });
+
+    it('should reject unsupported schema versions', () => {
+      const result = validateCurriculumDefinition({ ...createDefinition(), schemaVersion: 99 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].path).toBe('schemaVersion');
+      expect(result.issues[0].message).toContain('99');
+    });
+
+    it('should report missing metadata fields', () => {
+      const definition = createDefinition();
+      const result = validateCurriculumDefinition({
+        ...definition,
+        metadata: { id: '', version: '1.0.0' }
+      });
+
+      expect(result.issues.map(issue => issue.path)).toEqual(['metadata.id', 'metadata.title']);
+    });
+
+    it('should point at the exact course with a problem', () => {
+      const definition = createDefinition();
+      definition.weeks[1].courses[0] = { id: '2-1', name: '' };
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toEqual([
+        { path: 'weeks[1].courses[0].name', message: expect.any(String) }
+      ]);
+    });
+
+    it('should report duplicate week and course IDs with the first location', () => {
+      const definition = createDefinition();
+      definition.weeks[1].id = 1;
+      definition.weeks[1].courses[0].id = '1-2';
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.issues.map(issue => issue.path)).toEqual([
+        'weeks[1].id',
+        'weeks[1].courses[0].id'
+      ]);
+      expect(result.issues[0].message).toContain('weeks[0]');
+      expect(result.issues[1].message).toContain('weeks[0].courses[1]');
+    });
+
+    it('should reject non-integer week IDs', () => {
+      const definition = createDefinition();
+      (definition.weeks[0] as { id: unknown }).id = '1';
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.issues[0].path).toBe('weeks[0].id');
+    });
+
+    it('should reject non-positive estimated hours', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { estimatedHours?: unknown }).estimatedHours = 0;
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.issues.map(issue => issue.path)).toEqual(['weeks[0].courses[0].estimatedHours']);
+    });
+
+    it('should report duplicate and untitled subtasks', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { subtasks?: unknown }).subtasks = [
+        { id: 's1', title: 'Step 1' },
+        { id: 's1', title: '' }
+      ];
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.issues.map(issue => issue.path)).toEqual([
+        'weeks[0].courses[0].subtasks[1].id',
+        'weeks[0].courses[0].subtasks[1].title'
+      ]);
+    });
+
+    it('should reject links with an unknown type or an unsafe url', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { resources?: unknown }).resources = [
+        { type: 'docs', url: 'https://example.com/docs' },
+        { type: 'video', url: 'javascript:alert(1)' }
+      ];
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.issues.map(issue => issue.path)).toEqual([
+        'weeks[0].courses[0].resources[1].type',
+        'weeks[0].courses[0].resources[1].url'
+      ]);
+    });
+
+    it('should report unknown, self-referencing and circular prerequisites', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { prerequisites?: unknown }).prerequisites = ['1-9', '1-1'];
+      (definition.weeks[0].courses[1] as { prerequisites?: unknown }).prerequisites = ['2-1'];
+      (definition.weeks[1].courses[0] as { prerequisites?: unknown }).prerequisites = ['1-2'];
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.issues.map(issue => issue.path)).toEqual([
+        'weeks[0].courses[0].prerequisites[0]',
+        'weeks[0].courses[0].prerequisites[1]',
+        'weeks[0].courses[1].prerequisites'
+      ]);
+      expect(result.issues[2].message).toContain('1-2 → 2-1 → 1-2');
+    });
+
+    it('should report previous ids that clash with current or other previous ids', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { previousIds?: unknown }).previousIds = ['4-1', '2-1', ''];
+      (definition.weeks[1].courses[0] as { previousIds?: unknown }).previousIds = ['4-1'];
+
+      const result = validateCurriculumDefinition(definition);
+
+      expect(result.issues.map(issue => issue.path)).toEqual([
+        'weeks[0].courses[0].previousIds[1]',
+        'weeks[0].courses[0].previousIds[2]',
+        'weeks[1].courses[0].previousIds[0]'
+      ]);
+    });
+
+    it('should collect issues from every week instead of stopping at the first', () => {
+      const result = validateCurriculumDefinition({
+        ...createDefinition(),
+        weeks: [{ id: 1, title: '' }, 'not a week']
+      });
+
+      expect(result.issues.map(issue => issue.path)).toEqual([
+        'weeks[0].title',
+        'weeks[0].courses',
+        'weeks[1]'
+      ]);
+    });
+  });
+
+  describe('loadCurriculumDefinition', () => {
+    it('should return the definition when valid', () => {
+      const definition = createDefinition();
+
+      expect(loadCurriculumDefinition(definition)).toBe(definition);
+    });
+
+    it('should throw a CurriculumDefinitionError listing every issue', () => {
+      const definition = createDefinition();
+      definition.weeks[0].courses[1].name = '';
+
+      expect(() => loadCurriculumDefinition(definition, 'curricula/test.json')).toThrow(CurriculumDefinitionError);
+
+      try {
+        loadCurriculumDefinition(definition, 'curricula/test.json');
+      } catch (error) {
+        const definitionError = error as CurriculumDefinitionError;
+        expect(definitionError.source).toBe('curricula/test.json');
+        expect(definitionError.issues).toHaveLength(1);
+        expect(definitionError.message).toContain('weeks[0].courses[1].name');
+      }
+    });
+  });
+
+  describe('formatCurriculumDefinitionIssues', () => {
+    it('should format one line per issue', () => {
+      expect(formatCurriculumDefinitionIssues([
+        { path: 'weeks', message: 'A' },
+        { path: 'metadata.id', message: 'B' }
+      ])).toBe('- weeks: A\n- metadata.id: B');
+    });
+  });
+
+  describe('curriculumDefinitionToWeeks', () => {
+    it('should create weeks with incomplete courses and zero progress', () => {
+      const weeks = curriculumDefinitionToWeeks(createDefinition());
+
+      expect(weeks).toHaveLength(2);
+      expect(weeks[0]).toEqual({
+        id: 1,
+        title: '1주차',
+        courses: [
+          { id: '1-1', name: 'Course 1', status: 'not-started' },
+          { id: '1-2', name: 'Course 2', status: 'not-started' }
+        ],
+        progress: 0
+      });
+    });
+  });
+
+  describe('chapters', () => {
+    it('should fill missing chapters from "4장 > ..." names and keep explicit ones', () => {
+      const definition = createDefinition();
+      definition.weeks[0].courses[0].name = '4장 > 상품 목록';
+      definition.weeks[0].courses[1].name = '4장 > 상품 추가';
+      (definition.weeks[0].courses[1] as { chapter?: unknown }).chapter = '4장 (심화)';
+
+      const weeks = curriculumDefinitionToWeeks(definition);
+
+      expect(weeks[0].courses.map(course => course.chapter)).toEqual(['4장', '4장 (심화)']);
+      expect(weeks[1].courses[0].chapter).toBeUndefined();
+      expect(weeksToCurriculumStructure(weeks)[0].courses[0]).toEqual({ id: '1-1', name: '4장 > 상품 목록', chapter: '4장' });
+    });
+
+    it('should reject empty chapters', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { chapter?: unknown }).chapter = ' ';
+
+      expect(validateCurriculumDefinition(definition).issues.map(issue => issue.path)).toEqual([
+        'weeks[0].courses[0].chapter'
+      ]);
+    });
+  });
+
+  describe('validateCurriculumStructure', () => {
+    it('should accept an empty list of weeks', () => {
+      expect(validateCurriculumStructure([]).isValid).toBe(true);
+    });
+
+    it('should report duplicate course ids', () => {
+      const result = validateCurriculumStructure([
+        { id: 1, title: '1주차', courses: [{ id: '1-1', name: 'A' }] },
+        { id: 2, title: '2주차', courses: [{ id: '1-1', name: 'B' }] }
+      ]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues[0].path).toBe('weeks[1].courses[0].id');
+    });
+  });
+
+  describe('weeksToCurriculumStructure', () => {
+    it('should drop progress and keep ids, titles and names', () => {
+      const weeks = curriculumDefinitionToWeeks(createDefinition());
+      weeks[0].courses[0] = { ...weeks[0].courses[0], status: 'done', startDate: new Date('2024-01-01') };
+
+      expect(weeksToCurriculumStructure(weeks)).toEqual(createDefinition().weeks);
+    });
+
+    it('should keep subtasks without their progress', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { subtasks?: unknown }).subtasks = [{ id: 's1', title: 'Step 1' }];
+      const weeks = curriculumDefinitionToWeeks(definition);
+
+      expect(weeks[0].courses[0].subtasks).toEqual([{ id: 's1', title: 'Step 1', completed: false }]);
+
+      weeks[0].courses[0].subtasks![0].completed = true;
+      expect(weeksToCurriculumStructure(weeks)[0].courses[0].subtasks).toEqual([{ id: 's1', title: 'Step 1' }]);
+    });
+
+    it('should keep definition links and leave out links the learner added', () => {
+      const definition = createDefinition();
+      (definition.weeks[0].courses[0] as { resources?: unknown }).resources = [
+        { type: 'lecture', url: 'https://example.com/lecture', title: '강의' }
+      ];
+      const weeks = curriculumDefinitionToWeeks(definition);
+
+      expect(weeks[0].courses[0].resources).toEqual([
+        { id: 'def-1', type: 'lecture', url: 'https://example.com/lecture', title: '강의' }
+      ]);
+
+      weeks[0].courses[0].resources!.push({ id: 'link-2', type: 'pr', url: 'https://example.com/pr/1', userAdded: true });
+      expect(weeksToCurriculumStructure(weeks)[0].courses[0].resources).toEqual([
+        { type: 'lecture', url: 'https://example.com/lecture', title: '강의' }
+      ]);
+    });
+
+    it('should keep previous ids', () => {
+      const definition = createDefinition();
+      (definition.weeks[1].courses[0] as { previousIds?: unknown }).previousIds = ['4-1'];
+      const weeks = curriculumDefinitionToWeeks(definition);
+
+      expect(weeks[1].courses[0].previousIds).toEqual(['4-1']);
+      expect(weeksToCurriculumStructure(weeks)[1].courses[0].previousIds).toEqual(['4-1']);
+    });
+
+    it('should keep estimated hours', () => {
+      const weeks = curriculumDefinitionToWeeks(createDefinition());
+      weeks[1].courses[0] = { ...weeks[1].courses[0], estimatedHours: 3 };
+
+      expect(weeksToCurriculumStructure(weeks)[1].courses[0]).toEqual({ id: '2-1', name: 'Course 3', estimatedHours: 3 });
+    });
+  });
+});
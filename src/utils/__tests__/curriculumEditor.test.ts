@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { generateCourseId, generateSubtaskId, generateWeekId, hasCourseProgress, moveItem } from '../curriculumEditor';
+import { Week } from '../../types/curriculum';
+
+describe('curriculumEditor', () => {
+  const mockWeeks: Week[] = [
+    {
+      id: 1,
+      title: '1주차',
+      courses: [
+        { id: '1-1', name: 'Course 1', status: 'not-started' },
+        { id: '1-2', name: 'Course 2', status: 'not-started' }
+      ],
+      progress: 0
+    },
+    {
+      id: 3,
+      title: '3주차',
+      courses: [{ id: '1-3', name: 'Moved from week 1', status: 'done' }],
+      progress: 100
+    }
+  ];
+
+  describe('generateWeekId', () => {
+    it('should return 1 for an empty curriculum', () => {
+      expect(generateWeekId([])).toBe(1);
+    });
+
+    it('should return one more than the highest id, not the week count', () => {
+      expect(generateWeekId(mockWeeks)).toBe(4);
+    });
+  });
+
+  describe('generateCourseId', () => {
+    it('should follow the weekId-number convention', () => {
+      expect(generateCourseId(mockWeeks, 3)).toBe('3-2');
+    });
+
+    it('should skip ids used anywhere in the curriculum', () => {
+      // "1-3" already belongs to a course that was moved to week 3
+      expect(generateCourseId(mockWeeks, 1)).toBe('1-4');
+    });
+
+    it('should skip previous ids and reserved ids', () => {
+      const weeks: Week[] = [
+        { id: 5, title: '5주차', courses: [{ id: '2-1', name: 'Moved', status: 'not-started', previousIds: ['5-1'] }], progress: 0 }
+      ];
+
+      expect(generateCourseId(weeks, 5, ['5-2'])).toBe('5-3');
+    });
+
+    it('should start at 1 for an empty or unknown week', () => {
+      expect(generateCourseId(mockWeeks, 5)).toBe('5-1');
+    });
+  });
+
+  describe('generateSubtaskId', () => {
+    it('should start at s1 for a course without subtasks', () => {
+      expect(generateSubtaskId(mockWeeks[0].courses[0])).toBe('s1');
+    });
+
+    it('should skip ids that are already used', () => {
+      expect(generateSubtaskId({
+        id: '1-1',
+        name: 'Course 1',
+        status: 'not-started',
+        subtasks: [{ id: 's2', title: 'B', completed: false }]
+      })).toBe('s3');
+    });
+  });
+
+  describe('hasCourseProgress', () => {
+    it('should ignore links from the definition but not links the learner added', () => {
+      const course = mockWeeks[0].courses[0];
+      const link = { id: 'def-1', type: 'docs' as const, url: 'https://example.com/docs' };
+
+      expect(hasCourseProgress(course)).toBe(false);
+      expect(hasCourseProgress({ ...course, resources: [link] })).toBe(false);
+      expect(hasCourseProgress({ ...course, resources: [{ ...link, userAdded: true }] })).toBe(true);
+      expect(hasCourseProgress({ ...course, notes: '메모' })).toBe(true);
+    });
+  });
+
+  describe('moveItem', () => {
+    const items = ['a', 'b', 'c'];
+
+    it('should move an item to a new index without mutating the input', () => {
+      expect(moveItem(items, 0, 2)).toEqual(['b', 'c', 'a']);
+      expect(items).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should clamp the target index to the list bounds', () => {
+      expect(moveItem(items, 1, 10)).toEqual(['a', 'c', 'b']);
+      expect(moveItem(items, 1, -1)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should return the same array when nothing moves', () => {
+      expect(moveItem(items, 1, 1)).toBe(items);
+      expect(moveItem(items, 5, 0)).toBe(items);
+    });
+  });
+});
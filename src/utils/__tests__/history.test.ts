@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createCurriculumHistory,
+  getHistoryStorageKey,
+  HISTORY_LIMIT,
+  loadSessionHistory,
+  saveSessionHistory,
+  withHistory
+} from '../history';
+import { CurriculumAction, CurriculumState } from '../../types/curriculum';
+
+const initialState: CurriculumState = {
+  weeks: [{
+    id: 1,
+    title: '1주차',
+    progress: 0,
+    courses: [{ id: '1-1', name: 'QA 이슈 해결', status: 'not-started' }]
+  }],
+  overallProgress: 0
+};
+
+// Minimal reducer: SET_NOTES edits the course, DISMISS_PREREQUISITE_WARNING clears the warning, LOAD_DATA replaces the state
+const reducer = (state: CurriculumState, action: CurriculumAction): CurriculumState => {
+  switch (action.type) {
+    case 'SET_NOTES':
+      return {
+        ...state,
+        weeks: state.weeks.map(week => ({
+          ...week,
+          courses: week.courses.map(course => ({ ...course, notes: action.payload.notes }))
+        }))
+      };
+    case 'DISMISS_PREREQUISITE_WARNING':
+      return { ...state, prerequisiteWarning: undefined };
+    case 'LOAD_DATA':
+      return action.payload.data!;
+    default:
+      return state;
+  }
+};
+
+const historyReducer = withHistory(reducer);
+const setNotes = (notes: string): CurriculumAction => ({ type: 'SET_NOTES', payload: { weekId: 1, courseId: '1-1', notes } });
+const notesOf = (state: CurriculumState) => state.weeks[0].courses[0].notes;
+
+describe('history', () => {
+  describe('withHistory', () => {
+    it('should undo and redo a change, labelled with the course name', () => {
+      const changed = historyReducer(createCurriculumHistory(initialState), setNotes('메모'));
+      expect(changed.lastChange).toEqual({ kind: 'change', label: 'QA 이슈 해결: 메모 수정', id: 1 });
+
+      const undone = historyReducer(changed, { type: 'UNDO', payload: {} });
+      expect(notesOf(undone.present)).toBeUndefined();
+      expect(undone.future).toHaveLength(1);
+      expect(undone.lastChange).toEqual({ kind: 'undo', label: 'QA 이슈 해결: 메모 수정', id: 2 });
+
+      const redone = historyReducer(undone, { type: 'REDO', payload: {} });
+      expect(notesOf(redone.present)).toBe('메모');
+      expect(redone.past).toHaveLength(1);
+      expect(redone.lastChange?.kind).toBe('redo');
+    });
+
+    it('should drop undone changes when a new change is made', () => {
+      let history = historyReducer(createCurriculumHistory(initialState), setNotes('첫 메모'));
+      history = historyReducer(history, { type: 'UNDO', payload: {} });
+      history = historyReducer(history, setNotes('둘째 메모'));
+
+      expect(history.future).toEqual([]);
+      expect(historyReducer(history, { type: 'REDO', payload: {} })).toBe(history);
+    });
+
+    it(`should keep at most ${HISTORY_LIMIT} changes`, () => {
+      let history = createCurriculumHistory(initialState);
+      for (let index = 0; index <= HISTORY_LIMIT; index++) {
+        history = historyReducer(history, setNotes(`메모 ${index}`));
+      }
+
+      expect(history.past).toHaveLength(HISTORY_LIMIT);
+      expect(notesOf(history.past[0].state)).toBe('메모 0');
+    });
+
+    it('should not record actions that are not undoable', () => {
+      const warned = { ...initialState, prerequisiteWarning: { weekId: 1, courseId: '1-1', openPrerequisiteIds: ['0-1'] } };
+      const history = historyReducer(createCurriculumHistory(warned), { type: 'DISMISS_PREREQUISITE_WARNING', payload: {} });
+
+      expect(history.present.prerequisiteWarning).toBeUndefined();
+      expect(history.past).toEqual([]);
+      expect(history.lastChange).toBeNull();
+    });
+
+    it('should start a new history when data is loaded', () => {
+      const changed = historyReducer(createCurriculumHistory(initialState), setNotes('메모'));
+      const loaded = historyReducer(changed, { type: 'LOAD_DATA', payload: { data: initialState } });
+
+      expect(loaded).toEqual(createCurriculumHistory(initialState));
+    });
+  });
+
+  describe('session history', () => {
+    beforeEach(() => {
+      sessionStorage.clear();
+    });
+
+    it('should restore the stacks when the loaded progress matches', () => {
+      const changed = historyReducer(createCurriculumHistory(initialState), setNotes('메모'));
+      saveSessionHistory('frontend', changed);
+
+      const restored = loadSessionHistory('frontend', changed.present, initialState);
+
+      expect(restored?.past).toHaveLength(1);
+      expect(notesOf(restored!.past[0].state)).toBeUndefined();
+      expect(restored?.past[0].label).toBe('QA 이슈 해결: 메모 수정');
+      expect(restored?.future).toEqual([]);
+    });
+
+    it('should ignore stacks saved for different progress', () => {
+      const changed = historyReducer(createCurriculumHistory(initialState), setNotes('메모'));
+      saveSessionHistory('frontend', changed);
+
+      expect(loadSessionHistory('frontend', initialState, initialState)).toBeNull();
+    });
+
+    it('should ignore unreadable stacks', () => {
+      sessionStorage.setItem(getHistoryStorageKey('frontend'), '{not json');
+
+      expect(loadSessionHistory('frontend', initialState, initialState)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addLearnerProfile,
+  createProfileStorageAdapter,
+  DEFAULT_PROFILE_ID,
+  getProfileProgressKeys,
+  getProfileStorageKey,
+  LearnerProfileError,
+  loadActiveProfileId,
+  loadLearnerProfiles,
+  removeLearnerProfile,
+  renameLearnerProfile,
+  saveActiveProfileId,
+  saveLearnerProfiles
+} from '../learnerProfiles';
+import { getStorageKey } from '../localStorage';
+import { getSnapshotStorageKey } from '../progressSnapshots';
+import { getHistoryStorageKey } from '../history';
+import { createMemoryStorageAdapter } from '../storageAdapters';
+
+describe('learnerProfiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep the original keys for the default profile and namespace the others', () => {
+    expect(getProfileStorageKey(getStorageKey('frontend'), DEFAULT_PROFILE_ID)).toBe('curriculum-progress-tracker');
+    expect(getProfileStorageKey(getStorageKey('frontend'), 'profile-a1')).toBe('curriculum-progress-tracker:profile:profile-a1');
+    expect(getProfileStorageKey(getSnapshotStorageKey('backend'), 'profile-a1'))
+      .toBe('curriculum-progress-tracker:profile:profile-a1:backend:snapshots');
+    expect(getHistoryStorageKey('frontend', 'profile-a1')).toBe('curriculum-progress-tracker:profile:profile-a1:history');
+    expect(getProfileProgressKeys('profile-a1')).toContain('curriculum-progress-tracker:profile:profile-a1');
+  });
+
+  it('should store values of a profile under its own keys', async () => {
+    const storage = createMemoryStorageAdapter({ [getStorageKey('frontend')]: 'default progress' });
+    const profileStorage = createProfileStorageAdapter(storage, 'profile-a1');
+
+    expect(await profileStorage.load(getStorageKey('frontend'))).toBeNull();
+    await profileStorage.save(getStorageKey('frontend'), 'profile progress');
+
+    expect(await storage.load(getStorageKey('frontend'))).toBe('default progress');
+    expect(await storage.load('curriculum-progress-tracker:profile:profile-a1')).toBe('profile progress');
+    expect(createProfileStorageAdapter(storage, DEFAULT_PROFILE_ID)).toBe(storage);
+  });
+
+  it('should always list the default profile first', () => {
+    expect(loadLearnerProfiles()).toEqual([expect.objectContaining({ id: DEFAULT_PROFILE_ID, name: '기본 프로필' })]);
+
+    const { profiles } = addLearnerProfile(loadLearnerProfiles(), '민지', new Date('2024-02-01T00:00:00.000Z'));
+    saveLearnerProfiles(renameLearnerProfile(profiles, DEFAULT_PROFILE_ID, '공용'));
+
+    expect(loadLearnerProfiles().map(profile => profile.name)).toEqual(['공용', '민지']);
+  });
+
+  it('should add profiles with unique ids and reject unusable names', () => {
+    const now = new Date('2024-02-01T00:00:00.000Z');
+    const first = addLearnerProfile(loadLearnerProfiles(), ' 민지 ', now);
+    const second = addLearnerProfile(first.profiles, '준호', now);
+
+    expect(first.profile.name).toBe('민지');
+    expect(second.profile.id).not.toBe(first.profile.id);
+    expect(() => addLearnerProfile(second.profiles, '민지')).toThrow(LearnerProfileError);
+    expect(() => addLearnerProfile(second.profiles, '   ')).toThrow('프로필 이름을 입력하세요.');
+    expect(() => renameLearnerProfile(second.profiles, second.profile.id, '민지')).toThrow(LearnerProfileError);
+    expect(renameLearnerProfile(second.profiles, second.profile.id, '준호')).toEqual(second.profiles);
+  });
+
+  it('should remove profiles except the default one', () => {
+    const { profiles, profile } = addLearnerProfile(loadLearnerProfiles(), '민지');
+
+    expect(removeLearnerProfile(profiles, profile.id)).toEqual(loadLearnerProfiles());
+    expect(() => removeLearnerProfile(profiles, DEFAULT_PROFILE_ID)).toThrow(LearnerProfileError);
+  });
+
+  it('should remember the active profile while it exists', () => {
+    const { profiles, profile } = addLearnerProfile(loadLearnerProfiles(), '민지');
+    saveActiveProfileId(profile.id);
+
+    expect(loadActiveProfileId(profiles)).toBe(profile.id);
+    expect(loadActiveProfileId(removeLearnerProfile(profiles, profile.id))).toBe(DEFAULT_PROFILE_ID);
+  });
+});
@@ -41,7 +41,7 @@ describe('localStorage integration', () => {
     localStorageMock.clear();
   });
 
-  it('should handle complete save and load cycle', () => {
+  it('should handle complete save and load cycle', async () => {
     const initialState = getInitialCurriculumState();
     
     // Modify some data
@@ -55,7 +55,7 @@ describe('localStorage integration', () => {
                 courseIndex === 0 
                   ? {
                       ...course,
-                      completed: true,
+                      status: 'done',
                       startDate: new Date('2024-01-01'),
                       endDate: new Date('2024-01-07')
                     }
@@ -67,31 +67,31 @@ describe('localStorage integration', () => {
     };
 
     // Save the modified state
-    const saveResult = saveCurriculumState(modifiedState);
+    const saveResult = await saveCurriculumState(modifiedState);
     expect(saveResult).toBe(true);
 
     // Load the state back
-    const loadedState = loadCurriculumState(initialState);
+    const loadedState = await loadCurriculumState(initialState);
     expect(loadedState).toBeTruthy();
     
     if (loadedState) {
       // Verify the data was preserved
-      expect(loadedState.weeks[0].courses[0].completed).toBe(true);
+      expect(loadedState.weeks[0].courses[0].status).toBe('done');
       expect(loadedState.weeks[0].courses[0].startDate).toEqual(new Date('2024-01-01'));
       expect(loadedState.weeks[0].courses[0].endDate).toEqual(new Date('2024-01-07'));
       
       // Verify other courses remain unchanged
-      expect(loadedState.weeks[0].courses[1].completed).toBe(false);
+      expect(loadedState.weeks[0].courses[1].status).toBe('not-started');
       expect(loadedState.weeks[0].courses[1].startDate).toBeUndefined();
       expect(loadedState.weeks[0].courses[1].endDate).toBeUndefined();
     }
   });
 
-  it('should handle partial data updates', () => {
+  it('should handle partial data updates', async () => {
     const initialState = getInitialCurriculumState();
     
     // Save initial state
-    saveCurriculumState(initialState);
+    await saveCurriculumState(initialState);
     
     // Modify only completion status
     const partiallyModifiedState: CurriculumState = {
@@ -102,7 +102,7 @@ describe('localStorage integration', () => {
               ...week,
               courses: week.courses.map((course, courseIndex) => 
                 courseIndex === 0 
-                  ? { ...course, completed: true }
+                  ? { ...course, status: 'done' }
                   : course
               )
             }
@@ -111,20 +111,20 @@ describe('localStorage integration', () => {
     };
 
     // Save the partially modified state
-    saveCurriculumState(partiallyModifiedState);
+    await saveCurriculumState(partiallyModifiedState);
 
     // Load and verify
-    const loadedState = loadCurriculumState(initialState);
+    const loadedState = await loadCurriculumState(initialState);
     expect(loadedState).toBeTruthy();
     
     if (loadedState) {
-      expect(loadedState.weeks[0].courses[0].completed).toBe(true);
+      expect(loadedState.weeks[0].courses[0].status).toBe('done');
       expect(loadedState.weeks[0].courses[0].startDate).toBeUndefined();
       expect(loadedState.weeks[0].courses[0].endDate).toBeUndefined();
     }
   });
 
-  it('should handle multiple weeks and courses', () => {
+  it('should handle multiple weeks and courses', async () => {
     const initialState = getInitialCurriculumState();
     
     // Modify data across multiple weeks
@@ -136,7 +136,7 @@ describe('localStorage integration', () => {
           weekIndex < 2 && courseIndex === 0
             ? {
                 ...course,
-                completed: true,
+                status: 'done',
                 startDate: new Date(`2024-0${weekIndex + 1}-01`),
                 endDate: new Date(`2024-0${weekIndex + 1}-07`)
               }
@@ -146,22 +146,22 @@ describe('localStorage integration', () => {
     };
 
     // Save and load
-    saveCurriculumState(multiWeekModifiedState);
-    const loadedState = loadCurriculumState(initialState);
+    await saveCurriculumState(multiWeekModifiedState);
+    const loadedState = await loadCurriculumState(initialState);
     
     expect(loadedState).toBeTruthy();
     
     if (loadedState) {
       // Check first week
-      expect(loadedState.weeks[0].courses[0].completed).toBe(true);
+      expect(loadedState.weeks[0].courses[0].status).toBe('done');
       expect(loadedState.weeks[0].courses[0].startDate).toEqual(new Date('2024-01-01'));
       
       // Check second week
-      expect(loadedState.weeks[1].courses[0].completed).toBe(true);
+      expect(loadedState.weeks[1].courses[0].status).toBe('done');
       expect(loadedState.weeks[1].courses[0].startDate).toEqual(new Date('2024-02-01'));
       
       // Check third week (should be unchanged)
-      expect(loadedState.weeks[2].courses[0].completed).toBe(false);
+      expect(loadedState.weeks[2].courses[0].status).toBe('not-started');
       expect(loadedState.weeks[2].courses[0].startDate).toBeUndefined();
     }
   });
@@ -2,11 +2,15 @@
  * Tests for localStorage utilities
  */
 
+import { vi } from 'vitest';
 import { 
   saveCurriculumState, 
   loadCurriculumState, 
   clearCurriculumState, 
-  getStorageInfo 
+  getStorageInfo,
+  getStorageKey,
+  saveActiveCurriculumId,
+  loadActiveCurriculumId
 } from '../localStorage';
 import { CurriculumState } from '../../types/curriculum';
 
@@ -75,14 +79,14 @@ const mockCurriculumState: CurriculumState = {
         { 
           id: "1-1", 
           name: "Test Course 1", 
-          completed: true,
+          status: 'done',
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-01-07')
         },
         { 
           id: "1-2", 
           name: "Test Course 2", 
-          completed: false 
+          status: 'not-started' 
         }
       ],
       progress: 50
@@ -97,8 +101,8 @@ const initialState: CurriculumState = {
       id: 1,
       title: "1주차",
       courses: [
-        { id: "1-1", name: "Test Course 1", completed: false },
-        { id: "1-2", name: "Test Course 2", completed: false }
+        { id: "1-1", name: "Test Course 1", status: 'not-started' },
+        { id: "1-2", name: "Test Course 2", status: 'not-started' }
       ],
       progress: 0
     }
@@ -113,31 +117,31 @@ describe('localStorage utilities', () => {
   });
 
   describe('saveCurriculumState', () => {
-    it('should save curriculum state successfully', () => {
-      const result = saveCurriculumState(mockCurriculumState);
+    it('should save curriculum state successfully', async () => {
+      const result = await saveCurriculumState(mockCurriculumState);
       expect(result).toBe(true);
       
       const stored = localStorageMock.getItem('curriculum-progress-tracker');
       expect(stored).toBeTruthy();
       
       const parsedData = JSON.parse(stored!);
-      expect(parsedData.version).toBe('1.0.0');
+      expect(parsedData.version).toBe('1.1.0');
       expect(parsedData.curriculum).toBeDefined();
       expect(parsedData.lastUpdated).toBeDefined();
     });
 
-    it('should handle localStorage errors gracefully', () => {
+    it('should handle localStorage errors gracefully', async () => {
       // Mock localStorage to throw an error
       localStorageMock._setShouldThrowError(true, new Error('Storage error'));
 
-      const result = saveCurriculumState(mockCurriculumState);
+      const result = await saveCurriculumState(mockCurriculumState);
       expect(result).toBe(false);
 
       // Reset mock
       localStorageMock._setShouldThrowError(false);
     });
 
-    it('should handle quota exceeded error', () => {
+    it('should handle quota exceeded error', async () => {
       // Mock localStorage to throw QuotaExceededError on first call, succeed on second
       let callCount = 0;
       const originalSetItem = localStorageMock.setItem;
@@ -160,7 +164,7 @@ describe('localStorage utilities', () => {
         originalSetItem.call(localStorageMock, key, value);
       };
 
-      const result = saveCurriculumState(mockCurriculumState);
+      const result = await saveCurriculumState(mockCurriculumState);
       expect(result).toBe(true);
       expect(callCount).toBe(2);
 
@@ -170,29 +174,29 @@ describe('localStorage utilities', () => {
   });
 
   describe('loadCurriculumState', () => {
-    it('should load curriculum state successfully', () => {
+    it('should load curriculum state successfully', async () => {
       // First save some data
-      saveCurriculumState(mockCurriculumState);
+      await saveCurriculumState(mockCurriculumState);
       
       // Then load it
-      const loadedState = loadCurriculumState(initialState);
+      const loadedState = await loadCurriculumState(initialState);
       expect(loadedState).toBeTruthy();
       expect(loadedState!.weeks).toHaveLength(1);
-      expect(loadedState!.weeks[0].courses[0].completed).toBe(true);
+      expect(loadedState!.weeks[0].courses[0].status).toBe('done');
       expect(loadedState!.weeks[0].courses[0].startDate).toEqual(new Date('2024-01-01'));
       expect(loadedState!.weeks[0].courses[0].endDate).toEqual(new Date('2024-01-07'));
     });
 
-    it('should return null when no data exists', () => {
-      const loadedState = loadCurriculumState(initialState);
+    it('should return null when no data exists', async () => {
+      const loadedState = await loadCurriculumState(initialState);
       expect(loadedState).toBeNull();
     });
 
-    it('should handle corrupted data gracefully', () => {
+    it('should handle corrupted data gracefully', async () => {
       // Store invalid JSON
       localStorageMock.setItem('curriculum-progress-tracker', 'invalid json');
       
-      const loadedState = loadCurriculumState(initialState);
+      const loadedState = await loadCurriculumState(initialState);
       expect(loadedState).toBeNull();
       
       // Should clear corrupted data
@@ -200,7 +204,7 @@ describe('localStorage utilities', () => {
       expect(stored).toBeNull();
     });
 
-    it('should handle invalid data structure', () => {
+    it('should handle invalid data structure', async () => {
       // Store valid JSON but invalid structure
       localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
         version: '1.0.0',
@@ -208,11 +212,11 @@ describe('localStorage utilities', () => {
         curriculum: 'invalid structure'
       }));
       
-      const loadedState = loadCurriculumState(initialState);
+      const loadedState = await loadCurriculumState(initialState);
       expect(loadedState).toBeNull();
     });
 
-    it('should handle version mismatch', () => {
+    it('should handle version mismatch', async () => {
       // Store data with different version
       const invalidVersionData = {
         version: '2.0.0',
@@ -221,48 +225,355 @@ describe('localStorage utilities', () => {
       };
       localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify(invalidVersionData));
       
-      const loadedState = loadCurriculumState(initialState);
+      const loadedState = await loadCurriculumState(initialState);
       expect(loadedState).toBeNull();
+
+      // Data from an unknown version is kept as a backup instead of being lost
+      expect(JSON.parse(localStorageMock.getItem('curriculum-progress-tracker:backup:2.0.0')!)).toEqual(invalidVersionData);
     });
   });
 
   describe('clearCurriculumState', () => {
-    it('should clear stored data successfully', () => {
+    it('should clear stored data successfully', async () => {
       // First save some data
-      saveCurriculumState(mockCurriculumState);
+      await saveCurriculumState(mockCurriculumState);
       expect(localStorageMock.getItem('curriculum-progress-tracker')).toBeTruthy();
       
       // Then clear it
-      const result = clearCurriculumState();
+      const result = await clearCurriculumState();
       expect(result).toBe(true);
       expect(localStorageMock.getItem('curriculum-progress-tracker')).toBeNull();
     });
   });
 
   describe('getStorageInfo', () => {
-    it('should return correct info when data exists', () => {
-      saveCurriculumState(mockCurriculumState);
+    it('should return correct info when data exists', async () => {
+      await saveCurriculumState(mockCurriculumState);
       
-      const info = getStorageInfo();
+      const info = await getStorageInfo();
       expect(info.hasData).toBe(true);
-      expect(info.version).toBe('1.0.0');
+      expect(info.version).toBe('1.1.0');
       expect(info.lastUpdated).toBeDefined();
       expect(info.size).toBeGreaterThan(0);
     });
 
-    it('should return correct info when no data exists', () => {
-      const info = getStorageInfo();
+    it('should return correct info when no data exists', async () => {
+      const info = await getStorageInfo();
       expect(info.hasData).toBe(false);
       expect(info.version).toBeUndefined();
       expect(info.lastUpdated).toBeUndefined();
       expect(info.size).toBeUndefined();
     });
 
-    it('should handle corrupted data gracefully', () => {
+    it('should handle corrupted data gracefully', async () => {
       localStorageMock.setItem('curriculum-progress-tracker', 'invalid json');
       
-      const info = getStorageInfo();
+      const info = await getStorageInfo();
       expect(info.hasData).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('multiple curricula', () => {
+    it('should keep the original key for the default curriculum', async () => {
+      expect(getStorageKey()).toBe('curriculum-progress-tracker');
+      expect(getStorageKey('frontend')).toBe('curriculum-progress-tracker');
+      expect(getStorageKey('backend')).toBe('curriculum-progress-tracker:backend');
+    });
+
+    it('should store progress of each curriculum separately', async () => {
+      await saveCurriculumState(mockCurriculumState, 'backend');
+
+      expect(localStorageMock.getItem('curriculum-progress-tracker')).toBeNull();
+      expect((await loadCurriculumState(initialState, 'backend'))!.weeks[0].courses[0].status).toBe('done');
+      expect(await loadCurriculumState(initialState)).toBeNull();
+
+      await clearCurriculumState('backend');
+      expect((await getStorageInfo('backend')).hasData).toBe(false);
+    });
+
+    it('should remember the active curriculum', async () => {
+      expect(loadActiveCurriculumId()).toBeNull();
+
+      expect(saveActiveCurriculumId('backend')).toBe(true);
+      expect(loadActiveCurriculumId()).toBe('backend');
+    });
+  });
+
+  describe('edited curriculum structure', () => {
+    const customizedState: CurriculumState = {
+      weeks: [
+        {
+          id: 2,
+          title: '첫 주차',
+          courses: [
+            { id: '2-1', name: 'Course 3', status: 'not-started' },
+            { id: '1-1', name: 'Renamed Course 1', status: 'done' }
+          ],
+          progress: 50
+        }
+      ],
+      overallProgress: 50,
+      customized: true
+    };
+
+    it('should not store a structure for an unedited curriculum', async () => {
+      await saveCurriculumState(mockCurriculumState);
+
+      const stored = JSON.parse(localStorageMock.getItem('curriculum-progress-tracker')!);
+      expect(stored.structure).toBeUndefined();
+    });
+
+    it('should restore edited weeks and keep progress attached to course ids', async () => {
+      await saveCurriculumState(customizedState);
+
+      const loadedState = await loadCurriculumState(initialState);
+      expect(loadedState!.customized).toBe(true);
+      expect(loadedState!.weeks).toHaveLength(1);
+      expect(loadedState!.weeks[0].title).toBe('첫 주차');
+      expect(loadedState!.weeks[0].courses.map(course => course.id)).toEqual(['2-1', '1-1']);
+      expect(loadedState!.weeks[0].courses[1]).toMatchObject({ name: 'Renamed Course 1', status: 'done' });
+    });
+
+    it('should reject a stored structure with duplicate course ids', async () => {
+      localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: new Date().toISOString(),
+        curriculum: {},
+        structure: [
+          { id: 1, title: '1주차', courses: [{ id: '1-1', name: 'A' }, { id: '1-1', name: 'B' }] }
+        ]
+      }));
+
+      expect(await loadCurriculumState(initialState)).toBeNull();
+    });
+  });
+
+  describe('subtasks', () => {
+    const subtaskState: CurriculumState = {
+      weeks: [
+        {
+          id: 1,
+          title: '1주차',
+          courses: [
+            {
+              id: '1-1',
+              name: 'Course 1',
+              status: 'not-started',
+              subtasks: [
+                { id: 's1', title: 'Add the page', completed: true },
+                { id: 's2', title: 'Wire up the API', completed: false }
+              ]
+            }
+          ],
+          progress: 50
+        }
+      ],
+      overallProgress: 50
+    };
+    const subtaskInitialState: CurriculumState = {
+      ...subtaskState,
+      weeks: subtaskState.weeks.map(week => ({
+        ...week,
+        courses: week.courses.map(course => ({
+          ...course,
+          subtasks: course.subtasks!.map(subtask => ({ ...subtask, status: 'not-started' }))
+        }))
+      }))
+    };
+
+    it('should store the ids of checked subtasks', async () => {
+      await saveCurriculumState(subtaskState);
+
+      const stored = JSON.parse(localStorageMock.getItem('curriculum-progress-tracker')!);
+      expect(stored.curriculum['1']['1-1'].completedSubtasks).toEqual(['s1']);
+    });
+
+    it('should restore checked subtasks', async () => {
+      await saveCurriculumState(subtaskState);
+
+      const loadedState = await loadCurriculumState(subtaskInitialState);
+      expect(loadedState!.weeks[0].courses[0].subtasks!.map(subtask => subtask.completed)).toEqual([true, false]);
+    });
+
+    it('should reject malformed subtask progress', async () => {
+      localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: new Date().toISOString(),
+        curriculum: { '1': { '1-1': { status: 'not-started', completedSubtasks: 's1' } } }
+      }));
+
+      expect(await loadCurriculumState(subtaskInitialState)).toBeNull();
+    });
+  });
+
+  describe('course statuses', () => {
+    it('should store the course status instead of a completion flag', async () => {
+      await saveCurriculumState({
+        ...mockCurriculumState,
+        weeks: mockCurriculumState.weeks.map(week => ({
+          ...week,
+          courses: week.courses.map(course => ({ ...course, status: 'blocked' as const }))
+        }))
+      });
+
+      const stored = JSON.parse(localStorageMock.getItem('curriculum-progress-tracker')!);
+      expect(stored.curriculum['1']['1-1']).toMatchObject({ status: 'blocked' });
+      expect(stored.curriculum['1']['1-1'].completed).toBeUndefined();
+    });
+
+    it('should migrate completed flags saved by earlier versions', async () => {
+      localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: new Date().toISOString(),
+        curriculum: { '1': { '1-1': { completed: true }, '1-2': { completed: false } } }
+      }));
+
+      const onMigrated = vi.fn();
+      const loadedState = await loadCurriculumState(initialState, undefined, { onMigrated });
+      expect(loadedState!.weeks[0].courses.map(course => course.status)).toEqual(['done', 'not-started']);
+
+      // The upgraded data is saved back, and the original payload is kept as a backup
+      expect(JSON.parse(localStorageMock.getItem('curriculum-progress-tracker')!)).toMatchObject({
+        version: '1.1.0',
+        curriculum: { '1': { '1-1': { status: 'done' }, '1-2': { status: 'not-started' } } }
+      });
+      expect(JSON.parse(localStorageMock.getItem('curriculum-progress-tracker:backup:1.0.0')!).version).toBe('1.0.0');
+      expect(onMigrated).toHaveBeenCalledWith({
+        fromVersion: '1.0.0',
+        toVersion: '1.1.0',
+        applied: [expect.objectContaining({ from: '1.0.0', to: '1.1.0' })],
+        backupKey: 'curriculum-progress-tracker:backup:1.0.0'
+      });
+    });
+
+    it('should not report migrations for data in the current format', async () => {
+      await saveCurriculumState(mockCurriculumState);
+      const onMigrated = vi.fn();
+
+      expect(await loadCurriculumState(initialState, undefined, { onMigrated })).not.toBeNull();
+      expect(onMigrated).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown statuses', async () => {
+      localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: new Date().toISOString(),
+        curriculum: { '1': { '1-1': { status: 'finished' } } }
+      }));
+
+      expect(await loadCurriculumState(initialState)).toBeNull();
+    });
+  });
+
+  describe('course notes', () => {
+    it('should save and restore notes with the course progress', async () => {
+      await saveCurriculumState({
+        ...mockCurriculumState,
+        weeks: mockCurriculumState.weeks.map(week => ({
+          ...week,
+          courses: week.courses.map(course => (course.id === '1-2' ? { ...course, notes: '# 메모' } : course))
+        }))
+      });
+
+      const stored = JSON.parse(localStorageMock.getItem('curriculum-progress-tracker')!);
+      expect(stored.curriculum['1']['1-2'].notes).toBe('# 메모');
+      expect((await loadCurriculumState(initialState))!.weeks[0].courses[1].notes).toBe('# 메모');
+    });
+
+    it('should reject notes that are not text', async () => {
+      localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: new Date().toISOString(),
+        curriculum: { '1': { '1-1': { status: 'done', notes: 42 } } }
+      }));
+
+      expect(await loadCurriculumState(initialState)).toBeNull();
+    });
+  });
+
+  describe('resource links', () => {
+    const learnerLink = { id: 'link-1', type: 'repo' as const, url: 'https://example.com/repo', userAdded: true };
+
+    it('should save only the links the learner added and restore them after definition links', async () => {
+      const definitionLink = { id: 'def-1', type: 'lecture' as const, url: 'https://example.com/lecture' };
+      const initialWithLinks = {
+        ...initialState,
+        weeks: initialState.weeks.map(week => ({
+          ...week,
+          courses: week.courses.map(course => (course.id === '1-1' ? { ...course, resources: [definitionLink] } : course))
+        }))
+      };
+
+      await saveCurriculumState({
+        ...initialWithLinks,
+        weeks: initialWithLinks.weeks.map(week => ({
+          ...week,
+          courses: week.courses.map(course =>
+            course.id === '1-1' ? { ...course, resources: [definitionLink, learnerLink] } : course
+          )
+        }))
+      });
+
+      const stored = JSON.parse(localStorageMock.getItem('curriculum-progress-tracker')!);
+      expect(stored.curriculum['1']['1-1'].resources).toEqual([
+        { id: 'link-1', type: 'repo', url: 'https://example.com/repo' }
+      ]);
+      expect((await loadCurriculumState(initialWithLinks))!.weeks[0].courses[0].resources).toEqual([definitionLink, learnerLink]);
+    });
+
+    it('should reject links with unsafe urls', async () => {
+      localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: new Date().toISOString(),
+        curriculum: { '1': { '1-1': { status: 'done', resources: [{ id: 'link-1', type: 'repo', url: 'javascript:alert(1)' }] } } }
+      }));
+
+      expect(await loadCurriculumState(initialState)).toBeNull();
+    });
+  });
+
+  describe('orphaned progress', () => {
+    const storeProgress = (curriculum: Record<string, Record<string, object>>) => {
+      localStorageMock.setItem('curriculum-progress-tracker', JSON.stringify({
+        version: '1.1.0',
+        lastUpdated: new Date().toISOString(),
+        curriculum
+      }));
+    };
+
+    it('should keep progress of unknown courses and save it back', async () => {
+      storeProgress({ '1': { '1-1': { status: 'done' }, '1-9': { status: 'in-progress', notes: 'kept' } } });
+
+      const loaded = (await loadCurriculumState(initialState))!;
+      expect(loaded.weeks[0].courses[0].status).toBe('done');
+      expect(loaded.orphanedProgress).toEqual([
+        { weekId: '1', courseId: '1-9', progress: { status: 'in-progress', notes: 'kept' } }
+      ]);
+
+      await saveCurriculumState(loaded);
+      const stored = JSON.parse(localStorageMock.getItem('curriculum-progress-tracker')!);
+      expect(stored.curriculum['1']['1-9']).toEqual({ status: 'in-progress', notes: 'kept' });
+    });
+
+    it('should not keep unknown courses without progress', async () => {
+      storeProgress({ '1': { '1-9': { status: 'not-started' } } });
+
+      expect((await loadCurriculumState(initialState))!.orphanedProgress).toBeUndefined();
+    });
+
+    it('should move progress to courses listed under previousIds', async () => {
+      storeProgress({ '4': { '4-1': { status: 'done', notes: 'moved' } } });
+      const renamedState: CurriculumState = {
+        ...initialState,
+        weeks: initialState.weeks.map(week => ({
+          ...week,
+          courses: week.courses.map(course => (course.id === '1-2' ? { ...course, previousIds: ['4-1'] } : course))
+        }))
+      };
+
+      const loaded = (await loadCurriculumState(renamedState))!;
+      expect(loaded.weeks[0].courses[1]).toMatchObject({ id: '1-2', status: 'done', notes: 'moved' });
+      expect(loaded.orphanedProgress).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown, sanitizeUrl } from '../markdown';
+
+describe('markdown', () => {
+  describe('sanitizeUrl', () => {
+    it('should keep web and mail links', () => {
+      expect(sanitizeUrl(' https://example.com/a ')).toBe('https://example.com/a');
+      expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com');
+    });
+
+    it('should reject script, data and relative urls', () => {
+      expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('JavaScript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,<b>x</b>')).toBeNull();
+      expect(sanitizeUrl('/local/path')).toBeNull();
+    });
+  });
+
+  describe('parseInline', () => {
+    it('should parse code, bold, italic and links', () => {
+      expect(parseInline('a `b` **c** *d* _e_ [f](https://x.dev)')).toEqual([
+        { type: 'text', text: 'a ' },
+        { type: 'code', text: 'b' },
+        { type: 'text', text: ' ' },
+        { type: 'strong', children: [{ type: 'text', text: 'c' }] },
+        { type: 'text', text: ' ' },
+        { type: 'emphasis', children: [{ type: 'text', text: 'd' }] },
+        { type: 'text', text: ' ' },
+        { type: 'emphasis', children: [{ type: 'text', text: 'e' }] },
+        { type: 'text', text: ' ' },
+        { type: 'link', href: 'https://x.dev', children: [{ type: 'text', text: 'f' }] }
+      ]);
+    });
+
+    it('should leave underscores inside words alone', () => {
+      expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+    });
+
+    it('should show unsafe links as plain text', () => {
+      expect(parseInline('[click](javascript:alert(1))')).toEqual([
+        { type: 'text', text: '[click](javascript:alert(1)' },
+        { type: 'text', text: ')' }
+      ]);
+    });
+
+    it('should not interpret html', () => {
+      expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([
+        { type: 'text', text: '<img src=x onerror=alert(1)>' }
+      ]);
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should parse headings, paragraphs and lists', () => {
+      const blocks = parseMarkdown('# 정리\n첫 줄\n둘째 줄\n\n- 하나\n- 둘\n\n1. 첫째\n2. 둘째');
+
+      expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'list', 'list']);
+      expect(blocks[1]).toEqual({ type: 'paragraph', children: [{ type: 'text', text: '첫 줄 둘째 줄' }] });
+      expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ text: '하나' }], [{ text: '둘' }]] });
+      expect(blocks[3]).toMatchObject({ ordered: true });
+    });
+
+    it('should keep fenced code as-is', () => {
+      expect(parseMarkdown('```\nconst a = **1**;\n```')).toEqual([
+        { type: 'codeBlock', text: 'const a = **1**;' }
+      ]);
+    });
+
+    it('should return no blocks for empty notes', () => {
+      expect(parseMarkdown('  \n\n')).toEqual([]);
+    });
+  });
+});
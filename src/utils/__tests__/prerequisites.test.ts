@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPrerequisiteGraph,
+  findPrerequisiteCycle,
+  getOpenPrerequisites,
+  removePrerequisiteReferences
+} from '../prerequisites';
+import { Week } from '../../types/curriculum';
+
+describe('prerequisites', () => {
+  const weeks: Week[] = [
+    {
+      id: 8,
+      title: '8주차',
+      courses: [
+        { id: '8-1', name: 'zustand', status: 'done' },
+        { id: '8-2', name: 'Other', status: 'not-started' }
+      ],
+      progress: 50
+    },
+    {
+      id: 9,
+      title: '9주차',
+      courses: [{ id: '9-1', name: 'react-query', status: 'in-progress', prerequisites: ['8-1'] }],
+      progress: 0
+    },
+    {
+      id: 10,
+      title: '10주차',
+      courses: [{ id: '10-1', name: '최적화', status: 'not-started', prerequisites: ['9-1', 'gone'] }],
+      progress: 0
+    }
+  ];
+
+  describe('getOpenPrerequisites', () => {
+    it('should return prerequisites that are not done and ignore unknown ids', () => {
+      expect(getOpenPrerequisites(weeks, weeks[2].courses[0]).map(course => course.id)).toEqual(['9-1']);
+      expect(getOpenPrerequisites(weeks, weeks[1].courses[0])).toEqual([]);
+    });
+
+    it('should treat skipped prerequisites as settled', () => {
+      const skipped = weeks.map(week => ({
+        ...week,
+        courses: week.courses.map(course => (course.id === '9-1' ? { ...course, status: 'skipped' as const } : course))
+      }));
+
+      expect(getOpenPrerequisites(skipped, skipped[2].courses[0])).toEqual([]);
+    });
+  });
+
+  describe('findPrerequisiteCycle', () => {
+    it('should return the courses along a cycle', () => {
+      expect(findPrerequisiteCycle(new Map([
+        ['a', ['b']],
+        ['b', ['c']],
+        ['c', ['a']]
+      ]))).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should return null for a chain without cycles', () => {
+      expect(findPrerequisiteCycle(new Map([
+        ['c', ['a', 'b']],
+        ['b', ['a']]
+      ]))).toBeNull();
+    });
+  });
+
+  describe('removePrerequisiteReferences', () => {
+    it('should drop deleted courses from prerequisite lists', () => {
+      const result = removePrerequisiteReferences(weeks, ['9-1', 'gone']);
+
+      expect(result[2].courses[0].prerequisites).toBeUndefined();
+      expect(result[1].courses[0].prerequisites).toEqual(['8-1']);
+    });
+  });
+
+  describe('buildPrerequisiteGraph', () => {
+    it('should lay out linked courses by depth and mark blocked ones', () => {
+      const levels = buildPrerequisiteGraph(weeks);
+
+      expect(levels.map(nodes => nodes.map(node => node.course.id))).toEqual([['8-1'], ['9-1'], ['10-1']]);
+      expect(levels[1][0].isBlocked).toBe(false);
+      expect(levels[2][0]).toMatchObject({ weekId: 10, isBlocked: true });
+      expect(levels[2][0].openPrerequisites.map(course => course.id)).toEqual(['9-1']);
+    });
+  });
+});
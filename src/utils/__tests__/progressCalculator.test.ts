@@ -3,17 +3,22 @@ import {
   calculateWeekProgress, 
   calculateOverallProgress, 
   updateAllProgress,
-  getProgressStatistics 
+  getProgressStatistics,
+  getCourseWeights,
+  calculateRemainingHours,
+  calculateCourseProgress,
+  calculateChapterProgress
 } from '../progressCalculator';
+import { groupCoursesByChapter } from '../chapters';
 import { Week, Course, CurriculumState } from '../../types/curriculum';
 
 describe('progressCalculator', () => {
   // Mock data for testing
   const mockCourses: Course[] = [
-    { id: '1-1', name: 'Course 1', completed: true },
-    { id: '1-2', name: 'Course 2', completed: false },
-    { id: '1-3', name: 'Course 3', completed: true },
-    { id: '1-4', name: 'Course 4', completed: false }
+    { id: '1-1', name: 'Course 1', status: 'done' },
+    { id: '1-2', name: 'Course 2', status: 'not-started' },
+    { id: '1-3', name: 'Course 3', status: 'done' },
+    { id: '1-4', name: 'Course 4', status: 'not-started' }
   ];
 
   const mockWeeks: Week[] = [
@@ -21,8 +26,8 @@ describe('progressCalculator', () => {
       id: 1,
       title: 'Week 1',
       courses: [
-        { id: '1-1', name: 'Course 1', completed: true },
-        { id: '1-2', name: 'Course 2', completed: true }
+        { id: '1-1', name: 'Course 1', status: 'done' },
+        { id: '1-2', name: 'Course 2', status: 'done' }
       ],
       progress: 0 // Will be calculated
     },
@@ -30,9 +35,9 @@ describe('progressCalculator', () => {
       id: 2,
       title: 'Week 2',
       courses: [
-        { id: '2-1', name: 'Course 3', completed: false },
-        { id: '2-2', name: 'Course 4', completed: false },
-        { id: '2-3', name: 'Course 5', completed: true }
+        { id: '2-1', name: 'Course 3', status: 'not-started' },
+        { id: '2-2', name: 'Course 4', status: 'not-started' },
+        { id: '2-3', name: 'Course 5', status: 'done' }
       ],
       progress: 0 // Will be calculated
     }
@@ -54,21 +59,21 @@ describe('progressCalculator', () => {
     });
 
     it('should return 100 for all completed courses', () => {
-      const allCompleted = mockCourses.map(course => ({ ...course, completed: true }));
+      const allCompleted = mockCourses.map(course => ({ ...course, status: 'done' as const }));
       expect(calculateWeekProgress(allCompleted)).toBe(100);
     });
 
     it('should return 0 for no completed courses', () => {
-      const noneCompleted = mockCourses.map(course => ({ ...course, completed: false }));
+      const noneCompleted = mockCourses.map(course => ({ ...course, status: 'not-started' as const }));
       expect(calculateWeekProgress(noneCompleted)).toBe(0);
     });
 
     it('should round progress to nearest integer', () => {
       // 1 out of 3 courses = 33.33% -> should round to 33%
       const threeCourses: Course[] = [
-        { id: '1', name: 'Course 1', completed: true },
-        { id: '2', name: 'Course 2', completed: false },
-        { id: '3', name: 'Course 3', completed: false }
+        { id: '1', name: 'Course 1', status: 'done' },
+        { id: '2', name: 'Course 2', status: 'not-started' },
+        { id: '3', name: 'Course 3', status: 'not-started' }
       ];
       expect(calculateWeekProgress(threeCourses)).toBe(33);
     });
@@ -88,7 +93,7 @@ describe('progressCalculator', () => {
     it('should return 100 for all completed courses across all weeks', () => {
       const allCompletedWeeks = mockWeeks.map(week => ({
         ...week,
-        courses: week.courses.map(course => ({ ...course, completed: true }))
+        courses: week.courses.map(course => ({ ...course, status: 'done' as const }))
       }));
       expect(calculateOverallProgress(allCompletedWeeks)).toBe(100);
     });
@@ -96,7 +101,7 @@ describe('progressCalculator', () => {
     it('should return 0 for no completed courses across all weeks', () => {
       const noneCompletedWeeks = mockWeeks.map(week => ({
         ...week,
-        courses: week.courses.map(course => ({ ...course, completed: false }))
+        courses: week.courses.map(course => ({ ...course, status: 'not-started' as const }))
       }));
       expect(calculateOverallProgress(noneCompletedWeeks)).toBe(0);
     });
@@ -137,7 +142,7 @@ describe('progressCalculator', () => {
       expect(result.weeks[0].title).toBe(mockState.weeks[0].title);
       expect(result.weeks[0].courses[0].id).toBe(mockState.weeks[0].courses[0].id);
       expect(result.weeks[0].courses[0].name).toBe(mockState.weeks[0].courses[0].name);
-      expect(result.weeks[0].courses[0].completed).toBe(mockState.weeks[0].courses[0].completed);
+      expect(result.weeks[0].courses[0].status).toBe(mockState.weeks[0].courses[0].status);
     });
   });
 
@@ -166,14 +171,20 @@ describe('progressCalculator', () => {
         title: 'Week 1',
         progress: 100,
         totalCourses: 2,
-        completedCourses: 2
+        completedCourses: 2,
+        statusCounts: { 'not-started': 0, 'in-progress': 0, blocked: 0, done: 2, skipped: 0 },
+        isWeighted: false,
+        remainingEstimatedHours: 0
       });
       expect(stats.weekProgresses[1]).toEqual({
         weekId: 2,
         title: 'Week 2',
         progress: 33,
         totalCourses: 3,
-        completedCourses: 1
+        completedCourses: 1,
+        statusCounts: { 'not-started': 2, 'in-progress': 0, blocked: 0, done: 1, skipped: 0 },
+        isWeighted: false,
+        remainingEstimatedHours: 0
       });
     });
 
@@ -181,7 +192,7 @@ describe('progressCalculator', () => {
       const emptyState: CurriculumState = {
         weeks: mockWeeks.map(week => ({
           ...week,
-          courses: week.courses.map(course => ({ ...course, completed: false }))
+          courses: week.courses.map(course => ({ ...course, status: 'not-started' }))
         })),
         overallProgress: 0
       };
@@ -200,7 +211,7 @@ describe('progressCalculator', () => {
       const completedState: CurriculumState = {
         weeks: mockWeeks.map(week => ({
           ...week,
-          courses: week.courses.map(course => ({ ...course, completed: true }))
+          courses: week.courses.map(course => ({ ...course, status: 'done' }))
         })),
         overallProgress: 0
       };
@@ -229,7 +240,7 @@ describe('progressCalculator', () => {
             ? {
                 ...week,
                 courses: week.courses.map(course =>
-                  course.id === '2-2' ? { ...course, completed: true } : course
+                  course.id === '2-2' ? { ...course, status: 'done' } : course
                 )
               }
             : week
@@ -255,7 +266,7 @@ describe('progressCalculator', () => {
             ? {
                 ...week,
                 courses: week.courses.map(course =>
-                  course.id === '1-1' ? { ...course, completed: false } : course
+                  course.id === '1-1' ? { ...course, status: 'not-started' } : course
                 )
               }
             : week
@@ -270,4 +281,185 @@ describe('progressCalculator', () => {
       expect(result.overallProgress).toBe(40);
     });
   });
-});
\ No newline at end of file
+
+  describe('Estimated hours weighting', () => {
+    const weightedCourses: Course[] = [
+      { id: '1-1', name: 'Course 1', status: 'done', estimatedHours: 6 },
+      { id: '1-2', name: 'Course 2', status: 'not-started', estimatedHours: 2 },
+      { id: '1-3', name: 'Course 3', status: 'not-started' }
+    ];
+
+    it('should weigh unestimated courses with the average estimate', () => {
+      expect(getCourseWeights(weightedCourses)).toEqual([6, 2, 4]);
+    });
+
+    it('should weigh every course equally when nothing is estimated', () => {
+      expect(getCourseWeights(mockCourses)).toEqual([1, 1, 1, 1]);
+    });
+
+    it('should weight week progress by estimated hours', () => {
+      // 6 of 12 hours completed
+      expect(calculateWeekProgress(weightedCourses)).toBe(50);
+    });
+
+    it('should weight overall progress across weeks', () => {
+      const weeks: Week[] = [
+        { id: 1, title: 'Week 1', courses: [{ id: '1-1', name: 'A', status: 'done', estimatedHours: 9 }], progress: 0 },
+        { id: 2, title: 'Week 2', courses: [{ id: '2-1', name: 'B', status: 'not-started', estimatedHours: 1 }], progress: 0 }
+      ];
+
+      expect(calculateOverallProgress(weeks)).toBe(90);
+    });
+
+    it('should calculate remaining estimated hours', () => {
+      expect(calculateRemainingHours(weightedCourses)).toBe(6);
+      expect(calculateRemainingHours(mockCourses)).toBe(0);
+    });
+
+    it('should include weighting details in statistics', () => {
+      const state = updateAllProgress({
+        weeks: [{ id: 1, title: 'Week 1', courses: weightedCourses, progress: 0 }],
+        overallProgress: 0
+      });
+      const stats = getProgressStatistics(state);
+
+      expect(stats.isWeighted).toBe(true);
+      expect(stats.remainingEstimatedHours).toBe(6);
+      expect(stats.weekProgresses[0].isWeighted).toBe(true);
+    });
+  });
+
+  describe('Subtask progress', () => {
+    const courseWithSubtasks: Course = {
+      id: '1-1',
+      name: 'Course 1',
+      status: 'not-started',
+      subtasks: [
+        { id: 's1', title: 'Step 1', completed: true },
+        { id: 's2', title: 'Step 2', completed: false },
+        { id: 's3', title: 'Step 3', completed: false },
+        { id: 's4', title: 'Step 4', completed: true }
+      ]
+    };
+
+    it('should use the fraction of subtasks done as course progress', () => {
+      expect(calculateCourseProgress(courseWithSubtasks)).toBe(50);
+      expect(calculateCourseProgress(mockCourses[0])).toBe(100);
+      expect(calculateCourseProgress(mockCourses[1])).toBe(0);
+    });
+
+    it('should roll partial course progress up into week and overall progress', () => {
+      const courses: Course[] = [courseWithSubtasks, { id: '1-2', name: 'Course 2', status: 'not-started' }];
+
+      // (0.5 + 0) / 2 courses
+      expect(calculateWeekProgress(courses)).toBe(25);
+      expect(calculateOverallProgress([{ id: 1, title: 'Week 1', courses, progress: 0 }])).toBe(25);
+    });
+
+    it('should count only unfinished subtasks in remaining hours', () => {
+      expect(calculateRemainingHours([{ ...courseWithSubtasks, estimatedHours: 8 }])).toBe(4);
+    });
+  });
+
+  describe('Course statuses', () => {
+    const statusCourses: Course[] = [
+      { id: '1-1', name: 'Course 1', status: 'done' },
+      { id: '1-2', name: 'Course 2', status: 'in-progress' },
+      { id: '1-3', name: 'Course 3', status: 'blocked' },
+      { id: '1-4', name: 'Course 4', status: 'skipped' }
+    ];
+
+    it('should leave skipped courses out of progress', () => {
+      // 1 done out of 3 counted courses
+      expect(calculateWeekProgress(statusCourses)).toBe(33);
+    });
+
+    it('should count a week whose courses are all skipped as complete', () => {
+      const skippedWeek: Course[] = [
+        { id: '2-1', name: 'Course 5', status: 'skipped' },
+        { id: '2-2', name: 'Course 6', status: 'skipped' }
+      ];
+      const state = updateAllProgress({
+        weeks: [
+          { id: 1, title: 'Week 1', courses: statusCourses, progress: 0 },
+          { id: 2, title: 'Week 2', courses: skippedWeek, progress: 0 }
+        ],
+        overallProgress: 0
+      });
+
+      expect(calculateWeekProgress(skippedWeek)).toBe(100);
+      // The skipped week adds nothing to do: still 1 done out of 3 counted courses
+      expect(state.overallProgress).toBe(33);
+      expect(getProgressStatistics(state).completedWeeks).toBe(1);
+    });
+
+    it('should count courses per status', () => {
+      const stats = getProgressStatistics(updateAllProgress({
+        weeks: [{ id: 1, title: 'Week 1', courses: statusCourses, progress: 0 }],
+        overallProgress: 0
+      }));
+
+      expect(stats.statusCounts).toEqual({ 'not-started': 0, 'in-progress': 1, blocked: 1, done: 1, skipped: 1 });
+      expect(stats.weekProgresses[0].statusCounts.blocked).toBe(1);
+      expect(stats.completedCourses).toBe(1);
+      expect(stats.remainingCourses).toBe(2);
+    });
+  });
+
+  describe('Chapters', () => {
+    const chapterWeeks: Week[] = [
+      {
+        id: 3,
+        title: 'Week 3',
+        courses: [
+          { id: '3-1', name: 'Course 1', chapter: '6장', status: 'done' },
+          { id: '3-2', name: 'Course 2', status: 'done' }
+        ],
+        progress: 0
+      },
+      {
+        id: 4,
+        title: 'Week 4',
+        courses: [
+          { id: '4-1', name: 'Course 3', chapter: '6장', status: 'not-started' },
+          { id: '4-2', name: 'Course 4', chapter: '6장', status: 'skipped' }
+        ],
+        progress: 0
+      }
+    ];
+
+    it('should calculate chapter progress across the weeks it spans', () => {
+      const [sixth] = groupCoursesByChapter(chapterWeeks);
+
+      // 1 done out of 2 counted courses; the skipped course is left out
+      expect(calculateChapterProgress(sixth)).toBe(50);
+    });
+
+    it('should report per-chapter statistics', () => {
+      const stats = getProgressStatistics(updateAllProgress({ weeks: chapterWeeks, overallProgress: 0 }));
+
+      expect(stats.chapterProgresses).toEqual([
+        {
+          chapter: '6장',
+          weekIds: [3, 4],
+          progress: 50,
+          totalCourses: 3,
+          completedCourses: 1,
+          statusCounts: { 'not-started': 1, 'in-progress': 0, blocked: 0, done: 1, skipped: 1 },
+          isWeighted: false,
+          remainingEstimatedHours: 0
+        },
+        {
+          chapter: null,
+          weekIds: [3],
+          progress: 100,
+          totalCourses: 1,
+          completedCourses: 1,
+          statusCounts: { 'not-started': 0, 'in-progress': 0, blocked: 0, done: 1, skipped: 0 },
+          isWeighted: false,
+          remainingEstimatedHours: 0
+        }
+      ]);
+    });
+  });
+});
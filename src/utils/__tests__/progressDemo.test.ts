@@ -46,7 +46,7 @@ describe('progressDemo', () => {
       
       // After the demo, some courses should be completed
       const totalCompletedCourses = result.weeks.reduce((total, week) => 
-        total + week.courses.filter(course => course.completed).length, 0
+        total + week.courses.filter(course => course.status === 'done').length, 0
       );
       
       expect(totalCompletedCourses).toBeGreaterThan(0);
@@ -61,7 +61,7 @@ describe('progressDemo', () => {
       expect(week1!.progress).toBe(100);
       
       // All courses in week 1 should be completed
-      const allCompleted = week1!.courses.every(course => course.completed);
+      const allCompleted = week1!.courses.every(course => course.status === 'done');
       expect(allCompleted).toBe(true);
     });
 
@@ -74,7 +74,7 @@ describe('progressDemo', () => {
       expect(week2!.progress).toBeLessThan(100);
       
       // Some but not all courses in week 2 should be completed
-      const completedCourses = week2!.courses.filter(course => course.completed).length;
+      const completedCourses = week2!.courses.filter(course => course.status === 'done').length;
       const totalCourses = week2!.courses.length;
       expect(completedCourses).toBeGreaterThan(0);
       expect(completedCourses).toBeLessThan(totalCourses);
@@ -96,7 +96,7 @@ describe('progressDemo', () => {
         week.courses.forEach(course => {
           expect(course.id).toBeDefined();
           expect(course.name).toBeDefined();
-          expect(typeof course.completed).toBe('boolean');
+          expect(typeof course.status).toBe('string');
         });
       });
     });
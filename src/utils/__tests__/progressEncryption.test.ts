@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createEncryptedStorageAdapter,
+  createEncryptionSettings,
+  decryptText,
+  encryptText,
+  isEncryptedValue,
+  loadEncryptionSettings,
+  ProgressEncryptionError,
+  reencryptStoredProgress,
+  saveEncryptionSettings,
+  unlockProgressKey
+} from '../progressEncryption';
+import { getStorageKey, loadCurriculumState } from '../localStorage';
+import { createMemoryStorageAdapter } from '../storageAdapters';
+import { CurriculumState } from '../../types/curriculum';
+
+// Low iteration count keeps the tests fast; the format does not depend on it
+const ITERATIONS = 1000;
+
+const storedData = JSON.stringify({
+  version: '1.1.0',
+  lastUpdated: '2024-02-01T00:00:00.000Z',
+  curriculum: { '1': { '1-1': { status: 'done' } } }
+});
+
+const initialState: CurriculumState = {
+  weeks: [{ id: 1, title: '1주차', progress: 0, courses: [{ id: '1-1', name: 'QA 이슈 해결', status: 'not-started' }] }],
+  overallProgress: 0
+};
+
+describe('progressEncryption', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should encrypt text so only the same key reads it back', async () => {
+    const { key } = await createEncryptionSettings('correct horse', ITERATIONS);
+    const { key: otherKey } = await createEncryptionSettings('correct horse', ITERATIONS);
+
+    const encrypted = await encryptText(key, storedData);
+
+    expect(isEncryptedValue(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('done');
+    expect(await decryptText(key, encrypted)).toBe(storedData);
+    // Same passphrase, different salt
+    await expect(decryptText(otherKey, encrypted)).rejects.toBeInstanceOf(ProgressEncryptionError);
+  });
+
+  it('should unlock the key only with the right passphrase', async () => {
+    const { settings } = await createEncryptionSettings('correct horse', ITERATIONS);
+    saveEncryptionSettings(settings);
+
+    const loaded = loadEncryptionSettings();
+    expect(loaded).toEqual(settings);
+    expect(await unlockProgressKey('correct horse', loaded!)).not.toBeNull();
+    expect(await unlockProgressKey('wrong horse', loaded!)).toBeNull();
+
+    saveEncryptionSettings(null);
+    expect(loadEncryptionSettings()).toBeNull();
+  });
+
+  it('should store values encrypted while a key is set and read plain values as they are', async () => {
+    const { key } = await createEncryptionSettings('correct horse', ITERATIONS);
+    const base = createMemoryStorageAdapter({ plain: storedData });
+    let currentKey: CryptoKey | null = key;
+    const storage = createEncryptedStorageAdapter(base, () => currentKey);
+
+    await storage.save('secret', storedData);
+
+    expect(isEncryptedValue((await base.load('secret'))!)).toBe(true);
+    expect(await storage.load('secret')).toBe(storedData);
+    expect(await storage.load('plain')).toBe(storedData);
+
+    currentKey = null;
+    await expect(storage.load('secret')).rejects.toBeInstanceOf(ProgressEncryptionError);
+  });
+
+  it('should keep encrypted progress that cannot be opened instead of clearing it', async () => {
+    const { key } = await createEncryptionSettings('correct horse', ITERATIONS);
+    const base = createMemoryStorageAdapter({ [getStorageKey('frontend')]: await encryptText(key, storedData) });
+    const storage = createEncryptedStorageAdapter(base, () => null);
+
+    expect(await loadCurriculumState(initialState, 'frontend', { storage })).toBeNull();
+    expect(await base.load(getStorageKey('frontend'))).not.toBeNull();
+  });
+
+  it('should rewrite stored progress for a new key and back to the clear', async () => {
+    const { key: firstKey } = await createEncryptionSettings('first passphrase', ITERATIONS);
+    const { key: secondKey } = await createEncryptionSettings('second passphrase', ITERATIONS);
+    const base = createMemoryStorageAdapter({ a: await encryptText(firstKey, storedData), b: storedData });
+
+    await reencryptStoredProgress(base, firstKey, secondKey, ['a', 'b', 'missing']);
+
+    expect(await decryptText(secondKey, (await base.load('a'))!)).toBe(storedData);
+    expect(await decryptText(secondKey, (await base.load('b'))!)).toBe(storedData);
+    expect(await base.load('missing')).toBeNull();
+
+    await reencryptStoredProgress(base, secondKey, null, ['a', 'b']);
+
+    expect(await base.load('a')).toBe(storedData);
+    expect(await base.load('b')).toBe(storedData);
+  });
+
+  it('should refuse to rewrite values neither key opens', async () => {
+    const { key } = await createEncryptionSettings('first passphrase', ITERATIONS);
+    const { key: strangerKey } = await createEncryptionSettings('stranger', ITERATIONS);
+    const base = createMemoryStorageAdapter({ a: await encryptText(strangerKey, storedData) });
+
+    await expect(reencryptStoredProgress(base, key, null, ['a'])).rejects.toBeInstanceOf(ProgressEncryptionError);
+  });
+});
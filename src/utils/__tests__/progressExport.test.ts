@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildProgressTableRows,
+  createProgressCsv,
+  createProgressXlsx,
+  formatLocalDate,
+  getCourseDurationDays,
+  getProgressTableFileName,
+  PROGRESS_TABLE_HEADERS,
+  toCsv
+} from '../progressExport';
+import { CurriculumState } from '../../types/curriculum';
+
+describe('progressExport', () => {
+  const state: CurriculumState = {
+    weeks: [
+      {
+        id: 1,
+        title: '1주차',
+        courses: [
+          {
+            id: '1-1',
+            name: 'QA 이슈 해결, "긴급"',
+            status: 'done',
+            startDate: new Date(2024, 0, 1),
+            endDate: new Date(2024, 0, 7)
+          },
+          { id: '1-2', name: '리팩토링', status: 'in-progress', startDate: new Date(2024, 0, 8) }
+        ],
+        progress: 50
+      }
+    ],
+    overallProgress: 50
+  };
+
+  describe('getCourseDurationDays', () => {
+    it('should count both the start and end day', () => {
+      expect(getCourseDurationDays(state.weeks[0].courses[0])).toBe(7);
+      expect(getCourseDurationDays({ ...state.weeks[0].courses[0], endDate: new Date(2024, 0, 1, 23) })).toBe(1);
+    });
+
+    it('should be undefined without both dates', () => {
+      expect(getCourseDurationDays(state.weeks[0].courses[1])).toBeUndefined();
+    });
+  });
+
+  describe('buildProgressTableRows', () => {
+    it('should list every course with its dates, status, duration and week progress', () => {
+      expect(buildProgressTableRows(state)).toEqual([
+        ['1주차', '1-1', 'QA 이슈 해결, "긴급"', '2024-01-01', '2024-01-07', '완료', 7, 50],
+        ['1주차', '1-2', '리팩토링', '2024-01-08', '', '진행 중', null, 50]
+      ]);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should quote cells with commas, quotes and line breaks', () => {
+      expect(toCsv([['a,b', 'say "hi"', 'line\nbreak', 3, null]])).toBe('"a,b","say ""hi""","line\nbreak",3,');
+    });
+
+    it('should keep text that starts like a formula as text', () => {
+      const csv = createProgressCsv({
+        ...state,
+        weeks: [{ ...state.weeks[0], courses: [{ ...state.weeks[0].courses[1], name: '=HYPERLINK("http://example.com")' }] }]
+      });
+
+      expect(csv).toContain(`1주차,1-2,"'=HYPERLINK(""http://example.com"")",2024-01-08`);
+      expect(toCsv([['+1', '-1', '@sum', '\tx', -1]])).toBe("'+1,'-1,'@sum,'\tx,-1");
+    });
+
+    it('should start with a byte order mark and the header row', () => {
+      const csv = createProgressCsv(state);
+
+      expect(csv.charCodeAt(0)).toBe(0xfeff);
+      expect(csv.slice(1).split('\r\n')[0]).toBe(PROGRESS_TABLE_HEADERS.join(','));
+      expect(csv).toContain('1주차,1-1,"QA 이슈 해결, ""긴급""",2024-01-01,2024-01-07,완료,7,50');
+    });
+  });
+
+  describe('XLSX', () => {
+    it('should create a workbook with the table in its sheet', () => {
+      const bytes = createProgressXlsx(state);
+      const content = new TextDecoder().decode(bytes);
+
+      expect(content.startsWith('PK')).toBe(true);
+      expect(content).toContain('xl/worksheets/sheet1.xml');
+      expect(content).toContain('<sheet name="진행 현황"');
+      expect(content).toContain('<c r="C2" t="inlineStr"><is><t xml:space="preserve">QA 이슈 해결, &quot;긴급&quot;</t></is></c>');
+      expect(content).toContain('<c r="G2"><v>7</v></c>');
+    });
+  });
+
+  it('should name files after the curriculum, local date and format', () => {
+    expect(formatLocalDate(new Date(2024, 0, 31, 23, 30))).toBe('2024-01-31');
+    expect(getProgressTableFileName('frontend', 'xlsx', new Date(2024, 0, 31))).toBe('curriculum-progress-frontend-2024-01-31.xlsx');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyStoredCourseProgress,
+  hasStoredProgress,
+  reconcileStoredProgress
+} from '../progressReconciliation';
+import { Week } from '../../types/curriculum';
+
+describe('progressReconciliation', () => {
+  const weeks: Week[] = [
+    {
+      id: 3,
+      title: '3주차',
+      courses: [
+        { id: '3-1', name: 'Stays', status: 'not-started' },
+        { id: '3-5', name: 'Renamed', status: 'not-started', previousIds: ['4-1'] }
+      ],
+      progress: 0
+    },
+    {
+      id: 4,
+      title: '4주차',
+      courses: [{ id: '3-2', name: 'Moved week', status: 'not-started' }],
+      progress: 0
+    }
+  ];
+
+  describe('reconcileStoredProgress', () => {
+    it('should match progress by course id across weeks and by previous ids', () => {
+      const { weeks: reconciled, orphanedProgress } = reconcileStoredProgress(weeks, {
+        '3': { '3-1': { status: 'done' }, '3-2': { status: 'in-progress' } },
+        '4': { '4-1': { status: 'blocked', notes: 'old id' } }
+      });
+
+      expect(reconciled[0].courses.map(course => course.status)).toEqual(['done', 'blocked']);
+      expect(reconciled[0].courses[1].notes).toBe('old id');
+      expect(reconciled[1].courses[0].status).toBe('in-progress');
+      expect(orphanedProgress).toEqual([]);
+    });
+
+    it('should prefer the current id over a previous id', () => {
+      const { weeks: reconciled, orphanedProgress } = reconcileStoredProgress(weeks, {
+        '3': { '3-5': { status: 'done' } },
+        '4': { '4-1': { status: 'blocked' } }
+      });
+
+      expect(reconciled[0].courses[1].status).toBe('done');
+      expect(orphanedProgress).toEqual([{ weekId: '4', courseId: '4-1', progress: { status: 'blocked' } }]);
+    });
+
+    it('should prefer progress saved in the course week when an id appears twice', () => {
+      const { weeks: reconciled, orphanedProgress } = reconcileStoredProgress(weeks, {
+        '3': { '3-2': { status: 'skipped' } },
+        '4': { '3-2': { status: 'done' } }
+      });
+
+      expect(reconciled[1].courses[0].status).toBe('done');
+      expect(orphanedProgress.map(orphan => orphan.weekId)).toEqual(['3']);
+    });
+
+    it('should drop unclaimed entries that record nothing', () => {
+      const { orphanedProgress } = reconcileStoredProgress(weeks, {
+        '9': { '9-1': { status: 'not-started' }, '9-2': { status: 'not-started', notes: 'keep me' } }
+      });
+
+      expect(orphanedProgress.map(orphan => orphan.courseId)).toEqual(['9-2']);
+    });
+  });
+
+  describe('hasStoredProgress', () => {
+    it('should detect any recorded progress', () => {
+      expect(hasStoredProgress({ status: 'not-started' })).toBe(false);
+      expect(hasStoredProgress({ status: 'not-started', completedSubtasks: [] })).toBe(false);
+      expect(hasStoredProgress({ status: 'not-started', startDate: '2024-01-01T00:00:00.000Z' })).toBe(true);
+      expect(hasStoredProgress({ status: 'skipped' })).toBe(true);
+    });
+  });
+
+  describe('applyStoredCourseProgress', () => {
+    it('should replace learner data and keep definition links', () => {
+      const course = applyStoredCourseProgress(
+        {
+          id: '1-1',
+          name: 'Course',
+          status: 'in-progress',
+          notes: 'old',
+          subtasks: [{ id: 's1', title: 'Step', completed: false }],
+          resources: [
+            { id: 'def-1', type: 'lecture', url: 'https://example.com/lecture' },
+            { id: 'link-1', type: 'repo', url: 'https://example.com/old', userAdded: true }
+          ]
+        },
+        {
+          status: 'done',
+          startDate: '2024-01-01T00:00:00.000Z',
+          completedSubtasks: ['s1'],
+          resources: [{ id: 'link-1', type: 'docs', url: 'https://example.com/docs' }]
+        }
+      );
+
+      expect(course.status).toBe('done');
+      expect(course.notes).toBeUndefined();
+      expect(course.startDate).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+      expect(course.subtasks![0].completed).toBe(true);
+      expect(course.resources).toEqual([
+        { id: 'def-1', type: 'lecture', url: 'https://example.com/lecture' },
+        { id: 'link-1', type: 'docs', url: 'https://example.com/docs', userAdded: true }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeSharedProgress,
+  encodeSharedProgress,
+  getProgressShareUrl,
+  ProgressShareError,
+  readSharedProgressFromHash
+} from '../progressShare';
+import { getInitialCurriculumState } from '../../data/initialCurriculum';
+import { storedDataToCurriculumState } from '../localStorage';
+import { CurriculumState } from '../../types/curriculum';
+
+const now = new Date(2024, 2, 15, 18, 30);
+
+// Frontend track with a few courses in different states
+const createState = (): CurriculumState => storedDataToCurriculumState({
+  version: '1.1.0',
+  lastUpdated: '2024-03-15T00:00:00.000Z',
+  curriculum: {
+    '1': {
+      '1-1': { status: 'done', startDate: new Date(2024, 0, 2).toISOString(), endDate: new Date(2024, 0, 9).toISOString() },
+      '1-2': { status: 'in-progress', startDate: new Date(2024, 2, 1).toISOString() },
+      '1-3': { status: 'skipped', notes: '건너뜀' }
+    },
+    '3': { '3-1': { status: 'blocked' } }
+  }
+}, getInitialCurriculumState('frontend'));
+
+describe('progressShare', () => {
+  it('should read back the status and calendar dates of every course', () => {
+    const shared = decodeSharedProgress(encodeSharedProgress(createState(), 'frontend', now));
+
+    expect(shared.curriculumId).toBe('frontend');
+    expect(shared.sharedAt).toEqual(new Date(2024, 2, 15));
+    expect(shared.data.curriculum['1']['1-1']).toEqual({
+      status: 'done',
+      startDate: new Date(2024, 0, 2).toISOString(),
+      endDate: new Date(2024, 0, 9).toISOString()
+    });
+    expect(shared.data.curriculum['1']['1-2']).toEqual({ status: 'in-progress', startDate: new Date(2024, 2, 1).toISOString() });
+    // Notes stay private
+    expect(shared.data.curriculum['1']['1-3']).toEqual({ status: 'skipped' });
+    expect(shared.data.curriculum['3']['3-1']).toEqual({ status: 'blocked' });
+    expect(shared.data.curriculum['2']['2-1']).toEqual({ status: 'not-started' });
+  });
+
+  it('should pack the progress into a short URL-safe fragment', () => {
+    const encoded = encodeSharedProgress(createState(), 'frontend', now);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(encoded.length).toBeLessThan(60);
+  });
+
+  it('should build a link to the share page that the page reads back', () => {
+    const url = getProgressShareUrl('https://tracker.example', createState(), 'frontend', now);
+
+    expect(url).toMatch(/^https:\/\/tracker\.example\/share#p=/);
+    expect(readSharedProgressFromHash(new URL(url).hash).data.curriculum['1']['1-1'].status).toBe('done');
+  });
+
+  it('should reject damaged links and links without progress', () => {
+    const encoded = encodeSharedProgress(createState(), 'frontend', now);
+
+    expect(() => readSharedProgressFromHash('')).toThrow(ProgressShareError);
+    expect(() => decodeSharedProgress(encoded.slice(0, 10))).toThrow('공유 링크가 잘렸습니다');
+    expect(() => decodeSharedProgress('!!!')).toThrow(ProgressShareError);
+    expect(() => decodeSharedProgress(`C${encoded.slice(1)}`)).toThrow(ProgressShareError);
+  });
+});
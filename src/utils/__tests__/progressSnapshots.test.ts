@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSnapshotStorageKey,
+  isDailySnapshotDue,
+  loadProgressSnapshots,
+  PROGRESS_SNAPSHOT_LIMITS,
+  takeProgressSnapshot
+} from '../progressSnapshots';
+import { getStorageKey } from '../localStorage';
+import { createMemoryStorageAdapter } from '../storageAdapters';
+import { CurriculumState } from '../../types/curriculum';
+
+const state: CurriculumState = {
+  weeks: [{
+    id: 1,
+    title: '1주차',
+    progress: 100,
+    courses: [{ id: '1-1', name: 'QA 이슈 해결', status: 'done' }]
+  }],
+  overallProgress: 100
+};
+
+// Storage holding saved progress for the frontend curriculum
+const createStorage = () => createMemoryStorageAdapter({
+  [getStorageKey('frontend')]: JSON.stringify({ version: '1.1.0', lastUpdated: '2024-02-01T00:00:00.000Z', curriculum: {} })
+});
+
+describe('progressSnapshots', () => {
+  it('should take a snapshot of the progress with its overall progress', async () => {
+    const storage = createStorage();
+
+    const snapshot = await takeProgressSnapshot(state, 'pre-import', 'frontend', storage, new Date('2024-02-02T10:00:00.000Z'));
+
+    expect(snapshot).toMatchObject({ kind: 'pre-import', createdAt: '2024-02-02T10:00:00.000Z', overallProgress: 100 });
+    expect(snapshot?.data.curriculum['1']['1-1'].status).toBe('done');
+    expect(await loadProgressSnapshots('frontend', storage)).toEqual([snapshot]);
+  });
+
+  it('should not take a snapshot while nothing is saved', async () => {
+    const storage = createMemoryStorageAdapter();
+
+    expect(await takeProgressSnapshot(state, 'daily', 'frontend', storage)).toBeNull();
+    expect(await storage.load(getSnapshotStorageKey('frontend'))).toBeNull();
+  });
+
+  it('should drop the oldest snapshot of a kind beyond its limit and keep the other kinds', async () => {
+    const storage = createStorage();
+    const preImport = await takeProgressSnapshot(state, 'pre-import', 'frontend', storage, new Date('2024-01-01T00:00:00.000Z'));
+    for (let day = 1; day <= PROGRESS_SNAPSHOT_LIMITS.daily + 1; day++) {
+      await takeProgressSnapshot(state, 'daily', 'frontend', storage, new Date(2024, 1, day, 12));
+    }
+
+    const snapshots = await loadProgressSnapshots('frontend', storage);
+    const daily = snapshots.filter(snapshot => snapshot.kind === 'daily');
+
+    expect(daily).toHaveLength(PROGRESS_SNAPSHOT_LIMITS.daily);
+    expect(new Date(daily[daily.length - 1].createdAt).getDate()).toBe(2);
+    expect(snapshots).toContainEqual(preImport);
+  });
+
+  it('should skip unreadable snapshots', async () => {
+    const storage = createMemoryStorageAdapter({
+      [getSnapshotStorageKey('frontend')]: JSON.stringify([{ id: 'daily-1', kind: 'daily' }])
+    });
+
+    expect(await loadProgressSnapshots('frontend', storage)).toEqual([]);
+  });
+
+  it('should tell whether a daily snapshot was taken on a day', async () => {
+    const storage = createStorage();
+    await takeProgressSnapshot(state, 'daily', 'frontend', storage, new Date(2024, 1, 2, 9));
+    const snapshots = await loadProgressSnapshots('frontend', storage);
+
+    expect(isDailySnapshotDue(snapshots, new Date(2024, 1, 2, 18))).toBe(false);
+    expect(isDailySnapshotDue(snapshots, new Date(2024, 1, 3, 9))).toBe(true);
+  });
+});
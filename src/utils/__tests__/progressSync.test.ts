@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchRemoteProgress, ProgressSyncError, pushRemoteProgress } from '../progressSync';
+import { StoredData } from '../../types/curriculum';
+
+const storedData: StoredData = {
+  version: '1.1.0',
+  lastUpdated: '2024-02-01T00:00:00.000Z',
+  curriculum: { '1': { '1-1': { status: 'done' } } }
+};
+
+const respond = (status: number, body: string | null = null, etag?: string) =>
+  vi.fn(async () => new Response(body, { status, headers: etag ? { ETag: etag } : {} }));
+
+describe('progressSync', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('fetchRemoteProgress', () => {
+    it('should return the saved progress with its ETag', async () => {
+      const fetchMock = respond(200, JSON.stringify(storedData), '"abc"');
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await fetchRemoteProgress('/api/progress', 'frontend')).toEqual({ data: storedData, etag: '"abc"' });
+      expect(fetchMock).toHaveBeenCalledWith('/api/progress?curriculumId=frontend', expect.objectContaining({ cache: 'no-store' }));
+    });
+
+    it('should return null when nothing is saved', async () => {
+      vi.stubGlobal('fetch', respond(404));
+
+      expect(await fetchRemoteProgress('/api/progress', 'frontend')).toBeNull();
+    });
+
+    it('should throw a sync error when the server cannot be reached', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      }));
+
+      await expect(fetchRemoteProgress('/api/progress', 'frontend')).rejects.toThrow(ProgressSyncError);
+    });
+  });
+
+  describe('pushRemoteProgress', () => {
+    it('should send the last seen ETag and return the new one', async () => {
+      const fetchMock = respond(204, null, '"new"');
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await pushRemoteProgress('/api/progress', 'frontend', storedData, '"old"')).toEqual({ status: 'saved', etag: '"new"' });
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/progress?curriculumId=frontend',
+        expect.objectContaining({ method: 'PUT', headers: expect.objectContaining({ 'If-Match': '"old"' }) })
+      );
+    });
+
+    it('should expect no saved progress on the first write', async () => {
+      const fetchMock = respond(204, null, '"new"');
+      vi.stubGlobal('fetch', fetchMock);
+
+      await pushRemoteProgress('/api/progress', 'frontend', storedData, null);
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: expect.objectContaining({ 'If-None-Match': '*' }) })
+      );
+    });
+
+    it('should return the server copy on a conflict', async () => {
+      vi.stubGlobal('fetch', respond(412, JSON.stringify(storedData), '"server"'));
+
+      expect(await pushRemoteProgress('/api/progress', 'frontend', storedData, '"old"')).toEqual({
+        status: 'conflict',
+        remote: { data: storedData, etag: '"server"' }
+      });
+    });
+
+    it('should throw a sync error when the server answers a conflict with unreadable progress', async () => {
+      vi.stubGlobal('fetch', respond(412, 'not json', '"server"'));
+
+      await expect(pushRemoteProgress('/api/progress', 'frontend', storedData, '"old"')).rejects.toThrow(ProgressSyncError);
+    });
+
+    it('should throw a sync error when the server rejects the payload', async () => {
+      vi.stubGlobal('fetch', respond(400, '{"error":"invalid"}'));
+
+      await expect(pushRemoteProgress('/api/progress', 'frontend', storedData, null)).rejects.toThrow(ProgressSyncError);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyProgressImport,
+  createProgressImportPreview,
+  getProgressExportFileName,
+  isImportNewer,
+  parseProgressExport,
+  parseProgressImport,
+  ProgressImportError,
+  serializeProgressExport
+} from '../progressTransfer';
+import { CurriculumState, StoredData } from '../../types/curriculum';
+
+describe('progressTransfer', () => {
+  const initialState: CurriculumState = {
+    weeks: [
+      {
+        id: 1,
+        title: '1주차',
+        courses: [
+          { id: '1-1', name: 'Course 1', status: 'not-started' },
+          { id: '1-2', name: 'Course 2', status: 'not-started' },
+          { id: '1-3', name: 'Course 3', status: 'not-started' }
+        ],
+        progress: 0
+      }
+    ],
+    overallProgress: 0
+  };
+
+  const currentState: CurriculumState = {
+    ...initialState,
+    weeks: [{
+      ...initialState.weeks[0],
+      courses: [
+        { id: '1-1', name: 'Course 1', status: 'in-progress', startDate: new Date('2024-01-01T00:00:00.000Z') },
+        { id: '1-2', name: 'Course 2', status: 'not-started' },
+        { id: '1-3', name: 'Course 3', status: 'done' }
+      ]
+    }]
+  };
+
+  const imported: StoredData = {
+    version: '1.1.0',
+    lastUpdated: '2024-02-01T00:00:00.000Z',
+    curriculum: {
+      '1': {
+        '1-1': { status: 'done', startDate: '2024-01-01T00:00:00.000Z', endDate: '2024-01-10T00:00:00.000Z' },
+        '1-2': { status: 'in-progress' },
+        '1-9': { status: 'done' }
+      }
+    }
+  };
+
+  describe('export', () => {
+    it('should name files after the curriculum and local date', () => {
+      expect(getProgressExportFileName('frontend', new Date(2024, 0, 31, 12))).toBe(
+        'curriculum-progress-frontend-2024-01-31.json'
+      );
+      // Early in the morning the UTC date is still the day before east of Greenwich
+      expect(getProgressExportFileName('frontend', new Date(2024, 0, 31, 0, 30))).toBe(
+        'curriculum-progress-frontend-2024-01-31.json'
+      );
+    });
+
+    it('should add the learner to the file name and payload, and leave it out of imported progress', () => {
+      expect(getProgressExportFileName('frontend', new Date(2024, 0, 31, 12), '김 하나')).toBe(
+        'curriculum-progress-frontend-2024-01-31-김-하나.json'
+      );
+
+      const text = serializeProgressExport(currentState, 'frontend', '김 하나');
+      expect(parseProgressExport(text).learnerName).toBe('김 하나');
+      expect(parseProgressImport(text)).not.toHaveProperty('learner');
+      expect(parseProgressExport(serializeProgressExport(currentState, 'frontend')).learnerName).toBeUndefined();
+    });
+
+    it('should save the track in the payload, and leave it out of imported progress', () => {
+      const text = serializeProgressExport(currentState, 'backend');
+      expect(parseProgressExport(text).curriculumId).toBe('backend');
+      expect(parseProgressImport(text)).not.toHaveProperty('curriculumId');
+      expect(parseProgressExport(JSON.stringify(imported)).curriculumId).toBeUndefined();
+    });
+
+    it('should export data that can be imported again', () => {
+      const data = parseProgressImport(serializeProgressExport(currentState, 'frontend'));
+
+      expect(data.curriculum['1']['1-1']).toMatchObject({ status: 'in-progress', startDate: '2024-01-01T00:00:00.000Z' });
+    });
+  });
+
+  describe('parseProgressImport', () => {
+    it('should reject files that are not JSON or not progress data', () => {
+      expect(() => parseProgressImport('not json')).toThrow(ProgressImportError);
+      expect(() => parseProgressImport(JSON.stringify({ version: '1.1.0', curriculum: {} }))).toThrow(
+        '진행 기록 파일의 형식이 올바르지 않습니다.'
+      );
+      expect(() => parseProgressImport(JSON.stringify({ ...imported, version: '9.0.0' }))).toThrow(
+        '지원하지 않는 저장 형식 버전입니다: 9.0.0'
+      );
+    });
+
+    it('should upgrade files exported by an older version', () => {
+      const data = parseProgressImport(JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: '2024-01-01T00:00:00.000Z',
+        curriculum: { '1': { '1-1': { completed: true } } }
+      }));
+
+      expect(data.curriculum['1']['1-1'].status).toBe('done');
+    });
+  });
+
+  describe('isImportNewer', () => {
+    it('should compare the file with the local save time', () => {
+      expect(isImportNewer(imported, '2024-01-15T00:00:00.000Z')).toBe(true);
+      expect(isImportNewer(imported, '2024-03-01T00:00:00.000Z')).toBe(false);
+      expect(isImportNewer(imported, undefined)).toBe(true);
+    });
+  });
+
+  describe('createProgressImportPreview', () => {
+    it('should list status and date changes per course', () => {
+      const preview = createProgressImportPreview(currentState, imported, false);
+
+      expect(preview.entries.map(entry => entry.courseId)).toEqual(['1-1', '1-2', '1-3']);
+      expect(preview.entries[0].changes).toEqual([
+        { field: 'status', current: 'in-progress', imported: 'done' },
+        { field: 'endDate', current: undefined, imported: '2024-01-10T00:00:00.000Z' }
+      ]);
+      expect(preview.entries.map(entry => entry.mergeKeeps)).toEqual(['current', 'imported', 'current']);
+      expect(preview.unmatchedCount).toBe(1);
+    });
+  });
+
+  describe('applyProgressImport', () => {
+    it('should replace all progress with the file', () => {
+      const result = applyProgressImport(currentState, initialState, imported, 'replace', false);
+
+      expect(result.weeks[0].courses.map(course => course.status)).toEqual(['done', 'in-progress', 'not-started']);
+      expect(result.orphanedProgress).toEqual([{ weekId: '1', courseId: '1-9', progress: { status: 'done' } }]);
+    });
+
+    it('should fill gaps from an older file without erasing progress', () => {
+      const result = applyProgressImport(currentState, initialState, imported, 'merge-newer', false);
+
+      expect(result.weeks[0].courses.map(course => course.status)).toEqual(['in-progress', 'in-progress', 'done']);
+    });
+
+    it('should prefer a newer file where both sides have progress', () => {
+      const result = applyProgressImport(currentState, initialState, imported, 'merge-newer', true);
+
+      expect(result.weeks[0].courses.map(course => course.status)).toEqual(['done', 'in-progress', 'done']);
+      expect(result.orphanedProgress).toHaveLength(1);
+    });
+  });
+});
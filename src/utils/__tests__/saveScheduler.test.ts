@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSaveScheduler, SaveStatus } from '../saveScheduler';
+
+describe('saveScheduler', () => {
+  let statuses: SaveStatus[];
+  const onStatusChange = (status: SaveStatus) => statuses.push(status);
+
+  beforeEach(() => {
+    statuses = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should write a burst of changes once after the wait', async () => {
+    const save = vi.fn().mockResolvedValue(true);
+    const scheduler = createSaveScheduler<number>({ save, onStatusChange, delayMs: 500 });
+
+    scheduler.schedule(1);
+    await vi.advanceTimersByTimeAsync(300);
+    scheduler.schedule(2);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(save).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledWith(2);
+    expect(statuses[statuses.length - 1]).toBe('saved');
+    expect(scheduler.hasUnsavedChanges()).toBe(false);
+  });
+
+  it('should combine waiting items with coalesce', async () => {
+    const save = vi.fn().mockResolvedValue(true);
+    const scheduler = createSaveScheduler<number[]>({
+      save,
+      onStatusChange,
+      coalesce: (pending, next) => [...pending, ...next]
+    });
+
+    scheduler.schedule([1]);
+    scheduler.schedule([2]);
+    await scheduler.flush();
+
+    expect(save).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it('should write at once on flush and write each change right away without a delay', async () => {
+    const save = vi.fn().mockResolvedValue(true);
+    const scheduler = createSaveScheduler<number>({ save, onStatusChange });
+    scheduler.schedule(1);
+    expect(scheduler.hasUnsavedChanges()).toBe(true);
+    await scheduler.flush();
+    expect(save).toHaveBeenCalledWith(1);
+
+    const immediateSave = vi.fn().mockResolvedValue(true);
+    const immediate = createSaveScheduler<number>({ save: immediateSave, onStatusChange, delayMs: 0 });
+    immediate.schedule(1);
+    immediate.schedule(2);
+    await immediate.flush();
+    expect(immediateSave.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('should report a failed write and write it again on retry', async () => {
+    const save = vi.fn().mockResolvedValueOnce(false).mockRejectedValueOnce(new Error('quota')).mockResolvedValue(true);
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const scheduler = createSaveScheduler<number>({ save, onStatusChange });
+
+    scheduler.schedule(1);
+    await scheduler.flush();
+    expect(statuses[statuses.length - 1]).toBe('failed');
+
+    await scheduler.retry();
+    expect(statuses[statuses.length - 1]).toBe('failed');
+
+    await scheduler.retry();
+    expect(save.mock.calls).toEqual([[1], [1], [1]]);
+    expect(statuses[statuses.length - 1]).toBe('saved');
+    consoleSpy.mockRestore();
+  });
+
+  it('should leave the status to the newest write when an older one fails', async () => {
+    let resolveFirst: (isSaved: boolean) => void = () => {};
+    const save = vi.fn()
+      .mockImplementationOnce(() => new Promise<boolean>(resolve => { resolveFirst = resolve; }))
+      .mockResolvedValue(true);
+    const scheduler = createSaveScheduler<number>({ save, onStatusChange });
+
+    scheduler.schedule(1);
+    const firstWrite = scheduler.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.schedule(2);
+    resolveFirst(false);
+    await firstWrite;
+    expect(statuses).not.toContain('failed');
+
+    await scheduler.flush();
+    expect(save.mock.calls).toEqual([[1], [2]]);
+    expect(statuses[statuses.length - 1]).toBe('saved');
+  });
+});
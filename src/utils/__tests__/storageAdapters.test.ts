@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createDefaultStorageAdapter,
+  createIndexedDBStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter
+} from '../storageAdapters';
+
+/**
+ * Minimal stand-in for the IndexedDB API: one database holding Map-backed object stores,
+ * with requests and transactions completing on the next tick like the real thing
+ */
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, unknown>>();
+  const later = (callback: () => void) => setTimeout(callback, 0);
+
+  const createRequest = <T>(getResult: () => T) => {
+    const request = { result: undefined as T | undefined, error: null };
+    return { request, run: () => { request.result = getResult(); } };
+  };
+
+  const database = {
+    transaction: (storeName: string) => {
+      const operations: Array<() => void> = [];
+      const transaction = {
+        error: null,
+        oncomplete: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+        onabort: null as (() => void) | null,
+        objectStore: () => {
+          const store = stores.get(storeName)!;
+          const queue = <T>(getResult: () => T) => {
+            const { request, run } = createRequest(getResult);
+            operations.push(run);
+            return request;
+          };
+          return {
+            get: (key: string) => queue(() => store.get(key)),
+            put: (value: unknown, key: string) => queue(() => { store.set(key, value); return key; }),
+            delete: (key: string) => queue(() => { store.delete(key); })
+          };
+        }
+      };
+      later(() => {
+        operations.forEach(run => run());
+        transaction.oncomplete?.();
+      });
+      return transaction;
+    }
+  };
+
+  return {
+    stores,
+    open: vi.fn(() => {
+      const request = {
+        result: database,
+        error: null,
+        onupgradeneeded: null as (() => void) | null,
+        onsuccess: null as (() => void) | null,
+        onerror: null as (() => void) | null
+      };
+      later(() => {
+        if (stores.size === 0) {
+          Object.assign(database, {
+            createObjectStore: (name: string) => stores.set(name, new Map())
+          });
+          request.onupgradeneeded?.();
+        }
+        request.onsuccess?.();
+      });
+      return request;
+    })
+  };
+};
+
+describe('storageAdapters', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('createMemoryStorageAdapter', () => {
+    it('should save, load and clear values', async () => {
+      const storage = createMemoryStorageAdapter({ existing: 'value' });
+
+      expect(await storage.isAvailable()).toBe(true);
+      expect(await storage.load('existing')).toBe('value');
+      expect(await storage.load('missing')).toBeNull();
+
+      await storage.save('key', 'saved');
+      expect(await storage.load('key')).toBe('saved');
+
+      await storage.clear('key');
+      expect(await storage.load('key')).toBeNull();
+    });
+  });
+
+  describe('createLocalStorageAdapter', () => {
+    it('should read and write window.localStorage', async () => {
+      const storage = createLocalStorageAdapter();
+
+      await storage.save('key', 'saved');
+      expect(localStorage.getItem('key')).toBe('saved');
+      expect(await storage.load('key')).toBe('saved');
+
+      await storage.clear('key');
+      expect(localStorage.getItem('key')).toBeNull();
+    });
+
+    it('should report localStorage as unavailable when it throws', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('blocked');
+      });
+
+      expect(await createLocalStorageAdapter().isAvailable()).toBe(false);
+    });
+  });
+
+  describe('createIndexedDBStorageAdapter', () => {
+    it('should report IndexedDB as unavailable where it does not exist', async () => {
+      vi.stubGlobal('indexedDB', undefined);
+
+      expect(await createIndexedDBStorageAdapter().isAvailable()).toBe(false);
+    });
+
+    it('should save, load and clear values in an object store', async () => {
+      const fakeIndexedDB = createFakeIndexedDB();
+      vi.stubGlobal('indexedDB', fakeIndexedDB);
+      const storage = createIndexedDBStorageAdapter();
+
+      expect(await storage.isAvailable()).toBe(true);
+      await storage.save('key', 'saved');
+      expect(fakeIndexedDB.stores.get('progress')!.get('key')).toBe('saved');
+      expect(await storage.load('key')).toBe('saved');
+
+      await storage.clear('key');
+      expect(await storage.load('key')).toBeNull();
+      expect(fakeIndexedDB.open).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move a value found only in the legacy storage into IndexedDB', async () => {
+      const fakeIndexedDB = createFakeIndexedDB();
+      vi.stubGlobal('indexedDB', fakeIndexedDB);
+      const legacyStorage = createMemoryStorageAdapter({ key: 'old progress' });
+      const storage = createIndexedDBStorageAdapter({ legacyStorage });
+
+      expect(await storage.load('key')).toBe('old progress');
+      expect(fakeIndexedDB.stores.get('progress')!.get('key')).toBe('old progress');
+      expect(await legacyStorage.load('key')).toBeNull();
+    });
+
+    it('should prefer the IndexedDB value and clear both copies', async () => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB());
+      const legacyStorage = createMemoryStorageAdapter({ key: 'old progress' });
+      const storage = createIndexedDBStorageAdapter({ legacyStorage });
+
+      await storage.save('key', 'new progress');
+      expect(await storage.load('key')).toBe('new progress');
+
+      await storage.clear('key');
+      expect(await legacyStorage.load('key')).toBeNull();
+      expect(await storage.load('key')).toBeNull();
+    });
+  });
+
+  describe('createDefaultStorageAdapter', () => {
+    it('should use IndexedDB where it exists and localStorage otherwise', () => {
+      vi.stubGlobal('indexedDB', undefined);
+      expect(createDefaultStorageAdapter().name).toBe('localStorage');
+
+      vi.stubGlobal('indexedDB', createFakeIndexedDB());
+      expect(createDefaultStorageAdapter().name).toBe('indexedDB');
+    });
+  });
+});
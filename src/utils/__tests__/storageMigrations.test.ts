@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STORAGE_MIGRATIONS,
+  StorageMigration,
+  StorageMigrationError,
+  migrateStoredData
+} from '../storageMigrations';
+
+describe('storageMigrations', () => {
+  const testMigrations: StorageMigration[] = [
+    { from: '1.0.0', to: '1.1.0', description: 'A', migrate: data => ({ ...data, a: true }) },
+    { from: '1.1.0', to: '2.0.0', description: 'B', migrate: data => ({ ...data, b: true }) }
+  ];
+
+  describe('migrateStoredData', () => {
+    it('should run migrations in order and report them', () => {
+      const { data, applied } = migrateStoredData({ version: '1.0.0' }, '2.0.0', testMigrations);
+
+      expect(data).toEqual({ version: '2.0.0', a: true, b: true });
+      expect(applied.map(migration => migration.description)).toEqual(['A', 'B']);
+    });
+
+    it('should start from the stored version', () => {
+      const { data, applied } = migrateStoredData({ version: '1.1.0' }, '2.0.0', testMigrations);
+
+      expect(data).toEqual({ version: '2.0.0', b: true });
+      expect(applied).toHaveLength(1);
+    });
+
+    it('should leave current data untouched', () => {
+      const stored = { version: '2.0.0' };
+      expect(migrateStoredData(stored, '2.0.0', testMigrations)).toEqual({ data: stored, applied: [] });
+    });
+
+    it('should throw for versions without a migration path', () => {
+      expect(() => migrateStoredData({ version: '3.0.0' }, '2.0.0', testMigrations)).toThrow(StorageMigrationError);
+      expect(() => migrateStoredData({ version: '0.9.0' }, '2.0.0', testMigrations)).toThrow(StorageMigrationError);
+    });
+
+    it('should not loop on a registry with a cycle', () => {
+      const cyclic: StorageMigration[] = [
+        { from: '1.0.0', to: '1.1.0', description: 'A', migrate: data => data },
+        { from: '1.1.0', to: '1.0.0', description: 'B', migrate: data => data }
+      ];
+
+      expect(() => migrateStoredData({ version: '1.0.0' }, '2.0.0', cyclic)).toThrow(StorageMigrationError);
+    });
+  });
+
+  describe('STORAGE_MIGRATIONS', () => {
+    it('should turn completion flags into statuses', () => {
+      const { data } = migrateStoredData({
+        version: '1.0.0',
+        curriculum: {
+          '1': {
+            '1-1': { completed: true, notes: 'x' },
+            '1-2': { completed: false },
+            '1-3': { status: 'blocked' }
+          }
+        }
+      }, '1.1.0');
+
+      expect(data.curriculum).toEqual({
+        '1': {
+          '1-1': { status: 'done', notes: 'x' },
+          '1-2': { status: 'not-started' },
+          '1-3': { status: 'blocked' }
+        }
+      });
+    });
+
+    it('should form a single chain', () => {
+      STORAGE_MIGRATIONS.slice(1).forEach((migration, index) => {
+        expect(migration.from).toBe(STORAGE_MIGRATIONS[index].to);
+      });
+    });
+  });
+});
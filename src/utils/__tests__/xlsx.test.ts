@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { createXlsxWorkbook, getColumnName } from '../xlsx';
+
+/**
+ * Read the names and contents of the files in an uncompressed ZIP archive
+ */
+const readZipEntries = (zip: Uint8Array): Record<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const entries: Record<string, string> = {};
+  let offset = 0;
+
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    entries[name] = decoder.decode(zip.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size));
+    offset += 30 + nameLength + size;
+  }
+
+  return entries;
+};
+
+describe('xlsx', () => {
+  describe('getColumnName', () => {
+    it('should use spreadsheet column letters', () => {
+      expect([0, 25, 26, 27, 701, 702].map(getColumnName)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+    });
+  });
+
+  describe('createXlsxWorkbook', () => {
+    it('should contain the parts of a workbook', () => {
+      const entries = readZipEntries(createXlsxWorkbook('Sheet', [['a']]));
+
+      expect(Object.keys(entries)).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/styles.xml',
+        'xl/worksheets/sheet1.xml'
+      ]);
+    });
+
+    it('should write text, numbers and empty cells and escape XML', () => {
+      const sheet = readZipEntries(createXlsxWorkbook('Sheet', [['이름', '값'], ['<a & b>', 3.5, null]]))['xl/worksheets/sheet1.xml'];
+
+      expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">이름</t></is></c>');
+      expect(sheet).toContain('<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">&lt;a &amp; b&gt;</t></is></c><c r="B2"><v>3.5</v></c></row>');
+    });
+
+    it('should clean up sheet names Excel rejects', () => {
+      const workbook = readZipEntries(createXlsxWorkbook('1/2 [진행]: 현황?', []))['xl/workbook.xml'];
+
+      expect(workbook).toContain('<sheet name="1 2  진행   현황"');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Chapter utilities
+ * Parses chapters from course names and groups courses by chapter across weeks
+ */
+
+import { Course, Week } from '../types/curriculum';
+
+// Constants
+export const NO_CHAPTER_LABEL = '장 미지정';
+
+// "4장 > 상품 목록 페이지" style names: the chapter is everything before the first ">"
+const CHAPTER_PREFIX_PATTERN = /^\s*([^>]*?[^>\s])\s*>\s*\S/;
+
+/**
+ * Courses of one chapter, grouped by the weeks they are scheduled in
+ */
+export interface ChapterGroup {
+  /** Chapter name; null collects courses without a chapter */
+  chapter: string | null;
+  weeks: { week: Week; courses: Course[] }[];
+}
+
+/**
+ * Read the chapter from a course name that follows the "4장 > ..." convention
+ * @returns The chapter, or undefined when the name has no chapter prefix
+ */
+export const parseChapterFromName = (name: string): string | undefined =>
+  CHAPTER_PREFIX_PATTERN.exec(name)?.[1];
+
+/**
+ * Get the display label of a chapter
+ */
+export const getChapterLabel = (chapter: string | null): string => chapter ?? NO_CHAPTER_LABEL;
+
+/**
+ * Group courses by chapter, in order of each chapter's first course
+ * Courses without a chapter are collected in a last group
+ */
+export const groupCoursesByChapter = (weeks: Week[]): ChapterGroup[] => {
+  const groups = new Map<string | null, ChapterGroup>();
+
+  weeks.forEach(week => {
+    week.courses.forEach(course => {
+      const chapter = course.chapter ?? null;
+      let group = groups.get(chapter);
+      if (!group) {
+        group = { chapter, weeks: [] };
+        groups.set(chapter, group);
+      }
+
+      const lastWeek = group.weeks[group.weeks.length - 1];
+      if (lastWeek?.week.id === week.id) {
+        lastWeek.courses.push(course);
+      } else {
+        group.weeks.push({ week, courses: [course] });
+      }
+    });
+  });
+
+  const ungrouped = groups.get(null);
+  groups.delete(null);
+  return ungrouped ? [...groups.values(), ungrouped] : [...groups.values()];
+};
+
+/**
+ * Get every course of a chapter group
+ */
+export const getChapterCourses = (group: ChapterGroup): Course[] =>
+  group.weeks.flatMap(item => item.courses);
+
+/**
+ * Describe which weeks a chapter spans, e.g. "3주차 ~ 6주차"
+ */
+export const formatChapterWeekSpan = (group: ChapterGroup): string => {
+  const first = group.weeks[0]?.week.title ?? '';
+  const last = group.weeks[group.weeks.length - 1]?.week.title ?? '';
+  return first === last ? first : `${first} ~ ${last}`;
+};
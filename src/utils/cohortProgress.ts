@@ -0,0 +1,151 @@
+/**
+ * Cohort progress utilities
+ * Builds a learners × courses matrix from progress files exported by several learners of the same track
+ */
+
+import { Course, StoredData, Week } from '../types/curriculum';
+import { getInitialCurriculumState, isRegisteredCurriculum } from '../data/initialCurriculum';
+import { storedDataToCurriculumState } from './localStorage';
+import { calculateCourseProgress, calculateOverallProgress } from './progressCalculator';
+import { isCourseCounted } from './courseStatus';
+
+// Constants
+// The learner's name may follow the date, and browsers may add a counter for repeated downloads
+const EXPORT_FILE_NAME_PATTERN = /^curriculum-progress-(.+?)-\d{4}-\d{2}-\d{2}(?:-.+?)?(?: \(\d+\))?\.json$/;
+
+/**
+ * Progress file of one learner
+ */
+export interface CohortLearnerFile {
+  /** Unique within the cohort; names can repeat */
+  id: string;
+  /** The learner saved in the file, or the file name without the extension for files without one */
+  name: string;
+  fileName: string;
+  data: StoredData;
+}
+
+export interface CohortLearnerRow {
+  id: string;
+  name: string;
+  fileName: string;
+  /** When the learner last saved the exported progress */
+  lastUpdated: string;
+  /** Overall progress (0-100) over the courses of the track */
+  overallProgress: number;
+  /** True when the overall progress is below the cohort median */
+  isBehind: boolean;
+  /** The learner's copy of each course, in the order of CohortMatrix.weeks */
+  courses: Course[];
+}
+
+export interface CohortCourseSummary {
+  course: Course;
+  /** Average progress (0-100) of the learners who did not skip the course */
+  completionRate: number;
+  /** Learners who did not skip the course */
+  countedLearners: number;
+}
+
+export interface CohortMatrix {
+  /** Weeks and courses of the track definition, the columns of the matrix */
+  weeks: Week[];
+  learners: CohortLearnerRow[];
+  courses: CohortCourseSummary[];
+  medianProgress: number;
+}
+
+/**
+ * Guess the track of an exported file from its name, e.g. "curriculum-progress-frontend-2024-01-31.json"
+ * @returns The registered curriculum id, or null when the name does not tell
+ */
+export const getCurriculumIdFromExportFileName = (fileName: string): string | null => {
+  const curriculumId = EXPORT_FILE_NAME_PATTERN.exec(fileName)?.[1];
+  return curriculumId && isRegisteredCurriculum(curriculumId) ? curriculumId : null;
+};
+
+/**
+ * Get the names shared by more than one file, e.g. two exports without a learner made on the same day
+ * @returns Each repeated name with the number of files that have it
+ */
+export const getDuplicateLearnerNames = (files: CohortLearnerFile[]): { name: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  files.forEach(({ name }) => counts.set(name, (counts.get(name) ?? 0) + 1));
+  return Array.from(counts, ([name, count]) => ({ name, count })).filter(({ count }) => count > 1);
+};
+
+/**
+ * Get the median of a list of numbers; 0 for an empty list
+ */
+export const getMedian = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Build the learners × courses matrix of a track
+ * Columns are the courses of the track definition, so every learner is measured against the same courses;
+ * courses a learner added in the structure editor are left out, and courses a learner removed count as not started
+ * @throws CurriculumDefinitionError when the definition of the track is invalid
+ */
+export const buildCohortMatrix = (files: CohortLearnerFile[], curriculumId: string): CohortMatrix => {
+  const weeks = getInitialCurriculumState(curriculumId).weeks;
+
+  const learners = files.map(({ id, name, fileName, data }) => {
+    // Courses are looked up by id alone, so courses a learner moved to another week are still found
+    const learnerCourses = new Map(
+      storedDataToCurriculumState(data, { weeks, overallProgress: 0 }).weeks
+        .flatMap(week => week.courses)
+        .map(course => [course.id, course])
+    );
+    const learnerWeeks = weeks.map(week => ({
+      ...week,
+      courses: week.courses.map(course => {
+        const learnerCourse = learnerCourses.get(course.id);
+        // Weights and subtasks come from the definition; only the progress is the learner's
+        return learnerCourse
+          ? {
+              ...course,
+              status: learnerCourse.status,
+              startDate: learnerCourse.startDate,
+              endDate: learnerCourse.endDate,
+              subtasks: course.subtasks?.map(subtask => ({
+                ...subtask,
+                completed: learnerCourse.subtasks?.some(item => item.id === subtask.id && item.completed) ?? false
+              }))
+            }
+          : course;
+      })
+    }));
+
+    return {
+      id,
+      name,
+      fileName,
+      lastUpdated: data.lastUpdated,
+      overallProgress: calculateOverallProgress(learnerWeeks),
+      courses: learnerWeeks.flatMap(week => week.courses)
+    };
+  });
+
+  const medianProgress = getMedian(learners.map(learner => learner.overallProgress));
+
+  const courses = weeks.flatMap(week => week.courses).map((course, index) => {
+    const counted = learners.map(learner => learner.courses[index]).filter(isCourseCounted);
+    const total = counted.reduce((sum, learnerCourse) => sum + calculateCourseProgress(learnerCourse), 0);
+    return {
+      course,
+      completionRate: counted.length > 0 ? Math.round(total / counted.length) : 0,
+      countedLearners: counted.length
+    };
+  });
+
+  return {
+    weeks,
+    learners: learners.map(learner => ({ ...learner, isBehind: learner.overallProgress < medianProgress })),
+    courses,
+    medianProgress
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Course status utilities
+ * Labels, checks and migration helpers for the course status lifecycle
+ */
+
+import { Course, CourseStatus, Subtask } from '../types/curriculum';
+
+// Constants
+export const COURSE_STATUSES: CourseStatus[] = ['not-started', 'in-progress', 'blocked', 'done', 'skipped'];
+
+export const COURSE_STATUS_LABELS: Record<CourseStatus, string> = {
+  'not-started': '시작 전',
+  'in-progress': '진행 중',
+  blocked: '막힘',
+  done: '완료',
+  skipped: '건너뜀'
+};
+
+/**
+ * Check whether a value is a known course status
+ */
+export const isCourseStatus = (value: unknown): value is CourseStatus =>
+  typeof value === 'string' && (COURSE_STATUSES as string[]).includes(value);
+
+/**
+ * Check whether a course is done
+ */
+export const isCourseDone = (course: Course): boolean => course.status === 'done';
+
+/**
+ * Check whether a course counts toward progress; skipped courses do not
+ */
+export const isCourseCounted = (course: Course): boolean => course.status !== 'skipped';
+
+/**
+ * Convert the boolean completion flag stored by earlier versions into a status
+ */
+export const completedToStatus = (completed: boolean): CourseStatus =>
+  completed ? 'done' : 'not-started';
+
+/**
+ * Create an empty per-status counter
+ */
+export const createStatusCounts = (): Record<CourseStatus, number> => ({
+  'not-started': 0,
+  'in-progress': 0,
+  blocked: 0,
+  done: 0,
+  skipped: 0
+});
+
+/**
+ * Count courses per status
+ */
+export const countCourseStatuses = (courses: Course[]): Record<CourseStatus, number> =>
+  courses.reduce((counts, course) => {
+    counts[course.status]++;
+    return counts;
+  }, createStatusCounts());
+
+/**
+ * Derive a course's status from its subtasks
+ * All subtasks checked means done; checking some starts the course, and unchecking
+ * steps of a done course reopens it. Blocked and skipped courses keep their status.
+ */
+export const deriveStatusFromSubtasks = (status: CourseStatus, subtasks: Subtask[]): CourseStatus => {
+  if (subtasks.length === 0) return status;
+
+  const checkedCount = subtasks.filter(subtask => subtask.completed).length;
+  if (checkedCount === subtasks.length) return 'done';
+  if (status === 'done' || status === 'not-started') {
+    return checkedCount > 0 ? 'in-progress' : 'not-started';
+  }
+  return status;
+};
@@ -0,0 +1,191 @@
+/**
+ * Cross-tab sync utilities
+ * Shares saved progress between tabs of the tracker and merges changes made in several tabs at once
+ */
+
+import { OrphanedProgressKey, StoredData } from '../types/curriculum';
+import { DEFAULT_PROFILE_ID, getProfileStorageKey } from './learnerProfiles';
+
+// Constants
+export const CROSS_TAB_CHANNEL_NAME = 'curriculum-progress-tracker';
+
+/**
+ * Message sent to the other tabs
+ * - saved: this tab saved progress of a curriculum
+ * - synced: this tab saved progress on the server; other tabs adopt the ETag so their next write is not a conflict
+ */
+export type CrossTabMessage =
+  | { type: 'saved'; curriculumId: string; data: StoredData }
+  | { type: 'synced'; curriculumId: string; etag: string };
+
+export interface CrossTabChannel {
+  post: (message: CrossTabMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Changes made in two tabs at once; the later change wins in both tabs
+ */
+export interface CrossTabConflict {
+  /** Courses both tabs changed differently */
+  conflicts: OrphanedProgressKey[];
+  /** True when both tabs edited the structure differently */
+  structureConflict: boolean;
+  /** Tab whose version was kept */
+  kept: 'local' | 'incoming';
+}
+
+/**
+ * Result of merging progress saved in another tab into this tab's progress
+ */
+export interface CrossTabMergeResult extends CrossTabConflict {
+  data: StoredData;
+}
+
+/**
+ * Get the localStorage key used to pass messages where BroadcastChannel does not exist
+ */
+const getCrossTabMessageKey = (profileId: string): string =>
+  `${getProfileStorageKey(CROSS_TAB_CHANNEL_NAME, profileId)}:message`;
+
+/**
+ * Open a channel to the other tabs of the same origin
+ * Uses BroadcastChannel, or storage events on a message key in browsers without it
+ * @param profileId Only tabs on the same learner profile share a channel
+ * @param useStorageFallback False while progress is encrypted: the message key would keep the progress
+ * readable in localStorage, so tabs of browsers without BroadcastChannel are not kept up to date
+ */
+export const createCrossTabChannel = (
+  onMessage: (message: CrossTabMessage) => void,
+  profileId: string = DEFAULT_PROFILE_ID,
+  useStorageFallback: boolean = true
+): CrossTabChannel => {
+  const channelName = getProfileStorageKey(CROSS_TAB_CHANNEL_NAME, profileId);
+  const messageKey = getCrossTabMessageKey(profileId);
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = event => onMessage(event.data as CrossTabMessage);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  if (!useStorageFallback) {
+    return { post: () => {}, close: () => {} };
+  }
+
+  // Storage events fire in every other tab when a key changes, never in the tab that wrote it
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== messageKey || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message as CrossTabMessage);
+    } catch (error) {
+      console.warn('Ignoring malformed cross-tab message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post: message => {
+      try {
+        // The timestamp makes repeated messages change the key so they still fire an event
+        localStorage.setItem(messageKey, JSON.stringify({ message, sentAt: Date.now() }));
+      } catch (error) {
+        console.warn('Cannot notify other tabs:', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
+
+/**
+ * Remove the last message passed through localStorage, which holds the progress of the tab that sent it
+ */
+export const clearCrossTabMessage = (profileId: string = DEFAULT_PROFILE_ID): void => {
+  try {
+    localStorage.removeItem(getCrossTabMessageKey(profileId));
+  } catch (error) {
+    console.warn('Failed to clear the cross-tab message:', error);
+  }
+};
+
+/**
+ * Check whether two payloads hold the same progress and structure, whenever they were saved
+ */
+export const isSameStoredProgress = (a: StoredData, b: StoredData): boolean =>
+  JSON.stringify({ ...a, lastUpdated: '' }) === JSON.stringify({ ...b, lastUpdated: '' });
+
+/**
+ * Pick the side of a three-way merge that changed; when both changed differently the preferred side is kept
+ */
+const mergeValue = <T>(
+  base: T | undefined,
+  local: T | undefined,
+  incoming: T | undefined,
+  preferIncoming: boolean
+): { value: T | undefined; conflict: boolean } => {
+  const [baseJson, localJson, incomingJson] = [base, local, incoming].map(value => JSON.stringify(value));
+  if (localJson === incomingJson || incomingJson === baseJson) return { value: local, conflict: false };
+  if (localJson === baseJson) return { value: incoming, conflict: false };
+  return { value: preferIncoming ? incoming : local, conflict: true };
+};
+
+/**
+ * Merge progress saved in another tab into this tab's progress, course by course
+ * A course takes the other tab's version when only that tab changed it since both last agreed.
+ * When both changed it, the version saved later is kept and the course is reported as a conflict;
+ * both tabs pick the same side, so they end up with the same progress
+ * @param base Progress both tabs last agreed on; null when unknown, which makes every difference a conflict
+ * @param local Progress of this tab, with lastUpdated set to when this tab last changed it
+ * @param incoming Progress saved in the other tab
+ */
+export const mergeCrossTabProgress = (
+  base: StoredData | null,
+  local: StoredData,
+  incoming: StoredData
+): CrossTabMergeResult => {
+  const baseCurriculum = base?.curriculum ?? {};
+  // Saves in the same millisecond are ordered by content so both tabs still pick the same side
+  const preferIncoming = incoming.lastUpdated === local.lastUpdated
+    ? JSON.stringify(incoming.curriculum) > JSON.stringify(local.curriculum)
+    : incoming.lastUpdated > local.lastUpdated;
+  const curriculum: StoredData['curriculum'] = {};
+  const conflicts: OrphanedProgressKey[] = [];
+
+  const weekIds = new Set([...Object.keys(local.curriculum), ...Object.keys(incoming.curriculum)]);
+  weekIds.forEach(weekId => {
+    curriculum[weekId] = {};
+    const courseIds = new Set([
+      ...Object.keys(local.curriculum[weekId] ?? {}),
+      ...Object.keys(incoming.curriculum[weekId] ?? {})
+    ]);
+    courseIds.forEach(courseId => {
+      const { value, conflict } = mergeValue(
+        baseCurriculum[weekId]?.[courseId],
+        local.curriculum[weekId]?.[courseId],
+        incoming.curriculum[weekId]?.[courseId],
+        preferIncoming
+      );
+      if (conflict) conflicts.push({ weekId, courseId });
+      if (value) {
+        curriculum[weekId][courseId] = value;
+      }
+    });
+  });
+
+  const structure = mergeValue(base?.structure, local.structure, incoming.structure, preferIncoming);
+
+  return {
+    data: {
+      version: local.version,
+      lastUpdated: preferIncoming ? incoming.lastUpdated : local.lastUpdated,
+      curriculum,
+      ...(structure.value ? { structure: structure.value } : {})
+    },
+    conflicts,
+    structureConflict: structure.conflict,
+    kept: preferIncoming ? 'incoming' : 'local'
+  };
+};
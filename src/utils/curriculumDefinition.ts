@@ -0,0 +1,391 @@
+/**
+ * Curriculum definition utilities
+ * Validates curriculum definition files and turns them into curriculum weeks
+ */
+
+import {
+  CourseDefinition,
+  CurriculumDefinition,
+  CurriculumDefinitionIssue,
+  ResourceLink,
+  Week,
+  WeekDefinition
+} from '../types/curriculum';
+import { isResourceLinkType, isWebUrl, RESOURCE_LINK_TYPES } from './resourceLinks';
+import { parseChapterFromName } from './chapters';
+import { findPrerequisiteCycle } from './prerequisites';
+
+// Constants
+export const CURRICULUM_SCHEMA_VERSION = 1;
+
+export interface CurriculumDefinitionValidationResult {
+  isValid: boolean;
+  issues: CurriculumDefinitionIssue[];
+}
+
+/**
+ * Error thrown when a curriculum definition cannot be loaded
+ */
+export class CurriculumDefinitionError extends Error {
+  readonly issues: CurriculumDefinitionIssue[];
+  readonly source: string;
+
+  constructor(source: string, issues: CurriculumDefinitionIssue[]) {
+    super(`Invalid curriculum definition (${source}):\n${formatCurriculumDefinitionIssues(issues)}`);
+    this.name = 'CurriculumDefinitionError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Check whether a value is usable as a course's estimated hours
+ */
+export const isValidEstimatedHours = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Format validation issues as one "path: message" line per issue
+ */
+export const formatCurriculumDefinitionIssues = (issues: CurriculumDefinitionIssue[]): string =>
+  issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+
+/**
+ * Collect problems in a list of week definitions (ids, titles, courses, subtasks, links, prerequisites and previous ids)
+ */
+const collectStructureIssues = (weeks: unknown): CurriculumDefinitionIssue[] => {
+  const issues: CurriculumDefinitionIssue[] = [];
+  const addIssue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!Array.isArray(weeks)) {
+    addIssue('weeks', '주차 목록(배열)이 필요합니다.');
+    return issues;
+  }
+
+  const weekIds = new Map<number, string>();
+  const courseIds = new Map<string, string>();
+  // Checked once every course id is known, since prerequisites may point at later weeks
+  const prerequisiteLists: { path: string; courseId: unknown; prerequisites: unknown }[] = [];
+  // Checked once every course id is known, since a course may take over the id of a course in another week
+  const previousIdLists: { path: string; previousIds: unknown }[] = [];
+
+  weeks.forEach((week: unknown, weekIndex: number) => {
+    const weekPath = `weeks[${weekIndex}]`;
+
+    if (!isPlainObject(week)) {
+      addIssue(weekPath, '주차는 객체여야 합니다.');
+      return;
+    }
+
+    if (typeof week.id !== 'number' || !Number.isInteger(week.id) || week.id <= 0) {
+      addIssue(`${weekPath}.id`, '주차 ID는 1 이상의 정수여야 합니다.');
+    } else if (weekIds.has(week.id)) {
+      addIssue(`${weekPath}.id`, `주차 ID ${week.id}가 ${weekIds.get(week.id)}와 중복됩니다.`);
+    } else {
+      weekIds.set(week.id, weekPath);
+    }
+
+    if (!isNonEmptyString(week.title)) {
+      addIssue(`${weekPath}.title`, '주차 제목은 비어 있지 않은 문자열이어야 합니다.');
+    }
+
+    if (!Array.isArray(week.courses)) {
+      addIssue(`${weekPath}.courses`, '과정 목록(배열)이 필요합니다.');
+      return;
+    }
+
+    week.courses.forEach((course: unknown, courseIndex: number) => {
+      const coursePath = `${weekPath}.courses[${courseIndex}]`;
+
+      if (!isPlainObject(course)) {
+        addIssue(coursePath, '과정은 객체여야 합니다.');
+        return;
+      }
+
+      if (!isNonEmptyString(course.id)) {
+        addIssue(`${coursePath}.id`, '과정 ID는 비어 있지 않은 문자열이어야 합니다.');
+      } else if (courseIds.has(course.id)) {
+        addIssue(`${coursePath}.id`, `과정 ID "${course.id}"가 ${courseIds.get(course.id)}와 중복됩니다.`);
+      } else {
+        courseIds.set(course.id, coursePath);
+      }
+
+      if (!isNonEmptyString(course.name)) {
+        addIssue(`${coursePath}.name`, '과정명은 비어 있지 않은 문자열이어야 합니다.');
+      }
+
+      if (course.prerequisites !== undefined) {
+        prerequisiteLists.push({ path: `${coursePath}.prerequisites`, courseId: course.id, prerequisites: course.prerequisites });
+      }
+
+      if (course.previousIds !== undefined) {
+        previousIdLists.push({ path: `${coursePath}.previousIds`, previousIds: course.previousIds });
+      }
+
+      if (course.chapter !== undefined && !isNonEmptyString(course.chapter)) {
+        addIssue(`${coursePath}.chapter`, '장(챕터)은 비어 있지 않은 문자열이어야 합니다.');
+      }
+
+      if (course.estimatedHours !== undefined && !isValidEstimatedHours(course.estimatedHours)) {
+        addIssue(`${coursePath}.estimatedHours`, '예상 시간은 0보다 큰 숫자여야 합니다.');
+      }
+
+      if (course.resources !== undefined) {
+        if (!Array.isArray(course.resources)) {
+          addIssue(`${coursePath}.resources`, '링크 목록은 배열이어야 합니다.');
+        } else {
+          course.resources.forEach((link: unknown, linkIndex: number) => {
+            const linkPath = `${coursePath}.resources[${linkIndex}]`;
+
+            if (!isPlainObject(link)) {
+              addIssue(linkPath, '링크는 객체여야 합니다.');
+              return;
+            }
+
+            if (!isResourceLinkType(link.type)) {
+              addIssue(`${linkPath}.type`, `링크 종류는 ${RESOURCE_LINK_TYPES.join(', ')} 중 하나여야 합니다.`);
+            }
+            if (!isWebUrl(link.url)) {
+              addIssue(`${linkPath}.url`, '링크 주소는 http 또는 https URL이어야 합니다.');
+            }
+            if (link.title !== undefined && typeof link.title !== 'string') {
+              addIssue(`${linkPath}.title`, '링크 제목은 문자열이어야 합니다.');
+            }
+          });
+        }
+      }
+
+      if (course.subtasks === undefined) return;
+      if (!Array.isArray(course.subtasks)) {
+        addIssue(`${coursePath}.subtasks`, '하위 작업 목록은 배열이어야 합니다.');
+        return;
+      }
+
+      const subtaskIds = new Set<string>();
+      course.subtasks.forEach((subtask: unknown, subtaskIndex: number) => {
+        const subtaskPath = `${coursePath}.subtasks[${subtaskIndex}]`;
+
+        if (!isPlainObject(subtask)) {
+          addIssue(subtaskPath, '하위 작업은 객체여야 합니다.');
+          return;
+        }
+
+        if (!isNonEmptyString(subtask.id)) {
+          addIssue(`${subtaskPath}.id`, '하위 작업 ID는 비어 있지 않은 문자열이어야 합니다.');
+        } else if (subtaskIds.has(subtask.id)) {
+          addIssue(`${subtaskPath}.id`, `하위 작업 ID "${subtask.id}"가 같은 과정 안에서 중복됩니다.`);
+        } else {
+          subtaskIds.add(subtask.id);
+        }
+
+        if (!isNonEmptyString(subtask.title)) {
+          addIssue(`${subtaskPath}.title`, '하위 작업 제목은 비어 있지 않은 문자열이어야 합니다.');
+        }
+      });
+    });
+  });
+
+  // Check prerequisites point at other existing courses without forming a cycle
+  const prerequisitesById = new Map<string, string[]>();
+  prerequisiteLists.forEach(({ path, courseId, prerequisites }) => {
+    if (!Array.isArray(prerequisites)) {
+      addIssue(path, '선행 과정 목록은 배열이어야 합니다.');
+      return;
+    }
+
+    prerequisites.forEach((prerequisiteId: unknown, index: number) => {
+      if (typeof prerequisiteId !== 'string' || !courseIds.has(prerequisiteId)) {
+        addIssue(`${path}[${index}]`, `선행 과정 "${String(prerequisiteId)}"를 찾을 수 없습니다.`);
+      } else if (prerequisiteId === courseId) {
+        addIssue(`${path}[${index}]`, '과정은 자기 자신을 선행 과정으로 가질 수 없습니다.');
+      }
+    });
+
+    if (typeof courseId === 'string') {
+      prerequisitesById.set(courseId, prerequisites.filter((id): id is string => typeof id === 'string' && id !== courseId));
+    }
+  });
+
+  const cycle = findPrerequisiteCycle(prerequisitesById);
+  if (cycle) {
+    addIssue(`${courseIds.get(cycle[0])}.prerequisites`, `선행 과정이 순환합니다: ${cycle.join(' → ')}`);
+  }
+
+  // Check previous ids are unused by current courses and claimed by a single course, so saved progress has one owner
+  const previousIds = new Map<string, string>();
+  previousIdLists.forEach(({ path, previousIds: ids }) => {
+    if (!Array.isArray(ids)) {
+      addIssue(path, '이전 ID 목록은 배열이어야 합니다.');
+      return;
+    }
+
+    ids.forEach((previousId: unknown, index: number) => {
+      const previousIdPath = `${path}[${index}]`;
+      if (!isNonEmptyString(previousId)) {
+        addIssue(previousIdPath, '이전 ID는 비어 있지 않은 문자열이어야 합니다.');
+      } else if (courseIds.has(previousId)) {
+        addIssue(previousIdPath, `이전 ID "${previousId}"는 ${courseIds.get(previousId)}에서 과정 ID로 쓰이고 있습니다.`);
+      } else if (previousIds.has(previousId)) {
+        addIssue(previousIdPath, `이전 ID "${previousId}"가 ${previousIds.get(previousId)}와 중복됩니다.`);
+      } else {
+        previousIds.set(previousId, previousIdPath);
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Validate a curriculum definition and collect every problem found
+ */
+export const validateCurriculumDefinition = (data: unknown): CurriculumDefinitionValidationResult => {
+  const issues: CurriculumDefinitionIssue[] = [];
+  const addIssue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isPlainObject(data)) {
+    addIssue('(root)', '커리큘럼 정의는 JSON 객체여야 합니다.');
+    return { isValid: false, issues };
+  }
+
+  // Check format version
+  if (typeof data.schemaVersion !== 'number') {
+    addIssue('schemaVersion', '형식 버전(숫자)이 필요합니다.');
+  } else if (data.schemaVersion !== CURRICULUM_SCHEMA_VERSION) {
+    addIssue(
+      'schemaVersion',
+      `지원하지 않는 형식 버전입니다: ${data.schemaVersion} (지원 버전: ${CURRICULUM_SCHEMA_VERSION})`
+    );
+  }
+
+  // Check metadata
+  if (!isPlainObject(data.metadata)) {
+    addIssue('metadata', '메타데이터 객체가 필요합니다.');
+  } else {
+    const metadata = data.metadata;
+    if (!isNonEmptyString(metadata.id)) {
+      addIssue('metadata.id', '커리큘럼 ID는 비어 있지 않은 문자열이어야 합니다.');
+    }
+    if (!isNonEmptyString(metadata.title)) {
+      addIssue('metadata.title', '커리큘럼 제목은 비어 있지 않은 문자열이어야 합니다.');
+    }
+    if (metadata.description !== undefined && typeof metadata.description !== 'string') {
+      addIssue('metadata.description', '설명은 문자열이어야 합니다.');
+    }
+    if (!isNonEmptyString(metadata.version)) {
+      addIssue('metadata.version', '커리큘럼 버전은 비어 있지 않은 문자열이어야 합니다.');
+    }
+  }
+
+  // Check weeks and courses
+  if (Array.isArray(data.weeks) && data.weeks.length === 0) {
+    addIssue('weeks', '최소 한 개의 주차가 필요합니다.');
+  }
+  issues.push(...collectStructureIssues(data.weeks));
+
+  return { isValid: issues.length === 0, issues };
+};
+
+/**
+ * Validate a curriculum structure (weeks and courses without metadata),
+ * as saved after editing the curriculum in the app
+ */
+export const validateCurriculumStructure = (weeks: unknown): CurriculumDefinitionValidationResult => {
+  const issues = collectStructureIssues(weeks);
+  return { isValid: issues.length === 0, issues };
+};
+
+/**
+ * Validate raw definition data and return it typed
+ * @param data Parsed JSON content of a definition file
+ * @param source Name of the definition used in error messages
+ * @throws CurriculumDefinitionError when the definition is invalid
+ */
+export const loadCurriculumDefinition = (data: unknown, source = 'curriculum'): CurriculumDefinition => {
+  const result = validateCurriculumDefinition(data);
+  if (!result.isValid) {
+    throw new CurriculumDefinitionError(source, result.issues);
+  }
+  return data as CurriculumDefinition;
+};
+
+const withChapter = (chapter: string | undefined): { chapter?: string } =>
+  chapter !== undefined ? { chapter } : {};
+
+/**
+ * Convert validated week definitions into curriculum weeks with no progress
+ * Courses without a chapter get one from a "4장 > ..." name prefix, so definitions and
+ * structures saved before chapters existed are grouped too
+ */
+export const curriculumStructureToWeeks = (weeks: WeekDefinition[]): Week[] =>
+  weeks.map(week => ({
+    id: week.id,
+    title: week.title,
+    courses: week.courses.map(course => ({
+      id: course.id,
+      name: course.name,
+      ...withChapter(course.chapter ?? parseChapterFromName(course.name)),
+      status: 'not-started',
+      ...(course.estimatedHours !== undefined ? { estimatedHours: course.estimatedHours } : {}),
+      ...(course.subtasks
+        ? { subtasks: course.subtasks.map(subtask => ({ id: subtask.id, title: subtask.title, completed: false })) }
+        : {}),
+      ...(course.resources
+        ? {
+            resources: course.resources.map((link, index) => ({
+              id: `def-${index + 1}`,
+              type: link.type,
+              url: link.url,
+              ...(link.title ? { title: link.title } : {})
+            }))
+          }
+        : {}),
+      ...(course.prerequisites?.length ? { prerequisites: [...course.prerequisites] } : {}),
+      ...(course.previousIds?.length ? { previousIds: [...course.previousIds] } : {})
+    })),
+    progress: 0
+  }));
+
+/**
+ * Convert a validated definition into curriculum weeks with no progress
+ */
+export const curriculumDefinitionToWeeks = (definition: CurriculumDefinition): Week[] =>
+  curriculumStructureToWeeks(definition.weeks);
+
+/**
+ * Links that belong in a structure; links the learner added are saved with the progress instead
+ */
+const definitionResources = (resources: ResourceLink[] | undefined): Pick<CourseDefinition, 'resources'> => {
+  const links = (resources ?? []).filter(link => !link.userAdded);
+  return links.length > 0
+    ? { resources: links.map(link => ({ type: link.type, url: link.url, ...(link.title ? { title: link.title } : {}) })) }
+    : {};
+};
+
+/**
+ * Extract the structure (weeks and courses without progress) of curriculum weeks
+ * Links the learner added are left out; they are saved with the progress
+ */
+export const weeksToCurriculumStructure = (weeks: Week[]): WeekDefinition[] =>
+  weeks.map(week => ({
+    id: week.id,
+    title: week.title,
+    courses: week.courses.map(course => ({
+      id: course.id,
+      name: course.name,
+      ...withChapter(course.chapter),
+      ...(course.estimatedHours !== undefined ? { estimatedHours: course.estimatedHours } : {}),
+      ...(course.subtasks
+        ? { subtasks: course.subtasks.map(subtask => ({ id: subtask.id, title: subtask.title })) }
+        : {}),
+      ...definitionResources(course.resources),
+      ...(course.prerequisites?.length ? { prerequisites: [...course.prerequisites] } : {}),
+      ...(course.previousIds?.length ? { previousIds: [...course.previousIds] } : {})
+    }))
+  }));
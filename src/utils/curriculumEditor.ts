@@ -0,0 +1,75 @@
+/**
+ * Curriculum editor utilities
+ * Id generation and list helpers for structural edits (add, delete, reorder)
+ */
+
+import { Course, Week } from '../types/curriculum';
+
+/**
+ * Generate an id for a new week
+ * Ids are never derived from position, so reordering weeks keeps saved progress attached
+ */
+export const generateWeekId = (weeks: Week[]): number =>
+  weeks.reduce((maxId, week) => Math.max(maxId, week.id), 0) + 1;
+
+/**
+ * Generate an id for a new course in a week, following the "weekId-number" convention
+ * The id is unique across the whole curriculum, because courses can move between weeks;
+ * previous ids and reserved ids (e.g. of orphaned progress) are skipped so no saved progress attaches to it
+ */
+export const generateCourseId = (weeks: Week[], weekId: number, reservedIds: string[] = []): string => {
+  const usedIds = new Set([
+    ...weeks.flatMap(week => week.courses.flatMap(course => [course.id, ...(course.previousIds ?? [])])),
+    ...reservedIds
+  ]);
+  const week = weeks.find(item => item.id === weekId);
+  let sequence = (week?.courses.length ?? 0) + 1;
+
+  while (usedIds.has(`${weekId}-${sequence}`)) {
+    sequence++;
+  }
+
+  return `${weekId}-${sequence}`;
+};
+
+/**
+ * Generate an id for a new subtask, unique within its course
+ */
+export const generateSubtaskId = (course: Course): string => {
+  const usedIds = new Set((course.subtasks ?? []).map(subtask => subtask.id));
+  let sequence = usedIds.size + 1;
+
+  while (usedIds.has(`s${sequence}`)) {
+    sequence++;
+  }
+
+  return `s${sequence}`;
+};
+
+/**
+ * Check whether a course holds anything the learner entered
+ * (a status, dates, notes, checked subtasks or added links), which deleting it would lose
+ */
+export const hasCourseProgress = (course: Course): boolean =>
+  course.status !== 'not-started' ||
+  !!course.startDate ||
+  !!course.endDate ||
+  !!course.notes ||
+  !!course.subtasks?.some(subtask => subtask.completed) ||
+  !!course.resources?.some(link => link.userAdded);
+
+/**
+ * Move an item to a new index, clamping the index to the list bounds
+ * @returns A new array; the original array is left untouched
+ */
+export const moveItem = <T>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  if (fromIndex < 0 || fromIndex >= items.length) return items;
+
+  const targetIndex = Math.max(0, Math.min(items.length - 1, toIndex));
+  if (targetIndex === fromIndex) return items;
+
+  const result = [...items];
+  const [item] = result.splice(fromIndex, 1);
+  result.splice(targetIndex, 0, item);
+  return result;
+};
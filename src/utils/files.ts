@@ -0,0 +1,32 @@
+/**
+ * File utilities
+ * Lets the browser save generated content as a file and reads files the user picks
+ */
+
+/**
+ * Offer content to the user as a file download
+ * @param content Text or binary content of the file
+ * @param fileName Suggested file name
+ * @param mimeType MIME type of the content
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Read a file picked by the user as UTF-8 text
+ */
+export const readTextFile = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
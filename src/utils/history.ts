@@ -0,0 +1,259 @@
+/**
+ * Undo history utilities
+ * Wraps the curriculum reducer in bounded undo/redo stacks and keeps them in sessionStorage across reloads
+ */
+
+import {
+  CurriculumAction,
+  CurriculumActionType,
+  CurriculumHistoryEntry,
+  CurriculumState,
+  StoredData
+} from '../types/curriculum';
+import { curriculumStateToStoredData, getStorageKey, storedDataToCurriculumState } from './localStorage';
+import { isSameStoredProgress } from './crossTabSync';
+import { DEFAULT_PROFILE_ID, getProfileStorageKey } from './learnerProfiles';
+import { updateAllProgress } from './progressCalculator';
+
+// Constants
+export const HISTORY_LIMIT = 50;
+
+/**
+ * What each action changed, as shown in the undo toast; null for actions that are not undoable
+ * LOAD_DATA replaces the whole state (loading, importing, another tab) and starts a new history
+ */
+export const HISTORY_ACTION_LABELS: Record<CurriculumActionType, string | null> = {
+  SET_START_DATE: '시작일 변경',
+  SET_END_DATE: '종료일 변경',
+  TOGGLE_COMPLETION: '완료 표시 변경',
+  DISMISS_PREREQUISITE_WARNING: null,
+  SET_STATUS: '상태 변경',
+  SET_NOTES: '메모 수정',
+  SET_CHAPTER: '장 변경',
+  ADD_RESOURCE_LINK: '링크 추가',
+  DELETE_RESOURCE_LINK: '링크 삭제',
+  REASSIGN_ORPHANED_PROGRESS: '진행 기록 옮기기',
+  DISCARD_ORPHANED_PROGRESS: '진행 기록 삭제',
+  LOAD_DATA: null,
+  ADD_WEEK: '주차 추가',
+  RENAME_WEEK: '주차 이름 변경',
+  DELETE_WEEK: '주차 삭제',
+  MOVE_WEEK: '주차 이동',
+  ADD_COURSE: '과정 추가',
+  RENAME_COURSE: '과정 이름 변경',
+  DELETE_COURSE: '과정 삭제',
+  MOVE_COURSE: '과정 이동',
+  SET_ESTIMATED_HOURS: '예상 시간 변경',
+  TOGGLE_SUBTASK: '세부 작업 체크',
+  ADD_SUBTASK: '세부 작업 추가',
+  DELETE_SUBTASK: '세부 작업 삭제',
+  RESET_ALL: '전체 진행 기록 초기화',
+  RESET_WEEK: '진행 기록 초기화',
+  UNDO: null,
+  REDO: null,
+  RESTORE_HISTORY: null
+};
+
+/**
+ * Last change made to the history, for the undo toast; id grows with every change
+ */
+export interface HistoryChange {
+  kind: 'change' | 'undo' | 'redo';
+  label: string;
+  id: number;
+}
+
+export interface CurriculumHistory {
+  /** States before each change, oldest first */
+  past: CurriculumHistoryEntry[];
+  present: CurriculumState;
+  /** Undone changes, the next one to redo last */
+  future: CurriculumHistoryEntry[];
+  lastChange: HistoryChange | null;
+}
+
+/**
+ * History entries as kept in sessionStorage
+ */
+interface StoredHistoryEntry {
+  data: StoredData;
+  label: string;
+}
+
+interface StoredHistory {
+  /** Progress the stacks belong to; they are dropped when the loaded progress differs */
+  present: StoredData;
+  past: StoredHistoryEntry[];
+  future: StoredHistoryEntry[];
+}
+
+/**
+ * Start a history with no changes
+ */
+export const createCurriculumHistory = (present: CurriculumState): CurriculumHistory => ({
+  past: [],
+  present,
+  future: [],
+  lastChange: null
+});
+
+/**
+ * Describe the change an action makes, naming the course or else the week it applies to
+ * @returns Label for the undo toast, or null when the action is not undoable
+ */
+export const getHistoryLabel = (state: CurriculumState, action: CurriculumAction): string | null => {
+  const label = HISTORY_ACTION_LABELS[action.type];
+  if (!label) return null;
+
+  const { weekId, courseId } = action.payload;
+  const course = courseId
+    ? state.weeks.flatMap(week => week.courses).find(item => item.id === courseId)
+    : undefined;
+  const week = weekId ? state.weeks.find(item => item.id === weekId) : undefined;
+  const name = course?.name ?? week?.title;
+  return name ? `${name}: ${label}` : label;
+};
+
+// Warnings belong to the moment they were raised and are not brought back by undo
+const toEntryState = (state: CurriculumState): CurriculumState =>
+  state.prerequisiteWarning ? { ...state, prerequisiteWarning: undefined } : state;
+
+const nextChange = (history: CurriculumHistory, kind: HistoryChange['kind'], label: string): HistoryChange => ({
+  kind,
+  label,
+  id: (history.lastChange?.id ?? 0) + 1
+});
+
+/**
+ * Wrap a curriculum reducer so its changes can be undone and redone
+ * Only changes to weeks, courses or orphaned progress are recorded; at most HISTORY_LIMIT are kept
+ */
+export const withHistory = (
+  reducer: (state: CurriculumState, action: CurriculumAction) => CurriculumState
+) => (history: CurriculumHistory, action: CurriculumAction): CurriculumHistory => {
+  switch (action.type) {
+    case 'UNDO': {
+      const entry = history.past[history.past.length - 1];
+      if (!entry) return history;
+
+      return {
+        past: history.past.slice(0, -1),
+        present: entry.state,
+        future: [...history.future, { state: toEntryState(history.present), label: entry.label }],
+        lastChange: nextChange(history, 'undo', entry.label)
+      };
+    }
+
+    case 'REDO': {
+      const entry = history.future[history.future.length - 1];
+      if (!entry) return history;
+
+      return {
+        past: [...history.past, { state: toEntryState(history.present), label: entry.label }],
+        present: entry.state,
+        future: history.future.slice(0, -1),
+        lastChange: nextChange(history, 'redo', entry.label)
+      };
+    }
+
+    case 'RESTORE_HISTORY': {
+      const { history: restored } = action.payload;
+      if (!restored) return history;
+
+      return {
+        ...history,
+        past: restored.past.slice(-HISTORY_LIMIT),
+        future: restored.future.slice(-HISTORY_LIMIT)
+      };
+    }
+  }
+
+  const present = reducer(history.present, action);
+  if (present === history.present) return history;
+  if (action.type === 'LOAD_DATA') return createCurriculumHistory(present);
+
+  const label = getHistoryLabel(history.present, action);
+  const isContentChanged = present.weeks !== history.present.weeks ||
+    present.orphanedProgress !== history.present.orphanedProgress;
+  if (!label || !isContentChanged) return { ...history, present };
+
+  return {
+    past: [...history.past, { state: toEntryState(history.present), label }].slice(-HISTORY_LIMIT),
+    present,
+    future: [],
+    lastChange: nextChange(history, 'change', label)
+  };
+};
+
+/**
+ * Get the sessionStorage key holding the undo history of a curriculum
+ */
+export const getHistoryStorageKey = (curriculumId: string, profileId: string = DEFAULT_PROFILE_ID): string =>
+  getProfileStorageKey(`${getStorageKey(curriculumId)}:history`, profileId);
+
+/**
+ * Keep the undo history for the rest of the browser session
+ */
+export const saveSessionHistory = (
+  curriculumId: string,
+  history: CurriculumHistory,
+  profileId: string = DEFAULT_PROFILE_ID
+): void => {
+  const toStoredEntry = (entry: CurriculumHistoryEntry): StoredHistoryEntry => ({
+    data: curriculumStateToStoredData(entry.state),
+    label: entry.label
+  });
+  const storedHistory: StoredHistory = {
+    present: curriculumStateToStoredData(history.present),
+    past: history.past.map(toStoredEntry),
+    future: history.future.map(toStoredEntry)
+  };
+
+  try {
+    sessionStorage.setItem(getHistoryStorageKey(curriculumId, profileId), JSON.stringify(storedHistory));
+  } catch (error) {
+    console.warn('Failed to keep undo history for this session:', error);
+  }
+};
+
+/**
+ * Read the undo history kept earlier in the session
+ * @param loadedState Progress that was just loaded; the history is only used when it ends there
+ * @param initialState Curriculum from the definition, which stored entries are applied to
+ * @returns The undo and redo stacks, or null when there is no usable history
+ */
+export const loadSessionHistory = (
+  curriculumId: string,
+  loadedState: CurriculumState,
+  initialState: CurriculumState,
+  profileId: string = DEFAULT_PROFILE_ID
+): { past: CurriculumHistoryEntry[]; future: CurriculumHistoryEntry[] } | null => {
+  try {
+    const serialized = sessionStorage.getItem(getHistoryStorageKey(curriculumId, profileId));
+    if (!serialized) return null;
+
+    const storedHistory: StoredHistory = JSON.parse(serialized);
+    // Progress changed elsewhere since (another tab, an import); the stacks would undo those changes
+    if (!isSameStoredProgress(storedHistory.present, curriculumStateToStoredData(loadedState))) return null;
+
+    const toEntry = (entry: StoredHistoryEntry): CurriculumHistoryEntry => ({
+      state: updateAllProgress(storedDataToCurriculumState(entry.data, initialState)),
+      label: entry.label
+    });
+    return { past: storedHistory.past.map(toEntry), future: storedHistory.future.map(toEntry) };
+  } catch (error) {
+    console.warn('Ignoring unreadable undo history:', error);
+    return null;
+  }
+};
+
+/**
+ * Forget the undo history kept for a curriculum, e.g. when its learner profile is deleted
+ */
+export const clearSessionHistory = (curriculumId: string, profileId: string = DEFAULT_PROFILE_ID): void => {
+  try {
+    sessionStorage.removeItem(getHistoryStorageKey(curriculumId, profileId));
+  } catch (error) {
+    console.warn('Failed to clear undo history:', error);
+  }
+};
@@ -0,0 +1,204 @@
+/**
+ * Learner profile utilities
+ * Several learners can share one browser; each profile keeps its progress under its own storage keys
+ */
+
+import { getRegisteredCurricula } from '../data/initialCurriculum';
+import { getStorageBackupKey, getStorageKey } from './localStorage';
+import { getSnapshotStorageKey } from './progressSnapshots';
+import { STORAGE_MIGRATIONS } from './storageMigrations';
+import { StorageAdapter } from './storageAdapters';
+
+// Constants
+const PROFILES_KEY = 'curriculum-progress-tracker:profiles';
+const ACTIVE_PROFILE_KEY = 'curriculum-progress-tracker:active-profile';
+const STORAGE_KEY_PREFIX = 'curriculum-progress-tracker';
+// The default profile keeps the original keys so progress saved before profiles existed is preserved
+export const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE_NAME = '기본 프로필';
+export const MAX_PROFILE_NAME_LENGTH = 30;
+const PROFILE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+/**
+ * Learner sharing the browser
+ */
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/**
+ * Error thrown when a profile cannot be created, renamed or deleted
+ */
+export class LearnerProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LearnerProfileError';
+  }
+}
+
+/**
+ * Check whether a string can be used as a profile id, e.g. in a storage key or a query parameter
+ */
+export const isValidProfileId = (profileId: string): boolean => PROFILE_ID_PATTERN.test(profileId);
+
+/**
+ * Get the key a profile stores a value under
+ * Keys of other profiles get a `:profile:<id>` segment after the app prefix,
+ * e.g. `curriculum-progress-tracker:profile:<id>:backend:snapshots`
+ */
+export const getProfileStorageKey = (key: string, profileId: string): string => {
+  if (profileId === DEFAULT_PROFILE_ID) return key;
+  return key.startsWith(STORAGE_KEY_PREFIX)
+    ? `${STORAGE_KEY_PREFIX}:profile:${profileId}${key.slice(STORAGE_KEY_PREFIX.length)}`
+    : `${STORAGE_KEY_PREFIX}:profile:${profileId}:${key}`;
+};
+
+/**
+ * Wrap an adapter so every key is namespaced for a profile
+ */
+export const createProfileStorageAdapter = (storage: StorageAdapter, profileId: string): StorageAdapter =>
+  profileId === DEFAULT_PROFILE_ID
+    ? storage
+    : {
+      name: storage.name,
+      isAvailable: () => storage.isAvailable(),
+      load: key => storage.load(getProfileStorageKey(key, profileId)),
+      save: (key, value) => storage.save(getProfileStorageKey(key, profileId), value),
+      clear: key => storage.clear(getProfileStorageKey(key, profileId))
+    };
+
+/**
+ * Storage keys that can hold progress of a profile: progress, snapshots and migration backups of every registered curriculum
+ */
+export const getProfileProgressKeys = (profileId: string): string[] =>
+  getRegisteredCurricula()
+    .flatMap(({ id }) => [
+      getStorageKey(id),
+      getSnapshotStorageKey(id),
+      ...STORAGE_MIGRATIONS.map(migration => getStorageBackupKey(id, migration.from))
+    ])
+    .map(key => getProfileStorageKey(key, profileId));
+
+const createDefaultProfile = (): LearnerProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: DEFAULT_PROFILE_NAME,
+  createdAt: new Date(0).toISOString()
+});
+
+const isLearnerProfile = (value: unknown): value is LearnerProfile => {
+  const profile = value as LearnerProfile;
+  return !!profile && typeof profile.id === 'string' && isValidProfileId(profile.id) &&
+    typeof profile.name === 'string' && typeof profile.createdAt === 'string';
+};
+
+/**
+ * Read the profiles of this browser; the default profile is always first
+ */
+export const loadLearnerProfiles = (): LearnerProfile[] => {
+  let stored: LearnerProfile[] = [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    stored = Array.isArray(parsed) ? parsed.filter(isLearnerProfile) : [];
+  } catch (error) {
+    console.warn('Ignoring unreadable learner profiles:', error);
+  }
+
+  const defaultProfile = stored.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? createDefaultProfile();
+  return [defaultProfile, ...stored.filter(profile => profile.id !== DEFAULT_PROFILE_ID)];
+};
+
+/**
+ * Save the profiles of this browser
+ */
+export const saveLearnerProfiles = (profiles: LearnerProfile[]): void => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save learner profiles:', error);
+  }
+};
+
+/**
+ * Load the id of the profile last used in this browser, falling back to the default profile
+ */
+export const loadActiveProfileId = (profiles: LearnerProfile[]): string => {
+  try {
+    const profileId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    return profiles.some(profile => profile.id === profileId) ? profileId! : DEFAULT_PROFILE_ID;
+  } catch (error) {
+    console.error('Failed to load active profile:', error);
+    return DEFAULT_PROFILE_ID;
+  }
+};
+
+/**
+ * Save the id of the profile in use, so the next visit opens it again
+ */
+export const saveActiveProfileId = (profileId: string): void => {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  } catch (error) {
+    console.error('Failed to save active profile:', error);
+  }
+};
+
+/**
+ * Trim a profile name and check it is usable next to the other profiles
+ * @throws LearnerProfileError when the name is empty, too long or taken
+ */
+const normalizeProfileName = (name: string, profiles: LearnerProfile[], profileId?: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new LearnerProfileError('프로필 이름을 입력하세요.');
+  }
+  if (trimmed.length > MAX_PROFILE_NAME_LENGTH) {
+    throw new LearnerProfileError(`프로필 이름은 ${MAX_PROFILE_NAME_LENGTH}자 이하여야 합니다.`);
+  }
+  if (profiles.some(profile => profile.id !== profileId && profile.name === trimmed)) {
+    throw new LearnerProfileError(`'${trimmed}' 프로필이 이미 있습니다.`);
+  }
+  return trimmed;
+};
+
+/**
+ * Add a profile
+ * @throws LearnerProfileError when the name is not usable
+ */
+export const addLearnerProfile = (
+  profiles: LearnerProfile[],
+  name: string,
+  now: Date = new Date()
+): { profiles: LearnerProfile[]; profile: LearnerProfile } => {
+  const normalizedName = normalizeProfileName(name, profiles);
+  const baseId = `profile-${now.getTime().toString(36)}`;
+  let id = baseId;
+  for (let suffix = 2; profiles.some(profile => profile.id === id); suffix++) {
+    id = `${baseId}-${suffix}`;
+  }
+
+  const profile: LearnerProfile = { id, name: normalizedName, createdAt: now.toISOString() };
+  return { profiles: [...profiles, profile], profile };
+};
+
+/**
+ * Rename a profile
+ * @throws LearnerProfileError when the name is not usable
+ */
+export const renameLearnerProfile = (profiles: LearnerProfile[], profileId: string, name: string): LearnerProfile[] => {
+  const normalizedName = normalizeProfileName(name, profiles, profileId);
+  return profiles.map(profile => profile.id === profileId ? { ...profile, name: normalizedName } : profile);
+};
+
+/**
+ * Remove a profile from the list; its saved progress is cleared separately
+ * @throws LearnerProfileError for the default profile
+ */
+export const removeLearnerProfile = (profiles: LearnerProfile[], profileId: string): LearnerProfile[] => {
+  if (profileId === DEFAULT_PROFILE_ID) {
+    throw new LearnerProfileError('기본 프로필은 삭제할 수 없습니다.');
+  }
+  return profiles.filter(profile => profile.id !== profileId);
+};
@@ -1,13 +1,50 @@
 /**
- * LocalStorage utilities for curriculum progress tracker
- * Handles data persistence, validation, and error handling
+ * Storage utilities for curriculum progress tracker
+ * Handles data persistence through a StorageAdapter, validation, and error handling
+ * The active curriculum preference stays in localStorage, since it is read before any progress
  */
 
-import { CurriculumState, StoredData, Week, Course } from '../types/curriculum';
+import { CurriculumState, StoredData, StoredResourceLink, Course } from '../types/curriculum';
+import { DEFAULT_CURRICULUM_ID } from '../data/initialCurriculum';
+import {
+  curriculumStructureToWeeks,
+  validateCurriculumStructure,
+  weeksToCurriculumStructure
+} from './curriculumDefinition';
+import { isCourseStatus } from './courseStatus';
+import { isResourceLinkType, isWebUrl } from './resourceLinks';
+import { reconcileStoredProgress } from './progressReconciliation';
+import { migrateStoredData, StorageMigrationError, StorageMigrationReport } from './storageMigrations';
+import { createLocalStorageAdapter, StorageAdapter } from './storageAdapters';
 
 // Constants
 const STORAGE_KEY = 'curriculum-progress-tracker';
-const STORAGE_VERSION = '1.0.0';
+const ACTIVE_CURRICULUM_KEY = 'curriculum-progress-tracker:active-curriculum';
+export const STORAGE_VERSION = '1.1.0';
+const localStorageAdapter = createLocalStorageAdapter();
+
+/**
+ * Get the storage key holding the original payload of progress saved by an older version
+ */
+export const getStorageBackupKey = (curriculumId: string, version: string): string =>
+  `${getStorageKey(curriculumId)}:backup:${version}`;
+
+/**
+ * Options for loading curriculum state
+ */
+export interface LoadCurriculumStateOptions {
+  /** Called after progress saved by an older version was upgraded */
+  onMigrated?: (report: StorageMigrationReport) => void;
+  /** Backend to read from; localStorage unless the provider chose another */
+  storage?: StorageAdapter;
+}
+
+/**
+ * Get the storage key holding progress for a curriculum
+ * The default curriculum keeps the original key so existing progress is preserved
+ */
+export const getStorageKey = (curriculumId: string = DEFAULT_CURRICULUM_ID): string =>
+  curriculumId === DEFAULT_CURRICULUM_ID ? STORAGE_KEY : `${STORAGE_KEY}:${curriculumId}`;
 
 /**
  * Check if localStorage is available
@@ -24,10 +61,28 @@ const isLocalStorageAvailable = (): boolean => {
   }
 };
 
+/**
+ * Validate a link the learner added to a course
+ */
+const isValidStoredResourceLink = (link: unknown): boolean => {
+  if (typeof link !== 'object' || link === null) {
+    return false;
+  }
+
+  const linkObj = link as Record<string, unknown>;
+  return (
+    typeof linkObj.id === 'string' &&
+    isResourceLinkType(linkObj.type) &&
+    isWebUrl(linkObj.url) &&
+    (linkObj.title === undefined || typeof linkObj.title === 'string')
+  );
+};
+
 /**
  * Validate stored data structure
+ * Also used to check progress files before they are imported
  */
-const validateStoredData = (data: unknown): data is StoredData => {
+export const validateStoredData = (data: unknown): data is StoredData => {
   if (!data || typeof data !== 'object' || data === null) {
     return false;
   }
@@ -63,8 +118,8 @@ const validateStoredData = (data: unknown): data is StoredData => {
 
       const courseObj = courseData as Record<string, unknown>;
 
-      // Check required fields
-      if (typeof courseObj.completed !== 'boolean') {
+      // Check status
+      if (!isCourseStatus(courseObj.status)) {
         return false;
       }
 
@@ -76,16 +131,53 @@ const validateStoredData = (data: unknown): data is StoredData => {
       if (courseObj.endDate && typeof courseObj.endDate !== 'string') {
         return false;
       }
+
+      // Check optional notes
+      if (courseObj.notes !== undefined && typeof courseObj.notes !== 'string') {
+        return false;
+      }
+
+      // Check optional subtask progress
+      if (
+        courseObj.completedSubtasks !== undefined &&
+        (!Array.isArray(courseObj.completedSubtasks) ||
+          !courseObj.completedSubtasks.every(subtaskId => typeof subtaskId === 'string'))
+      ) {
+        return false;
+      }
+
+      // Check optional learner links
+      if (
+        courseObj.resources !== undefined &&
+        (!Array.isArray(courseObj.resources) || !courseObj.resources.every(isValidStoredResourceLink))
+      ) {
+        return false;
+      }
     }
   }
 
+  // Check edited curriculum structure
+  if (obj.structure !== undefined && !validateCurriculumStructure(obj.structure).isValid) {
+    return false;
+  }
+
   return true;
 };
 
+/**
+ * Links the learner added to a course; links from the definition are not saved with the progress
+ */
+const storedResources = (course: Course): { resources?: StoredResourceLink[] } => {
+  const links = (course.resources ?? []).filter(link => link.userAdded);
+  return links.length > 0
+    ? { resources: links.map(link => ({ id: link.id, type: link.type, url: link.url, ...(link.title ? { title: link.title } : {}) })) }
+    : {};
+};
+
 /**
  * Convert CurriculumState to StoredData format
  */
-const curriculumStateToStoredData = (state: CurriculumState): StoredData => {
+export const curriculumStateToStoredData = (state: CurriculumState): StoredData => {
   const curriculum: StoredData['curriculum'] = {};
 
   state.weeks.forEach(week => {
@@ -95,83 +187,91 @@ const curriculumStateToStoredData = (state: CurriculumState): StoredData => {
       curriculum[week.id.toString()][course.id] = {
         startDate: course.startDate?.toISOString(),
         endDate: course.endDate?.toISOString(),
-        completed: course.completed
+        status: course.status,
+        notes: course.notes,
+        ...(course.subtasks
+          ? {
+              completedSubtasks: course.subtasks
+                .filter(subtask => subtask.completed)
+                .map(subtask => subtask.id)
+            }
+          : {}),
+        ...storedResources(course)
       };
     });
   });
 
+  // Keep progress of courses that left the curriculum until the learner reassigns or discards it
+  (state.orphanedProgress ?? []).forEach(orphan => {
+    const weekData = curriculum[orphan.weekId] ?? {};
+    if (!weekData[orphan.courseId]) {
+      curriculum[orphan.weekId] = { ...weekData, [orphan.courseId]: orphan.progress };
+    }
+  });
+
   return {
     version: STORAGE_VERSION,
     lastUpdated: new Date().toISOString(),
-    curriculum
+    curriculum,
+    ...(state.customized ? { structure: weeksToCurriculumStructure(state.weeks) } : {})
   };
 };
 
 /**
  * Convert StoredData to CurriculumState format
+ * Progress is matched to courses by id or previous id; progress no course claims is kept as orphaned
  */
-const storedDataToCurriculumState = (storedData: StoredData, initialState: CurriculumState): CurriculumState => {
-  const updatedWeeks: Week[] = initialState.weeks.map(week => {
-    const weekData = storedData.curriculum[week.id.toString()];
-    if (!weekData) {
-      return week;
-    }
+export const storedDataToCurriculumState = (storedData: StoredData, initialState: CurriculumState): CurriculumState => {
+  // Weeks edited in the app replace the ones from the curriculum definition
+  const baseWeeks = storedData.structure
+    ? curriculumStructureToWeeks(storedData.structure)
+    : initialState.weeks;
 
-    const updatedCourses: Course[] = week.courses.map(course => {
-      const courseData = weekData[course.id];
-      if (!courseData) {
-        return course;
-      }
-
-      return {
-        ...course,
-        startDate: courseData.startDate ? new Date(courseData.startDate) : undefined,
-        endDate: courseData.endDate ? new Date(courseData.endDate) : undefined,
-        completed: courseData.completed
-      };
-    });
-
-    return {
-      ...week,
-      courses: updatedCourses
-    };
-  });
+  const { weeks, orphanedProgress } = reconcileStoredProgress(baseWeeks, storedData.curriculum);
 
   // Calculate progress (will be recalculated by the reducer)
   return {
-    weeks: updatedWeeks,
-    overallProgress: 0
+    weeks,
+    overallProgress: 0,
+    ...(storedData.structure ? { customized: true } : {}),
+    ...(orphanedProgress.length > 0 ? { orphanedProgress } : {})
   };
 };
 
 /**
- * Save curriculum state to localStorage
+ * Save curriculum state
+ * @param storage Backend to write to; localStorage unless the provider chose another
  */
-export const saveCurriculumState = (state: CurriculumState): boolean => {
-  if (!isLocalStorageAvailable()) {
-    console.warn('Cannot save curriculum state: localStorage not available');
+export const saveCurriculumState = async (
+  state: CurriculumState,
+  curriculumId: string = DEFAULT_CURRICULUM_ID,
+  storage: StorageAdapter = localStorageAdapter
+): Promise<boolean> => {
+  if (!(await storage.isAvailable())) {
+    console.warn(`Cannot save curriculum state: ${storage.name} not available`);
     return false;
   }
 
+  const storageKey = getStorageKey(curriculumId);
+
   try {
     const storedData = curriculumStateToStoredData(state);
     const serializedData = JSON.stringify(storedData);
     
-    localStorage.setItem(STORAGE_KEY, serializedData);
-    console.log('Curriculum state saved successfully');
+    await storage.save(storageKey, serializedData);
     return true;
   } catch (error) {
     console.error('Failed to save curriculum state:', error);
     
     // Handle quota exceeded error
     if (error instanceof Error && error.name === 'QuotaExceededError') {
-      console.warn('LocalStorage quota exceeded, attempting to clear old data');
+      console.warn(`${storage.name} quota exceeded, attempting to clear old data`);
       try {
         // Clear the storage and try again
-        localStorage.removeItem(STORAGE_KEY);
+        await storage.clear(storageKey);
         const storedData = curriculumStateToStoredData(state);
         const serializedData = JSON.stringify(storedData);
-        localStorage.setItem(STORAGE_KEY, serializedData);
+        await storage.save(storageKey, serializedData);
         console.log('Curriculum state saved after clearing old data');
         return true;
       } catch (retryError) {
@@ -185,49 +285,84 @@ export const saveCurriculumState = (state: CurriculumState): boolean => {
 };
 
 /**
- * Load curriculum state from localStorage
+ * Load curriculum state
+ * Progress saved by an older version is migrated to the current format and saved back
  */
-export const loadCurriculumState = (initialState: CurriculumState): CurriculumState | null => {
-  if (!isLocalStorageAvailable()) {
-    console.warn('Cannot load curriculum state: localStorage not available');
+export const loadCurriculumState = async (
+  initialState: CurriculumState,
+  curriculumId: string = DEFAULT_CURRICULUM_ID,
+  options: LoadCurriculumStateOptions = {}
+): Promise<CurriculumState | null> => {
+  const { storage = localStorageAdapter } = options;
+  if (!(await storage.isAvailable())) {
+    console.warn(`Cannot load curriculum state: ${storage.name} not available`);
     return null;
   }
 
+  const storageKey = getStorageKey(curriculumId);
+
   try {
-    const serializedData = localStorage.getItem(STORAGE_KEY);
+    const serializedData = await storage.load(storageKey);
     
     if (!serializedData) {
       console.log('No saved curriculum state found');
       return null;
     }
 
-    const parsedData = JSON.parse(serializedData);
+    let parsedData = JSON.parse(serializedData);
+    let migrationReport: StorageMigrationReport | null = null;
+
+    // Upgrade progress saved by an older version, keeping the original payload as a backup
+    if (parsedData && typeof parsedData === 'object' && parsedData.version && parsedData.version !== STORAGE_VERSION) {
+      const fromVersion = String(parsedData.version);
+      const backupKey = getStorageBackupKey(curriculumId, fromVersion);
+      await storage.save(backupKey, serializedData);
+
+      try {
+        const { data, applied } = migrateStoredData(parsedData, STORAGE_VERSION);
+        parsedData = data;
+        migrationReport = {
+          fromVersion,
+          toVersion: STORAGE_VERSION,
+          applied: applied.map(({ from, to, description }) => ({ from, to, description })),
+          backupKey
+        };
+      } catch (error) {
+        if (!(error instanceof StorageMigrationError)) throw error;
+        // Leave the data alone; a newer version of the app may still read it from the backup
+        console.warn(`Cannot migrate stored data from version ${fromVersion}; kept a backup in ${backupKey}`);
+        return null;
+      }
+    }
     
     if (!validateStoredData(parsedData)) {
       console.warn('Invalid stored data format, using initial state');
       // Clear invalid data
-      localStorage.removeItem(STORAGE_KEY);
-      return null;
-    }
-
-    // Check version compatibility
-    if (parsedData.version !== STORAGE_VERSION) {
-      console.warn(`Version mismatch: stored ${parsedData.version}, expected ${STORAGE_VERSION}`);
-      // For now, clear incompatible data. In the future, we could implement migration
-      localStorage.removeItem(STORAGE_KEY);
+      await storage.clear(storageKey);
       return null;
     }
 
     const curriculumState = storedDataToCurriculumState(parsedData, initialState);
+
+    if (migrationReport) {
+      await storage.save(storageKey, JSON.stringify(parsedData));
+      console.log(`Migrated stored data from version ${migrationReport.fromVersion} to ${migrationReport.toVersion}`);
+      options.onMigrated?.(migrationReport);
+    }
     console.log('Curriculum state loaded successfully');
     return curriculumState;
   } catch (error) {
     console.error('Failed to load curriculum state:', error);
-    
+
+    // Encrypted progress that cannot be opened is not corrupted; keep it for the right passphrase
+    if (error instanceof Error && error.name === 'ProgressEncryptionError') {
+      return null;
+    }
+
     // Clear corrupted data
     try {
-      localStorage.removeItem(STORAGE_KEY);
-      console.log('Cleared corrupted localStorage data');
+      await storage.clear(storageKey);
+      console.log(`Cleared corrupted ${storage.name} data`);
     } catch (clearError) {
       console.error('Failed to clear corrupted data:', clearError);
     }
@@ -239,14 +374,19 @@ export const loadCurriculumState = (initialState: CurriculumState): CurriculumSt
 /**
  * Clear all stored curriculum data
  */
-export const clearCurriculumState = (): boolean => {
-  if (!isLocalStorageAvailable()) {
-    console.warn('Cannot clear curriculum state: localStorage not available');
+export const clearCurriculumState = async (
+  curriculumId: string = DEFAULT_CURRICULUM_ID,
+  storage: StorageAdapter = localStorageAdapter
+): Promise<boolean> => {
+  if (!(await storage.isAvailable())) {
+    console.warn(`Cannot clear curriculum state: ${storage.name} not available`);
     return false;
   }
 
+  const storageKey = getStorageKey(curriculumId);
+
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    await storage.clear(storageKey);
     console.log('Curriculum state cleared successfully');
     return true;
   } catch (error) {
@@ -255,16 +395,31 @@ export const clearCurriculumState = (): boolean => {
   }
 };
 
+/**
+ * Storage info returned by getStorageInfo
+ */
+export interface StorageInfo {
+  hasData: boolean;
+  lastUpdated?: string;
+  version?: string;
+  size?: number;
+}
+
 /**
  * Get storage info (for debugging/monitoring)
  */
-export const getStorageInfo = (): { hasData: boolean; lastUpdated?: string; version?: string; size?: number } => {
-  if (!isLocalStorageAvailable()) {
+export const getStorageInfo = async (
+  curriculumId: string = DEFAULT_CURRICULUM_ID,
+  storage: StorageAdapter = localStorageAdapter
+): Promise<StorageInfo> => {
+  if (!(await storage.isAvailable())) {
     return { hasData: false };
   }
 
+  const storageKey = getStorageKey(curriculumId);
+
   try {
-    const serializedData = localStorage.getItem(STORAGE_KEY);
+    const serializedData = await storage.load(storageKey);
     
     if (!serializedData) {
       return { hasData: false };
@@ -282,4 +437,37 @@ export const getStorageInfo = (): { hasData: boolean; lastUpdated?: string; vers
     console.error('Failed to get storage info:', error);
     return { hasData: false };
   }
+};
+
+/**
+ * Save the id of the curriculum the user is currently viewing
+ */
+export const saveActiveCurriculumId = (curriculumId: string): boolean => {
+  if (!isLocalStorageAvailable()) {
+    return false;
+  }
+
+  try {
+    localStorage.setItem(ACTIVE_CURRICULUM_KEY, curriculumId);
+    return true;
+  } catch (error) {
+    console.error('Failed to save active curriculum:', error);
+    return false;
+  }
+};
+
+/**
+ * Load the id of the curriculum the user was last viewing
+ */
+export const loadActiveCurriculumId = (): string | null => {
+  if (!isLocalStorageAvailable()) {
+    return null;
+  }
+
+  try {
+    return localStorage.getItem(ACTIVE_CURRICULUM_KEY);
+  } catch (error) {
+    console.error('Failed to load active curriculum:', error);
+    return null;
+  }
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+/**
+ * Markdown utilities for course notes
+ * Parses a small, safe subset of markdown into a tree that components render
+ * as React elements, so note content is never injected as HTML
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'codeBlock'; text: string };
+
+// Inline code, strong, emphasis (* or _ outside words) and links, in order of precedence
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const FENCE_PATTERN = /^\s*```/;
+
+/**
+ * Allow only web and mail links; anything else (javascript:, data:, relative paths) is dropped
+ * @returns The trimmed URL, or null when it is not safe to link to
+ */
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  return SAFE_URL_PATTERN.test(trimmed) ? trimmed : null;
+};
+
+/**
+ * Parse inline markdown (code, bold, italic, links) in a single line of text
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+
+    const [whole, code, strong, starEmphasis, underscoreEmphasis, linkText, href] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong) });
+    } else if (starEmphasis !== undefined || underscoreEmphasis !== undefined) {
+      nodes.push({ type: 'emphasis', children: parseInline(starEmphasis ?? underscoreEmphasis) });
+    } else {
+      const safeHref = sanitizeUrl(href);
+      // Unsafe links are shown as plain text so nothing clickable points at them
+      nodes.push(safeHref
+        ? { type: 'link', href: safeHref, children: parseInline(linkText) }
+        : { type: 'text', text: whole });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+};
+
+/**
+ * Parse markdown into blocks: headings (#-###), paragraphs, lists and fenced code blocks
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      blocks.push({ type: 'codeBlock', text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2].trim())
+      });
+      continue;
+    }
+
+    const unordered = UNORDERED_ITEM_PATTERN.exec(line);
+    const ordered = unordered ? null : ORDERED_ITEM_PATTERN.exec(line);
+    if (unordered || ordered) {
+      flushParagraph();
+      const isOrdered = !!ordered;
+      const item = parseInline((unordered ?? ordered)![1].trim());
+      const previous = blocks[blocks.length - 1];
+
+      // Consecutive items of the same kind form one list
+      if (previous?.type === 'list' && previous.ordered === isOrdered && index > 0 && lines[index - 1].trim()) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered: isOrdered, items: [item] });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+};
@@ -0,0 +1,145 @@
+/**
+ * Prerequisite utilities
+ * Looks up open prerequisites, finds cycles and lays courses out as a dependency graph
+ */
+
+import { Course, Week } from '../types/curriculum';
+import { isCourseDone } from './courseStatus';
+
+/**
+ * A course in the dependency graph with its direct prerequisites
+ */
+export interface PrerequisiteNode {
+  course: Course;
+  weekId: number;
+  prerequisites: Course[];
+  /** Prerequisites that are neither done nor skipped */
+  openPrerequisites: Course[];
+  /** True when the course is not done yet and waits for open prerequisites */
+  isBlocked: boolean;
+}
+
+/**
+ * Check whether a prerequisite still has to be done; skipped courses count as settled
+ */
+const isPrerequisiteOpen = (course: Course): boolean =>
+  !isCourseDone(course) && course.status !== 'skipped';
+
+const indexCourses = (weeks: Week[]): Map<string, { course: Course; weekId: number }> =>
+  new Map(weeks.flatMap(week => week.courses.map(course => [course.id, { course, weekId: week.id }] as const)));
+
+/**
+ * Get a course's prerequisites that are not done yet
+ * Ids of courses that no longer exist are ignored
+ */
+export const getOpenPrerequisites = (weeks: Week[], course: Course): Course[] => {
+  if (!course.prerequisites?.length) return [];
+
+  const courses = indexCourses(weeks);
+  return course.prerequisites
+    .map(id => courses.get(id)?.course)
+    .filter((prerequisite): prerequisite is Course => !!prerequisite && isPrerequisiteOpen(prerequisite));
+};
+
+/**
+ * Find a cycle in prerequisite relations
+ * @param prerequisitesById Prerequisite ids per course id
+ * @returns The course ids along the cycle, starting and ending with the same id, or null
+ */
+export const findPrerequisiteCycle = (prerequisitesById: Map<string, string[]>): string[] | null => {
+  const finished = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const cycleStart = path.indexOf(id);
+    if (cycleStart !== -1) return [...path.slice(cycleStart), id];
+    if (finished.has(id)) return null;
+
+    path.push(id);
+    for (const prerequisiteId of prerequisitesById.get(id) ?? []) {
+      const cycle = visit(prerequisiteId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    finished.add(id);
+    return null;
+  };
+
+  for (const id of prerequisitesById.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+/**
+ * Remove a deleted course from the prerequisites of every other course
+ */
+export const removePrerequisiteReferences = (weeks: Week[], courseIds: string[]): Week[] =>
+  weeks.map(week => ({
+    ...week,
+    courses: week.courses.map(course => {
+      if (!course.prerequisites?.some(id => courseIds.includes(id))) return course;
+
+      const prerequisites = course.prerequisites.filter(id => !courseIds.includes(id));
+      return { ...course, prerequisites: prerequisites.length > 0 ? prerequisites : undefined };
+    })
+  }));
+
+/**
+ * Lay out the courses that take part in prerequisite relations as a dependency graph
+ * @returns Levels of nodes: courses without prerequisites first, then each course
+ * one level after its deepest prerequisite
+ */
+export const buildPrerequisiteGraph = (weeks: Week[]): PrerequisiteNode[][] => {
+  const courses = indexCourses(weeks);
+  const linkedIds = new Set<string>();
+
+  courses.forEach(({ course }) => {
+    const prerequisiteIds = (course.prerequisites ?? []).filter(id => courses.has(id));
+    if (prerequisiteIds.length > 0) {
+      linkedIds.add(course.id);
+      prerequisiteIds.forEach(id => linkedIds.add(id));
+    }
+  });
+
+  const levels = new Map<string, number>();
+  const getLevel = (id: string, visiting: Set<string>): number => {
+    const known = levels.get(id);
+    if (known !== undefined) return known;
+    // Guards against cycles in data that skipped validation
+    if (visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const prerequisiteIds = (courses.get(id)?.course.prerequisites ?? []).filter(item => courses.has(item));
+    const level = prerequisiteIds.length === 0
+      ? 0
+      : Math.max(...prerequisiteIds.map(item => getLevel(item, visiting))) + 1;
+    visiting.delete(id);
+    levels.set(id, level);
+    return level;
+  };
+
+  const graph: PrerequisiteNode[][] = [];
+  // Courses keep curriculum order within a level
+  courses.forEach(({ course, weekId }, id) => {
+    if (!linkedIds.has(id)) return;
+
+    const prerequisites = (course.prerequisites ?? [])
+      .map(item => courses.get(item)?.course)
+      .filter((prerequisite): prerequisite is Course => !!prerequisite);
+    const openPrerequisites = prerequisites.filter(isPrerequisiteOpen);
+    const level = getLevel(id, new Set());
+
+    graph[level] = graph[level] ?? [];
+    graph[level].push({
+      course,
+      weekId,
+      prerequisites,
+      openPrerequisites,
+      isBlocked: isPrerequisiteOpen(course) && openPrerequisites.length > 0
+    });
+  });
+
+  return graph.filter(Boolean);
+};
@@ -1,31 +1,118 @@
 import { Week, Course, CurriculumState } from '../types/curriculum';
+import { countCourseStatuses, isCourseCounted, isCourseDone } from './courseStatus';
+import { ChapterGroup, getChapterCourses, groupCoursesByChapter } from './chapters';
+
+/**
+ * Check whether progress for a set of courses is weighted by estimated hours
+ * @param courses Courses to check
+ * @returns True when at least one course has an estimate
+ */
+export const isWeightedProgress = (courses: Course[]): boolean =>
+  courses.some(course => course.estimatedHours !== undefined);
+
+/**
+ * Get the weight of each course
+ * Courses count equally unless some have estimated hours; then each course weighs
+ * its estimate, and courses without one weigh the average of the known estimates
+ * @param courses Array of courses
+ * @returns Weights in the same order as the courses
+ */
+export const getCourseWeights = (courses: Course[]): number[] => {
+  const estimates = courses
+    .map(course => course.estimatedHours)
+    .filter((hours): hours is number => hours !== undefined);
+
+  if (estimates.length === 0) {
+    return courses.map(() => 1);
+  }
+
+  const averageEstimate = estimates.reduce((total, hours) => total + hours, 0) / estimates.length;
+  return courses.map(course => course.estimatedHours ?? averageEstimate);
+};
+
+/**
+ * Get how much of a course is done
+ * @param course Course to check
+ * @returns Fraction (0-1): the share of checked subtasks, or 0/1 for courses without subtasks
+ */
+const getCourseCompletion = (course: Course): number => {
+  if (isCourseDone(course)) return 1;
+  if (course.subtasks && course.subtasks.length > 0) {
+    return course.subtasks.filter(subtask => subtask.completed).length / course.subtasks.length;
+  }
+  return 0;
+};
+
+/**
+ * Calculate progress for a single course
+ * @param course Course to check
+ * @returns Progress percentage (0-100), partial when only some subtasks are done
+ */
+export const calculateCourseProgress = (course: Course): number =>
+  Math.round(getCourseCompletion(course) * 100);
+
+/**
+ * Calculate weighted progress for a flat list of courses, leaving out skipped courses
+ * A list whose courses are all skipped has nothing left to do, so it counts as complete
+ */
+const calculateCoursesProgress = (allCourses: Course[]): number => {
+  if (allCourses.length === 0) return 0;
+  const courses = allCourses.filter(isCourseCounted);
+  if (courses.length === 0) return 100;
+
+  const weights = getCourseWeights(courses);
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const completedWeight = courses.reduce(
+    (total, course, index) => total + getCourseCompletion(course) * weights[index],
+    0
+  );
+
+  return Math.round((completedWeight / totalWeight) * 100);
+};
+
+/**
+ * Calculate remaining estimated hours for a set of courses
+ * @param courses Array of courses
+ * @returns Hours of unfinished work (rounded to one decimal), or 0 when nothing is estimated
+ */
+export const calculateRemainingHours = (allCourses: Course[]): number => {
+  const courses = allCourses.filter(isCourseCounted);
+  if (!isWeightedProgress(courses)) return 0;
+
+  const weights = getCourseWeights(courses);
+  const remaining = courses.reduce(
+    (total, course, index) => total + (1 - getCourseCompletion(course)) * weights[index],
+    0
+  );
+
+  return Math.round(remaining * 10) / 10;
+};
 
 /**
  * Calculate progress for a specific week
  * @param courses Array of courses in the week
- * @returns Progress percentage (0-100)
+ * @returns Progress percentage (0-100), weighted by estimated hours when available
  */
 export const calculateWeekProgress = (courses: Course[]): number => {
-  if (courses.length === 0) return 0;
-  
-  const completedCourses = courses.filter(course => course.completed).length;
-  return Math.round((completedCourses / courses.length) * 100);
+  return calculateCoursesProgress(courses);
+};
+
+/**
+ * Calculate progress for a chapter across the weeks it spans
+ * @param group Courses of the chapter, grouped by week
+ * @returns Progress percentage (0-100), weighted by estimated hours when available
+ */
+export const calculateChapterProgress = (group: ChapterGroup): number => {
+  return calculateCoursesProgress(getChapterCourses(group));
 };
 
 /**
  * Calculate overall progress across all weeks
  * @param weeks Array of all weeks
- * @returns Overall progress percentage (0-100)
+ * @returns Overall progress percentage (0-100), weighted by estimated hours when available
  */
 export const calculateOverallProgress = (weeks: Week[]): number => {
-  const totalCourses = weeks.reduce((total, week) => total + week.courses.length, 0);
-  if (totalCourses === 0) return 0;
-  
-  const completedCourses = weeks.reduce((total, week) => {
-    return total + week.courses.filter(course => course.completed).length;
-  }, 0);
-  
-  return Math.round((completedCourses / totalCourses) * 100);
+  return calculateCoursesProgress(weeks.flatMap(week => week.courses));
 };
 
 /**
@@ -41,6 +128,7 @@ export const updateAllProgress = (state: CurriculumState): CurriculumState => {
   }));
   
   return {
+    ...state,
     weeks: updatedWeeks,
     overallProgress: calculateOverallProgress(updatedWeeks)
   };
@@ -52,11 +140,12 @@ export const updateAllProgress = (state: CurriculumState): CurriculumState => {
  * @returns Object containing various progress statistics
  */
 export const getProgressStatistics = (state: CurriculumState) => {
-  const totalCourses = state.weeks.reduce((total, week) => total + week.courses.length, 0);
-  const completedCourses = state.weeks.reduce((total, week) => {
-    return total + week.courses.filter(course => course.completed).length;
-  }, 0);
-  const remainingCourses = totalCourses - completedCourses;
+  const allCourses = state.weeks.flatMap(week => week.courses);
+  const statusCounts = countCourseStatuses(allCourses);
+  
+  const totalCourses = allCourses.length;
+  const completedCourses = statusCounts.done;
+  const remainingCourses = totalCourses - completedCourses - statusCounts.skipped;
   
   const completedWeeks = state.weeks.filter(week => week.progress === 100).length;
   const inProgressWeeks = state.weeks.filter(week => week.progress > 0 && week.progress < 100).length;
@@ -66,7 +155,10 @@ export const getProgressStatistics = (state: CurriculumState) => {
     totalCourses,
     completedCourses,
     remainingCourses,
+    statusCounts,
     overallProgress: state.overallProgress,
+    isWeighted: isWeightedProgress(allCourses),
+    remainingEstimatedHours: calculateRemainingHours(allCourses),
     totalWeeks: state.weeks.length,
     completedWeeks,
     inProgressWeeks,
@@ -76,7 +168,23 @@ export const getProgressStatistics = (state: CurriculumState) => {
       title: week.title,
       progress: week.progress,
       totalCourses: week.courses.length,
-      completedCourses: week.courses.filter(course => course.completed).length
-    }))
+      completedCourses: week.courses.filter(isCourseDone).length,
+      statusCounts: countCourseStatuses(week.courses),
+      isWeighted: isWeightedProgress(week.courses),
+      remainingEstimatedHours: calculateRemainingHours(week.courses)
+    })),
+    chapterProgresses: groupCoursesByChapter(state.weeks).map(group => {
+      const courses = getChapterCourses(group);
+      return {
+        chapter: group.chapter,
+        weekIds: group.weeks.map(item => item.week.id),
+        progress: calculateChapterProgress(group),
+        totalCourses: courses.length,
+        completedCourses: courses.filter(isCourseDone).length,
+        statusCounts: countCourseStatuses(courses),
+        isWeighted: isWeightedProgress(courses),
+        remainingEstimatedHours: calculateRemainingHours(courses)
+      };
+    })
   };
 };
\ No newline at end of file
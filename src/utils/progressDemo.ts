@@ -16,7 +16,7 @@ export const demonstrateProgressCalculation = () => {
   console.log('Initial State:');
   console.log(`Overall Progress: ${state.overallProgress}%`);
   state.weeks.forEach(week => {
-    console.log(`${week.title}: ${week.progress}% (${week.courses.filter(c => c.completed).length}/${week.courses.length} completed)`);
+    console.log(`${week.title}: ${week.progress}% (${week.courses.filter(c => c.status === 'done').length}/${week.courses.length} completed)`);
   });
   
   console.log('\n--- Completing first course in Week 1 ---');
@@ -29,7 +29,7 @@ export const demonstrateProgressCalculation = () => {
         ? {
             ...week,
             courses: week.courses.map((course, index) =>
-              index === 0 ? { ...course, completed: true } : course
+              index === 0 ? { ...course, status: 'done' as const } : course
             )
           }
         : week
@@ -50,7 +50,7 @@ export const demonstrateProgressCalculation = () => {
       week.id === 1 
         ? {
             ...week,
-            courses: week.courses.map(course => ({ ...course, completed: true }))
+            courses: week.courses.map(course => ({ ...course, status: 'done' as const }))
           }
         : week
     )
@@ -71,7 +71,7 @@ export const demonstrateProgressCalculation = () => {
         ? {
             ...week,
             courses: week.courses.map((course, index) =>
-              index < Math.ceil(week.courses.length / 2) ? { ...course, completed: true } : course
+              index < Math.ceil(week.courses.length / 2) ? { ...course, status: 'done' as const } : course
             )
           }
         : week
@@ -0,0 +1,240 @@
+/**
+ * Progress encryption utilities
+ * Optional passphrase protection for saved progress: a key is derived from the passphrase with PBKDF2
+ * and every value written through the storage adapter is encrypted with AES-GCM
+ */
+
+import { getRegisteredCurricula } from '../data/initialCurriculum';
+import { getProfileProgressKeys, loadLearnerProfiles } from './learnerProfiles';
+import { StorageAdapter } from './storageAdapters';
+import { clearSessionHistory } from './history';
+import { clearCrossTabMessage } from './crossTabSync';
+
+// Constants
+const ENCRYPTION_SETTINGS_KEY = 'curriculum-progress-tracker:encryption';
+export const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Encrypted with the key so a passphrase can be checked without touching any progress
+const VERIFIER_TEXT = 'curriculum-progress-tracker';
+
+/**
+ * Parameters of the passphrase, kept in localStorage in the clear; they reveal nothing about the progress
+ */
+export interface EncryptionSettings {
+  version: 1;
+  /** Base64 PBKDF2 salt */
+  salt: string;
+  iterations: number;
+  /** VERIFIER_TEXT encrypted with the derived key */
+  verifier: string;
+}
+
+/**
+ * Encrypted value as stored in place of the plain StoredData JSON
+ */
+interface EncryptedValue {
+  encrypted: 1;
+  /** Base64 AES-GCM initialization vector */
+  iv: string;
+  /** Base64 ciphertext */
+  data: string;
+}
+
+/**
+ * Error thrown when a value cannot be decrypted, or is encrypted while no key is available
+ */
+export class ProgressEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressEncryptionError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/**
+ * Derive the AES-GCM key of a passphrase
+ */
+export const deriveProgressKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypt text with a fresh IV
+ */
+export const encryptText = async (key: CryptoKey, text: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  const value: EncryptedValue = { encrypted: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  return JSON.stringify(value);
+};
+
+/**
+ * Check whether a stored value was written by encryptText
+ */
+export const isEncryptedValue = (value: string): boolean => {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed?.encrypted === 1 && typeof parsed.iv === 'string' && typeof parsed.data === 'string';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Decrypt a value written by encryptText
+ * @throws ProgressEncryptionError when the key is wrong or the value was changed
+ */
+export const decryptText = async (key: CryptoKey, value: string): Promise<string> => {
+  try {
+    const { iv, data }: EncryptedValue = JSON.parse(value);
+    const text = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+    return new TextDecoder().decode(text);
+  } catch {
+    throw new ProgressEncryptionError('Cannot decrypt stored progress with this key');
+  }
+};
+
+/**
+ * Read the passphrase parameters; null while progress is stored in the clear
+ */
+export const loadEncryptionSettings = (): EncryptionSettings | null => {
+  try {
+    const serialized = localStorage.getItem(ENCRYPTION_SETTINGS_KEY);
+    if (!serialized) return null;
+
+    const settings = JSON.parse(serialized);
+    return settings?.version === 1 && typeof settings.salt === 'string' &&
+      typeof settings.iterations === 'number' && typeof settings.verifier === 'string'
+      ? settings
+      : null;
+  } catch (error) {
+    console.warn('Ignoring unreadable encryption settings:', error);
+    return null;
+  }
+};
+
+/**
+ * Derive the key of a passphrase and check it against the settings
+ * @returns The key, or null when the passphrase is wrong
+ */
+export const unlockProgressKey = async (passphrase: string, settings: EncryptionSettings): Promise<CryptoKey | null> => {
+  const key = await deriveProgressKey(passphrase, settings.salt, settings.iterations);
+  try {
+    return (await decryptText(key, settings.verifier)) === VERIFIER_TEXT ? key : null;
+  } catch (error) {
+    if (!(error instanceof ProgressEncryptionError)) throw error;
+    return null;
+  }
+};
+
+/**
+ * Create parameters and a key for a new passphrase; the settings are not saved yet
+ */
+export const createEncryptionSettings = async (
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<{ settings: EncryptionSettings; key: CryptoKey }> => {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const key = await deriveProgressKey(passphrase, salt, iterations);
+  return {
+    settings: { version: 1, salt, iterations, verifier: await encryptText(key, VERIFIER_TEXT) },
+    key
+  };
+};
+
+/**
+ * Save the passphrase parameters, or remove them to store progress in the clear again
+ */
+export const saveEncryptionSettings = (settings: EncryptionSettings | null): void => {
+  if (settings) {
+    localStorage.setItem(ENCRYPTION_SETTINGS_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(ENCRYPTION_SETTINGS_KEY);
+  }
+};
+
+/**
+ * Wrap an adapter so values are encrypted with the current key
+ * Without a key values are written in the clear; values written in the clear earlier are read as they are
+ * @param getKey Returns the key of the unlocked passphrase, or null while progress is not encrypted
+ */
+export const createEncryptedStorageAdapter = (
+  storage: StorageAdapter,
+  getKey: () => CryptoKey | null
+): StorageAdapter => ({
+  name: storage.name,
+  isAvailable: () => storage.isAvailable(),
+  load: async key => {
+    const value = await storage.load(key);
+    if (value === null || !isEncryptedValue(value)) return value;
+
+    const cryptoKey = getKey();
+    if (!cryptoKey) {
+      throw new ProgressEncryptionError(`${key} is encrypted and no passphrase is unlocked`);
+    }
+    return decryptText(cryptoKey, value);
+  },
+  save: async (key, value) => {
+    const cryptoKey = getKey();
+    await storage.save(key, cryptoKey ? await encryptText(cryptoKey, value) : value);
+  },
+  clear: key => storage.clear(key)
+});
+
+/**
+ * Storage keys that can hold progress: progress, snapshots and migration backups of every curriculum and learner profile
+ */
+export const getProgressStorageKeys = (): string[] =>
+  loadLearnerProfiles().flatMap(profile => getProfileProgressKeys(profile.id));
+
+/**
+ * Remove the copies of progress kept outside the storage adapter, which the passphrase cannot protect:
+ * the undo history in sessionStorage and the last cross-tab message in localStorage of every learner profile
+ */
+export const clearUnencryptedProgressCopies = (): void => {
+  loadLearnerProfiles().forEach(profile => {
+    getRegisteredCurricula().forEach(({ id }) => clearSessionHistory(id, profile.id));
+    clearCrossTabMessage(profile.id);
+  });
+};
+
+/**
+ * Rewrite stored progress for another key, e.g. after the passphrase changed
+ * Values are read with whichever of the keys opens them, so values saved meanwhile with the new key are kept
+ * @param fromKey Key the values were encrypted with; null when they are in the clear
+ * @param toKey Key to encrypt with; null to store them in the clear
+ */
+export const reencryptStoredProgress = async (
+  storage: StorageAdapter,
+  fromKey: CryptoKey | null,
+  toKey: CryptoKey | null,
+  keys: string[] = getProgressStorageKeys()
+): Promise<void> => {
+  for (const storageKey of keys) {
+    const value = await storage.load(storageKey);
+    if (value === null) continue;
+
+    let text = value;
+    if (isEncryptedValue(value)) {
+      const candidates = [fromKey, toKey].filter((key): key is CryptoKey => key !== null);
+      const decrypted = await Promise.all(candidates.map(key => decryptText(key, value).catch(() => null)));
+      const opened = decrypted.find((item): item is string => item !== null);
+      if (opened === undefined) {
+        throw new ProgressEncryptionError(`Cannot decrypt ${storageKey} while changing the passphrase`);
+      }
+      text = opened;
+    }
+    await storage.save(storageKey, toKey ? await encryptText(toKey, text) : text);
+  }
+};
@@ -0,0 +1,105 @@
+/**
+ * Progress table export utilities
+ * Turns the weeks and courses of a curriculum into a table and writes it as CSV or XLSX for spreadsheets
+ */
+
+import { Course, CurriculumState } from '../types/curriculum';
+import { COURSE_STATUS_LABELS } from './courseStatus';
+import { createXlsxWorkbook, XlsxCell } from './xlsx';
+
+// Constants
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const UTF8_BOM = '\uFEFF';
+// Spreadsheets read text cells starting with these as formulas
+const CSV_FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PROGRESS_TABLE_HEADERS = [
+  '주차',
+  '과정 ID',
+  '과정명',
+  '시작일',
+  '종료일',
+  '상태',
+  '기간(일)',
+  '주차 진행률(%)'
+];
+
+/**
+ * Format a date as YYYY-MM-DD in local time, the way the date inputs show it
+ */
+export const formatLocalDate = (date: Date | undefined): string => {
+  if (!date || isNaN(date.getTime())) return '';
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Get how many calendar days a course took, counting the start and end day
+ * @returns Number of days, or undefined unless both dates are set
+ */
+export const getCourseDurationDays = (course: Course): number | undefined => {
+  const { startDate, endDate } = course;
+  if (!startDate || !endDate) return undefined;
+
+  // Compare calendar dates so daylight saving changes do not shift the count
+  const start = Date.UTC(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const end = Date.UTC(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+  return Math.round((end - start) / DAY_MS) + 1;
+};
+
+/**
+ * Build one row per course, in week order, without the header
+ */
+export const buildProgressTableRows = (state: CurriculumState): XlsxCell[][] =>
+  state.weeks.flatMap(week =>
+    week.courses.map(course => [
+      week.title,
+      course.id,
+      course.name,
+      formatLocalDate(course.startDate),
+      formatLocalDate(course.endDate),
+      COURSE_STATUS_LABELS[course.status],
+      getCourseDurationDays(course) ?? null,
+      week.progress
+    ])
+  );
+
+/**
+ * Write a CSV cell; text that a spreadsheet would run as a formula gets a leading quote so it stays text
+ */
+const escapeCsvCell = (cell: XlsxCell): string => {
+  if (cell === null) return '';
+  const value = typeof cell === 'string' && CSV_FORMULA_PREFIX_PATTERN.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Write rows as CSV with CRLF line breaks, quoting cells that need it and keeping formula-like text as text
+ */
+export const toCsv = (rows: XlsxCell[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+/**
+ * Create the progress table as CSV; the byte order mark makes Excel read Korean text as UTF-8
+ */
+export const createProgressCsv = (state: CurriculumState): string =>
+  UTF8_BOM + toCsv([PROGRESS_TABLE_HEADERS, ...buildProgressTableRows(state)]) + '\r\n';
+
+/**
+ * Create the progress table as an .xlsx workbook
+ */
+export const createProgressXlsx = (state: CurriculumState): Uint8Array =>
+  createXlsxWorkbook('진행 현황', [PROGRESS_TABLE_HEADERS, ...buildProgressTableRows(state)]);
+
+/**
+ * Get the file name of a progress table export, e.g. "curriculum-progress-frontend-2024-01-31.csv"
+ */
+export const getProgressTableFileName = (
+  curriculumId: string,
+  extension: 'csv' | 'xlsx',
+  date: Date = new Date()
+): string => `curriculum-progress-${curriculumId}-${formatLocalDate(date)}.${extension}`;
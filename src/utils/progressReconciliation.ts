@@ -0,0 +1,111 @@
+/**
+ * Progress reconciliation utilities
+ * Matches saved progress to courses when course ids changed in the curriculum definition,
+ * and keeps progress no course claims instead of dropping it
+ */
+
+import {
+  Course,
+  OrphanedProgress,
+  OrphanedProgressKey,
+  StoredCourseProgress,
+  StoredData,
+  Week
+} from '../types/curriculum';
+
+/**
+ * Result of matching saved progress to curriculum weeks
+ */
+export interface ReconciledProgress {
+  weeks: Week[];
+  orphanedProgress: OrphanedProgress[];
+}
+
+/**
+ * Check whether saved progress records anything beyond the defaults
+ */
+export const hasStoredProgress = (progress: StoredCourseProgress): boolean =>
+  progress.status !== 'not-started' ||
+  !!progress.startDate ||
+  !!progress.endDate ||
+  !!progress.notes ||
+  !!progress.completedSubtasks?.length ||
+  !!progress.resources?.length;
+
+/**
+ * Check whether an orphaned progress entry is the one identified by a key
+ */
+export const isSameOrphanedProgress = (orphan: OrphanedProgressKey, key: OrphanedProgressKey): boolean =>
+  orphan.weekId === key.weekId && orphan.courseId === key.courseId;
+
+/**
+ * Apply saved progress to a course
+ * Replaces the course's own progress; links from the definition are kept and the saved links are added after them
+ */
+export const applyStoredCourseProgress = (course: Course, progress: StoredCourseProgress): Course => {
+  const definitionLinks = (course.resources ?? []).filter(link => !link.userAdded);
+  const resources = [
+    ...definitionLinks,
+    ...(progress.resources ?? []).map(link => ({ ...link, userAdded: true }))
+  ];
+
+  return {
+    ...course,
+    startDate: progress.startDate ? new Date(progress.startDate) : undefined,
+    endDate: progress.endDate ? new Date(progress.endDate) : undefined,
+    status: progress.status,
+    notes: progress.notes,
+    ...(course.subtasks
+      ? {
+          subtasks: course.subtasks.map(subtask => ({
+            ...subtask,
+            completed: progress.completedSubtasks?.includes(subtask.id) ?? false
+          }))
+        }
+      : {}),
+    resources: resources.length > 0 ? resources : undefined
+  };
+};
+
+/**
+ * Match saved progress to the courses of a curriculum
+ * A course takes the progress saved under its id, in its own week or, after moving, in any other week;
+ * courses still without progress then take progress saved under one of their previousIds.
+ * Entries left over that record any progress are returned as orphaned progress.
+ */
+export const reconcileStoredProgress = (weeks: Week[], curriculum: StoredData['curriculum']): ReconciledProgress => {
+  const entries: OrphanedProgress[] = Object.entries(curriculum).flatMap(([weekId, weekData]) =>
+    Object.entries(weekData).map(([courseId, progress]) => ({ weekId, courseId, progress }))
+  );
+  const claimed = new Set<OrphanedProgress>();
+  const matches = new Map<Course, OrphanedProgress>();
+
+  // Prefer the entry saved in the course's own week, then the first one found elsewhere
+  const claim = (week: Week, course: Course, courseId: string): boolean => {
+    const candidates = entries.filter(entry => entry.courseId === courseId && !claimed.has(entry));
+    const entry = candidates.find(item => item.weekId === week.id.toString()) ?? candidates[0];
+    if (!entry) return false;
+
+    claimed.add(entry);
+    matches.set(course, entry);
+    return true;
+  };
+
+  weeks.forEach(week => week.courses.forEach(course => claim(week, course, course.id)));
+  weeks.forEach(week =>
+    week.courses
+      .filter(course => !matches.has(course))
+      .forEach(course => (course.previousIds ?? []).some(previousId => claim(week, course, previousId)))
+  );
+
+  return {
+    weeks: weeks.map(week => ({
+      ...week,
+      courses: week.courses.map(course => {
+        const entry = matches.get(course);
+        return entry ? applyStoredCourseProgress(course, entry.progress) : course;
+      })
+    })),
+    orphanedProgress: entries.filter(entry => !claimed.has(entry) && hasStoredProgress(entry.progress))
+  };
+};
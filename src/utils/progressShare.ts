@@ -0,0 +1,240 @@
+/**
+ * Progress share utilities
+ * Packs the status and dates of every course into a URL fragment, so a link shows the progress read-only
+ * without any server; fragments are never sent with the request
+ */
+
+import { CourseStatus, CurriculumState, StoredCourseProgress, StoredData } from '../types/curriculum';
+import { getInitialCurriculumState, isRegisteredCurriculum } from '../data/initialCurriculum';
+import { COURSE_STATUSES } from './courseStatus';
+import { curriculumStateToStoredData, STORAGE_VERSION } from './localStorage';
+
+// Constants
+const SHARE_FORMAT_VERSION = 1;
+export const SHARE_PATH = '/share';
+const SHARE_FRAGMENT_PARAM = 'p';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Enough for the five statuses
+const STATUS_BITS = 3;
+
+/**
+ * Progress read from a share link
+ */
+export interface SharedProgress {
+  curriculumId: string;
+  /** Day the link was created */
+  sharedAt: Date;
+  /** Status and dates of the courses; dates are whole days */
+  data: StoredData;
+}
+
+/**
+ * Error thrown when a share link cannot be read
+ */
+export class ProgressShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressShareError';
+  }
+}
+
+/**
+ * Days since the epoch of the calendar date a learner picked, so the link shows the same date in any time zone
+ */
+const toDayNumber = (date: Date): number =>
+  Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+
+const fromDayNumber = (day: number): Date => {
+  const utc = new Date(day * DAY_MS);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
+
+/**
+ * 16-bit FNV-1a hash of the course ids, to notice links made for another version of the curriculum
+ */
+const hashCourseIds = (courseIds: string[]): number => {
+  let hash = 0x811c9dc5;
+  for (const char of courseIds.join(',')) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash ^ (hash >>> 16)) & 0xffff;
+};
+
+const writeVarint = (bytes: number[], value: number): void => {
+  let rest = value;
+  while (rest >= 0x80) {
+    bytes.push((rest & 0x7f) | 0x80);
+    rest = Math.floor(rest / 0x80);
+  }
+  bytes.push(rest);
+};
+
+/**
+ * Write flags or small numbers packed into as few bytes as possible
+ */
+const writeBits = (bytes: number[], values: number[], bitsPerValue: number): void => {
+  const packed = new Array<number>(Math.ceil(values.length * bitsPerValue / 8)).fill(0);
+  values.forEach((value, index) => {
+    for (let bit = 0; bit < bitsPerValue; bit++) {
+      if (value & (1 << bit)) {
+        const position = index * bitsPerValue + bit;
+        packed[position >> 3] |= 1 << (position & 7);
+      }
+    }
+  });
+  bytes.push(...packed);
+};
+
+/**
+ * Sequential reader of the packed bytes
+ */
+const createReader = (bytes: Uint8Array) => {
+  let offset = 0;
+  const readByte = (): number => {
+    if (offset >= bytes.length) throw new ProgressShareError('공유 링크가 잘렸습니다. 링크 전체를 복사했는지 확인하세요.');
+    return bytes[offset++];
+  };
+
+  return {
+    readByte,
+    readVarint: (): number => {
+      let value = 0;
+      for (let scale = 1; ; scale *= 0x80) {
+        const byte = readByte();
+        value += (byte & 0x7f) * scale;
+        if (!(byte & 0x80)) return value;
+      }
+    },
+    readBytes: (length: number): Uint8Array => {
+      if (offset + length > bytes.length) throw new ProgressShareError('공유 링크가 잘렸습니다. 링크 전체를 복사했는지 확인하세요.');
+      offset += length;
+      return bytes.subarray(offset - length, offset);
+    },
+    readBits: (count: number, bitsPerValue: number): number[] => {
+      const packed: number[] = [];
+      for (let index = Math.ceil(count * bitsPerValue / 8); index > 0; index--) packed.push(readByte());
+      return Array.from({ length: count }, (_, index) => {
+        let value = 0;
+        for (let bit = 0; bit < bitsPerValue; bit++) {
+          const position = index * bitsPerValue + bit;
+          if (packed[position >> 3] & (1 << (position & 7))) value |= 1 << bit;
+        }
+        return value;
+      });
+    }
+  };
+};
+
+const toBase64Url = (bytes: number[]): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array => {
+  try {
+    return Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+  } catch {
+    throw new ProgressShareError('공유 링크의 형식이 올바르지 않습니다.');
+  }
+};
+
+/**
+ * Encode the progress of a curriculum for a share link
+ * Courses are taken in the order of the curriculum definition; courses added in the structure editor are left out
+ * @returns The value of the URL fragment
+ */
+export const encodeSharedProgress = (state: CurriculumState, curriculumId: string, now: Date = new Date()): string => {
+  const courses = getInitialCurriculumState(curriculumId).weeks.flatMap(week => week.courses);
+  // Look courses up by id alone, so courses moved to another week in the editor are still found
+  const progressById = new Map<string, StoredCourseProgress>(
+    Object.values(curriculumStateToStoredData(state).curriculum).flatMap(week => Object.entries(week))
+  );
+  const progress = courses.map(course => progressById.get(course.id));
+  const dates = progress.flatMap(item => [item?.startDate, item?.endDate])
+    .filter((date): date is string => date !== undefined)
+    .map(date => toDayNumber(new Date(date)));
+  // Dates are written relative to the earliest one, which keeps the numbers short
+  const baseDay = Math.min(toDayNumber(now), ...dates);
+
+  const bytes: number[] = [SHARE_FORMAT_VERSION];
+  const idBytes = new TextEncoder().encode(curriculumId);
+  writeVarint(bytes, idBytes.length);
+  bytes.push(...idBytes);
+  writeVarint(bytes, courses.length);
+  const hash = hashCourseIds(courses.map(course => course.id));
+  bytes.push(hash & 0xff, hash >> 8);
+  writeVarint(bytes, baseDay);
+  writeVarint(bytes, toDayNumber(now) - baseDay);
+  writeBits(bytes, progress.map(item => COURSE_STATUSES.indexOf(item?.status ?? 'not-started')), STATUS_BITS);
+  writeBits(bytes, progress.map(item => item?.startDate ? 1 : 0), 1);
+  writeBits(bytes, progress.map(item => item?.endDate ? 1 : 0), 1);
+  dates.forEach(day => writeVarint(bytes, day - baseDay));
+
+  return toBase64Url(bytes);
+};
+
+/**
+ * Read progress encoded by encodeSharedProgress
+ * @throws ProgressShareError when the value is damaged or was made for another version of the curriculum
+ */
+export const decodeSharedProgress = (value: string): SharedProgress => {
+  const reader = createReader(fromBase64Url(value));
+  if (reader.readByte() !== SHARE_FORMAT_VERSION) {
+    throw new ProgressShareError('이 버전에서 열 수 없는 공유 링크입니다.');
+  }
+
+  const curriculumId = new TextDecoder().decode(reader.readBytes(reader.readVarint()));
+  if (!isRegisteredCurriculum(curriculumId)) {
+    throw new ProgressShareError(`'${curriculumId}' 트랙을 찾을 수 없습니다.`);
+  }
+  const weeks = getInitialCurriculumState(curriculumId).weeks;
+  const courses = weeks.flatMap(week => week.courses.map(course => ({ weekId: week.id, courseId: course.id })));
+  const courseCount = reader.readVarint();
+  const hash = reader.readByte() | (reader.readByte() << 8);
+  if (courseCount !== courses.length || hash !== hashCourseIds(courses.map(course => course.courseId))) {
+    throw new ProgressShareError('링크를 만든 뒤 커리큘럼의 과정이 바뀌어 진행 현황을 보여줄 수 없습니다.');
+  }
+
+  const baseDay = reader.readVarint();
+  const sharedAt = fromDayNumber(baseDay + reader.readVarint());
+  const statuses = reader.readBits(courseCount, STATUS_BITS);
+  const hasStartDate = reader.readBits(courseCount, 1);
+  const hasEndDate = reader.readBits(courseCount, 1);
+  const readDate = () => fromDayNumber(baseDay + reader.readVarint()).toISOString();
+
+  const curriculum: StoredData['curriculum'] = {};
+  courses.forEach(({ weekId, courseId }, index) => {
+    const status: CourseStatus | undefined = COURSE_STATUSES[statuses[index]];
+    if (!status) throw new ProgressShareError('공유 링크의 형식이 올바르지 않습니다.');
+
+    const course: StoredCourseProgress = { status };
+    if (hasStartDate[index]) course.startDate = readDate();
+    if (hasEndDate[index]) course.endDate = readDate();
+    (curriculum[weekId.toString()] ??= {})[courseId] = course;
+  });
+
+  return {
+    curriculumId,
+    sharedAt,
+    data: { version: STORAGE_VERSION, lastUpdated: sharedAt.toISOString(), curriculum }
+  };
+};
+
+/**
+ * Build the link that shows the progress read-only
+ * @param origin Origin of the app, e.g. window.location.origin
+ */
+export const getProgressShareUrl = (origin: string, state: CurriculumState, curriculumId: string, now?: Date): string =>
+  `${origin}${SHARE_PATH}#${SHARE_FRAGMENT_PARAM}=${encodeSharedProgress(state, curriculumId, now)}`;
+
+/**
+ * Read the progress from the fragment of a share link
+ * @param hash window.location.hash, with or without the leading '#'
+ * @throws ProgressShareError when the fragment holds no readable progress
+ */
+export const readSharedProgressFromHash = (hash: string): SharedProgress => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_FRAGMENT_PARAM);
+  if (!value) {
+    throw new ProgressShareError('링크에 진행 현황이 없습니다. 공유받은 링크 전체를 열어 주세요.');
+  }
+  return decodeSharedProgress(value);
+};
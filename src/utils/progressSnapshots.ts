@@ -0,0 +1,132 @@
+/**
+ * Progress snapshot utilities
+ * Keeps rolling copies of the saved progress of a curriculum (one a day, and one before each import, restore or reset)
+ * so an earlier state can be brought back after undo history is gone
+ */
+
+import { CurriculumState, StoredData } from '../types/curriculum';
+import { DEFAULT_CURRICULUM_ID } from '../data/initialCurriculum';
+import { curriculumStateToStoredData, getStorageInfo, getStorageKey, validateStoredData } from './localStorage';
+import { createLocalStorageAdapter, StorageAdapter } from './storageAdapters';
+import { isSameDay } from './dateValidation';
+
+// Constants
+const localStorageAdapter = createLocalStorageAdapter();
+
+/**
+ * Why a snapshot was taken
+ * - daily: the first save of each day
+ * - pre-import: just before a progress file was imported
+ * - pre-restore: just before another snapshot was restored
+ * - pre-reset: just before progress was reset
+ */
+export type ProgressSnapshotKind = 'daily' | 'pre-import' | 'pre-restore' | 'pre-reset';
+
+/** Snapshots kept of each kind; the oldest is dropped when a new one is taken */
+export const PROGRESS_SNAPSHOT_LIMITS: Record<ProgressSnapshotKind, number> = {
+  daily: 7,
+  'pre-import': 5,
+  'pre-restore': 5,
+  'pre-reset': 5
+};
+
+export const PROGRESS_SNAPSHOT_KIND_LABELS: Record<ProgressSnapshotKind, string> = {
+  daily: '일일 스냅샷',
+  'pre-import': '가져오기 전',
+  'pre-restore': '복원 전',
+  'pre-reset': '초기화 전'
+};
+
+export interface ProgressSnapshot {
+  /** Unique within the curriculum */
+  id: string;
+  kind: ProgressSnapshotKind;
+  /** When the snapshot was taken (ISO string) */
+  createdAt: string;
+  /** Overall progress in percent at that time */
+  overallProgress: number;
+  data: StoredData;
+}
+
+/**
+ * Get the storage key holding the snapshots of a curriculum
+ */
+export const getSnapshotStorageKey = (curriculumId: string = DEFAULT_CURRICULUM_ID): string =>
+  `${getStorageKey(curriculumId)}:snapshots`;
+
+const isProgressSnapshot = (value: unknown): value is ProgressSnapshot => {
+  if (typeof value !== 'object' || value === null) return false;
+  const snapshot = value as Record<string, unknown>;
+  return (
+    typeof snapshot.id === 'string' &&
+    typeof snapshot.kind === 'string' && snapshot.kind in PROGRESS_SNAPSHOT_LIMITS &&
+    typeof snapshot.createdAt === 'string' &&
+    typeof snapshot.overallProgress === 'number' &&
+    validateStoredData(snapshot.data)
+  );
+};
+
+/**
+ * Load the snapshots of a curriculum, newest first
+ * Unreadable entries are skipped
+ */
+export const loadProgressSnapshots = async (
+  curriculumId: string = DEFAULT_CURRICULUM_ID,
+  storage: StorageAdapter = localStorageAdapter
+): Promise<ProgressSnapshot[]> => {
+  try {
+    const serialized = await storage.load(getSnapshotStorageKey(curriculumId));
+    if (!serialized) return [];
+
+    const parsed: unknown = JSON.parse(serialized);
+    return Array.isArray(parsed)
+      ? parsed.filter(isProgressSnapshot).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      : [];
+  } catch (error) {
+    console.error('Failed to load progress snapshots:', error);
+    return [];
+  }
+};
+
+/**
+ * Take a snapshot of the saved progress, dropping the oldest of its kind beyond PROGRESS_SNAPSHOT_LIMITS
+ * Nothing is taken while no progress is saved for the curriculum
+ * @param state State whose progress is saved, used for the payload and the overall progress
+ * @returns The snapshot, or null when none was taken
+ */
+export const takeProgressSnapshot = async (
+  state: CurriculumState,
+  kind: ProgressSnapshotKind,
+  curriculumId: string = DEFAULT_CURRICULUM_ID,
+  storage: StorageAdapter = localStorageAdapter,
+  now: Date = new Date()
+): Promise<ProgressSnapshot | null> => {
+  try {
+    const { hasData } = await getStorageInfo(curriculumId, storage);
+    if (!hasData) return null;
+
+    const createdAt = now.toISOString();
+    const snapshot: ProgressSnapshot = {
+      id: `${kind}-${now.getTime()}`,
+      kind,
+      createdAt,
+      overallProgress: state.overallProgress,
+      data: { ...curriculumStateToStoredData(state), lastUpdated: createdAt }
+    };
+
+    const snapshots = [snapshot, ...(await loadProgressSnapshots(curriculumId, storage))];
+    let sameKindCount = 0;
+    const kept = snapshots.filter(item => item.kind !== kind || ++sameKindCount <= PROGRESS_SNAPSHOT_LIMITS[kind]);
+    await storage.save(getSnapshotStorageKey(curriculumId), JSON.stringify(kept));
+    return snapshot;
+  } catch (error) {
+    console.error('Failed to take progress snapshot:', error);
+    return null;
+  }
+};
+
+/**
+ * Check whether a daily snapshot is still due on the given day
+ */
+export const isDailySnapshotDue = (snapshots: ProgressSnapshot[], now: Date = new Date()): boolean =>
+  !snapshots.some(snapshot => snapshot.kind === 'daily' && isSameDay(new Date(snapshot.createdAt), now));
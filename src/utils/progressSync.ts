@@ -0,0 +1,120 @@
+/**
+ * Progress sync utilities
+ * Reads and writes the StoredData payload of a curriculum through the /api/progress route,
+ * using ETags so a write never silently replaces progress saved from another device
+ */
+
+import { StoredData } from '../types/curriculum';
+import { parseProgressImport } from './progressTransfer';
+import { DEFAULT_PROFILE_ID } from './learnerProfiles';
+
+// Constants
+export const DEFAULT_PROGRESS_SYNC_ENDPOINT = '/api/progress';
+
+/**
+ * State of the server copy, shown to the learner
+ * - disabled: the provider was not given an endpoint
+ * - offline: the server could not be reached; progress is only saved in this browser until it can
+ * - conflict: the server holds progress saved elsewhere since this browser last synced
+ */
+export type ProgressSyncStatus = 'disabled' | 'syncing' | 'synced' | 'offline' | 'conflict';
+
+/**
+ * Progress saved on the server with the ETag it was served with
+ */
+export interface RemoteProgress {
+  data: StoredData;
+  etag: string;
+}
+
+export type ProgressPushResult =
+  | { status: 'saved'; etag: string }
+  | { status: 'conflict'; remote: RemoteProgress | null };
+
+/**
+ * Error thrown when the server cannot be reached or answers with an unexpected status
+ */
+export class ProgressSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressSyncError';
+  }
+}
+
+const getProgressUrl = (endpoint: string, curriculumId: string, profileId: string): string =>
+  `${endpoint}?curriculumId=${encodeURIComponent(curriculumId)}` +
+  (profileId === DEFAULT_PROFILE_ID ? '' : `&profileId=${encodeURIComponent(profileId)}`);
+
+const request = async (url: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, { cache: 'no-store', ...init });
+  } catch (error) {
+    throw new ProgressSyncError(`Cannot reach ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Read a progress response; payloads saved by an older version are upgraded
+ * @throws ProgressSyncError when the body cannot be read or is not valid progress data
+ */
+const readRemoteProgress = async (response: Response): Promise<RemoteProgress> => {
+  try {
+    return {
+      data: parseProgressImport(await response.text()),
+      etag: response.headers.get('ETag') ?? ''
+    };
+  } catch (error) {
+    throw new ProgressSyncError(`Cannot read progress from the server: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Fetch the progress saved on the server
+ * @returns The saved progress, or null when the server has none
+ * @throws ProgressSyncError when the server cannot be reached or answers with unreadable progress
+ */
+export const fetchRemoteProgress = async (
+  endpoint: string,
+  curriculumId: string,
+  profileId: string = DEFAULT_PROFILE_ID
+): Promise<RemoteProgress | null> => {
+  const response = await request(getProgressUrl(endpoint, curriculumId, profileId));
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new ProgressSyncError(`Fetching progress failed with status ${response.status}`);
+  }
+  return readRemoteProgress(response);
+};
+
+/**
+ * Save progress on the server unless it changed there since it was last read
+ * @param etag ETag of the server copy this browser last saw; null when it saw none
+ * @throws ProgressSyncError when the server cannot be reached, rejects the payload or answers a conflict with unreadable progress
+ */
+export const pushRemoteProgress = async (
+  endpoint: string,
+  curriculumId: string,
+  data: StoredData,
+  etag: string | null,
+  profileId: string = DEFAULT_PROFILE_ID
+): Promise<ProgressPushResult> => {
+  const response = await request(getProgressUrl(endpoint, curriculumId, profileId), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' })
+    },
+    body: JSON.stringify(data)
+  });
+
+  if (response.status === 412) {
+    return {
+      status: 'conflict',
+      remote: response.headers.get('ETag') ? await readRemoteProgress(response) : null
+    };
+  }
+  if (!response.ok) {
+    throw new ProgressSyncError(`Saving progress failed with status ${response.status}`);
+  }
+  return { status: 'saved', etag: response.headers.get('ETag') ?? '' };
+};
@@ -0,0 +1,225 @@
+/**
+ * Progress transfer utilities
+ * Exports progress as a JSON file, and previews and applies progress files imported from another browser
+ */
+
+import { Course, CurriculumState, OrphanedProgress, StoredData, Week } from '../types/curriculum';
+import {
+  curriculumStateToStoredData,
+  STORAGE_VERSION,
+  storedDataToCurriculumState,
+  validateStoredData
+} from './localStorage';
+import { migrateStoredData, StorageMigrationError } from './storageMigrations';
+import { applyStoredCourseProgress, isSameOrphanedProgress, reconcileStoredProgress } from './progressReconciliation';
+import { hasCourseProgress } from './curriculumEditor';
+import { formatLocalDate } from './progressExport';
+
+// Constants
+export const PROGRESS_EXPORT_MIME_TYPE = 'application/json';
+
+/**
+ * How an imported file is applied: replace all progress, or merge keeping the newer side of each course
+ */
+export type ProgressImportMode = 'replace' | 'merge-newer';
+
+/**
+ * Course fields compared in the import preview
+ */
+export type ProgressDiffField = 'status' | 'startDate' | 'endDate';
+
+export interface ProgressFieldChange {
+  field: ProgressDiffField;
+  /** Status or ISO date; undefined when not set */
+  current?: string;
+  imported?: string;
+}
+
+export interface ProgressDiffEntry {
+  weekId: number;
+  courseId: string;
+  courseName: string;
+  changes: ProgressFieldChange[];
+  /** Side of the course that merge-newer keeps */
+  mergeKeeps: 'current' | 'imported';
+}
+
+export interface ProgressImportPreview {
+  /** Courses whose status or dates differ */
+  entries: ProgressDiffEntry[];
+  /** Entries of the file that match no course; they are kept as orphaned progress */
+  unmatchedCount: number;
+  /** True when the file was saved after the progress in this browser */
+  isImportNewer: boolean;
+}
+
+/**
+ * Error thrown when a progress file cannot be imported; the message is shown to the learner
+ */
+export class ProgressImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressImportError';
+  }
+}
+
+/**
+ * Get the file name of a progress export, e.g. "curriculum-progress-frontend-2024-01-31-김하나.json"
+ * The date is the local one, like in the CSV and XLSX file names
+ * @param learnerName Name of the learner profile, left out when omitted
+ */
+export const getProgressExportFileName = (curriculumId: string, date: Date = new Date(), learnerName?: string): string => {
+  const learnerPart = learnerName ? `-${learnerName.trim().replace(/[\\/:*?"<>|\s]+/g, '-')}` : '';
+  return `curriculum-progress-${curriculumId}-${formatLocalDate(date)}${learnerPart}.json`;
+};
+
+/**
+ * Serialize progress as the StoredData payload kept in localStorage
+ * @param curriculumId Track of the progress, saved next to the payload so a file is not applied to another track
+ * @param learnerName Name of the learner profile, saved next to the payload as `learner` so files can be told apart
+ */
+export const serializeProgressExport = (state: CurriculumState, curriculumId: string, learnerName?: string): string =>
+  JSON.stringify({
+    ...curriculumStateToStoredData(state),
+    curriculumId,
+    ...(learnerName ? { learner: learnerName } : {})
+  }, null, 2);
+
+/**
+ * Parse and validate the content of a progress file, and read the track and learner it belongs to
+ * Files exported by an older version are upgraded through the storage migrations first;
+ * they were saved without a track, so curriculumId is left out for them
+ * @throws ProgressImportError when the file is not valid progress data
+ */
+export const parseProgressExport = (text: string): { data: StoredData; curriculumId?: string; learnerName?: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProgressImportError('JSON 형식이 아닌 파일입니다.');
+  }
+
+  let curriculumId: string | undefined;
+  let learnerName: string | undefined;
+  if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+    // The track and the learner are not part of the progress, so they are never saved with an import
+    const { curriculumId: track, learner, ...record } = data as Record<string, unknown>;
+    if (typeof track === 'string' && track) curriculumId = track;
+    if (typeof learner === 'string' && learner.trim()) learnerName = learner.trim();
+    data = record;
+    if (record.version && record.version !== STORAGE_VERSION) {
+      try {
+        data = migrateStoredData(record, STORAGE_VERSION).data;
+      } catch (error) {
+        if (!(error instanceof StorageMigrationError)) throw error;
+        throw new ProgressImportError(`지원하지 않는 저장 형식 버전입니다: ${error.version}`);
+      }
+    }
+  }
+
+  if (!validateStoredData(data)) {
+    throw new ProgressImportError('진행 기록 파일의 형식이 올바르지 않습니다.');
+  }
+  return { data, ...(curriculumId ? { curriculumId } : {}), ...(learnerName ? { learnerName } : {}) };
+};
+
+/**
+ * Parse and validate the content of a progress file to import
+ * @throws ProgressImportError when the file is not valid progress data
+ */
+export const parseProgressImport = (text: string): StoredData => parseProgressExport(text).data;
+
+/**
+ * Check whether a file was saved after the local progress
+ * @param localLastUpdated lastUpdated of the progress saved in this browser, if any
+ */
+export const isImportNewer = (data: StoredData, localLastUpdated?: string): boolean =>
+  !localLastUpdated || Date.parse(data.lastUpdated) > Date.parse(localLastUpdated);
+
+/**
+ * Apply a file's progress to the current courses; courses the file has no entry for are left without progress
+ */
+const applyImportedProgress = (weeks: Week[], data: StoredData): { weeks: Week[]; orphanedProgress: OrphanedProgress[] } => {
+  const blankWeeks = weeks.map(week => ({
+    ...week,
+    courses: week.courses.map(course => applyStoredCourseProgress(course, { status: 'not-started' }))
+  }));
+  return reconcileStoredProgress(blankWeeks, data.curriculum);
+};
+
+const getFieldValue = (course: Course, field: ProgressDiffField): string | undefined =>
+  field === 'status' ? course.status : course[field]?.toISOString();
+
+const keepsImported = (current: Course, imported: Course, importNewer: boolean): boolean =>
+  hasCourseProgress(imported) && (importNewer || !hasCourseProgress(current));
+
+/**
+ * Compare the courses of the current state with a progress file
+ * @param importNewer Whether the file is newer than the local progress (see isImportNewer)
+ */
+export const createProgressImportPreview = (
+  state: CurriculumState,
+  data: StoredData,
+  importNewer: boolean
+): ProgressImportPreview => {
+  const imported = applyImportedProgress(state.weeks, data);
+  const fields: ProgressDiffField[] = ['status', 'startDate', 'endDate'];
+
+  const entries = state.weeks.flatMap((week, weekIndex) =>
+    week.courses.flatMap((course, courseIndex): ProgressDiffEntry[] => {
+      const importedCourse = imported.weeks[weekIndex].courses[courseIndex];
+      const changes = fields
+        .map(field => ({ field, current: getFieldValue(course, field), imported: getFieldValue(importedCourse, field) }))
+        .filter(change => change.current !== change.imported);
+
+      return changes.length > 0
+        ? [{
+            weekId: week.id,
+            courseId: course.id,
+            courseName: course.name,
+            changes,
+            mergeKeeps: keepsImported(course, importedCourse, importNewer) ? 'imported' : 'current'
+          }]
+        : [];
+    })
+  );
+
+  return { entries, unmatchedCount: imported.orphanedProgress.length, isImportNewer: importNewer };
+};
+
+/**
+ * Build the state that results from importing a progress file
+ * Replace takes the file as it is, including an edited structure. Merge keeps the current structure;
+ * for each course the file wins when it is newer or the course has no progress here, and progress is never erased.
+ * @param initialState State of the curriculum definition without progress, used when replacing
+ */
+export const applyProgressImport = (
+  state: CurriculumState,
+  initialState: CurriculumState,
+  data: StoredData,
+  mode: ProgressImportMode,
+  importNewer: boolean
+): CurriculumState => {
+  if (mode === 'replace') {
+    return storedDataToCurriculumState(data, initialState);
+  }
+
+  const imported = applyImportedProgress(state.weeks, data);
+  const currentOrphans = state.orphanedProgress ?? [];
+  const orphanedProgress = [
+    ...currentOrphans,
+    ...imported.orphanedProgress.filter(orphan => !currentOrphans.some(item => isSameOrphanedProgress(item, orphan)))
+  ];
+
+  return {
+    ...state,
+    weeks: state.weeks.map((week, weekIndex) => ({
+      ...week,
+      courses: week.courses.map((course, courseIndex) => {
+        const importedCourse = imported.weeks[weekIndex].courses[courseIndex];
+        return keepsImported(course, importedCourse, importNewer) ? importedCourse : course;
+      })
+    })),
+    ...(orphanedProgress.length > 0 ? { orphanedProgress } : {})
+  };
+};
@@ -0,0 +1,53 @@
+/**
+ * Resource link utilities
+ * Labels, icons and checks for the links attached to a course
+ */
+
+import { Course, ResourceLinkType } from '../types/curriculum';
+
+// Constants
+export const RESOURCE_LINK_TYPES: ResourceLinkType[] = ['lecture', 'repo', 'pr', 'docs', 'other'];
+
+export const RESOURCE_LINK_LABELS: Record<ResourceLinkType, string> = {
+  lecture: '강의',
+  repo: '저장소',
+  pr: 'PR',
+  docs: '문서',
+  other: '기타'
+};
+
+export const RESOURCE_LINK_ICONS: Record<ResourceLinkType, string> = {
+  lecture: '🎬',
+  repo: '📦',
+  pr: '🔀',
+  docs: '📄',
+  other: '🔗'
+};
+
+const WEB_URL_PATTERN = /^https?:\/\/\S+$/i;
+
+/**
+ * Check whether a value is a known resource link type
+ */
+export const isResourceLinkType = (value: unknown): value is ResourceLinkType =>
+  typeof value === 'string' && (RESOURCE_LINK_TYPES as string[]).includes(value);
+
+/**
+ * Check whether a value is a web (http or https) URL that is safe to link to
+ */
+export const isWebUrl = (value: unknown): value is string =>
+  typeof value === 'string' && WEB_URL_PATTERN.test(value.trim());
+
+/**
+ * Generate an id for a link the learner adds, unique within its course
+ */
+export const generateResourceLinkId = (course: Course): string => {
+  const usedIds = new Set((course.resources ?? []).map(link => link.id));
+  let sequence = usedIds.size + 1;
+
+  while (usedIds.has(`link-${sequence}`)) {
+    sequence++;
+  }
+
+  return `link-${sequence}`;
+};
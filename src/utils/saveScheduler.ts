@@ -0,0 +1,114 @@
+/**
+ * Save scheduling utilities
+ * Debounces saves so a burst of changes is written once, writes one at a time in order,
+ * and reports the state of the latest write for the save indicator
+ */
+
+// Constants
+export const SAVE_DEBOUNCE_MS = 800;
+
+/**
+ * State of saving shown to the learner
+ * - idle: nothing was changed since the progress was loaded
+ * - saving: a change is waiting to be written or being written
+ * - saved: the latest change was written
+ * - failed: the latest write failed; it can be retried
+ */
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'failed';
+
+export interface SaveSchedulerOptions<T> {
+  /** Write an item; resolves to false (or rejects) when it could not be written */
+  save: (item: T) => Promise<boolean>;
+  onStatusChange: (status: SaveStatus) => void;
+  /** Wait after the last change before writing; 0 writes every change right away */
+  delayMs?: number;
+  /** Combine a waiting item with a newer one; the newer one replaces it by default */
+  coalesce?: (pending: T, next: T) => T;
+}
+
+export interface SaveScheduler<T> {
+  /** Queue an item, restarting the wait */
+  schedule: (item: T) => void;
+  /** Write the waiting item now; resolves once every started write is done */
+  flush: () => Promise<void>;
+  /** Write the item whose write failed last again */
+  retry: () => Promise<void>;
+  /** True while an item is waiting or being written */
+  hasUnsavedChanges: () => boolean;
+  /** Stop the timer without writing */
+  dispose: () => void;
+}
+
+/**
+ * Create a scheduler that debounces and serializes saves
+ */
+export const createSaveScheduler = <T>({
+  save,
+  onStatusChange,
+  delayMs = SAVE_DEBOUNCE_MS,
+  coalesce = (_pending, next) => next
+}: SaveSchedulerOptions<T>): SaveScheduler<T> => {
+  let pending: { item: T } | null = null;
+  let failed: { item: T } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let activeWrites = 0;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const write = async (item: T) => {
+    let isSaved = false;
+    try {
+      isSaved = await save(item);
+    } catch (error) {
+      console.error('Failed to save progress:', error);
+    }
+    activeWrites--;
+
+    // A newer item supersedes this one; its write decides the status
+    if (pending || activeWrites > 0) return;
+    failed = isSaved ? null : { item };
+    onStatusChange(isSaved ? 'saved' : 'failed');
+  };
+
+  const flush = (): Promise<void> => {
+    clearTimer();
+    if (pending) {
+      const { item } = pending;
+      pending = null;
+      activeWrites++;
+      writing = writing.then(() => write(item));
+    }
+    return writing;
+  };
+
+  return {
+    schedule: item => {
+      pending = { item: pending ? coalesce(pending.item, item) : item };
+      failed = null;
+      onStatusChange('saving');
+      clearTimer();
+      if (delayMs <= 0) {
+        void flush();
+      } else {
+        timer = setTimeout(() => void flush(), delayMs);
+      }
+    },
+    flush,
+    retry: () => {
+      if (failed && !pending) {
+        pending = failed;
+        failed = null;
+        onStatusChange('saving');
+      }
+      return flush();
+    },
+    hasUnsavedChanges: () => pending !== null || activeWrites > 0,
+    dispose: clearTimer
+  };
+};
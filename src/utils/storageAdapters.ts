@@ -0,0 +1,154 @@
+/**
+ * Storage adapter utilities
+ * Async key-value backends for saved progress: IndexedDB (default), localStorage and in-memory
+ */
+
+// Constants
+const DEFAULT_DATABASE_NAME = 'curriculum-progress-tracker';
+const DEFAULT_STORE_NAME = 'progress';
+const DATABASE_VERSION = 1;
+
+/**
+ * Backend that saved progress is written to; values are serialized StoredData strings
+ */
+export interface StorageAdapter {
+  /** Short name used in log messages, e.g. "indexedDB" */
+  readonly name: string;
+  /** Check whether the backend works in this browser (e.g. not blocked in private mode) */
+  isAvailable: () => Promise<boolean>;
+  /** Read a value; null when nothing is saved under the key */
+  load: (key: string) => Promise<string | null>;
+  save: (key: string, value: string) => Promise<void>;
+  clear: (key: string) => Promise<void>;
+}
+
+export interface IndexedDBStorageAdapterOptions {
+  databaseName?: string;
+  storeName?: string;
+  /** Storage used by earlier versions; values found only there are moved into IndexedDB on first load */
+  legacyStorage?: StorageAdapter;
+}
+
+/**
+ * Create an adapter backed by window.localStorage
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'localStorage',
+  isAvailable: async () => {
+    try {
+      const testKey = '__localStorage_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (error) {
+      console.warn('LocalStorage is not available:', error);
+      return false;
+    }
+  },
+  load: async key => localStorage.getItem(key),
+  save: async (key, value) => localStorage.setItem(key, value),
+  clear: async key => localStorage.removeItem(key)
+});
+
+/**
+ * Create an adapter that keeps values in memory only, e.g. for tests or when no browser storage works
+ * @param initialValues Values to start with, by key
+ */
+export const createMemoryStorageAdapter = (initialValues: Record<string, string> = {}): StorageAdapter => {
+  const values = new Map(Object.entries(initialValues));
+
+  return {
+    name: 'memory',
+    isAvailable: async () => true,
+    load: async key => values.get(key) ?? null,
+    save: async (key, value) => {
+      values.set(key, value);
+    },
+    clear: async key => {
+      values.delete(key);
+    }
+  };
+};
+
+/**
+ * Create an adapter backed by an IndexedDB object store
+ * The database is opened on first use; a failed open is retried on the next call
+ */
+export const createIndexedDBStorageAdapter = (options: IndexedDBStorageAdapterOptions = {}): StorageAdapter => {
+  const { databaseName = DEFAULT_DATABASE_NAME, storeName = DEFAULT_STORE_NAME, legacyStorage } = options;
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(databaseName, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      databasePromise.catch(() => {
+        databasePromise = null;
+      });
+    }
+    return databasePromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    name: 'indexedDB',
+    isAvailable: async () => {
+      if (typeof indexedDB === 'undefined') return false;
+      try {
+        await openDatabase();
+        return true;
+      } catch (error) {
+        console.warn('IndexedDB is not available:', error);
+        return false;
+      }
+    },
+    load: async key => {
+      const value = await run<unknown>('readonly', store => store.get(key));
+      if (typeof value === 'string') return value;
+      if (!legacyStorage || !(await legacyStorage.isAvailable())) return null;
+
+      // Move the value out of the legacy storage so both never hold diverging copies
+      const legacyValue = await legacyStorage.load(key);
+      if (legacyValue === null) return null;
+
+      await run('readwrite', store => store.put(legacyValue, key));
+      await legacyStorage.clear(key);
+      return legacyValue;
+    },
+    save: async (key, value) => {
+      await run('readwrite', store => store.put(value, key));
+    },
+    clear: async key => {
+      await run('readwrite', store => store.delete(key));
+      // A copy left in the legacy storage would be moved back on the next load
+      if (legacyStorage && (await legacyStorage.isAvailable())) {
+        await legacyStorage.clear(key);
+      }
+    }
+  };
+};
+
+/**
+ * Create the adapter used when CurriculumProvider is not given one:
+ * IndexedDB with automatic migration from localStorage, or localStorage where IndexedDB does not exist
+ */
+export const createDefaultStorageAdapter = (): StorageAdapter =>
+  typeof indexedDB !== 'undefined'
+    ? createIndexedDBStorageAdapter({ legacyStorage: createLocalStorageAdapter() })
+    : createLocalStorageAdapter();
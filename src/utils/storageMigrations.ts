@@ -0,0 +1,118 @@
+/**
+ * Storage migration utilities
+ * Upgrades progress saved by earlier versions step by step through an ordered registry,
+ * so a storage format change never throws away a learner's progress
+ */
+
+import { completedToStatus } from './courseStatus';
+
+/**
+ * One step that upgrades stored data from one version to the next
+ */
+export interface StorageMigration {
+  from: string;
+  to: string;
+  /** Shown to the learner after the migration ran */
+  description: string;
+  /** Upgrade the data; it is unvalidated, so missing or malformed fields must be left as they are */
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Which migrations ran when stored data was loaded
+ */
+export interface StorageMigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  applied: Pick<StorageMigration, 'from' | 'to' | 'description'>[];
+  /** localStorage key holding the original payload */
+  backupKey: string;
+}
+
+/**
+ * Error thrown when stored data cannot be upgraded to the current version
+ */
+export class StorageMigrationError extends Error {
+  readonly version: string;
+
+  constructor(version: string, targetVersion: string) {
+    super(`No storage migration from version ${version} to ${targetVersion}`);
+    this.name = 'StorageMigrationError';
+    this.version = version;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Apply an update to every course entry of stored progress
+ */
+const mapStoredCourses = (
+  data: Record<string, unknown>,
+  update: (course: Record<string, unknown>) => Record<string, unknown>
+): Record<string, unknown> => {
+  if (!isPlainObject(data.curriculum)) return data;
+
+  const curriculum = Object.fromEntries(
+    Object.entries(data.curriculum).map(([weekId, weekData]) => [
+      weekId,
+      isPlainObject(weekData)
+        ? Object.fromEntries(
+            Object.entries(weekData).map(([courseId, courseData]) => [
+              courseId,
+              isPlainObject(courseData) ? update(courseData) : courseData
+            ])
+          )
+        : weekData
+    ])
+  );
+
+  return { ...data, curriculum };
+};
+
+/**
+ * Registered migrations, oldest first
+ * Add a step here whenever the StoredData format changes, and bump STORAGE_VERSION to its `to`
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: '완료 여부를 과정 상태로 변환',
+    migrate: data => mapStoredCourses(data, course => {
+      if (course.status !== undefined || typeof course.completed !== 'boolean') return course;
+
+      const { completed, ...rest } = course;
+      return { ...rest, status: completedToStatus(completed) };
+    })
+  }
+];
+
+/**
+ * Upgrade stored data to the target version by running migrations in order
+ * @returns The upgraded data and the migrations that ran (none when already current)
+ * @throws StorageMigrationError when no chain of migrations leads to the target version
+ */
+export const migrateStoredData = (
+  data: Record<string, unknown>,
+  targetVersion: string,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): { data: Record<string, unknown>; applied: StorageMigration[] } => {
+  const startVersion = String(data.version);
+  const applied: StorageMigration[] = [];
+  let current = data;
+
+  while (current.version !== targetVersion) {
+    const migration = migrations.find(item => item.from === current.version);
+    // Each migration runs at most once, so a registry with a loop cannot hang
+    if (!migration || applied.includes(migration)) {
+      throw new StorageMigrationError(startVersion, targetVersion);
+    }
+
+    current = { ...migration.migrate(current), version: migration.to };
+    applied.push(migration);
+  }
+
+  return { data: current, applied };
+};